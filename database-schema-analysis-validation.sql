@@ -0,0 +1,37 @@
+-- Looksy - Analysis schema validation monitoring
+-- Run after database-schema-clinical-analysis.sql
+--
+-- analyze-outfit writes one audit_logs row (event_type = 'schema_validation')
+-- per model reply that needed repair. details.issues is an array of
+-- {"path", "code", "severity", "received", "repaired_to"} objects.
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_event_type ON audit_logs(event_type);
+
+-- Which fields does the model get wrong most often?
+CREATE OR REPLACE VIEW analysis_validation_field_stats AS
+SELECT
+  -- Collapse array indexes so garment_detection[0].category and [1].category group together
+  regexp_replace(issue->>'path', '\[\d+\]', '[]', 'g') AS field_path,
+  issue->>'code' AS issue_code,
+  issue->>'severity' AS severity,
+  COUNT(*) AS occurrences,
+  COUNT(DISTINCT a.outfit_id) AS affected_outfits,
+  MAX(a.created_at) AS last_seen_at
+FROM audit_logs a
+CROSS JOIN LATERAL jsonb_array_elements(a.details->'issues') AS issue
+WHERE a.event_type = 'schema_validation'
+GROUP BY 1, 2, 3
+ORDER BY occurrences DESC;
+
+-- How often does the repair re-prompt rescue a reply?
+CREATE OR REPLACE VIEW analysis_validation_attempts AS
+SELECT
+  (details->>'attempt')::INTEGER AS attempt,
+  COUNT(*) AS replies_with_issues,
+  COUNT(*) FILTER (WHERE (details->>'parsed')::BOOLEAN = false) AS unparseable,
+  COUNT(*) FILTER (WHERE (details->>'error_count')::INTEGER > 0) AS replies_with_errors,
+  ROUND(AVG((details->>'error_count')::INTEGER), 2) AS avg_errors
+FROM audit_logs
+WHERE event_type = 'schema_validation'
+GROUP BY 1
+ORDER BY 1;
@@ -0,0 +1,14 @@
+-- Looksy - Background removal for closet item images
+-- Run after database-schema-account-deletion.sql
+--
+-- When BACKGROUND_SEGMENTER is set, process-item-images segments each crop
+-- and stores a white-background product shot next to it in private-uploads
+-- ('<crop path>_product.jpg'). Closet items created from those extractions
+-- list the product shot first in image_paths and keep the raw crop after it.
+
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS product_image_path TEXT;
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS background_removal_status TEXT
+  CHECK (background_removal_status IN ('completed', 'failed')); -- NULL when background removal is off
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS background_removal_metadata JSONB; -- {"segmenter": "rembg:u2netp", "processed_at": "..."}
+
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS product_image_path TEXT; -- also image_paths[1]; the closet shows these on a white card
@@ -0,0 +1,32 @@
+-- Looksy - Bounding-box editing on the photo extraction review
+-- Run after database-schema-background-removal.sql
+--
+-- Users can move, resize, delete and draw boxes on PhotoExtractionScreen.
+-- Corrected boxes overwrite extracted_clothing_items.bounding_box; the model's
+-- box is kept in user_edited_attributes.original_bounding_box. Drawn boxes
+-- are inserted by the app with detection_source = 'manual' and described by
+-- a single-item pass of extract-closet-items.
+
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS detection_source TEXT NOT NULL DEFAULT 'ai'
+  CHECK (detection_source IN ('ai', 'manual'));
+
+-- Users add and remove their own manual boxes; detected items are only rejected
+DROP POLICY IF EXISTS "Users can add manual items to own extractions" ON extracted_clothing_items;
+CREATE POLICY "Users can add manual items to own extractions" ON extracted_clothing_items FOR INSERT WITH CHECK (
+  detection_source = 'manual'
+  AND EXISTS (
+    SELECT 1 FROM photo_extractions
+    WHERE photo_extractions.id = extracted_clothing_items.photo_extraction_id
+      AND photo_extractions.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can delete own manual items" ON extracted_clothing_items;
+CREATE POLICY "Users can delete own manual items" ON extracted_clothing_items FOR DELETE USING (
+  detection_source = 'manual'
+  AND EXISTS (
+    SELECT 1 FROM photo_extractions
+    WHERE photo_extractions.id = extracted_clothing_items.photo_extraction_id
+      AND photo_extractions.user_id = auth.uid()
+  )
+);
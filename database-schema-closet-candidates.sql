@@ -0,0 +1,16 @@
+-- Looksy - Automatic closet matching for outfit detections
+-- Run after database-schema-closet-duplicates.sql
+--
+-- After storing garment_detection rows, analyze-outfit scores each detection
+-- against the user's closet (_shared/closetMatching.ts) and inserts up to
+-- three candidates per detection with match_source = 'auto', ranked by
+-- match_confidence. Rows the user creates by confirming or merging items
+-- keep match_source = 'user'.
+
+ALTER TABLE closet_item_detections ADD COLUMN IF NOT EXISTS match_rank INTEGER; -- 1 = best candidate
+ALTER TABLE closet_item_detections ADD COLUMN IF NOT EXISTS match_source TEXT NOT NULL DEFAULT 'user'
+  CHECK (match_source IN ('auto', 'user'));
+ALTER TABLE closet_item_detections ADD COLUMN IF NOT EXISTS matched_on TEXT[] DEFAULT '{}'; -- e.g. {color,material}
+
+CREATE INDEX IF NOT EXISTS idx_closet_item_detections_ranked
+  ON closet_item_detections(garment_detection_id, match_confidence DESC);
@@ -0,0 +1,13 @@
+-- Looksy - Purchase details for closet items
+-- Run after database-schema-wear-log.sql
+--
+-- cost and purchase_date come from the original closet_items schema but were
+-- missing from some deployed tables. currency is an ISO 4217 code; the
+-- closet analytics screen only totals items in the closet's most common
+-- currency and reports the rest separately instead of converting them.
+-- Cost-per-wear divides cost by the wear count from closet_item_wear_stats.
+
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS cost DECIMAL(10,2) CHECK (cost IS NULL OR cost >= 0);
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS purchase_date DATE;
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'USD'
+  CHECK (currency IS NULL OR currency ~ '^[A-Z]{3}$');
@@ -0,0 +1,20 @@
+-- Looksy - Duplicate detection when adding items to the closet
+-- Run after database-schema-box-editing.sql
+--
+-- Before adding extracted items or outfit detections, the app matches each
+-- one against the user's closet (category, color, pattern, material, brand
+-- and image hash; see src/utils/closetMatching.ts). When the user marks a
+-- match as the same item, the candidate is linked to the existing closet
+-- item instead of creating a new row:
+--   extracted_clothing_items.matched_closet_item_id  for photo extractions
+--   closet_item_detections                          for outfit detections
+
+-- 64-bit difference hash of the item crop, written by process-item-images
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS image_dhash TEXT;
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS image_dhash TEXT;
+
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS matched_closet_item_id UUID REFERENCES closet_items(id) ON DELETE SET NULL;
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS match_confidence REAL; -- duplicate score (0-1) when linked
+
+CREATE INDEX IF NOT EXISTS idx_extracted_clothing_items_matched_closet_item
+  ON extracted_clothing_items(matched_closet_item_id) WHERE matched_closet_item_id IS NOT NULL;
@@ -0,0 +1,41 @@
+-- Looksy - User data exports
+-- Run after database-schema-original-retention.sql
+--
+-- The export-user-data edge function collects everything tied to a user
+-- into a zip in the data-exports bucket (create it as a private bucket in the
+-- Dashboard first): manifest.json, one JSON file per table and the user's
+-- stored images. Archives expire after 7 days; the next export request
+-- deletes expired archives.
+
+CREATE TABLE IF NOT EXISTS data_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed', 'expired')),
+  archive_path TEXT, -- data-exports/<user_id>/<export id>.zip
+  archive_size_bytes BIGINT,
+  manifest JSONB, -- copy of manifest.json without the image list
+  error TEXT,
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+);
+
+-- One export in progress per user. export-user-data fails exports left
+-- 'processing' for 15 minutes before starting a new one.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_data_exports_active_user
+  ON data_exports(user_id) WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_data_exports_user_id ON data_exports(user_id, requested_at DESC);
+
+-- RLS: users can see their exports. Rows are created by the edge function.
+ALTER TABLE data_exports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own data exports" ON data_exports;
+CREATE POLICY "Users can view own data exports" ON data_exports FOR SELECT USING (auth.uid() = user_id);
+
+-- Storage policies for the data exports bucket
+DROP POLICY IF EXISTS "Users can view own data export archives" ON storage.objects;
+CREATE POLICY "Users can view own data export archives" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'data-exports' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
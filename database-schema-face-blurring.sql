@@ -0,0 +1,21 @@
+-- Looksy - Face blurring for displayed photos
+-- Run after database-schema-image-hash-cache.sql
+--
+-- The blur-faces edge function reads originals from private-uploads, pixelates
+-- detected faces and writes the copy to the user-display-images bucket under
+-- the same path. Screens show the blurred copy when one exists. Users who set
+-- privacy_settings.blur_faces to false are skipped.
+
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS blurred_image_path TEXT;
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS blur_metadata JSONB; -- {"detector": "vision:openai", "faces_blurred": 1, "blurred_at": "..."}
+
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS blurred_image_paths TEXT[] DEFAULT '{}'; -- parallel to image_paths
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS blur_metadata JSONB;
+
+-- The function overwrites an earlier copy when an image is blurred again
+DROP POLICY IF EXISTS "Users can update own display images" ON storage.objects;
+CREATE POLICY "Users can update own display images" ON storage.objects
+FOR UPDATE USING (
+  bucket_id = 'user-display-images' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
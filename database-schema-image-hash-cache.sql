@@ -0,0 +1,45 @@
+-- Looksy - Image hash result cache
+-- Run after database-schema-realtime-status.sql
+--
+-- analyze-outfit and extract-closet-items hash the stored photo (SHA-256) and
+-- keep it on outfits and photo_extractions. They reuse an earlier
+-- result for the same user and hash instead of calling the vision model
+-- again, as long as the cache key still matches:
+--   outfits.analysis_cache_key           '<prompt version>:<sorted style preferences>'
+--   photo_extractions.extraction_cache_key '<prompt version>:<extraction type>'
+-- Fallback results never get a cache key, so they are never reused.
+
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS image_hash TEXT;
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS analysis_cache_key TEXT;
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS analysis_cached_from UUID REFERENCES outfits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_outfits_image_hash
+  ON outfits(user_id, image_hash, analysis_cache_key)
+  WHERE image_hash IS NOT NULL AND processing_status = 'completed';
+
+ALTER TABLE photo_extractions ADD COLUMN IF NOT EXISTS image_hash TEXT;
+ALTER TABLE photo_extractions ADD COLUMN IF NOT EXISTS extraction_type TEXT DEFAULT 'outfit'
+  CHECK (extraction_type IN ('outfit', 'individual_items'));
+ALTER TABLE photo_extractions ADD COLUMN IF NOT EXISTS extraction_result JSONB; -- parsed model reply, replayed on cache hits
+ALTER TABLE photo_extractions ADD COLUMN IF NOT EXISTS extraction_cache_key TEXT;
+ALTER TABLE photo_extractions ADD COLUMN IF NOT EXISTS extraction_cached_from UUID REFERENCES photo_extractions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_photo_extractions_image_hash
+  ON photo_extractions(user_id, image_hash, extraction_cache_key)
+  WHERE image_hash IS NOT NULL AND processing_status = 'completed';
+
+-- How often uploads are served from the cache
+CREATE OR REPLACE VIEW image_cache_hit_rates AS
+SELECT
+  'analyze-outfit' AS function_name,
+  COUNT(*) FILTER (WHERE image_hash IS NOT NULL) AS hashed_requests,
+  COUNT(*) FILTER (WHERE analysis_cached_from IS NOT NULL) AS cache_hits
+FROM outfits
+WHERE processing_status = 'completed'
+UNION ALL
+SELECT
+  'extract-closet-items' AS function_name,
+  COUNT(*) FILTER (WHERE image_hash IS NOT NULL) AS hashed_requests,
+  COUNT(*) FILTER (WHERE extraction_cached_from IS NOT NULL) AS cache_hits
+FROM photo_extractions
+WHERE processing_status = 'completed';
@@ -0,0 +1,18 @@
+-- Looksy - Outfit context
+-- Run after database-schema-style-feedback.sql
+--
+-- What the user said an outfit is for, chosen on the upload screen before
+-- analysis: {"occasion": "interview", "dress_code": "business",
+-- "setting": "indoor", "note": "..."}. Every key may be null; outfits
+-- uploaded without context keep a NULL column. Option ids are listed in
+-- supabase/functions/_shared/occasion.ts.
+--
+-- The analysis uses it in the prompt and for the expected formality; the
+-- outfit history filters on context->>'occasion'.
+
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS context JSONB;
+
+COMMENT ON COLUMN outfits.context IS 'Occasion, dress code, setting and note the outfit was analyzed for (see _shared/occasion.ts)';
+
+CREATE INDEX IF NOT EXISTS idx_outfits_user_occasion
+  ON outfits(user_id, (context->>'occasion'), created_at DESC);
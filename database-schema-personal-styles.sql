@@ -0,0 +1,42 @@
+-- Looksy - Controlled styles and personal style profiles
+-- Run after database-schema-taxonomy.sql
+--
+-- style_taxonomy now holds the twelve controlled styles from the product
+-- brief. Keep the rows in step with DEFAULT_STYLE_TAXONOMY in
+-- supabase/functions/_shared/scoring.ts and CONTROLLED_STYLES in
+-- supabase/functions/_shared/styles.ts. The earlier casual, dressy and athletic
+-- rows are replaced by smart_casual, glam and athleisure.
+--
+-- profiles.personal_styles holds user-defined styles mapped onto weighted
+-- mixes of controlled styles. Entries saved before this (one style id at
+-- 100%) are mapped onto the new ids when the app or analyze-outfit reads them,
+-- so no backfill is needed.
+
+INSERT INTO style_taxonomy (name, description, required_categories, preferred_attributes, attribute_weights) VALUES
+('minimalist', 'Clean lines, neutral palette', '["top", "bottom"]', '{"colors": ["neutral", "white", "black", "gray"], "patterns": ["solid"]}', '{"fit": 0.4, "color": 0.4, "material": 0.2}'),
+('streetwear', 'Urban, graphic, bold', '["top", "bottom", "shoes"]', '{"colors": ["bold", "black", "white"], "patterns": ["graphic", "logo"]}', '{"fit": 0.2, "color": 0.4, "material": 0.4}'),
+('business_casual', 'Work and professional wear', '["top", "bottom", "shoes"]', '{"colors": ["neutral", "navy", "white"], "patterns": ["solid", "subtle"]}', '{"fit": 0.5, "color": 0.3, "material": 0.2}'),
+('formal', 'Suits, gowns, black tie', '["top", "bottom", "outer", "shoes"]', '{"colors": ["elegant"], "patterns": ["solid", "subtle"], "materials": ["wool", "silk", "satin"], "fits": ["tailored"]}', '{"fit": 0.5, "color": 0.3, "material": 0.2}'),
+('athleisure', 'Sporty pieces worn every day', '["top", "bottom", "shoes"]', '{"colors": ["any"], "patterns": ["solid", "logo", "graphic"], "materials": ["nylon", "polyester", "fleece", "jersey", "spandex"]}', '{"fit": 0.4, "color": 0.2, "material": 0.4}'),
+('bohemian', 'Flowing, earthy, layered', '["top", "bottom"]', '{"colors": ["beige", "brown", "white", "rust", "olive", "mustard", "sage"], "patterns": ["bold", "graphic"], "materials": ["linen", "cotton", "suede", "crochet"], "fits": ["flowy", "relaxed", "loose"]}', '{"fit": 0.3, "color": 0.3, "material": 0.4}'),
+('preppy', 'Polished, collegiate classics', '["top", "bottom", "shoes"]', '{"colors": ["navy", "white", "beige", "red", "green", "pink"], "patterns": ["solid", "bold"], "materials": ["cotton", "wool", "knit", "oxford"], "fits": ["fitted", "tailored"]}', '{"fit": 0.4, "color": 0.3, "material": 0.3}'),
+('smart_casual', 'Relaxed but put together', '["top", "bottom", "shoes"]', '{"colors": ["neutral", "elegant"], "patterns": ["solid", "subtle"]}', '{"fit": 0.4, "color": 0.3, "material": 0.3}'),
+('vintage', 'Looks from past decades', '["top", "bottom"]', '{"colors": ["mustard", "rust", "burgundy", "olive", "brown", "beige"], "patterns": ["bold", "subtle"], "materials": ["wool", "denim", "suede", "corduroy"]}', '{"fit": 0.3, "color": 0.4, "material": 0.3}'),
+('y2k', 'Early-2000s, playful, cropped', '["top", "bottom"]', '{"colors": ["pink", "lavender", "lilac", "bold", "gray"], "patterns": ["graphic", "logo"], "materials": ["denim", "satin", "mesh"], "fits": ["cropped", "low-rise", "baggy"]}', '{"fit": 0.4, "color": 0.4, "material": 0.2}'),
+('techwear', 'Technical fabrics, utility cuts', '["top", "bottom", "outer", "shoes"]', '{"colors": ["black", "gray", "olive"], "patterns": ["solid"], "materials": ["nylon", "gore-tex", "polyester", "synthetic", "softshell"]}', '{"fit": 0.3, "color": 0.3, "material": 0.4}'),
+('glam', 'Statement pieces for nights out', '["top", "bottom", "shoes"]', '{"colors": ["elegant", "bold"], "patterns": ["solid"], "materials": ["satin", "silk", "sequin", "velvet", "leather"]}', '{"fit": 0.4, "color": 0.3, "material": 0.3}')
+ON CONFLICT (name) DO UPDATE SET
+  description = EXCLUDED.description,
+  required_categories = EXCLUDED.required_categories,
+  preferred_attributes = EXCLUDED.preferred_attributes,
+  attribute_weights = EXCLUDED.attribute_weights;
+
+DELETE FROM style_taxonomy WHERE name IN ('casual', 'dressy', 'athletic');
+
+-- Mock product tags follow the renamed styles
+UPDATE mock_products SET style_tags = array_replace(style_tags, 'casual', 'smart_casual') WHERE 'casual' = ANY(style_tags);
+UPDATE mock_products SET style_tags = array_replace(style_tags, 'dressy', 'glam') WHERE 'dressy' = ANY(style_tags);
+UPDATE mock_products SET style_tags = array_replace(style_tags, 'athletic', 'athleisure') WHERE 'athletic' = ANY(style_tags);
+
+COMMENT ON COLUMN profiles.personal_styles IS
+  'User-defined styles: [{name, mapping: {<style_taxonomy.name>: weight summing to 1}, favored_colors, favored_patterns, disliked_items}]';
@@ -0,0 +1,78 @@
+-- Looksy - Realtime outfit processing status
+-- Run after database-schema-analysis-jobs.sql
+--
+-- ResultsScreen subscribes to outfits and analysis_jobs changes instead of
+-- polling. processing_stage adds finer-grained progress on top of
+-- processing_status:
+--   uploaded -> queued -> parsing -> scoring -> recommendations -> completed
+-- with failed / cancelled as terminal alternatives.
+
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS processing_stage TEXT DEFAULT 'uploaded'
+  CHECK (processing_stage IN ('uploaded', 'queued', 'parsing', 'scoring', 'recommendations', 'completed', 'failed', 'cancelled'));
+ALTER TABLE outfits ADD COLUMN IF NOT EXISTS processing_stage_updated_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE outfits SET processing_stage = CASE processing_status
+  WHEN 'completed' THEN 'completed'
+  WHEN 'error' THEN 'failed'
+  WHEN 'cancelled' THEN 'cancelled'
+  ELSE 'uploaded'
+END;
+
+CREATE OR REPLACE FUNCTION handle_outfit_stage_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.processing_stage IS DISTINCT FROM OLD.processing_stage THEN
+    NEW.processing_stage_updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS handle_outfits_stage_updated_at ON outfits;
+CREATE TRIGGER handle_outfits_stage_updated_at
+  BEFORE UPDATE ON outfits
+  FOR EACH ROW EXECUTE FUNCTION handle_outfit_stage_updated_at();
+
+-- Keep the outfit's stage in step with its queue job. analyze-outfit sets the
+-- in-flight stages (parsing, scoring, recommendations, completed) itself.
+CREATE OR REPLACE FUNCTION sync_outfit_stage_from_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'queued' THEN
+    UPDATE outfits SET processing_status = 'pending', processing_stage = 'queued' WHERE id = NEW.outfit_id;
+  ELSIF NEW.status = 'failed' THEN
+    UPDATE outfits SET processing_stage = 'failed' WHERE id = NEW.outfit_id;
+  ELSIF NEW.status = 'cancelled' THEN
+    UPDATE outfits SET processing_stage = 'cancelled' WHERE id = NEW.outfit_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_outfit_stage_on_job_change ON analysis_jobs;
+CREATE TRIGGER sync_outfit_stage_on_job_change
+  AFTER INSERT OR UPDATE OF status ON analysis_jobs
+  FOR EACH ROW EXECUTE FUNCTION sync_outfit_stage_from_job();
+
+-- Stream row changes to subscribed clients (RLS still applies per user)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'outfits'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE outfits;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'analysis_jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE analysis_jobs;
+  END IF;
+END $$;
@@ -0,0 +1,72 @@
+-- Looksy - Style feedback
+-- Run after database-schema-personal-styles.sql
+--
+-- style_feedback keeps one answer per outfit for each kind of feedback:
+-- 'rating' (thumbs on the result), 'style' ("this is / isn't my style") and
+-- 'recommendation' (thumbs on one recommendation card, keyed by the card's
+-- id; recommendation_id is '' for the outfit-level kinds so the unique key
+-- covers them too). Changing an answer updates the row in place.
+--
+-- personal_style_history logs every change to a personal style's mix in
+-- profiles.personal_styles - nudges from feedback, edits in the style editor
+-- and resets - so the app can show how a mix drifted and undo it.
+
+CREATE TABLE IF NOT EXISTS style_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  outfit_id UUID NOT NULL REFERENCES outfits(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('rating', 'style', 'recommendation')),
+  positive BOOLEAN NOT NULL,
+  recommendation_id TEXT NOT NULL DEFAULT '',
+  recommendation_text TEXT,
+  scored_style TEXT, -- controlled style the outfit was scored against
+  personal_style TEXT, -- personal style the feedback re-weighted
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (outfit_id, kind, recommendation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_style_feedback_user_id ON style_feedback(user_id);
+
+CREATE TABLE IF NOT EXISTS personal_style_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  style_name TEXT NOT NULL,
+  previous_mapping JSONB NOT NULL,
+  new_mapping JSONB NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('feedback', 'edit', 'reset')),
+  feedback_id UUID REFERENCES style_feedback(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_style_history_user_style
+  ON personal_style_history(user_id, style_name, created_at DESC);
+
+-- RLS: users manage their own feedback and history
+ALTER TABLE style_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own style feedback" ON style_feedback;
+CREATE POLICY "Users can view own style feedback" ON style_feedback FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can give own style feedback" ON style_feedback;
+CREATE POLICY "Users can give own style feedback" ON style_feedback FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM outfits WHERE outfits.id = style_feedback.outfit_id AND outfits.user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Users can update own style feedback" ON style_feedback;
+CREATE POLICY "Users can update own style feedback" ON style_feedback FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own style feedback" ON style_feedback;
+CREATE POLICY "Users can delete own style feedback" ON style_feedback FOR DELETE USING (auth.uid() = user_id);
+
+ALTER TABLE personal_style_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own personal style history" ON personal_style_history;
+CREATE POLICY "Users can view own personal style history" ON personal_style_history FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can log own personal style history" ON personal_style_history;
+CREATE POLICY "Users can log own personal style history" ON personal_style_history FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own personal style history" ON personal_style_history;
+CREATE POLICY "Users can delete own personal style history" ON personal_style_history FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,51 @@
+-- Looksy - Controlled closet taxonomy
+-- Run after database-schema-closet-costs.sql
+--
+-- Categories and attributes now come from one versioned taxonomy
+-- (supabase/functions/_shared/taxonomy.ts). closet_items.category holds a
+-- coarse category id and subcategory the garment type; garment_detection and
+-- extracted_clothing_items keep the finest garment type known. The edge
+-- functions and the app normalize the model's wording onto the taxonomy and
+-- record the TAXONOMY_VERSION they used. Rows with a NULL taxonomy_version
+-- predate it; the app maps their values when they are read or edited.
+--
+-- The backfill below only moves fine categories of existing closet items
+-- into subcategory. Keep the lists in step with TAXONOMY_CATEGORIES.
+
+ALTER TABLE closet_items ADD COLUMN IF NOT EXISTS taxonomy_version INTEGER;
+ALTER TABLE extracted_clothing_items ADD COLUMN IF NOT EXISTS taxonomy_version INTEGER;
+ALTER TABLE garment_detection ADD COLUMN IF NOT EXISTS taxonomy_version INTEGER;
+
+COMMENT ON COLUMN closet_items.category IS
+  'Taxonomy category: top, bottom, dress, outer, shoes, bag, accessory or other';
+COMMENT ON COLUMN closet_items.subcategory IS
+  'Taxonomy garment type within the category, e.g. jeans or blazer';
+
+UPDATE closet_items
+SET
+  subcategory = COALESCE(subcategory, LOWER(category)),
+  category = CASE
+    WHEN LOWER(category) IN ('shirt', 't-shirt', 'blouse', 'sweater', 'hoodie', 'polo', 'tank top',
+      'sweatshirt', 'turtleneck', 'camisole') THEN 'top'
+    WHEN LOWER(category) IN ('pants', 'jeans', 'shorts', 'skirt', 'trousers', 'chinos', 'leggings',
+      'joggers') THEN 'bottom'
+    WHEN LOWER(category) IN ('jumpsuit', 'romper', 'gown') THEN 'dress'
+    WHEN LOWER(category) IN ('jacket', 'coat', 'blazer', 'vest', 'cardigan', 'parka') THEN 'outer'
+    WHEN LOWER(category) IN ('sneakers', 'boots', 'sandals', 'heels', 'loafers', 'flats', 'oxfords') THEN 'shoes'
+    WHEN LOWER(category) IN ('handbag', 'backpack', 'tote', 'clutch', 'crossbody') THEN 'bag'
+    WHEN LOWER(category) IN ('hat', 'belt', 'scarf', 'jewelry', 'watch', 'sunglasses', 'tie', 'gloves') THEN 'accessory'
+  END
+WHERE taxonomy_version IS NULL
+  AND LOWER(category) IN (
+    'shirt', 't-shirt', 'blouse', 'sweater', 'hoodie', 'polo', 'tank top', 'sweatshirt', 'turtleneck', 'camisole',
+    'pants', 'jeans', 'shorts', 'skirt', 'trousers', 'chinos', 'leggings', 'joggers',
+    'jumpsuit', 'romper', 'gown',
+    'jacket', 'coat', 'blazer', 'vest', 'cardigan', 'parka',
+    'sneakers', 'boots', 'sandals', 'heels', 'loafers', 'flats', 'oxfords',
+    'handbag', 'backpack', 'tote', 'clutch', 'crossbody',
+    'hat', 'belt', 'scarf', 'jewelry', 'watch', 'sunglasses', 'tie', 'gloves'
+  );
+
+-- Plural category names the old closet screen filtered on
+UPDATE closet_items SET category = 'outer' WHERE taxonomy_version IS NULL AND LOWER(category) = 'outerwear';
+UPDATE closet_items SET category = 'accessory' WHERE taxonomy_version IS NULL AND LOWER(category) = 'accessories';
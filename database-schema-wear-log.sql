@@ -0,0 +1,51 @@
+-- Looksy - Wear log
+-- Run after database-schema-closet-candidates.sql
+--
+-- One row per closet item per day it was worn. Rows come from confirming an
+-- analyzed outfit (source 'outfit', worn on the day the photo was uploaded)
+-- or from logging a wear by hand (source 'manual'). Logging the same item
+-- twice on one day keeps a single row.
+--
+-- closet_item_wear_stats gives each worn item's wear count and last-worn
+-- date; items that were never worn have no row.
+
+CREATE TABLE IF NOT EXISTS wear_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  closet_item_id UUID NOT NULL REFERENCES closet_items(id) ON DELETE CASCADE,
+  outfit_id UUID REFERENCES outfits(id) ON DELETE SET NULL, -- the analyzed outfit, for source 'outfit'
+  worn_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('outfit', 'manual')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (closet_item_id, worn_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wear_events_user_worn_on ON wear_events(user_id, worn_on DESC);
+CREATE INDEX IF NOT EXISTS idx_wear_events_outfit_id ON wear_events(outfit_id) WHERE outfit_id IS NOT NULL;
+
+-- RLS: users manage their own wear log, for items in their own closet
+ALTER TABLE wear_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own wear events" ON wear_events;
+CREATE POLICY "Users can view own wear events" ON wear_events FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can log own wear events" ON wear_events;
+CREATE POLICY "Users can log own wear events" ON wear_events FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM closet_items WHERE closet_items.id = wear_events.closet_item_id AND closet_items.user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Users can delete own wear events" ON wear_events;
+CREATE POLICY "Users can delete own wear events" ON wear_events FOR DELETE USING (auth.uid() = user_id);
+
+-- Runs with the caller's permissions, so the policies above still apply
+CREATE OR REPLACE VIEW closet_item_wear_stats
+WITH (security_invoker = true) AS
+SELECT
+  closet_item_id,
+  user_id,
+  COUNT(*) AS wear_count,
+  MAX(worn_on) AS last_worn_on,
+  MIN(worn_on) AS first_worn_on
+FROM wear_events
+GROUP BY closet_item_id, user_id;
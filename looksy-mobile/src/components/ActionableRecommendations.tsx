@@ -13,6 +13,10 @@ import { OutfitAnalysis, ClinicalAnalysis } from '../types';
 interface ActionableRecommendationsProps {
   analysis: OutfitAnalysis | ClinicalAnalysis;
   onRecommendationAction?: (action: string, recommendation: any) => void;
+  // Earlier thumbs up (true) / down (false) by card id
+  feedback?: Record<string, boolean>;
+  // Shows thumbs on each card when set
+  onRecommendationFeedback?: (card: RecommendationCard, positive: boolean) => void;
 }
 
 interface RecommendationCard {
@@ -29,7 +33,9 @@ interface RecommendationCard {
 
 export const ActionableRecommendations: React.FC<ActionableRecommendationsProps> = React.memo(({
   analysis,
-  onRecommendationAction
+  onRecommendationAction,
+  feedback = {},
+  onRecommendationFeedback
 }) => {
   const [completedActions, setCompletedActions] = useState<string[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -313,11 +319,27 @@ export const ActionableRecommendations: React.FC<ActionableRecommendationsProps>
                 {card.description}
               </Text>
 
-              {card.actionable && !isCompleted && (
-                <View style={styles.actionHint}>
-                  <Text style={styles.actionText}>Tap to take action →</Text>
-                </View>
-              )}
+              <View style={styles.cardFooter}>
+                {onRecommendationFeedback ? (
+                  <View style={styles.feedbackButtons}>
+                    {([true, false] as const).map(positive => (
+                      <TouchableOpacity
+                        key={String(positive)}
+                        style={[styles.feedbackButton, feedback[card.id] === positive && styles.activeFeedbackButton]}
+                        onPress={() => onRecommendationFeedback(card, positive)}
+                      >
+                        <Text style={styles.feedbackIcon}>{positive ? '👍' : '👎'}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                ) : <View />}
+
+                {card.actionable && !isCompleted && (
+                  <View style={styles.actionHint}>
+                    <Text style={styles.actionText}>Tap to take action →</Text>
+                  </View>
+                )}
+              </View>
             </TouchableOpacity>
           );
         })}
@@ -509,6 +531,34 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.md,
   },
   
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+
+  feedbackButtons: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+  },
+
+  feedbackButton: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+
+  activeFeedbackButton: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '15',
+  },
+
+  feedbackIcon: {
+    fontSize: theme.typography.sizes.sm,
+  },
+
   actionHint: {
     alignSelf: 'flex-end',
   },
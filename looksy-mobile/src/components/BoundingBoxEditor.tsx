@@ -0,0 +1,327 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  PanResponder,
+  PanResponderGestureState,
+} from 'react-native';
+import { getItemColor } from './BoundingBoxOverlay';
+
+interface EditorBox {
+  x1: number;  // percentage 0-100 or normalized 0-1
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface BoundingBoxEditorItem {
+  id: string;
+  bounding_box: EditorBox;
+  item_category: string;
+}
+
+interface BoundingBoxEditorProps {
+  items: BoundingBoxEditorItem[];
+  containerWidth: number;  // rendered image width
+  containerHeight: number; // rendered image height
+  activeItemId?: string | null;
+  pendingBox?: EditorBox | null; // drawn box waiting for a category
+  onSelectItem: (itemId: string | null) => void;
+  onChangeBox: (itemId: string, box: EditorBox) => void; // percentages, on release
+  onDrawBox: (box: EditorBox) => void;                   // percentages, on release
+}
+
+type Corner = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
+type DragMode = 'move' | Corner;
+
+const CORNERS: Corner[] = ['topLeft', 'topRight', 'bottomLeft', 'bottomRight'];
+
+// Smallest box, in percent, so a stray tap doesn't create or collapse one
+const MIN_BOX_SIZE = 3;
+// Finger travel in points before a touch counts as a drag
+const DRAG_THRESHOLD = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Boxes can arrive normalized (0-1) or as percentages (0-100), like BoundingBoxOverlay
+const toPercentBox = (box: EditorBox): EditorBox => {
+  const isNormalized = box.x1 <= 1 && box.y1 <= 1 && box.x2 <= 1 && box.y2 <= 1;
+  const factor = isNormalized ? 100 : 1;
+
+  return {
+    x1: Math.min(box.x1, box.x2) * factor,
+    y1: Math.min(box.y1, box.y2) * factor,
+    x2: Math.max(box.x1, box.x2) * factor,
+    y2: Math.max(box.y1, box.y2) * factor,
+  };
+};
+
+const roundBox = (box: EditorBox): EditorBox => ({
+  x1: Math.round(box.x1 * 10) / 10,
+  y1: Math.round(box.y1 * 10) / 10,
+  x2: Math.round(box.x2 * 10) / 10,
+  y2: Math.round(box.y2 * 10) / 10,
+});
+
+/**
+ * Apply a drag of (dx, dy) percent to a box. Moving keeps the size and stays
+ * inside the image; corners resize but never past MIN_BOX_SIZE.
+ */
+const applyDrag = (box: EditorBox, mode: DragMode, dx: number, dy: number): EditorBox => {
+  if (mode === 'move') {
+    const width = box.x2 - box.x1;
+    const height = box.y2 - box.y1;
+    const x1 = clamp(box.x1 + dx, 0, 100 - width);
+    const y1 = clamp(box.y1 + dy, 0, 100 - height);
+    return { x1, y1, x2: x1 + width, y2: y1 + height };
+  }
+
+  const next = { ...box };
+  if (mode === 'topLeft' || mode === 'bottomLeft') {
+    next.x1 = clamp(box.x1 + dx, 0, box.x2 - MIN_BOX_SIZE);
+  } else {
+    next.x2 = clamp(box.x2 + dx, box.x1 + MIN_BOX_SIZE, 100);
+  }
+  if (mode === 'topLeft' || mode === 'topRight') {
+    next.y1 = clamp(box.y1 + dy, 0, box.y2 - MIN_BOX_SIZE);
+  } else {
+    next.y2 = clamp(box.y2 + dy, box.y1 + MIN_BOX_SIZE, 100);
+  }
+  return next;
+};
+
+const hasMoved = (gesture: PanResponderGestureState) =>
+  Math.abs(gesture.dx) > DRAG_THRESHOLD || Math.abs(gesture.dy) > DRAG_THRESHOLD;
+
+interface EditableBoxProps {
+  item: BoundingBoxEditorItem;
+  index: number;
+  active: boolean;
+  containerWidth: number;
+  containerHeight: number;
+  onSelectItem: (itemId: string) => void;
+  onChangeBox: (itemId: string, box: EditorBox) => void;
+}
+
+const EditableBox: React.FC<EditableBoxProps> = (props) => {
+  const { item, index, active, containerWidth, containerHeight } = props;
+  const [draft, setDraft] = useState<EditorBox | null>(null);
+
+  // PanResponders are created once, so they read the latest props from here
+  const latest = useRef(props);
+  latest.current = props;
+
+  const responders = useMemo(() => {
+    const draggedBox = (mode: DragMode, gesture: PanResponderGestureState) => {
+      const { item, containerWidth, containerHeight } = latest.current;
+      return applyDrag(
+        toPercentBox(item.bounding_box),
+        mode,
+        (gesture.dx / containerWidth) * 100,
+        (gesture.dy / containerHeight) * 100
+      );
+    };
+
+    const create = (mode: DragMode) => PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => latest.current.onSelectItem(latest.current.item.id),
+      onPanResponderMove: (_, gesture) => {
+        if (hasMoved(gesture)) setDraft(draggedBox(mode, gesture));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        setDraft(null);
+        if (hasMoved(gesture)) {
+          latest.current.onChangeBox(latest.current.item.id, roundBox(draggedBox(mode, gesture)));
+        }
+      },
+      onPanResponderTerminate: () => setDraft(null),
+    });
+
+    return {
+      move: create('move'),
+      topLeft: create('topLeft'),
+      topRight: create('topRight'),
+      bottomLeft: create('bottomLeft'),
+      bottomRight: create('bottomRight'),
+    };
+  }, []);
+
+  const box = draft || toPercentBox(item.bounding_box);
+  const color = getItemColor(index);
+
+  return (
+    <View
+      {...responders.move.panHandlers}
+      style={[
+        styles.box,
+        {
+          left: (box.x1 / 100) * containerWidth,
+          top: (box.y1 / 100) * containerHeight,
+          width: ((box.x2 - box.x1) / 100) * containerWidth,
+          height: ((box.y2 - box.y1) / 100) * containerHeight,
+          borderColor: active ? '#10b981' : color.border,
+          backgroundColor: active ? 'rgba(16, 185, 129, 0.2)' : color.bg,
+          zIndex: active ? 2 : 1,
+        },
+      ]}
+    >
+      <View style={[styles.label, { backgroundColor: active ? '#10b981' : color.label }]}>
+        <Text style={styles.labelText}>{item.item_category}</Text>
+      </View>
+
+      {active && CORNERS.map(corner => (
+        <View
+          key={corner}
+          {...responders[corner].panHandlers}
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          style={[styles.handle, styles[corner]]}
+        />
+      ))}
+    </View>
+  );
+};
+
+/**
+ * Edit mode for the extraction review: drag a box to move it, drag a corner
+ * of the selected box to resize it, or drag on empty space to draw a new one.
+ * Changes are reported on release; the parent persists them.
+ */
+export const BoundingBoxEditor: React.FC<BoundingBoxEditorProps> = (props) => {
+  const { items, containerWidth, containerHeight, activeItemId, pendingBox } = props;
+  const [drawing, setDrawing] = useState<EditorBox | null>(null);
+
+  const latest = useRef(props);
+  latest.current = props;
+  const drawStart = useRef({ x: 0, y: 0 });
+
+  const drawResponder = useMemo(() => {
+    const drawnBox = (gesture: PanResponderGestureState): EditorBox => {
+      const { containerWidth, containerHeight } = latest.current;
+      const start = drawStart.current;
+      const endX = clamp(start.x + gesture.dx, 0, containerWidth);
+      const endY = clamp(start.y + gesture.dy, 0, containerHeight);
+
+      return {
+        x1: (Math.min(start.x, endX) / containerWidth) * 100,
+        y1: (Math.min(start.y, endY) / containerHeight) * 100,
+        x2: (Math.max(start.x, endX) / containerWidth) * 100,
+        y2: (Math.max(start.y, endY) / containerHeight) * 100,
+      };
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        drawStart.current = { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY };
+      },
+      onPanResponderMove: (_, gesture) => {
+        if (hasMoved(gesture)) setDrawing(drawnBox(gesture));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        setDrawing(null);
+        const box = drawnBox(gesture);
+
+        if (hasMoved(gesture) && box.x2 - box.x1 >= MIN_BOX_SIZE && box.y2 - box.y1 >= MIN_BOX_SIZE) {
+          latest.current.onDrawBox(roundBox(box));
+        } else {
+          // A tap on empty space clears the selection
+          latest.current.onSelectItem(null);
+        }
+      },
+      onPanResponderTerminate: () => setDrawing(null),
+    });
+  }, []);
+
+  const newBox = drawing || pendingBox;
+
+  return (
+    <View style={StyleSheet.absoluteFill} {...drawResponder.panHandlers}>
+      {items.map((item, index) => (
+        <EditableBox
+          key={item.id}
+          item={item}
+          index={index}
+          active={item.id === activeItemId}
+          containerWidth={containerWidth}
+          containerHeight={containerHeight}
+          onSelectItem={props.onSelectItem}
+          onChangeBox={props.onChangeBox}
+        />
+      ))}
+
+      {newBox && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.box,
+            styles.newBox,
+            {
+              left: (newBox.x1 / 100) * containerWidth,
+              top: (newBox.y1 / 100) * containerHeight,
+              width: ((newBox.x2 - newBox.x1) / 100) * containerWidth,
+              height: ((newBox.y2 - newBox.y1) / 100) * containerHeight,
+            },
+          ]}
+        />
+      )}
+    </View>
+  );
+};
+
+const HANDLE_SIZE = 16;
+
+const styles = StyleSheet.create({
+  box: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: 4,
+  },
+  newBox: {
+    borderColor: '#3b82f6',
+    borderStyle: 'dashed',
+    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+    zIndex: 3,
+  },
+  label: {
+    position: 'absolute',
+    top: -25,
+    left: 0,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  labelText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: '#10b981',
+    borderWidth: 2,
+    borderColor: 'white',
+  },
+  topLeft: {
+    top: -HANDLE_SIZE / 2,
+    left: -HANDLE_SIZE / 2,
+  },
+  topRight: {
+    top: -HANDLE_SIZE / 2,
+    right: -HANDLE_SIZE / 2,
+  },
+  bottomLeft: {
+    bottom: -HANDLE_SIZE / 2,
+    left: -HANDLE_SIZE / 2,
+  },
+  bottomRight: {
+    bottom: -HANDLE_SIZE / 2,
+    right: -HANDLE_SIZE / 2,
+  },
+});
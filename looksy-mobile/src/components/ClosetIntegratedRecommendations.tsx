@@ -9,6 +9,8 @@ import {
 } from 'react-native';
 import { theme } from '../theme';
 import { OutfitAnalysis, ClinicalAnalysis } from '../types';
+import { toTaxonomyCategory } from '../utils/styleScoring';
+import { categoryInfo } from '../utils/taxonomy';
 
 interface ClosetIntegratedRecommendationsProps {
   analysis: OutfitAnalysis | ClinicalAnalysis;
@@ -114,13 +116,15 @@ export const ClosetIntegratedRecommendations: React.FC<ClosetIntegratedRecommend
 
     // 4. Closet Gap Analysis
     const detectedCategories = 'garment_detection' in analysis && analysis.garment_detection 
-      ? analysis.garment_detection.map(item => item.category.toLowerCase())
+      ? analysis.garment_detection.map(item => toTaxonomyCategory(item.category))
       : [];
 
-    const essentialCategories = ['shirt', 'pants', 'jacket', 'shoes'];
-    const missingCategories = essentialCategories.filter(cat => 
-      !detectedCategories.some(detected => detected.includes(cat))
-    );
+    // Coarse taxonomy categories most outfits are built from; a dress covers top and bottom
+    const essentialCategories = ['top', 'bottom', 'outer', 'shoes'];
+    const missingCategories = essentialCategories
+      .filter(cat => !detectedCategories.includes(cat))
+      .filter(cat => !(detectedCategories.includes('dress') && (cat === 'top' || cat === 'bottom')))
+      .map(cat => categoryInfo(cat).label.toLowerCase());
 
     if (missingCategories.length > 0) {
       recs.push({
@@ -154,17 +158,10 @@ export const ClosetIntegratedRecommendations: React.FC<ClosetIntegratedRecommend
   const handleRecommendationPress = (rec: ClosetRecommendation) => {
     switch (rec.closetAction) {
       case 'confirm_items':
-        navigation.navigate('CLOSET_CONFIRMATION', {
+        // The screen loads the stored detections with their closet candidates
+        navigation.navigate('ClosetConfirmation', {
           outfitId,
-          detectedItems: 'garment_detection' in analysis && analysis.garment_detection 
-            ? analysis.garment_detection.map(item => ({
-                id: item.item_id,
-                category: item.category,
-                attributes: item.attributes,
-                confidence: Object.values(item.confidence_scores).reduce((a, b) => a + b, 0) / Object.values(item.confidence_scores).length,
-                existsInCloset: false
-              }))
-            : []
+          detectedItems: []
         });
         break;
       
@@ -5,4 +5,6 @@
 export { useScoreAnimation } from './useScoreAnimation';
 export { useStyleInsights } from './useStyleInsights';
 export { useRecommendations } from './useRecommendations';
-export { useClosetRecommendations } from './useClosetRecommendations';
\ No newline at end of file
+export { useClosetRecommendations } from './useClosetRecommendations';
+export { useOutfitStatus } from './useOutfitStatus';
+export { useBatchExtraction } from './useBatchExtraction';
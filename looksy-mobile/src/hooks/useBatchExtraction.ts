@@ -0,0 +1,245 @@
+/**
+ * Custom hook running photo extraction over a batch of gallery photos
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ImageResult } from '../services/cameraService';
+import { UploadService } from '../services/uploadService';
+import { PhotoExtractionService, ExtractedClothingItem } from '../services/photoExtractionService';
+import { scoreClosetMatch, DUPLICATE_MATCH_THRESHOLD, MatchableClosetItem } from '../utils/closetMatching';
+
+export type BatchPhotoStatus = 'queued' | 'uploading' | 'extracting' | 'cropping' | 'completed' | 'failed';
+
+export interface BatchPhoto {
+  id: string;
+  image: ImageResult;
+  status: BatchPhotoStatus;
+  progress: number; // 0-1
+  imagePath?: string;
+  extractionId?: string;
+  items: ExtractedClothingItem[];
+  error?: string;
+}
+
+export interface BatchItemGroup {
+  item: ExtractedClothingItem; // most confident detection, shown in the review
+  photoId: string;
+  duplicates: { item: ExtractedClothingItem; photoId: string; score: number }[]; // same piece in other photos
+}
+
+interface UseBatchExtractionOptions {
+  concurrency?: number;
+}
+
+const ACTIVE_STATUSES: BatchPhotoStatus[] = ['uploading', 'extracting', 'cropping'];
+
+const toMatchCandidate = (item: ExtractedClothingItem): MatchableClosetItem => ({
+  id: item.id,
+  category: item.item_category,
+  color: item.item_attributes?.color,
+  pattern: item.item_attributes?.pattern,
+  material: item.item_attributes?.material,
+  brand: item.item_attributes?.brand,
+  image_dhash: item.image_dhash,
+});
+
+/**
+ * Merge detections of the same piece across photos. Items are taken most
+ * confident first and join the best-scoring group that has no item from
+ * their own photo yet; two items in one photo are never the same piece.
+ */
+export const groupBatchItems = (photos: BatchPhoto[]): BatchItemGroup[] => {
+  const detections = photos
+    .flatMap(photo => photo.items.map(item => ({ item, photoId: photo.id })))
+    .sort((a, b) => (b.item.extraction_confidence || 0) - (a.item.extraction_confidence || 0));
+
+  const groups: BatchItemGroup[] = [];
+
+  for (const detection of detections) {
+    const candidate = toMatchCandidate(detection.item);
+    let bestGroup: BatchItemGroup | null = null;
+    let bestScore = DUPLICATE_MATCH_THRESHOLD;
+
+    for (const group of groups) {
+      const photoIds = [group.photoId, ...group.duplicates.map(duplicate => duplicate.photoId)];
+      if (photoIds.includes(detection.photoId)) continue;
+
+      const match = scoreClosetMatch(candidate, toMatchCandidate(group.item));
+      if (match && match.score >= bestScore) {
+        bestGroup = group;
+        bestScore = match.score;
+      }
+    }
+
+    if (bestGroup) {
+      bestGroup.duplicates.push({ ...detection, score: bestScore });
+    } else {
+      groups.push({ ...detection, duplicates: [] });
+    }
+  }
+
+  return groups;
+};
+
+export const useBatchExtraction = (
+  userId: string,
+  { concurrency = 3 }: UseBatchExtractionOptions = {}
+) => {
+  const [photos, setPhotos] = useState<BatchPhoto[]>([]);
+
+  // The queue reads and writes photos outside React's render cycle
+  const photosRef = useRef<BatchPhoto[]>([]);
+  const activeCountRef = useRef(0);
+  const nextIdRef = useRef(0);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const updatePhoto = useCallback((photoId: string, changes: Partial<BatchPhoto>) => {
+    photosRef.current = photosRef.current.map(photo =>
+      photo.id === photoId ? { ...photo, ...changes } : photo
+    );
+    if (mountedRef.current) {
+      setPhotos(photosRef.current);
+    }
+  }, []);
+
+  // Each step keeps what it produced, so a retry resumes where the photo failed
+  const processPhoto = useCallback(async (photo: BatchPhoto) => {
+    let { imagePath, extractionId } = photo;
+
+    try {
+      if (!imagePath) {
+        updatePhoto(photo.id, { status: 'uploading', progress: 0.05 });
+        const uploadResult = await UploadService.uploadExtractionImage(userId, photo.image, (progress) =>
+          updatePhoto(photo.id, { progress: progress.progress * 0.4 })
+        );
+
+        if (!uploadResult.success || !uploadResult.imagePath) {
+          throw new Error(uploadResult.error || 'Failed to upload image');
+        }
+
+        imagePath = uploadResult.imagePath;
+        updatePhoto(photo.id, { imagePath });
+      }
+
+      if (!extractionId) {
+        updatePhoto(photo.id, { status: 'extracting', progress: 0.5 });
+        const result = await PhotoExtractionService.extractItems(imagePath, 'outfit');
+
+        if (!result.success || !result.extraction_id) {
+          throw new Error('Failed to extract items from photo');
+        }
+
+        extractionId = result.extraction_id;
+        updatePhoto(photo.id, { extractionId });
+      }
+
+      // Crops give every item an image hash, which the cross-photo merge relies on
+      updatePhoto(photo.id, { status: 'cropping', progress: 0.8 });
+      try {
+        await PhotoExtractionService.processItemImages(extractionId);
+      } catch (cropError) {
+        console.error('Error cropping batch item images:', cropError);
+      }
+
+      const items = await PhotoExtractionService.getExtractedItems(extractionId);
+      updatePhoto(photo.id, {
+        status: 'completed',
+        progress: 1,
+        items: items.filter(item => !item.user_rejected),
+      });
+    } catch (error: any) {
+      console.error('Batch extraction error:', error);
+      updatePhoto(photo.id, {
+        status: 'failed',
+        error: error.message || 'Extraction failed',
+      });
+    }
+  }, [userId, updatePhoto]);
+
+  const pump = useCallback(() => {
+    while (activeCountRef.current < concurrency) {
+      const next = photosRef.current.find(photo => photo.status === 'queued');
+      if (!next) return;
+
+      activeCountRef.current += 1;
+      // Mark it right away so the next loop iteration doesn't pick it again
+      updatePhoto(next.id, { status: 'uploading', error: undefined });
+
+      processPhoto(next).finally(() => {
+        activeCountRef.current -= 1;
+        pump();
+      });
+    }
+  }, [concurrency, processPhoto, updatePhoto]);
+
+  const addPhotos = useCallback((images: ImageResult[]) => {
+    const added: BatchPhoto[] = images.map(image => ({
+      id: `batch_${nextIdRef.current++}`,
+      image,
+      status: 'queued',
+      progress: 0,
+      items: [],
+    }));
+
+    photosRef.current = [...photosRef.current, ...added];
+    setPhotos(photosRef.current);
+    pump();
+  }, [pump]);
+
+  const retryPhoto = useCallback((photoId: string) => {
+    updatePhoto(photoId, { status: 'queued', error: undefined });
+    pump();
+  }, [pump, updatePhoto]);
+
+  const retryFailed = useCallback(() => {
+    photosRef.current
+      .filter(photo => photo.status === 'failed')
+      .forEach(photo => updatePhoto(photo.id, { status: 'queued', error: undefined }));
+    pump();
+  }, [pump, updatePhoto]);
+
+  const removePhoto = useCallback((photoId: string) => {
+    const photo = photosRef.current.find(candidate => candidate.id === photoId);
+    if (!photo || ACTIVE_STATUSES.includes(photo.status)) return;
+
+    photosRef.current = photosRef.current.filter(candidate => candidate.id !== photoId);
+    setPhotos(photosRef.current);
+  }, []);
+
+  const reset = useCallback(() => {
+    // In-flight photos finish in the background; their updates no longer match
+    photosRef.current = [];
+    setPhotos([]);
+  }, []);
+
+  const groups = useMemo(
+    () => groupBatchItems(photos.filter(photo => photo.status === 'completed')),
+    [photos]
+  );
+
+  const counts = useMemo(() => ({
+    total: photos.length,
+    completed: photos.filter(photo => photo.status === 'completed').length,
+    failed: photos.filter(photo => photo.status === 'failed').length,
+    pending: photos.filter(photo => photo.status === 'queued' || ACTIVE_STATUSES.includes(photo.status)).length,
+  }), [photos]);
+
+  return {
+    photos,
+    groups,
+    counts,
+    isRunning: counts.pending > 0,
+    addPhotos,
+    retryPhoto,
+    retryFailed,
+    removePhoto,
+    reset,
+  };
+};
@@ -6,6 +6,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { OutfitAnalysis, ClinicalAnalysis } from '../types';
 import { CLOSET_RECOMMENDATION_TYPES, CLOSET_PRIORITIES, SCORE_THRESHOLDS } from '../constants/components';
 import { hasGarmentDetection } from '../utils/scoreUtils';
+import { toTaxonomyCategory } from '../utils/styleScoring';
+import { categoryInfo } from '../utils/taxonomy';
 
 interface ClosetRecommendation {
   id: string;
@@ -86,13 +88,15 @@ export const useClosetRecommendations = (analysis: OutfitAnalysis | ClinicalAnal
 
       // 4. Closet Gap Analysis
       const detectedCategories = hasGarmentDetection(analysis)
-        ? analysis.garment_detection.map(item => item.category.toLowerCase())
+        ? analysis.garment_detection.map(item => toTaxonomyCategory(item.category))
         : [];
 
-      const essentialCategories = ['shirt', 'pants', 'jacket', 'shoes'];
-      const missingCategories = essentialCategories.filter(cat => 
-        !detectedCategories.some(detected => detected.includes(cat))
-      );
+      // Coarse taxonomy categories most outfits are built from; a dress covers top and bottom
+      const essentialCategories = ['top', 'bottom', 'outer', 'shoes'];
+      const missingCategories = essentialCategories
+        .filter(cat => !detectedCategories.includes(cat))
+        .filter(cat => !(detectedCategories.includes('dress') && (cat === 'top' || cat === 'bottom')))
+        .map(cat => categoryInfo(cat).label.toLowerCase());
 
       if (missingCategories.length > 0) {
         recs.push({
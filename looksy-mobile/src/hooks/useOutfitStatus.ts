@@ -0,0 +1,173 @@
+/**
+ * Custom hook streaming an outfit's analysis progress over Supabase Realtime
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../services/supabase';
+import { AIService } from '../services/aiService';
+import { AnalysisJob, ProcessingStatus, ProcessingStage } from '../types';
+
+export type OutfitStatusConnection = 'connecting' | 'realtime' | 'polling';
+
+interface OutfitStatusState {
+  processingStatus: ProcessingStatus | null;
+  stage: ProcessingStage | null;
+  job: AnalysisJob | null;
+}
+
+interface UseOutfitStatusOptions {
+  pollIntervalMs?: number;
+}
+
+const EMPTY_STATE: OutfitStatusState = {
+  processingStatus: null,
+  stage: null,
+  job: null,
+};
+
+const TERMINAL_STATUSES: ProcessingStatus[] = ['completed', 'error', 'cancelled'];
+const TERMINAL_JOB_STATUSES: AnalysisJob['status'][] = ['completed', 'failed', 'cancelled'];
+
+// Keep the newest job: a retry inserts a new row while the old one stays failed
+const pickLatestJob = (current: AnalysisJob | null, incoming: AnalysisJob): AnalysisJob => {
+  if (!current || current.id === incoming.id) return incoming;
+  return new Date(incoming.created_at) >= new Date(current.created_at) ? incoming : current;
+};
+
+export const useOutfitStatus = (
+  outfitId: string | null,
+  { pollIntervalMs = 3000 }: UseOutfitStatusOptions = {}
+) => {
+  const [state, setState] = useState<OutfitStatusState>(EMPTY_STATE);
+  const [connection, setConnection] = useState<OutfitStatusConnection>('connecting');
+  const mountedRef = useRef(true);
+  const pollTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Read by the channel callback, which outlives the render it was created in
+  const isTerminalRef = useRef(false);
+  // Snapshots still in flight for a previous outfit are dropped
+  const outfitIdRef = useRef(outfitId);
+
+  const fetchSnapshot = useCallback(async () => {
+    if (!outfitId) return;
+
+    try {
+      const [{ data: outfit, error }, job] = await Promise.all([
+        supabase
+          .from('outfits')
+          .select('processing_status, processing_stage')
+          .eq('id', outfitId)
+          .single(),
+        AIService.getLatestAnalysisJob(outfitId),
+      ]);
+
+      if (error) {
+        console.error('Error fetching outfit status:', error);
+        return;
+      }
+
+      if (mountedRef.current && outfitIdRef.current === outfitId) {
+        setState(previous => ({
+          processingStatus: outfit.processing_status,
+          stage: outfit.processing_stage,
+          job: job ? pickLatestJob(previous.job, job) : previous.job,
+        }));
+      }
+    } catch (error) {
+      console.error('Error getting outfit status:', error);
+    }
+  }, [outfitId]);
+
+  const stopPolling = useCallback(() => {
+    if (pollTimerRef.current) {
+      clearInterval(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+  }, []);
+
+  const startPolling = useCallback(() => {
+    if (pollTimerRef.current || isTerminalRef.current) return;
+    fetchSnapshot();
+    pollTimerRef.current = setInterval(fetchSnapshot, pollIntervalMs);
+  }, [fetchSnapshot, pollIntervalMs]);
+
+  useEffect(() => {
+    outfitIdRef.current = outfitId;
+    if (!outfitId) return;
+
+    // Start clean so the previous outfit's job can't win pickLatestJob
+    mountedRef.current = true;
+    isTerminalRef.current = false;
+    setState(EMPTY_STATE);
+    setConnection('connecting');
+    fetchSnapshot();
+
+    const channel: RealtimeChannel = supabase
+      .channel(`outfit-status-${outfitId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'outfits', filter: `id=eq.${outfitId}` },
+        (payload) => {
+          const outfit = payload.new as { processing_status: ProcessingStatus; processing_stage: ProcessingStage };
+          setState(previous => ({
+            ...previous,
+            processingStatus: outfit.processing_status,
+            stage: outfit.processing_stage,
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'analysis_jobs', filter: `outfit_id=eq.${outfitId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const job = payload.new as AnalysisJob;
+          setState(previous => ({ ...previous, job: pickLatestJob(previous.job, job) }));
+        }
+      )
+      .subscribe((status) => {
+        if (!mountedRef.current) return;
+
+        if (status === 'SUBSCRIBED') {
+          setConnection('realtime');
+          stopPolling();
+          // Catch up on anything that changed before the socket connected
+          fetchSnapshot();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          console.log(`Outfit status channel ${status}, falling back to polling`);
+          setConnection('polling');
+          startPolling();
+        }
+      });
+
+    return () => {
+      mountedRef.current = false;
+      stopPolling();
+      supabase.removeChannel(channel);
+    };
+  }, [outfitId, fetchSnapshot, startPolling, stopPolling]);
+
+  const isTerminal =
+    (state.processingStatus !== null && TERMINAL_STATUSES.includes(state.processingStatus)) ||
+    (state.job !== null && TERMINAL_JOB_STATUSES.includes(state.job.status));
+
+  // Nothing more will change once the analysis has finished, until a retry
+  // queues a new job
+  useEffect(() => {
+    isTerminalRef.current = isTerminal;
+    if (isTerminal) {
+      stopPolling();
+    } else if (connection === 'polling') {
+      startPolling();
+    }
+  }, [isTerminal, connection, startPolling, stopPolling]);
+
+  return {
+    processingStatus: state.processingStatus,
+    stage: state.stage,
+    job: state.job,
+    connection,
+    isTerminal,
+    refresh: fetchSnapshot,
+  };
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Text } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, NavigatorScreenParams } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 
@@ -10,21 +10,46 @@ import { ClosetScreen } from '../screens/ClosetScreen';
 import { UploadScreen } from '../screens/UploadScreen';
 import { ResultsScreen } from '../screens/ResultsScreen';
 import { PhotoExtractionScreen } from '../screens/PhotoExtractionScreen';
+import { BatchExtractionScreen } from '../screens/BatchExtractionScreen';
+import { ClosetConfirmationScreen } from '../screens/ClosetConfirmationScreen';
+import { WearLogScreen } from '../screens/WearLogScreen';
+import { ClosetAnalyticsScreen } from '../screens/ClosetAnalyticsScreen';
+import { ClosetItemFormScreen } from '../screens/ClosetItemFormScreen';
+import { PersonalStyleEditorScreen } from '../screens/PersonalStyleEditorScreen';
+import { OutfitHistoryScreen } from '../screens/OutfitHistoryScreen';
+import { DetectedClosetItem } from '../services/closetService';
 
 // Navigation Types
 export type RootStackParamList = {
-  MainTabs: undefined;
+  MainTabs: NavigatorScreenParams<MainTabParamList> | undefined;
   Upload: undefined;
   PhotoExtraction: undefined;
+  BatchExtraction: undefined;
   Results: {
     outfitId: string;
     imagePath: string;
+    jobId?: string;
   };
+  ClosetConfirmation: {
+    outfitId: string;
+    detectedItems: DetectedClosetItem[];
+  };
+  WearLog: undefined;
+  ClosetAnalytics: undefined;
+  ClosetItemForm: {
+    itemId?: string;
+  } | undefined;
+  PersonalStyleEditor: {
+    styleName?: string;
+  } | undefined;
+  OutfitHistory: undefined;
 };
 
 export type MainTabParamList = {
   Home: undefined;
-  Closet: undefined;
+  Closet: {
+    pendingDeleteItemId?: string;
+  } | undefined;
   Profile: undefined;
 };
 
@@ -129,12 +154,54 @@ export const AppNavigator: React.FC<AppNavigatorProps> = ({ user, onSignOut }) =
         >
           {(props) => <PhotoExtractionScreen {...props} user={user} />}
         </Stack.Screen>
+        <Stack.Screen 
+          name="BatchExtraction"
+          options={{ presentation: 'modal' }}
+        >
+          {(props) => <BatchExtractionScreen {...props} user={user} />}
+        </Stack.Screen>
         <Stack.Screen 
           name="Results"
           options={{ presentation: 'card' }}
         >
           {(props) => <ResultsScreen {...props} user={user} />}
         </Stack.Screen>
+        <Stack.Screen 
+          name="ClosetConfirmation"
+          options={{ presentation: 'card' }}
+        >
+          {(props) => <ClosetConfirmationScreen {...props} user={user} />}
+        </Stack.Screen>
+        <Stack.Screen 
+          name="WearLog"
+          options={{ presentation: 'card' }}
+        >
+          {(props) => <WearLogScreen {...props} user={user} />}
+        </Stack.Screen>
+        <Stack.Screen 
+          name="ClosetAnalytics"
+          options={{ presentation: 'card' }}
+        >
+          {(props) => <ClosetAnalyticsScreen {...props} user={user} />}
+        </Stack.Screen>
+        <Stack.Screen 
+          name="ClosetItemForm"
+          options={{ presentation: 'modal' }}
+        >
+          {(props) => <ClosetItemFormScreen {...props} user={user} />}
+        </Stack.Screen>
+        <Stack.Screen 
+          name="PersonalStyleEditor"
+          options={{ presentation: 'modal' }}
+        >
+          {(props) => <PersonalStyleEditorScreen {...props} user={user} />}
+        </Stack.Screen>
+        <Stack.Screen 
+          name="OutfitHistory"
+          options={{ presentation: 'card' }}
+        >
+          {(props) => <OutfitHistoryScreen {...props} user={user} />}
+        </Stack.Screen>
       </Stack.Navigator>
     </NavigationContainer>
   );
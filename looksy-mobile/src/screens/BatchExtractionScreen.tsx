@@ -0,0 +1,728 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Image,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { CameraService } from '../services/cameraService';
+import { PhotoExtractionService } from '../services/photoExtractionService';
+import { ClosetItem } from '../services/closetService';
+import { ClosetMatch } from '../utils/closetMatching';
+import { useBatchExtraction } from '../hooks';
+import { BatchPhoto, BatchItemGroup } from '../hooks/useBatchExtraction';
+
+interface BatchExtractionScreenProps {
+  navigation: any;
+  user: any;
+}
+
+type BatchStep = 'photos' | 'review' | 'completed';
+
+// Most photos picked in one go; more can be added afterwards
+const MAX_BATCH_PHOTOS = 50;
+
+const STATUS_LABELS: { [status in BatchPhoto['status']]: string } = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  extracting: 'Finding items',
+  cropping: 'Cropping items',
+  completed: 'Done',
+  failed: 'Failed',
+};
+
+export const BatchExtractionScreen: React.FC<BatchExtractionScreenProps> = ({ navigation, user }) => {
+  const { photos, groups, counts, isRunning, addPhotos, retryPhoto, retryFailed, removePhoto, reset } =
+    useBatchExtraction(user.id);
+  const [currentStep, setCurrentStep] = useState<BatchStep>('photos');
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [duplicateMatches, setDuplicateMatches] = useState<{ [itemId: string]: ClosetMatch<ClosetItem> }>({});
+  const [mergeTargets, setMergeTargets] = useState<{ [itemId: string]: ClosetMatch }>({});
+  const [loadingMatches, setLoadingMatches] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [addedCount, setAddedCount] = useState(0);
+
+  const handleSelectPhotos = async () => {
+    const images = await CameraService.pickMultipleFromLibrary(MAX_BATCH_PHOTOS);
+    if (images.length === 0) return;
+
+    const validImages = images.filter(image => CameraService.validateImage(image).isValid);
+    const skipped = images.length - validImages.length;
+    if (skipped > 0) {
+      Alert.alert('Some Photos Skipped', `${skipped} photos were too large or too small to extract items from.`);
+    }
+
+    addPhotos(validImages);
+  };
+
+  const handleStartReview = async () => {
+    setCurrentStep('review');
+    setMergeTargets({});
+    setLoadingMatches(true);
+
+    let matches: { [itemId: string]: ClosetMatch<ClosetItem> } = {};
+    try {
+      matches = await PhotoExtractionService.findClosetDuplicates(user.id, groups.map(group => group.item));
+    } catch (error) {
+      console.error('Error finding duplicate closet items:', error);
+    }
+
+    // Pieces that already look like closet items start unselected
+    setDuplicateMatches(matches);
+    setSelectedItemIds(groups.map(group => group.item.id).filter(itemId => !matches[itemId]));
+    setLoadingMatches(false);
+  };
+
+  const toggleItemSelection = (itemId: string) => {
+    setSelectedItemIds(prev =>
+      prev.includes(itemId)
+        ? prev.filter(id => id !== itemId)
+        : [...prev, itemId]
+    );
+  };
+
+  const handleMergeDuplicate = (itemId: string) => {
+    setMergeTargets(prev => ({ ...prev, [itemId]: duplicateMatches[itemId] }));
+    setSelectedItemIds(prev => prev.includes(itemId) ? prev : [...prev, itemId]);
+  };
+
+  const handleUndoMerge = (itemId: string) => {
+    setMergeTargets(prev => {
+      const { [itemId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleAddToCloset = async () => {
+    if (selectedItemIds.length === 0) {
+      Alert.alert('No Items Selected', 'Please select at least one item to add to your closet.');
+      return;
+    }
+
+    setProcessing(true);
+
+    try {
+      const extractionIds: { [photoId: string]: string } = {};
+      photos.forEach(photo => {
+        if (photo.extractionId) extractionIds[photo.id] = photo.extractionId;
+      });
+
+      const selectedGroups = groups.filter(group => selectedItemIds.includes(group.item.id));
+      const skippedGroups = groups.filter(group => !selectedItemIds.includes(group.item.id));
+      const groupItemIds = (group: BatchItemGroup) =>
+        [group.item.id, ...group.duplicates.map(duplicate => duplicate.item.id)];
+
+      await PhotoExtractionService.batchApproveItems(selectedGroups.flatMap(groupItemIds), true);
+      if (skippedGroups.length > 0) {
+        await PhotoExtractionService.batchApproveItems(skippedGroups.flatMap(groupItemIds), false);
+      }
+
+      // One closet item per group, created from the extraction its best detection came from
+      const itemIdsByExtraction: { [extractionId: string]: string[] } = {};
+      selectedGroups.forEach(group => {
+        const extractionId = extractionIds[group.photoId];
+        itemIdsByExtraction[extractionId] = [...(itemIdsByExtraction[extractionId] || []), group.item.id];
+      });
+
+      let createdCount = 0;
+      for (const [extractionId, itemIds] of Object.entries(itemIdsByExtraction)) {
+        const extractionMergeTargets = Object.fromEntries(
+          Object.entries(mergeTargets).filter(([itemId]) => itemIds.includes(itemId))
+        );
+        const closetItemIds = await PhotoExtractionService.createClosetItemsFromExtracted(
+          extractionId,
+          user.id,
+          itemIds,
+          extractionMergeTargets
+        );
+        createdCount += closetItemIds.length;
+      }
+
+      // The same piece seen in other photos points at that one closet item
+      await PhotoExtractionService.linkDuplicateExtractedItems(
+        selectedGroups.flatMap(group => group.duplicates.map(duplicate => ({
+          itemId: duplicate.item.id,
+          representativeId: group.item.id,
+          score: duplicate.score,
+        })))
+      );
+
+      setAddedCount(createdCount);
+      setCurrentStep('completed');
+    } catch (error: any) {
+      console.error('Error adding batch to closet:', error);
+      Alert.alert('Error', 'Failed to add items to closet. Please try again.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleReset = () => {
+    reset();
+    setCurrentStep('photos');
+    setSelectedItemIds([]);
+    setDuplicateMatches({});
+    setMergeTargets({});
+    setAddedCount(0);
+  };
+
+  const renderPhotoRow = (photo: BatchPhoto) => {
+    const isFailed = photo.status === 'failed';
+    const isActive = photo.status !== 'queued' && photo.status !== 'completed' && !isFailed;
+
+    return (
+      <View key={photo.id} style={styles.photoRow}>
+        <Image source={{ uri: photo.image.uri }} style={styles.photoThumbnail} />
+        <View style={styles.photoInfo}>
+          <View style={styles.photoStatusLine}>
+            <Text style={[styles.photoStatus, isFailed && styles.photoStatusFailed]}>
+              {STATUS_LABELS[photo.status]}
+            </Text>
+            {photo.status === 'completed' && (
+              <Text style={styles.photoItemCount}>{photo.items.length} items</Text>
+            )}
+            {isActive && <ActivityIndicator size="small" color="#3b82f6" />}
+          </View>
+          {isFailed ? (
+            <Text style={styles.photoError} numberOfLines={2}>{photo.error}</Text>
+          ) : (
+            <View style={styles.progressBarContainer}>
+              <View
+                style={[
+                  styles.progressBar,
+                  {
+                    width: `${Math.round(photo.progress * 100)}%`,
+                    backgroundColor: photo.status === 'completed' ? '#10b981' : '#3b82f6',
+                  },
+                ]}
+              />
+            </View>
+          )}
+        </View>
+        {isFailed && (
+          <View style={styles.photoActions}>
+            <TouchableOpacity style={styles.retryButton} onPress={() => retryPhoto(photo.id)}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => removePhoto(photo.id)}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderPhotosStep = () => (
+    <View style={styles.stepContainer}>
+      <Text style={styles.stepTitle}>🗂️ Batch Extraction</Text>
+      <Text style={styles.stepSubtitle}>
+        Pick up to {MAX_BATCH_PHOTOS} photos at once. Items seen in several photos are merged into one.
+      </Text>
+
+      <TouchableOpacity style={styles.selectButton} onPress={handleSelectPhotos}>
+        <Text style={styles.selectButtonText}>
+          {photos.length > 0 ? '+ Add More Photos' : 'Choose Photos'}
+        </Text>
+      </TouchableOpacity>
+
+      {photos.length > 0 && (
+        <>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryText}>
+              {counts.completed} of {counts.total} photos done
+              {counts.failed > 0 ? ` · ${counts.failed} failed` : ''}
+            </Text>
+            {counts.failed > 1 && (
+              <TouchableOpacity onPress={retryFailed}>
+                <Text style={styles.retryAllText}>Retry All</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.photoList}>
+            {photos.map(renderPhotoRow)}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, (isRunning || groups.length === 0) && styles.primaryButtonDisabled]}
+            onPress={handleStartReview}
+            disabled={isRunning || groups.length === 0}
+          >
+            <Text style={styles.primaryButtonText}>
+              {isRunning ? `Extracting ${counts.pending} photos...` : `Review ${groups.length} Items`}
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  const renderGroup = (group: BatchItemGroup) => {
+    const { item } = group;
+    const isSelected = selectedItemIds.includes(item.id);
+    const photo = photos.find(candidate => candidate.id === group.photoId);
+    const duplicate = duplicateMatches[item.id];
+    const isMerged = !!mergeTargets[item.id];
+
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={[styles.groupCard, isSelected && styles.groupCardSelected]}
+        onPress={() => toggleItemSelection(item.id)}
+      >
+        <View style={styles.groupHeader}>
+          {photo && <Image source={{ uri: photo.image.uri }} style={styles.groupThumbnail} />}
+          <View style={styles.groupInfo}>
+            <Text style={styles.groupCategory}>{item.item_category}</Text>
+            <Text style={styles.groupDescription} numberOfLines={2}>{item.ai_description}</Text>
+            {group.duplicates.length > 0 && (
+              <Text style={styles.groupSeenIn}>Seen in {group.duplicates.length + 1} photos</Text>
+            )}
+          </View>
+          <Text style={[styles.groupCheck, isSelected && styles.groupCheckSelected]}>
+            {isSelected ? '✓' : '○'}
+          </Text>
+        </View>
+
+        {duplicate && (
+          <View style={styles.duplicateNotice}>
+            <Text style={styles.duplicateTitle}>
+              {isMerged ? '🔗 Will be linked to your existing item' : '👯 Looks like something already in your closet'}
+            </Text>
+            <Text style={styles.duplicateDetail}>
+              {[duplicate.item.color, duplicate.item.category].filter(Boolean).join(' ')} · {Math.round(duplicate.score * 100)}% match
+            </Text>
+            <View style={styles.duplicateActions}>
+              {isMerged ? (
+                <TouchableOpacity style={styles.duplicateSecondaryButton} onPress={() => handleUndoMerge(item.id)}>
+                  <Text style={styles.duplicateSecondaryButtonText}>Undo</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.duplicateMergeButton} onPress={() => handleMergeDuplicate(item.id)}>
+                  <Text style={styles.duplicateMergeButtonText}>Same Item</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderReviewStep = () => (
+    <View style={styles.stepContainer}>
+      <Text style={styles.stepTitle}>👕 Items Found</Text>
+      <Text style={styles.stepSubtitle}>
+        {groups.length} unique items across {counts.completed} photos. Tap items to select them.
+      </Text>
+
+      {loadingMatches ? (
+        <ActivityIndicator size="large" color="#3b82f6" />
+      ) : (
+        groups.map(renderGroup)
+      )}
+
+      <View style={styles.reviewActions}>
+        <TouchableOpacity style={styles.backButton} onPress={() => setCurrentStep('photos')}>
+          <Text style={styles.backButtonText}>Back to Photos</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.addToClosetButton, selectedItemIds.length === 0 && styles.primaryButtonDisabled]}
+          onPress={handleAddToCloset}
+          disabled={processing || selectedItemIds.length === 0}
+        >
+          <Text style={styles.primaryButtonText}>
+            {processing ? 'Adding...' : `Add ${selectedItemIds.length} Items to Closet`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderCompletedStep = () => (
+    <View style={styles.stepContainer}>
+      <View style={styles.completedContainer}>
+        <Text style={styles.completedIcon}>🎉</Text>
+        <Text style={styles.completedTitle}>Closet Updated!</Text>
+        <Text style={styles.completedSubtitle}>
+          {addedCount} new items from {counts.completed} photos have been added to your closet
+        </Text>
+
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => navigation.navigate('MainTabs', { screen: 'Closet' })}
+        >
+          <Text style={styles.primaryButtonText}>View My Closet</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleReset}>
+          <Text style={styles.secondaryButtonText}>Start Another Batch</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.headerBackButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Batch Extraction</Text>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {currentStep === 'photos' && renderPhotosStep()}
+        {currentStep === 'review' && renderReviewStep()}
+        {currentStep === 'completed' && renderCompletedStep()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerBackButton: {
+    marginRight: 16,
+  },
+  headerBackButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  content: {
+    flex: 1,
+  },
+  stepContainer: {
+    padding: 20,
+  },
+  stepTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  stepSubtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 24,
+  },
+  selectButton: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingVertical: 20,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#3b82f6',
+    borderStyle: 'dashed',
+    marginBottom: 20,
+  },
+  selectButtonText: {
+    color: '#3b82f6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  // Photo progress
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  retryAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  photoList: {
+    marginBottom: 24,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  photoThumbnail: {
+    width: 48,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+  photoInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  photoStatusLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  photoStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  photoStatusFailed: {
+    color: '#ef4444',
+  },
+  photoItemCount: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  photoError: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  progressBarContainer: {
+    height: 6,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  photoActions: {
+    alignItems: 'center',
+    marginLeft: 8,
+    gap: 6,
+  },
+  retryButton: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  retryButtonText: {
+    fontSize: 13,
+    color: 'white',
+    fontWeight: '600',
+  },
+  removeText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+
+  // Buttons
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+  },
+  primaryButtonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    borderWidth: 2,
+    borderColor: '#3b82f6',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+
+  // Review
+  groupCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  groupCardSelected: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  groupThumbnail: {
+    width: 56,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+  groupInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  groupCategory: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    textTransform: 'capitalize',
+    marginBottom: 4,
+  },
+  groupDescription: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+  },
+  groupSeenIn: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#7c3aed',
+    marginTop: 4,
+  },
+  groupCheck: {
+    fontSize: 20,
+    color: '#9ca3af',
+  },
+  groupCheckSelected: {
+    color: '#3b82f6',
+  },
+  duplicateNotice: {
+    backgroundColor: '#fffbeb',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  duplicateTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#92400e',
+    marginBottom: 4,
+  },
+  duplicateDetail: {
+    fontSize: 13,
+    color: '#b45309',
+    marginBottom: 8,
+    textTransform: 'capitalize',
+  },
+  duplicateActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  duplicateMergeButton: {
+    backgroundColor: '#f59e0b',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  duplicateMergeButtonText: {
+    fontSize: 13,
+    color: 'white',
+    fontWeight: '600',
+  },
+  duplicateSecondaryButton: {
+    backgroundColor: 'white',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  duplicateSecondaryButtonText: {
+    fontSize: 13,
+    color: '#92400e',
+    fontWeight: '600',
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+    marginBottom: 24,
+  },
+  backButton: {
+    flex: 1,
+    backgroundColor: 'white',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  backButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  addToClosetButton: {
+    flex: 2,
+    backgroundColor: '#3b82f6',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+
+  // Completed
+  completedContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  completedIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  completedTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  completedSubtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+});
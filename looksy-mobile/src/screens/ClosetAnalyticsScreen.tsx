@@ -0,0 +1,531 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { ClosetService, ClosetItem } from '../services/closetService';
+import { WearService } from '../services/wearService';
+import { ClosetItemWearStats } from '../types';
+import {
+  computeClosetAnalytics,
+  formatMoney,
+  DEFAULT_CURRENCY,
+  SpendBreakdown,
+} from '../utils/closetAnalytics';
+
+interface ClosetAnalyticsScreenProps {
+  navigation: any;
+  user: any;
+}
+
+interface PurchaseDraft {
+  cost: string;
+  currency: string;
+  purchaseDate: string;
+}
+
+// Rows shown per list before "Show all"
+const LIST_PREVIEW_SIZE = 5;
+
+const describeItem = (item: ClosetItem) =>
+  [item.color, item.brand, item.category].filter(Boolean).join(' ');
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime());
+
+export const ClosetAnalyticsScreen: React.FC<ClosetAnalyticsScreenProps> = ({ navigation, user }) => {
+  const [items, setItems] = useState<ClosetItem[]>([]);
+  const [wearStats, setWearStats] = useState<{ [key: string]: ClosetItemWearStats }>({});
+  const [loading, setLoading] = useState(true);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PurchaseDraft>({ cost: '', currency: DEFAULT_CURRENCY, purchaseDate: '' });
+  const [saving, setSaving] = useState(false);
+  const [expandedLists, setExpandedLists] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, []);
+
+  const loadAnalytics = async () => {
+    try {
+      setLoading(true);
+      const [closetItems, stats] = await Promise.all([
+        ClosetService.getUserClosetItems(user.id),
+        WearService.getWearStats(user.id),
+      ]);
+      setItems(closetItems);
+      setWearStats(stats);
+    } catch (error) {
+      console.error('Error loading closet analytics:', error);
+      Alert.alert('Error', 'Failed to load closet analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const analytics = computeClosetAnalytics(items, wearStats);
+  const money = (amount: number) => formatMoney(amount, analytics.currency);
+
+  const startEditing = (item: ClosetItem) => {
+    setEditingItemId(item.id);
+    setDraft({
+      cost: item.cost !== undefined && item.cost !== null ? String(item.cost) : '',
+      currency: item.currency || analytics.currency,
+      purchaseDate: item.purchase_date || '',
+    });
+  };
+
+  const handleSavePurchase = async (item: ClosetItem) => {
+    const cost = draft.cost.trim() === '' ? null : Number(draft.cost.replace(',', '.'));
+    const currency = draft.currency.trim().toUpperCase();
+    const purchaseDate = draft.purchaseDate.trim();
+
+    if (cost !== null && (isNaN(cost) || cost < 0)) {
+      Alert.alert('Invalid Price', 'Enter the price as a number, e.g. 49.99');
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      Alert.alert('Invalid Currency', 'Use a three-letter currency code such as USD or EUR');
+      return;
+    }
+    if (purchaseDate !== '' && !isValidDate(purchaseDate)) {
+      Alert.alert('Invalid Date', 'Enter the purchase date as YYYY-MM-DD');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updates: any = {
+        cost,
+        currency,
+        purchase_date: purchaseDate || null,
+      };
+      await ClosetService.updateClosetItem(item.id, updates);
+      setItems(prev => prev.map(existing => existing.id === item.id ? { ...existing, ...updates } : existing));
+      setEditingItemId(null);
+    } catch (error) {
+      console.error('Error saving purchase details:', error);
+      Alert.alert('Error', 'Failed to save purchase details. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleList = (listKey: string) => {
+    setExpandedLists(prev =>
+      prev.includes(listKey) ? prev.filter(key => key !== listKey) : [...prev, listKey]
+    );
+  };
+
+  const renderEditor = (item: ClosetItem) => (
+    <View style={styles.editor}>
+      <View style={styles.editorRow}>
+        <TextInput
+          style={[styles.input, styles.priceInput]}
+          value={draft.cost}
+          onChangeText={cost => setDraft(prev => ({ ...prev, cost }))}
+          placeholder="Price"
+          keyboardType="decimal-pad"
+        />
+        <TextInput
+          style={[styles.input, styles.currencyInput]}
+          value={draft.currency}
+          onChangeText={currency => setDraft(prev => ({ ...prev, currency }))}
+          placeholder="USD"
+          autoCapitalize="characters"
+          maxLength={3}
+        />
+      </View>
+      <TextInput
+        style={styles.input}
+        value={draft.purchaseDate}
+        onChangeText={purchaseDate => setDraft(prev => ({ ...prev, purchaseDate }))}
+        placeholder="Purchase date (YYYY-MM-DD)"
+        keyboardType="numbers-and-punctuation"
+      />
+      <View style={styles.editorActions}>
+        <TouchableOpacity onPress={() => setEditingItemId(null)}>
+          <Text style={styles.editorCancel}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.editorSave}
+          onPress={() => handleSavePurchase(item)}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.editorSaveText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderItemRow = (item: ClosetItem, detail: string) => (
+    <View key={item.id}>
+      <TouchableOpacity style={styles.itemRow} onPress={() => startEditing(item)}>
+        <Text style={styles.itemName} numberOfLines={1}>{describeItem(item)}</Text>
+        <Text style={styles.itemDetail}>{detail}</Text>
+      </TouchableOpacity>
+      {editingItemId === item.id && renderEditor(item)}
+    </View>
+  );
+
+  const renderList = <T,>(listKey: string, rows: T[], renderRow: (row: T) => React.ReactNode) => {
+    const expanded = expandedLists.includes(listKey);
+    return (
+      <>
+        {(expanded ? rows : rows.slice(0, LIST_PREVIEW_SIZE)).map(renderRow)}
+        {rows.length > LIST_PREVIEW_SIZE && (
+          <TouchableOpacity onPress={() => toggleList(listKey)}>
+            <Text style={styles.showAll}>{expanded ? 'Show less' : `Show all ${rows.length}`}</Text>
+          </TouchableOpacity>
+        )}
+      </>
+    );
+  };
+
+  const renderBreakdown = (title: string, breakdown: SpendBreakdown[]) => {
+    const max = Math.max(...breakdown.map(entry => entry.total), 1);
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        {breakdown.length === 0 ? (
+          <Text style={styles.emptyText}>Add prices to see where your money goes.</Text>
+        ) : (
+          breakdown.map(entry => (
+            <View key={entry.key} style={styles.barRow}>
+              <Text style={styles.barLabel}>{entry.key}</Text>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${(entry.total / max) * 100}%` }]} />
+              </View>
+              <Text style={styles.barValue}>{money(entry.total)}</Text>
+            </View>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3b82f6" />
+          <Text style={styles.loadingText}>Crunching your closet numbers...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.headerBackButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Closet Analytics</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {/* Summary */}
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{money(analytics.totalValue)}</Text>
+            <Text style={styles.summaryLabel}>Closet value</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>
+              {analytics.averageCostPerWear !== null ? money(analytics.averageCostPerWear) : '–'}
+            </Text>
+            <Text style={styles.summaryLabel}>Avg. cost per wear</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{analytics.neverWorn.length}</Text>
+            <Text style={styles.summaryLabel}>Never worn</Text>
+          </View>
+        </View>
+
+        <Text style={styles.coverageText}>
+          {analytics.pricedItemCount} of {items.length} items priced
+          {analytics.otherCurrencyItems.length > 0
+            ? ` · ${analytics.otherCurrencyItems.length} in other currencies not included`
+            : ''}
+        </Text>
+
+        {/* Cost per wear */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>💸 Cost per Wear</Text>
+          <Text style={styles.sectionSubtitle}>Highest first: wear these more to get your money's worth</Text>
+          {analytics.costPerWear.length === 0 ? (
+            <Text style={styles.emptyText}>Log what you wear to see cost per wear.</Text>
+          ) : (
+            renderList('costPerWear', analytics.costPerWear, entry =>
+              renderItemRow(
+                entry.item,
+                `${money(entry.costPerWear)} · ${entry.wearCount} wear${entry.wearCount !== 1 ? 's' : ''}`
+              )
+            )
+          )}
+        </View>
+
+        {renderBreakdown('🗂️ Spend by Category', analytics.spendByCategory)}
+        {renderBreakdown('🌦️ Spend by Season', analytics.spendBySeason)}
+
+        {/* Never worn */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🏷️ Never Worn</Text>
+          <Text style={styles.sectionSubtitle}>
+            {analytics.neverWornValue > 0
+              ? `${money(analytics.neverWornValue)} sitting in your closet`
+              : 'Items with no logged wears'}
+          </Text>
+          {analytics.neverWorn.length === 0 ? (
+            <Text style={styles.emptyText}>Everything has been worn at least once. 🎉</Text>
+          ) : (
+            renderList('neverWorn', analytics.neverWorn, item =>
+              renderItemRow(
+                item,
+                item.cost !== undefined && item.cost !== null
+                  ? formatMoney(Number(item.cost), item.currency || DEFAULT_CURRENCY)
+                  : 'No price'
+              )
+            )
+          )}
+        </View>
+
+        {/* Missing prices */}
+        {analytics.unpricedItems.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>✏️ Add Prices</Text>
+            <Text style={styles.sectionSubtitle}>Tap an item to enter what you paid</Text>
+            {renderList('unpriced', analytics.unpricedItems, item => renderItemRow(item, 'Add price'))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerBackButton: {
+    marginRight: 16,
+  },
+  headerBackButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  scrollContent: {
+    padding: 20,
+  },
+
+  // Summary
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  summaryLabel: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  coverageText: {
+    fontSize: 12,
+    color: '#9ca3af',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+
+  // Sections
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  showAll: {
+    fontSize: 13,
+    color: '#3b82f6',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+
+  // Item rows
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1f2937',
+    textTransform: 'capitalize',
+    marginRight: 12,
+  },
+  itemDetail: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+
+  // Bars
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  barLabel: {
+    width: 80,
+    fontSize: 13,
+    color: '#374151',
+    textTransform: 'capitalize',
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginHorizontal: 8,
+  },
+  barFill: {
+    height: '100%',
+    backgroundColor: '#3b82f6',
+    borderRadius: 4,
+  },
+  barValue: {
+    width: 80,
+    fontSize: 12,
+    color: '#6b7280',
+    textAlign: 'right',
+  },
+
+  // Purchase editor
+  editor: {
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 8,
+  },
+  editorRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  priceInput: {
+    flex: 1,
+  },
+  currencyInput: {
+    width: 72,
+    textAlign: 'center',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+  },
+  editorCancel: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  editorSave: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  editorSaveText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
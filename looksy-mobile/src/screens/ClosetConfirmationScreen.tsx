@@ -9,7 +9,9 @@ import {
   Alert,
   ActivityIndicator,
 } from 'react-native';
-import { ClosetService, DetectedClosetItem } from '../services/closetService';
+import { ClosetService, DetectedClosetItem, ClosetItem } from '../services/closetService';
+import { WearService } from '../services/wearService';
+import { ClosetMatch } from '../utils/closetMatching';
 
 interface ClosetConfirmationScreenProps {
   route: {
@@ -31,6 +33,8 @@ export const ClosetConfirmationScreen: React.FC<ClosetConfirmationScreenProps> =
   const [items, setItems] = useState<DetectedClosetItem[]>(detectedItems || []);
   const [loading, setLoading] = useState(false);
   const [confirmations, setConfirmations] = useState<{ [key: string]: boolean | null }>({});
+  const [duplicateMatches, setDuplicateMatches] = useState<{ [key: string]: ClosetMatch<ClosetItem> }>({});
+  const [mergeTargets, setMergeTargets] = useState<{ [key: string]: ClosetMatch }>({});
 
   useEffect(() => {
     loadDetectedItems();
@@ -42,15 +46,50 @@ export const ClosetConfirmationScreen: React.FC<ClosetConfirmationScreenProps> =
         setLoading(true);
         const detected = await ClosetService.getDetectedClosetItems(outfitId);
         setItems(detected);
+        loadDuplicateMatches(detected);
       } catch (error) {
         console.error('Error loading detected items:', error);
         Alert.alert('Error', 'Failed to load detected closet items');
       } finally {
         setLoading(false);
       }
+    } else {
+      loadDuplicateMatches(detectedItems);
     }
   };
 
+  // Items already linked to the closet don't need a duplicate check
+  const loadDuplicateMatches = async (detected: DetectedClosetItem[]) => {
+    try {
+      const matches = await ClosetService.findLikelyDuplicates(
+        user.id,
+        detected
+          .filter(item => !item.existsInCloset)
+          .map(item => ({
+            id: item.id,
+            category: item.category,
+            color: item.attributes.color,
+            pattern: item.attributes.pattern,
+            material: item.attributes.material,
+          }))
+      );
+      setDuplicateMatches(matches);
+    } catch (error) {
+      console.error('Error finding duplicate closet items:', error);
+    }
+  };
+
+  const toggleMerge = (itemId: string) => {
+    setMergeTargets(prev => {
+      if (prev[itemId]) {
+        const { [itemId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [itemId]: duplicateMatches[itemId] };
+    });
+    handleConfirmation(itemId, true);
+  };
+
   const handleConfirmation = (itemId: string, confirmed: boolean) => {
     setConfirmations(prev => ({
       ...prev,
@@ -62,14 +101,16 @@ export const ClosetConfirmationScreen: React.FC<ClosetConfirmationScreenProps> =
     try {
       setLoading(true);
       
-      // Save confirmations to database
+      // Save confirmations to database. A "yes" on an item that isn't in the
+      // closet creates a new item below rather than confirming a weak candidate.
       for (const item of items) {
         const confirmation = confirmations[item.id];
-        if (confirmation !== null) {
+        if (confirmation === false || (confirmation === true && item.existsInCloset)) {
           await ClosetService.updateClosetItemConfirmation(
             item.id,
             confirmation,
-            user.id
+            user.id,
+            item.closetItemId
           );
         }
       }
@@ -79,12 +120,25 @@ export const ClosetConfirmationScreen: React.FC<ClosetConfirmationScreenProps> =
         confirmations[item.id] === true && !item.existsInCloset
       );
       
+      const wornClosetItemIds = items
+        .filter(item => confirmations[item.id] === true && item.existsInCloset && item.closetItemId)
+        .map(item => item.closetItemId as string);
+
       if (confirmedNewItems.length > 0) {
-        await ClosetService.createClosetItemsFromDetections(
+        const closetItemIds = await ClosetService.createClosetItemsFromDetections(
           confirmedNewItems,
           user.id,
-          outfitId
+          outfitId,
+          mergeTargets
         );
+        wornClosetItemIds.push(...closetItemIds);
+      }
+
+      // Every confirmed item was worn in this outfit
+      try {
+        await WearService.logOutfitWear(user.id, outfitId, wornClosetItemIds);
+      } catch (wearError) {
+        console.error('Error logging outfit wear:', wearError);
       }
 
       Alert.alert(
@@ -190,6 +244,13 @@ export const ClosetConfirmationScreen: React.FC<ClosetConfirmationScreenProps> =
                 )}
               </View>
               
+              {item.existsInCloset && item.matchedClosetItem && (
+                <Text style={styles.matchText}>
+                  This looks like your {[item.matchedClosetItem.color, item.matchedClosetItem.category].filter(Boolean).join(' ')}
+                  {item.matchConfidence ? ` (${Math.round(item.matchConfidence * 100)}% match)` : ''}
+                </Text>
+              )}
+
               <View style={styles.attributesContainer}>
                 {item.attributes.color && (
                   <Text style={styles.attributeText}>Color: {item.attributes.color}</Text>
@@ -211,6 +272,22 @@ export const ClosetConfirmationScreen: React.FC<ClosetConfirmationScreenProps> =
                 </Text>
               </View>
 
+              {duplicateMatches[item.id] && (
+                <View style={styles.duplicateNotice}>
+                  <Text style={styles.duplicateText}>
+                    Looks like your {[duplicateMatches[item.id].item.color, duplicateMatches[item.id].item.category].filter(Boolean).join(' ')} ({Math.round(duplicateMatches[item.id].score * 100)}% match)
+                  </Text>
+                  <TouchableOpacity
+                    style={mergeTargets[item.id] ? styles.mergeButtonActive : styles.mergeButton}
+                    onPress={() => toggleMerge(item.id)}
+                  >
+                    <Text style={mergeTargets[item.id] ? styles.mergeButtonTextActive : styles.mergeButtonText}>
+                      {mergeTargets[item.id] ? '🔗 Same item' : 'Same item?'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               <Text style={styles.confirmationQuestion}>
                 Is this item from your closet?
               </Text>
@@ -376,6 +453,12 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '500',
   },
+  matchText: {
+    fontSize: 14,
+    color: '#15803d',
+    fontWeight: '500',
+    marginBottom: 12,
+  },
   attributesContainer: {
     marginBottom: 12,
   },
@@ -396,6 +479,46 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontStyle: 'italic',
   },
+  duplicateNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    backgroundColor: '#fffbeb',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  duplicateText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#92400e',
+  },
+  mergeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#f59e0b',
+  },
+  mergeButtonActive: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#f59e0b',
+    backgroundColor: '#f59e0b',
+  },
+  mergeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  mergeButtonTextActive: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'white',
+  },
   confirmationQuestion: {
     fontSize: 16,
     fontWeight: '500',
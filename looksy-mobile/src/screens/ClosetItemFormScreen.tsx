@@ -0,0 +1,786 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { ClosetService, ClosetItem } from '../services/closetService';
+import { CameraService, ImageResult } from '../services/cameraService';
+import { UploadService } from '../services/uploadService';
+import {
+  TAXONOMY_VERSION,
+  TAXONOMY_CATEGORIES,
+  CLOSET_CATEGORIES,
+  CLOSET_COLORS,
+  CLOSET_PATTERNS,
+  CLOSET_MATERIALS,
+  CLOSET_STYLE_TAGS,
+  CLOSET_SEASONS,
+  CLOSET_CONDITIONS,
+  FORMALITY_LEVELS,
+  normalizeCategory,
+  normalizeColor,
+  normalizePattern,
+  normalizeMaterial,
+  normalizeStyleTags,
+  normalizeSeasons,
+  colorHex,
+  validateClosetItemAttributes,
+} from '../utils/taxonomy';
+
+interface ClosetItemFormScreenProps {
+  route: {
+    params?: {
+      itemId?: string;
+    };
+  };
+  navigation: any;
+  user: any;
+}
+
+interface ItemForm {
+  category: string;
+  subcategory: string;
+  color: string;
+  pattern: string;
+  material: string;
+  brand: string;
+  size: string;
+  style_tags: string[];
+  season_tags: string[];
+  formality_level?: number;
+  condition: string;
+  notes: string;
+}
+
+// A saved photo has a storage path; a new one only has the picked image until saving
+interface FormPhoto {
+  key: string;
+  path?: string;
+  blurredPath?: string;
+  displayUrl?: string | null;
+  image?: ImageResult;
+}
+
+const MAX_PHOTOS = 6;
+
+const EMPTY_FORM: ItemForm = {
+  category: '',
+  subcategory: '',
+  color: '',
+  pattern: '',
+  material: '',
+  brand: '',
+  size: '',
+  style_tags: [],
+  season_tags: [],
+  formality_level: undefined,
+  condition: 'good',
+  notes: '',
+};
+
+const CATEGORY_LABELS: { [category: string]: string } = Object.fromEntries(
+  TAXONOMY_CATEGORIES.map(category => [category.id, `${category.icon} ${category.label}`])
+);
+
+const lower = (value?: string) => (value || '').trim().toLowerCase();
+
+// Taxonomy value for older free-text attributes; anything unmapped is kept so it can be corrected
+const prefill = (value: string | undefined, normalize: (raw: unknown) => string | null) =>
+  normalize(value) || lower(value);
+
+const prefillTags = (tags: string[] | undefined, normalize: (raw: unknown) => string[]) =>
+  [...new Set((tags || []).map(tag => normalize([tag])[0] || lower(tag)))];
+
+/**
+ * AI-created items may use fine categories such as "jeans"; map them onto
+ * the taxonomy's coarse category and keep the fine one as the subcategory
+ */
+const toForm = (item: ClosetItem): ItemForm => {
+  const { category, subcategory } = normalizeCategory(item.category, item.subcategory);
+
+  return {
+    category,
+    subcategory: subcategory || '',
+    color: prefill(item.color, normalizeColor),
+    pattern: prefill(item.pattern, normalizePattern),
+    material: prefill(item.material, normalizeMaterial),
+    brand: item.brand || '',
+    size: item.size || '',
+    style_tags: prefillTags(item.style_tags, normalizeStyleTags),
+    season_tags: prefillTags(item.season_tags, normalizeSeasons),
+    formality_level: item.formality_level ?? undefined,
+    condition: lower(item.condition) || 'good',
+    notes: item.notes || '',
+  };
+};
+
+const nearestFormality = (value?: number) => {
+  if (value === undefined || value === null) return undefined;
+  return FORMALITY_LEVELS.reduce((best, level) =>
+    Math.abs(level.value - value) < Math.abs(best.value - value) ? level : best
+  ).value;
+};
+
+export const ClosetItemFormScreen: React.FC<ClosetItemFormScreenProps> = ({
+  route,
+  navigation,
+  user,
+}) => {
+  const itemId = route.params?.itemId;
+  const [item, setItem] = useState<ClosetItem | null>(null);
+  const [form, setForm] = useState<ItemForm>(EMPTY_FORM);
+  const [photos, setPhotos] = useState<FormPhoto[]>([]);
+  const [errors, setErrors] = useState<{ [field: string]: string }>({});
+  const [loading, setLoading] = useState(!!itemId);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (itemId) {
+      loadItem(itemId);
+    }
+  }, [itemId]);
+
+  const loadItem = async (id: string) => {
+    try {
+      setLoading(true);
+      const existing = await ClosetService.getClosetItem(id);
+      if (!existing) {
+        Alert.alert('Not Found', 'This item is no longer in your closet.');
+        navigation.goBack();
+        return;
+      }
+
+      setItem(existing);
+      setForm(toForm(existing));
+
+      const paths = existing.image_paths || [];
+      const blurred = existing.blurred_image_paths || [];
+      const displayUrls = await Promise.all(
+        paths.map((path, index) => UploadService.getDisplayImageUrl(blurred[index], path))
+      );
+      setPhotos(paths.map((path, index) => ({
+        key: path,
+        path,
+        blurredPath: blurred[index],
+        displayUrl: displayUrls[index],
+      })));
+    } catch (error) {
+      console.error('Error loading closet item:', error);
+      Alert.alert('Error', 'Failed to load item. Please try again.');
+      navigation.goBack();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateField = <K extends keyof ItemForm>(field: K, value: ItemForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => {
+      const { [field]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const selectCategory = (category: string) => {
+    updateField('category', category);
+    if (!CLOSET_CATEGORIES[category]?.includes(form.subcategory)) {
+      updateField('subcategory', '');
+    }
+  };
+
+  const toggleOne = (field: 'subcategory' | 'color' | 'pattern' | 'material' | 'condition', value: string) => {
+    updateField(field, form[field] === value ? '' : value);
+  };
+
+  const toggleTag = (field: 'style_tags' | 'season_tags', tag: string) => {
+    const tags = form[field];
+    updateField(field, tags.includes(tag) ? tags.filter(existing => existing !== tag) : [...tags, tag]);
+  };
+
+  const handleAddPhoto = async () => {
+    if (photos.length >= MAX_PHOTOS) {
+      Alert.alert('Photo Limit', `An item can have up to ${MAX_PHOTOS} photos.`);
+      return;
+    }
+
+    const image = await CameraService.selectImage();
+    if (image) {
+      setPhotos(prev => [...prev, { key: `${Date.now()}_${image.uri}`, displayUrl: image.uri, image }]);
+    }
+  };
+
+  const handleRemovePhoto = (key: string) => {
+    setPhotos(prev => prev.filter(photo => photo.key !== key));
+  };
+
+  const handleSave = async () => {
+    const validationErrors = validateClosetItemAttributes(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      Alert.alert('Check Details', 'Some fields need a value from the list.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      // Upload new photos first so a failed upload leaves the item untouched
+      const imagePaths: string[] = [];
+      for (const photo of photos) {
+        if (photo.path) {
+          imagePaths.push(photo.path);
+          continue;
+        }
+        const result = await UploadService.uploadClosetItemImage(user.id, photo.image as ImageResult);
+        if (!result.success || !result.imagePath) {
+          throw new Error(result.error || 'Photo upload failed');
+        }
+        imagePaths.push(result.imagePath);
+      }
+
+      const optional = (value: string) => lower(value) || null;
+      const attributes = {
+        category: lower(form.category),
+        subcategory: optional(form.subcategory),
+        color: optional(form.color),
+        pattern: optional(form.pattern),
+        material: optional(form.material),
+        brand: form.brand.trim() || null,
+        size: form.size.trim() || null,
+        style_tags: form.style_tags,
+        season_tags: form.season_tags.length > 0 ? form.season_tags : ['all-season'],
+        formality_level: form.formality_level ?? null,
+        condition: form.condition || 'good',
+        notes: form.notes.trim() || null,
+        image_paths: imagePaths,
+        taxonomy_version: TAXONOMY_VERSION,
+      } as Partial<ClosetItem>;
+
+      const originalPaths = item?.image_paths || [];
+      const photosChanged = imagePaths.length !== originalPaths.length ||
+        imagePaths.some((path, index) => path !== originalPaths[index]);
+
+      let savedId: string;
+      if (item) {
+        const updates: Partial<ClosetItem> = { ...attributes };
+        if (photosChanged) {
+          // Keep blurred copies in step with the photos that stayed; the blur
+          // function regenerates the full list below
+          const kept = photos.filter(photo => photo.path);
+          updates.blurred_image_paths = kept.every(photo => photo.blurredPath)
+            ? kept.map(photo => photo.blurredPath as string)
+            : [];
+          if (item.product_image_path && !imagePaths.includes(item.product_image_path)) {
+            updates.product_image_path = null;
+          }
+        }
+        await ClosetService.updateClosetItem(item.id, updates);
+        savedId = item.id;
+      } else {
+        savedId = await ClosetService.addClosetItem(user.id, attributes);
+      }
+
+      if (photosChanged && imagePaths.length > 0) {
+        UploadService.requestFaceBlur({ closetItemId: savedId });
+      }
+
+      navigation.goBack();
+    } catch (error: any) {
+      console.error('Error saving closet item:', error);
+      Alert.alert('Error', error.message || 'Failed to save item. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!item) return;
+
+    Alert.alert(
+      'Delete Item',
+      'Remove this item from your closet?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          // The closet screen holds the delete back for a few seconds so it can be undone
+          onPress: () => navigation.navigate('MainTabs', {
+            screen: 'Closet',
+            params: { pendingDeleteItemId: item.id },
+          }),
+        },
+      ]
+    );
+  };
+
+  const renderChips = (
+    options: string[],
+    isSelected: (option: string) => boolean,
+    onPress: (option: string) => void,
+    currentValues: string[],
+    swatch?: (option: string) => string | null
+  ) => {
+    // Values from before the vocabulary (or from the AI) stay visible so they can be corrected
+    const unknownValues = currentValues.filter(value => value && !options.includes(value));
+    const shown = [...unknownValues, ...options];
+    return (
+      <View style={styles.chipRow}>
+        {shown.map(option => {
+          const unknown = !options.includes(option);
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.chip,
+                isSelected(option) && styles.chipSelected,
+                unknown && styles.chipUnknown,
+              ]}
+              onPress={() => onPress(option)}
+            >
+              {swatch?.(option) && (
+                <View style={[styles.colorSwatch, { backgroundColor: swatch(option) as string }]} />
+              )}
+              <Text style={[
+                styles.chipText,
+                isSelected(option) && styles.chipTextSelected,
+                unknown && styles.chipTextUnknown,
+              ]}>
+                {CATEGORY_LABELS[option] || option}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderSingleField = (
+    label: string,
+    field: 'color' | 'pattern' | 'material' | 'condition',
+    options: string[]
+  ) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{label}</Text>
+      {renderChips(
+        options,
+        option => form[field] === option,
+        option => toggleOne(field, option),
+        [form[field]],
+        field === 'color' ? colorHex : undefined
+      )}
+      {errors[field] && <Text style={styles.errorText}>{errors[field]}</Text>}
+    </View>
+  );
+
+  const renderTagField = (label: string, field: 'style_tags' | 'season_tags', options: string[]) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{label}</Text>
+      {renderChips(options, option => form[field].includes(option), option => toggleTag(field, option), form[field])}
+      {errors[field] && <Text style={styles.errorText}>{errors[field]}</Text>}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3b82f6" />
+          <Text style={styles.loadingText}>Loading item...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const subcategories = CLOSET_CATEGORIES[form.category] || [];
+  const selectedFormality = nearestFormality(form.formality_level);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.headerBackButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{item ? 'Edit Item' : 'Add Item'}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {item?.source === 'photo_extraction' && (
+          <View style={styles.aiNotice}>
+            <Text style={styles.aiNoticeText}>
+              These details were filled in from a photo. Correct anything the AI got wrong.
+            </Text>
+          </View>
+        )}
+
+        {/* Photos */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Photos</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoRow}>
+            {photos.map(photo => (
+              <View key={photo.key} style={styles.photoContainer}>
+                {photo.displayUrl ? (
+                  <Image source={{ uri: photo.displayUrl }} style={styles.photo} />
+                ) : (
+                  <View style={[styles.photo, styles.photoPlaceholder]}>
+                    <Text style={styles.photoPlaceholderText}>📷</Text>
+                  </View>
+                )}
+                <TouchableOpacity style={styles.removePhotoButton} onPress={() => handleRemovePhoto(photo.key)}>
+                  <Text style={styles.removePhotoText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {photos.length < MAX_PHOTOS && (
+              <TouchableOpacity style={[styles.photo, styles.addPhotoButton]} onPress={handleAddPhoto}>
+                <Text style={styles.addPhotoIcon}>+</Text>
+                <Text style={styles.addPhotoText}>Add Photo</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+
+        {/* Category */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Category *</Text>
+          {renderChips(
+            Object.keys(CLOSET_CATEGORIES),
+            option => form.category === option,
+            selectCategory,
+            [form.category]
+          )}
+          {errors.category && <Text style={styles.errorText}>{errors.category}</Text>}
+
+          {subcategories.length > 0 && (
+            <>
+              <Text style={styles.fieldLabel}>Type</Text>
+              {renderChips(
+                subcategories,
+                option => form.subcategory === option,
+                option => toggleOne('subcategory', option),
+                [form.subcategory]
+              )}
+            </>
+          )}
+          {errors.subcategory && <Text style={styles.errorText}>{errors.subcategory}</Text>}
+        </View>
+
+        {renderSingleField('Color', 'color', CLOSET_COLORS)}
+        {renderSingleField('Pattern', 'pattern', CLOSET_PATTERNS)}
+        {renderSingleField('Material', 'material', CLOSET_MATERIALS)}
+
+        {/* Brand and size */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Brand & Size</Text>
+          <TextInput
+            style={styles.input}
+            value={form.brand}
+            onChangeText={value => updateField('brand', value)}
+            placeholder="Brand"
+            placeholderTextColor="#9ca3af"
+          />
+          <TextInput
+            style={styles.input}
+            value={form.size}
+            onChangeText={value => updateField('size', value)}
+            placeholder="Size (e.g. M, 32x30, 9.5)"
+            placeholderTextColor="#9ca3af"
+            autoCapitalize="characters"
+          />
+        </View>
+
+        {renderTagField('Style', 'style_tags', CLOSET_STYLE_TAGS)}
+        {renderTagField('Seasons', 'season_tags', CLOSET_SEASONS)}
+
+        {/* Formality */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Formality</Text>
+          <View style={styles.chipRow}>
+            {FORMALITY_LEVELS.map(level => (
+              <TouchableOpacity
+                key={level.value}
+                style={[styles.chip, selectedFormality === level.value && styles.chipSelected]}
+                onPress={() => updateField(
+                  'formality_level',
+                  selectedFormality === level.value ? undefined : level.value
+                )}
+              >
+                <Text style={[styles.chipText, selectedFormality === level.value && styles.chipTextSelected]}>
+                  {level.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {errors.formality_level && <Text style={styles.errorText}>{errors.formality_level}</Text>}
+        </View>
+
+        {renderSingleField('Condition', 'condition', CLOSET_CONDITIONS)}
+
+        {/* Notes */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.notesInput]}
+            value={form.notes}
+            onChangeText={value => updateField('notes', value)}
+            placeholder="Fit, care instructions, where you bought it..."
+            placeholderTextColor="#9ca3af"
+            multiline
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>{item ? 'Save Changes' : 'Add to Closet'}</Text>
+          )}
+        </TouchableOpacity>
+
+        {item && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+            <Text style={styles.deleteButtonText}>Delete Item</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerBackButton: {
+    marginRight: 16,
+  },
+  headerBackButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+
+  aiNotice: {
+    backgroundColor: '#ecfdf5',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  aiNoticeText: {
+    fontSize: 13,
+    color: '#047857',
+  },
+
+  // Sections
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+
+  // Chips
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#3b82f6',
+  },
+  chipUnknown: {
+    borderColor: '#ef4444',
+    borderStyle: 'dashed',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '500',
+    textTransform: 'capitalize',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+  },
+  chipTextUnknown: {
+    color: '#ef4444',
+  },
+  colorSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+
+  // Photos
+  photoRow: {
+    gap: 12,
+  },
+  photoContainer: {
+    position: 'relative',
+  },
+  photo: {
+    width: 96,
+    height: 96,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  photoPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoPlaceholderText: {
+    fontSize: 28,
+    opacity: 0.5,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removePhotoText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  addPhotoButton: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderStyle: 'dashed',
+    backgroundColor: '#f9fafb',
+  },
+  addPhotoIcon: {
+    fontSize: 24,
+    color: '#6b7280',
+  },
+  addPhotoText: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+
+  // Inputs
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+
+  // Actions
+  saveButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  deleteButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  deleteButtonText: {
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,9 +9,14 @@ import {
   FlatList,
   Image,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { supabase } from '../services/supabase';
 import { UploadService } from '../services/uploadService';
+import { ClosetService } from '../services/closetService';
+import { WearService } from '../services/wearService';
+import { ClosetItemWearStats } from '../types';
+import { TAXONOMY_CATEGORIES, categoryInfo, colorHex, normalizeCategory } from '../utils/taxonomy';
 
 interface ClosetItem {
   id: string;
@@ -39,21 +44,26 @@ interface ClosetItem {
   notes?: string;
   all_attributes?: any;
   image_paths?: string[];
+  blurred_image_paths?: string[];
+  product_image_path?: string;
 }
 
 interface ClosetScreenProps {
   navigation: any;
+  route?: {
+    params?: {
+      pendingDeleteItemId?: string;
+    };
+  };
   user: any;
 }
 
+// How long a deleted item can be restored before it is removed for good
+const UNDO_DELETE_MS = 5000;
+
 const CATEGORIES = [
   { id: 'all', name: 'All', icon: '👗' },
-  { id: 'top', name: 'Tops', icon: '👔' },
-  { id: 'bottom', name: 'Bottoms', icon: '👖' },
-  { id: 'outerwear', name: 'Outerwear', icon: '🧥' },
-  { id: 'shoes', name: 'Shoes', icon: '👟' },
-  { id: 'accessories', name: 'Accessories', icon: '👜' },
-  { id: 'dress', name: 'Dresses', icon: '👗' },
+  ...TAXONOMY_CATEGORIES.map(category => ({ id: category.id, name: category.label, icon: category.icon })),
 ];
 
 const SORT_OPTIONS = [
@@ -61,6 +71,7 @@ const SORT_OPTIONS = [
   { id: 'oldest', name: 'Oldest First' },
   { id: 'category', name: 'By Category' },
   { id: 'confidence', name: 'By Confidence' },
+  { id: 'most_worn', name: 'Most Worn' },
 ];
 
 const SOURCE_FILTERS = [
@@ -69,18 +80,33 @@ const SOURCE_FILTERS = [
   { id: 'photo_extraction', name: 'From Photos' },
 ];
 
-export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user }) => {
+export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, route, user }) => {
   const [items, setItems] = useState<ClosetItem[]>([]);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [selectedSort, setSelectedSort] = useState('newest');
   const [selectedSource, setSelectedSource] = useState('all');
   const [loading, setLoading] = useState(true);
   const [imageUrls, setImageUrls] = useState<{ [key: string]: string }>({});
+  const [wearStats, setWearStats] = useState<{ [key: string]: ClosetItemWearStats }>({});
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const pendingDeleteRef = useRef<string | null>(null);
+  const deleteTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     loadClosetItems();
+    // Leaving the closet confirms a delete that is still waiting for undo
+    return () => finishPendingDelete();
   }, []);
 
+  // The item form hands deletes over so they can be undone from here
+  const requestedDeleteId = route?.params?.pendingDeleteItemId;
+  useEffect(() => {
+    if (requestedDeleteId) {
+      navigation.setParams({ pendingDeleteItemId: undefined });
+      scheduleDelete(requestedDeleteId);
+    }
+  }, [requestedDeleteId]);
+
   // Refresh when screen comes into focus (when user returns from PhotoExtraction)
   useEffect(() => {
     const unsubscribe = navigation.addListener('focus', () => {
@@ -102,6 +128,7 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
       if (error) throw error;
 
       setItems(data || []);
+      loadWearStats();
     } catch (error) {
       console.error('Error loading closet items:', error);
     } finally {
@@ -109,6 +136,48 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
     }
   };
 
+  const loadWearStats = async () => {
+    try {
+      setWearStats(await WearService.getWearStats(user.id));
+    } catch (error) {
+      console.error('Error loading wear stats:', error);
+    }
+  };
+
+  const scheduleDelete = (itemId: string) => {
+    finishPendingDelete();
+    pendingDeleteRef.current = itemId;
+    setPendingDeleteId(itemId);
+    deleteTimerRef.current = setTimeout(finishPendingDelete, UNDO_DELETE_MS);
+  };
+
+  const clearPendingDelete = () => {
+    if (deleteTimerRef.current) {
+      clearTimeout(deleteTimerRef.current);
+      deleteTimerRef.current = null;
+    }
+    const itemId = pendingDeleteRef.current;
+    pendingDeleteRef.current = null;
+    setPendingDeleteId(null);
+    return itemId;
+  };
+
+  const finishPendingDelete = () => {
+    const itemId = clearPendingDelete();
+    if (!itemId) return;
+
+    setItems(prev => prev.filter(item => item.id !== itemId));
+    ClosetService.deleteClosetItem(itemId).catch(error => {
+      console.error('Error deleting closet item:', error);
+      Alert.alert('Error', 'Failed to delete item. Please try again.');
+      loadClosetItems();
+    });
+  };
+
+  const handleUndoDelete = () => {
+    clearPendingDelete();
+  };
+
   // Load image URLs for items with image_paths
   useEffect(() => {
     const loadImageUrls = async () => {
@@ -116,7 +185,10 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
       
       for (const item of items) {
         if (item.image_paths && item.image_paths.length > 0) {
-          const url = await UploadService.getImageUrl(item.image_paths[0]);
+          const url = await UploadService.getDisplayImageUrl(
+            item.blurred_image_paths?.[0],
+            item.image_paths[0]
+          );
           if (url) {
             urls[item.id] = url;
           }
@@ -133,11 +205,11 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
 
   // Apply filters and sorting
   const filteredAndSortedItems = (() => {
-    let filtered = items;
+    let filtered = items.filter(item => item.id !== pendingDeleteId);
 
-    // Category filter
+    // Category filter; older rows may still hold a fine category such as "jeans"
     if (selectedCategory !== 'all') {
-      filtered = filtered.filter(item => item.category === selectedCategory);
+      filtered = filtered.filter(item => normalizeCategory(item.category).category === selectedCategory);
     }
 
     // Source filter
@@ -156,6 +228,9 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
       case 'confidence':
         filtered = [...filtered].sort((a, b) => (b.detection_confidence || 0) - (a.detection_confidence || 0));
         break;
+      case 'most_worn':
+        filtered = [...filtered].sort((a, b) => (wearStats[b.id]?.wear_count || 0) - (wearStats[a.id]?.wear_count || 0));
+        break;
       case 'newest':
       default:
         filtered = [...filtered].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
@@ -166,25 +241,41 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
   })();
 
   const handleAddItem = () => {
-    navigation.navigate('PhotoExtraction');
+    Alert.alert(
+      'Add Item',
+      'Pull items from a photo, or enter one by hand for things you can\'t photograph.',
+      [
+        { text: 'From Photos', onPress: () => navigation.navigate('PhotoExtraction') },
+        { text: 'Enter Details', onPress: () => navigation.navigate('ClosetItemForm') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
   };
 
   const renderItem = ({ item }: { item: ClosetItem }) => {
     const imageUrl = imageUrls[item.id];
-    const categoryInfo = CATEGORIES.find(cat => cat.id === item.category);
+    const category = categoryInfo(item.category);
     const isExtracted = item.source === 'photo_extraction';
     const confidence = item.detection_confidence ? Math.round(item.detection_confidence * 100) : null;
+    const wear = wearStats[item.id];
 
     return (
-      <TouchableOpacity style={styles.itemCard} activeOpacity={0.7}>
+      <TouchableOpacity
+        style={styles.itemCard}
+        activeOpacity={0.7}
+        onPress={() => navigation.navigate('ClosetItemForm', { itemId: item.id })}
+      >
         {/* Image */}
-        <View style={styles.itemImageContainer}>
+        <View style={[styles.itemImageContainer, item.product_image_path && styles.productImageContainer]}>
           {imageUrl ? (
-            <Image source={{ uri: imageUrl }} style={styles.itemImage} />
+            <Image
+              source={{ uri: imageUrl }}
+              style={[styles.itemImage, item.product_image_path && styles.productImage]}
+            />
           ) : (
             <View style={styles.placeholderImage}>
               <Text style={styles.placeholderIcon}>
-                {categoryInfo?.icon || '👔'}
+                {category.icon}
               </Text>
             </View>
           )}
@@ -211,7 +302,7 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
         <View style={styles.itemInfo}>
           <View style={styles.itemHeader}>
             <Text style={styles.itemCategory}>
-              {categoryInfo?.icon} {item.category}
+              {category.icon} {item.subcategory || item.category}
             </Text>
             {item.brand && (
               <Text style={styles.itemBrand}>{item.brand}</Text>
@@ -220,14 +311,14 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
 
           {/* Description */}
           <Text style={styles.itemDescription} numberOfLines={2}>
-            {item.ai_description || `${item.color || ''} ${item.material || ''} ${item.category}`.trim()}
+            {item.ai_description || `${item.color || ''} ${item.material || ''} ${item.subcategory || item.category}`.trim()}
           </Text>
 
           {/* Attributes */}
           <View style={styles.itemAttributes}>
             {item.color && (
               <View style={styles.attributeChip}>
-                <View style={[styles.colorDot, { backgroundColor: item.color }]} />
+                <View style={[styles.colorDot, { backgroundColor: colorHex(item.color) || '#f3f4f6' }]} />
                 <Text style={styles.attributeText}>{item.color}</Text>
               </View>
             )}
@@ -245,6 +336,13 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
             )}
           </View>
 
+          {/* Wear history */}
+          <Text style={styles.wearText}>
+            {wear
+              ? `Worn ${wear.wear_count}× · last ${new Date(`${wear.last_worn_on}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+              : 'Not worn yet'}
+          </Text>
+
           {/* Style Tags */}
           {item.style_tags && item.style_tags.length > 0 && (
             <View style={styles.tagsContainer}>
@@ -267,9 +365,17 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>My Closet</Text>
-        <TouchableOpacity style={styles.addButton} onPress={handleAddItem}>
-          <Text style={styles.addButtonText}>+ Add Item</Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.iconButton} onPress={() => navigation.navigate('ClosetAnalytics')}>
+            <Text style={styles.iconButtonText}>📊</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => navigation.navigate('WearLog')}>
+            <Text style={styles.iconButtonText}>📅</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addButton} onPress={handleAddItem}>
+            <Text style={styles.addButtonText}>+ Add Item</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Filters and Sorting */}
@@ -364,7 +470,7 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
                 ? 'Your closet is empty'
                 : selectedCategory === 'all' 
                 ? 'No items match your filters'
-                : `No ${selectedCategory} items match your filters`}
+                : `No ${CATEGORIES.find(category => category.id === selectedCategory)?.name.toLowerCase()} match your filters`}
             </Text>
             <Text style={styles.emptyStateSubtext}>
               {items.length === 0
@@ -394,6 +500,15 @@ export const ClosetScreen: React.FC<ClosetScreenProps> = ({ navigation, user })
           </>
         )}
       </View>
+
+      {pendingDeleteId && (
+        <View style={styles.undoBar}>
+          <Text style={styles.undoText}>Item deleted</Text>
+          <TouchableOpacity onPress={handleUndoDelete}>
+            <Text style={styles.undoButtonText}>Undo</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -415,6 +530,21 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#1f2937',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconButton: {
+    backgroundColor: 'white',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  iconButtonText: {
+    fontSize: 16,
+  },
   addButton: {
     backgroundColor: '#3b82f6',
     paddingHorizontal: 16,
@@ -539,6 +669,13 @@ const styles = StyleSheet.create({
     height: '100%',
     resizeMode: 'cover',
   },
+  // Product shots are already centred on white, so show them whole
+  productImageContainer: {
+    backgroundColor: '#ffffff',
+  },
+  productImage: {
+    resizeMode: 'contain',
+  },
   placeholderImage: {
     width: '100%',
     height: '100%',
@@ -638,6 +775,12 @@ const styles = StyleSheet.create({
     borderColor: '#e5e7eb',
   },
 
+  wearText: {
+    fontSize: 10,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
   // Tags
   tagsContainer: {
     flexDirection: 'row',
@@ -697,4 +840,28 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+
+  // Undo Delete
+  undoBar: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#1f2937',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  undoText: {
+    color: 'white',
+    fontSize: 14,
+  },
+  undoButtonText: {
+    color: '#93c5fd',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
 });
\ No newline at end of file
@@ -27,6 +27,10 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation, user }) => {
     navigation.navigate('Profile');
   };
 
+  const handleViewHistory = () => {
+    navigation.navigate('OutfitHistory');
+  };
+
   const handlePhotoExtraction = () => {
     navigation.navigate('PhotoExtraction');
   };
@@ -105,7 +109,12 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation, user }) => {
 
         {/* Recent Activity Placeholder */}
         <View style={styles.recentSection}>
-          <Text style={styles.sectionTitle}>Recent Outfits</Text>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent Outfits</Text>
+            <TouchableOpacity onPress={handleViewHistory}>
+              <Text style={styles.seeAllText}>See All →</Text>
+            </TouchableOpacity>
+          </View>
           <View style={styles.emptyState}>
             <Text style={styles.emptyStateIcon}>📸</Text>
             <Text style={styles.emptyStateText}>
@@ -191,6 +200,16 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     marginBottom: 16,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  seeAllText: {
+    fontSize: 14,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
   actionGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
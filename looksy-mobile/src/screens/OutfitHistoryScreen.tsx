@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { AIService } from '../services/aiService';
+import { UploadService } from '../services/uploadService';
+import { OutfitHistoryEntry } from '../types';
+import { getScoreColor } from '../theme';
+import { OCCASIONS, occasionLabel, outfitContextLabel } from '../utils/occasion';
+
+interface OutfitHistoryScreenProps {
+  navigation: any;
+  user: any;
+}
+
+export const OutfitHistoryScreen: React.FC<OutfitHistoryScreenProps> = ({ navigation, user }) => {
+  const [outfits, setOutfits] = useState<OutfitHistoryEntry[]>([]);
+  const [imageUrls, setImageUrls] = useState<{ [outfitId: string]: string }>({});
+  const [occasion, setOccasion] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [occasion]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      const history = await AIService.getOutfitHistory(user.id, occasion || undefined);
+      setOutfits(history);
+      loadImageUrls(history);
+    } catch (error) {
+      console.error('Error loading outfit history:', error);
+      Alert.alert('Error', 'Failed to load your outfits');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Thumbnails fill in as their signed URLs arrive
+  const loadImageUrls = async (history: OutfitHistoryEntry[]) => {
+    const entries = await Promise.all(
+      history
+        .filter(outfit => !imageUrls[outfit.id])
+        .map(async outfit => [
+          outfit.id,
+          await UploadService.getDisplayImageUrl(outfit.blurred_image_path, outfit.original_image_path),
+        ] as const)
+    );
+    setImageUrls(prev => ({
+      ...prev,
+      ...Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => !!entry[1])),
+    }));
+  };
+
+  const openOutfit = (outfit: OutfitHistoryEntry) => {
+    navigation.navigate('Results', {
+      outfitId: outfit.id,
+      imagePath: outfit.original_image_path,
+    });
+  };
+
+  const filters = [{ id: null, label: 'All' }, ...OCCASIONS];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.headerBackButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Outfit History</Text>
+      </View>
+
+      {/* Occasion Filter */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterScroll}
+        contentContainerStyle={styles.filterRow}
+      >
+        {filters.map(filter => {
+          const isSelected = occasion === filter.id;
+          return (
+            <TouchableOpacity
+              key={filter.id || 'all'}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => setOccasion(filter.id)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{filter.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3b82f6" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {outfits.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateIcon}>📸</Text>
+              <Text style={styles.emptyStateText}>
+                {occasion ? `No ${occasionLabel(occasion)} outfits yet` : 'No outfits scored yet'}
+              </Text>
+              <Text style={styles.emptyStateSubtext}>
+                {occasion
+                  ? 'Pick this occasion when you upload an outfit to see it here.'
+                  : 'Upload your first outfit to get started!'}
+              </Text>
+            </View>
+          ) : (
+            outfits.map(outfit => {
+              const contextLabel = outfitContextLabel(outfit.context);
+              return (
+                <TouchableOpacity key={outfit.id} style={styles.outfitRow} onPress={() => openOutfit(outfit)}>
+                  {imageUrls[outfit.id] ? (
+                    <Image source={{ uri: imageUrls[outfit.id] }} style={styles.thumbnail} />
+                  ) : (
+                    <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                      <Text>👕</Text>
+                    </View>
+                  )}
+                  <View style={styles.outfitInfo}>
+                    <Text style={styles.outfitDate}>{new Date(outfit.created_at).toLocaleDateString()}</Text>
+                    {contextLabel ? <Text style={styles.outfitContext}>{contextLabel}</Text> : null}
+                    {outfit.context?.note && (
+                      <Text style={styles.outfitNote} numberOfLines={1}>{outfit.context.note}</Text>
+                    )}
+                  </View>
+                  {outfit.overall_score !== null ? (
+                    <Text style={[styles.outfitScore, { color: getScoreColor(outfit.overall_score) }]}>
+                      {outfit.overall_score}
+                    </Text>
+                  ) : (
+                    <Text style={styles.outfitStatus}>
+                      {outfit.processing_status === 'error' ? 'Failed' : 'Pending'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerBackButton: {
+    marginRight: 16,
+  },
+  headerBackButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: 20,
+  },
+
+  // Filter
+  filterScroll: {
+    flexGrow: 0,
+  },
+  filterRow: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+  },
+
+  // Outfit rows
+  outfitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    width: 56,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  outfitInfo: {
+    flex: 1,
+  },
+  outfitDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  outfitContext: {
+    fontSize: 13,
+    color: '#3b82f6',
+    marginTop: 2,
+  },
+  outfitNote: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  outfitScore: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginLeft: 12,
+  },
+  outfitStatus: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginLeft: 12,
+  },
+
+  // Empty state
+  emptyState: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyStateIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,696 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { StyleProfileService } from '../services/styleProfileService';
+import { CLOSET_COLORS, CLOSET_PATTERNS, colorHex } from '../utils/taxonomy';
+import {
+  CONTROLLED_STYLES,
+  MAX_PERSONAL_STYLES,
+  PersonalStyle,
+  describeStyleMapping,
+  isStyleMappingLearned,
+  validatePersonalStyle,
+} from '../utils/styles';
+import { PersonalStyleChangeReason, PersonalStyleHistoryEntry } from '../types';
+
+interface PersonalStyleEditorScreenProps {
+  route: {
+    params?: {
+      styleName?: string;
+    };
+  };
+  navigation: any;
+  user: any;
+}
+
+interface StyleForm {
+  name: string;
+  // Controlled style id -> whole percentage
+  weights: Record<string, number>;
+  favored_colors: string[];
+  favored_patterns: string[];
+  disliked_items: string[];
+}
+
+const WEIGHT_STEP = 10;
+
+const EMPTY_FORM: StyleForm = {
+  name: '',
+  weights: {},
+  favored_colors: [],
+  favored_patterns: [],
+  disliked_items: [],
+};
+
+const toForm = (style: PersonalStyle): StyleForm => ({
+  name: style.name,
+  weights: Object.fromEntries(
+    Object.entries(style.mapping).map(([styleId, weight]) => [styleId, Math.round(weight * 100)])
+  ),
+  favored_colors: style.favored_colors,
+  favored_patterns: style.favored_patterns,
+  disliked_items: style.disliked_items,
+});
+
+// Saving from the editor makes the mix on screen the one a reset returns to
+const toPersonalStyle = (form: StyleForm): PersonalStyle => {
+  const mapping = Object.fromEntries(
+    Object.entries(form.weights)
+      .filter(([, weight]) => weight > 0)
+      .map(([styleId, weight]) => [styleId, weight / 100])
+  );
+
+  return {
+    name: form.name.trim(),
+    mapping,
+    base_mapping: mapping,
+    favored_colors: form.favored_colors,
+    favored_patterns: form.favored_patterns,
+    disliked_items: form.disliked_items,
+  };
+};
+
+const HISTORY_REASON_LABELS: Record<PersonalStyleChangeReason, string> = {
+  feedback: 'Tuned by your feedback',
+  edit: 'Edited by you',
+  reset: 'Reset to your mix',
+};
+
+export const PersonalStyleEditorScreen: React.FC<PersonalStyleEditorScreenProps> = ({
+  route,
+  navigation,
+  user,
+}) => {
+  const styleName = route.params?.styleName;
+  const [personalStyles, setPersonalStyles] = useState<PersonalStyle[]>([]);
+  const [form, setForm] = useState<StyleForm>(EMPTY_FORM);
+  const [dislikeInput, setDislikeInput] = useState('');
+  const [history, setHistory] = useState<PersonalStyleHistoryEntry[]>([]);
+  const [errors, setErrors] = useState<{ [field: string]: string }>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const existing = styleName
+    ? personalStyles.find(style => style.name === styleName)
+    : undefined;
+
+  useEffect(() => {
+    loadStyles();
+  }, []);
+
+  const loadStyles = async () => {
+    setLoading(true);
+    const saved = await StyleProfileService.getPersonalStyles(user.id);
+    setPersonalStyles(saved);
+
+    const current = styleName ? saved.find(style => style.name === styleName) : undefined;
+    if (current) {
+      setForm(toForm(current));
+      setHistory(await StyleProfileService.getStyleHistory(user.id, current.name));
+    }
+    setLoading(false);
+  };
+
+  const updateField = <K extends keyof StyleForm>(field: K, value: StyleForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => {
+      const { [field]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const totalWeight = Object.values(form.weights).reduce((sum, weight) => sum + weight, 0);
+
+  const adjustWeight = (styleId: string, delta: number) => {
+    const current = form.weights[styleId] || 0;
+    // Adding is capped at whatever is left of the 100%
+    const next = Math.max(0, Math.min(current + delta, current + Math.max(0, 100 - totalWeight)));
+    const { [styleId]: _removed, ...rest } = form.weights;
+    updateField('weights', next > 0 ? { ...rest, [styleId]: next } : rest);
+  };
+
+  const toggleTag = (field: 'favored_colors' | 'favored_patterns', value: string) => {
+    const values = form[field];
+    updateField(field, values.includes(value) ? values.filter(existing => existing !== value) : [...values, value]);
+  };
+
+  const addDislike = () => {
+    const value = dislikeInput.trim().toLowerCase();
+    if (value && !form.disliked_items.includes(value)) {
+      updateField('disliked_items', [...form.disliked_items, value]);
+    }
+    setDislikeInput('');
+  };
+
+  const removeDislike = (value: string) => {
+    updateField('disliked_items', form.disliked_items.filter(existing => existing !== value));
+  };
+
+  const saveStyles = async (nextStyles: PersonalStyle[]) => {
+    try {
+      setSaving(true);
+      await StyleProfileService.savePersonalStyles(user.id, nextStyles);
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save your style. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const otherNames = personalStyles
+      .filter(style => style !== existing)
+      .map(style => style.name);
+    const validationErrors = validatePersonalStyle(form, otherNames);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    if (!existing && personalStyles.length >= MAX_PERSONAL_STYLES) {
+      Alert.alert('Style Limit', `You can keep up to ${MAX_PERSONAL_STYLES} personal styles.`);
+      return;
+    }
+
+    const saved = toPersonalStyle(form);
+    await saveStyles(existing
+      ? personalStyles.map(style => style === existing ? saved : style)
+      : [...personalStyles, saved]);
+  };
+
+  const handleReset = () => {
+    if (!existing?.base_mapping) return;
+
+    Alert.alert(
+      'Reset Style Mix',
+      `Go back to ${describeStyleMapping(existing.base_mapping)}? What your feedback taught this style will be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setSaving(true);
+              await StyleProfileService.resetStyleMapping(user.id, existing.name);
+              await loadStyles();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to reset your style. Please try again.');
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+
+    Alert.alert(
+      'Delete Style',
+      `Remove "${existing.name}" from your personal styles?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => saveStyles(personalStyles.filter(style => style !== existing)),
+        },
+      ]
+    );
+  };
+
+  const renderChips = (
+    options: string[],
+    selected: string[],
+    onPress: (option: string) => void,
+    swatch?: (option: string) => string | null
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const isSelected = selected.includes(option);
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => onPress(option)}
+          >
+            {swatch?.(option) && (
+              <View style={[styles.colorSwatch, { backgroundColor: swatch(option) as string }]} />
+            )}
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{option}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3b82f6" />
+          <Text style={styles.loadingText}>Loading styles...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.headerBackButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{existing ? 'Edit Style' : 'New Style'}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {/* Name */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Name *</Text>
+          <TextInput
+            style={styles.input}
+            value={form.name}
+            onChangeText={value => updateField('name', value)}
+            placeholder='In your own words, e.g. "Chic" or "Parisian Summer"'
+            placeholderTextColor="#9ca3af"
+            maxLength={40}
+          />
+          {errors.name && <Text style={styles.errorText}>{errors.name}</Text>}
+        </View>
+
+        {/* Style mix */}
+        <View style={styles.section}>
+          <View style={styles.sectionTitleRow}>
+            <Text style={styles.sectionTitle}>Style Mix *</Text>
+            <Text style={[styles.totalText, totalWeight === 100 && styles.totalTextComplete]}>
+              {totalWeight}% / 100%
+            </Text>
+          </View>
+          <Text style={styles.sectionHint}>
+            How much of each style makes up yours. Outfits are scored against this mix.
+          </Text>
+          {CONTROLLED_STYLES.map(style => {
+            const weight = form.weights[style.id] || 0;
+            return (
+              <View key={style.id} style={styles.weightRow}>
+                <View style={styles.weightInfo}>
+                  <Text style={[styles.weightLabel, weight > 0 && styles.weightLabelActive]}>{style.label}</Text>
+                  <Text style={styles.weightDescription}>{style.description}</Text>
+                </View>
+                <TouchableOpacity
+                  style={[styles.stepButton, weight === 0 && styles.buttonDisabled]}
+                  onPress={() => adjustWeight(style.id, -WEIGHT_STEP)}
+                  disabled={weight === 0}
+                >
+                  <Text style={styles.stepButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.weightValue}>{weight}%</Text>
+                <TouchableOpacity
+                  style={[styles.stepButton, totalWeight >= 100 && styles.buttonDisabled]}
+                  onPress={() => adjustWeight(style.id, WEIGHT_STEP)}
+                  disabled={totalWeight >= 100}
+                >
+                  <Text style={styles.stepButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+          {errors.weights && <Text style={styles.errorText}>{errors.weights}</Text>}
+
+          {existing && isStyleMappingLearned(existing) && (
+            <View style={styles.learnedNotice}>
+              <Text style={styles.learnedNoticeText}>
+                ✨ Your feedback has tuned this mix. You set it to {describeStyleMapping(existing.base_mapping || {})}.
+              </Text>
+              <TouchableOpacity onPress={handleReset} disabled={saving}>
+                <Text style={styles.resetText}>Reset to My Mix</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {/* How the mix changed */}
+        {history.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Mix History</Text>
+            {history.map(entry => (
+              <View key={entry.id} style={styles.historyRow}>
+                <View style={styles.historyHeader}>
+                  <Text style={styles.historyReason}>{HISTORY_REASON_LABELS[entry.reason]}</Text>
+                  <Text style={styles.historyDate}>{new Date(entry.created_at).toLocaleDateString()}</Text>
+                </View>
+                <Text style={styles.historyMix}>{describeStyleMapping(entry.new_mapping)}</Text>
+                <Text style={styles.historyPrevious}>was {describeStyleMapping(entry.previous_mapping)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Favored colors and patterns */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Favorite Colors</Text>
+          {renderChips(CLOSET_COLORS, form.favored_colors, option => toggleTag('favored_colors', option), colorHex)}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Favorite Patterns</Text>
+          {renderChips(CLOSET_PATTERNS, form.favored_patterns, option => toggleTag('favored_patterns', option))}
+        </View>
+
+        {/* Dislikes */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Never Suggest</Text>
+          <Text style={styles.sectionHint}>Items, materials or details you don't wear</Text>
+          <View style={styles.dislikeInputRow}>
+            <TextInput
+              style={[styles.input, styles.dislikeInput]}
+              value={dislikeInput}
+              onChangeText={setDislikeInput}
+              onSubmitEditing={addDislike}
+              placeholder="e.g. crop tops, logos, leather"
+              placeholderTextColor="#9ca3af"
+              returnKeyType="done"
+            />
+            <TouchableOpacity style={styles.addButton} onPress={addDislike}>
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          {form.disliked_items.length > 0 && (
+            <View style={styles.chipRow}>
+              {form.disliked_items.map(item => (
+                <TouchableOpacity key={item} style={styles.chip} onPress={() => removeDislike(item)}>
+                  <Text style={styles.chipText}>{item} ✕</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>{existing ? 'Save Changes' : 'Add Style'}</Text>
+          )}
+        </TouchableOpacity>
+
+        {existing && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+            <Text style={styles.deleteButtonText}>Delete Style</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerBackButton: {
+    marginRight: 16,
+  },
+  headerBackButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+
+  // Sections
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: -6,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+
+  // Style mix
+  totalText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#f59e0b',
+  },
+  totalTextComplete: {
+    color: '#10b981',
+  },
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  weightInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  weightLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  weightLabelActive: {
+    color: '#1f2937',
+  },
+  weightDescription: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  weightValue: {
+    width: 48,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#eff6ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButtonText: {
+    fontSize: 18,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+
+  learnedNotice: {
+    backgroundColor: '#f5f3ff',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  learnedNoticeText: {
+    fontSize: 13,
+    color: '#6d28d9',
+    marginBottom: 8,
+  },
+  resetText: {
+    fontSize: 14,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+
+  // History
+  historyRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  historyReason: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  historyDate: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  historyMix: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  historyPrevious: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+
+  // Chips
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '500',
+    textTransform: 'capitalize',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+  },
+  colorSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+
+  // Inputs
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  dislikeInputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  dislikeInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 9,
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  // Actions
+  saveButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  deleteButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  deleteButtonText: {
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -12,9 +12,13 @@ import {
   FlatList,
 } from 'react-native';
 import { CameraService, ImageResult } from '../services/cameraService';
-import { PhotoExtractionService, ExtractionResult, ExtractedClothingItem } from '../services/photoExtractionService';
+import { PhotoExtractionService, ExtractionResult, ExtractedClothingItem, BoundingBox } from '../services/photoExtractionService';
 import { UploadService, UploadProgress } from '../services/uploadService';
+import { ClosetItem } from '../services/closetService';
+import { ClosetMatch } from '../utils/closetMatching';
+import { TAXONOMY_CATEGORIES, CLOSET_CATEGORIES } from '../utils/taxonomy';
 import { BoundingBoxOverlay, useBoundingBoxDimensions, getItemColor } from '../components/BoundingBoxOverlay';
+import { BoundingBoxEditor } from '../components/BoundingBoxEditor';
 
 interface PhotoExtractionScreenProps {
   navigation: any;
@@ -31,6 +35,16 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
   const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
   const [processing, setProcessing] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [editMode, setEditMode] = useState(false);
+  const [originalDeleted, setOriginalDeleted] = useState(false);
+  const [activeBoxId, setActiveBoxId] = useState<string | null>(null);
+  const [pendingBox, setPendingBox] = useState<BoundingBox | null>(null);
+  const [savingBox, setSavingBox] = useState(false);
+  // Coarse category picked for a drawn box, before its subcategory
+  const [boxCategory, setBoxCategory] = useState<string | null>(null);
+  const [duplicateMatches, setDuplicateMatches] = useState<{ [itemId: string]: ClosetMatch<ClosetItem> }>({});
+  const [mergeTargets, setMergeTargets] = useState<{ [itemId: string]: ClosetMatch }>({});
+  const [dismissedMatchIds, setDismissedMatchIds] = useState<string[]>([]);
   
   const { getResponsiveDimensions } = useBoundingBoxDimensions();
 
@@ -73,11 +87,7 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
       }
 
       // Now extract items using the uploaded image path
-      const result = await PhotoExtractionService.extractItems(
-        uploadResult.imagePath,
-        user.id,
-        'outfit'
-      );
+      const result = await PhotoExtractionService.extractItems(uploadResult.imagePath, 'outfit');
 
       if (result.success && result.extraction_id) {
         setExtractionResult(result);
@@ -86,6 +96,7 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
         const items = await PhotoExtractionService.getExtractedItems(result.extraction_id);
         setExtractedItems(items);
         setCurrentStep('review');
+        loadDuplicateMatches(result.extraction_id, items);
       } else {
         Alert.alert('Extraction Failed', 'Failed to extract items from photo. Please try again.');
         setCurrentStep('select');
@@ -100,6 +111,35 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
     }
   };
 
+  const loadDuplicateMatches = async (extractionId: string, items: ExtractedClothingItem[]) => {
+    try {
+      setDuplicateMatches(await PhotoExtractionService.findClosetDuplicates(user.id, items));
+
+      // Cropping gives each item an image hash, which sharpens the matches
+      await PhotoExtractionService.processItemImages(extractionId);
+      const croppedItems = await PhotoExtractionService.getExtractedItems(extractionId);
+      setDuplicateMatches(await PhotoExtractionService.findClosetDuplicates(user.id, croppedItems));
+    } catch (error) {
+      console.error('Error finding duplicate closet items:', error);
+    }
+  };
+
+  const handleMergeDuplicate = (itemId: string) => {
+    setMergeTargets(prev => ({ ...prev, [itemId]: duplicateMatches[itemId] }));
+    setSelectedItemIds(prev => prev.includes(itemId) ? prev : [...prev, itemId]);
+  };
+
+  const handleUndoMerge = (itemId: string) => {
+    setMergeTargets(prev => {
+      const { [itemId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleDismissDuplicate = (itemId: string) => {
+    setDismissedMatchIds(prev => [...prev, itemId]);
+  };
+
   const toggleItemSelection = (itemId: string) => {
     setSelectedItemIds(prev => 
       prev.includes(itemId) 
@@ -116,6 +156,109 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
     setSelectedItemIds([]);
   };
 
+  const toggleEditMode = async () => {
+    // Boxes are cropped from the original, which the retention purge may have deleted
+    if (!editMode && extractionResult) {
+      try {
+        if (!await PhotoExtractionService.hasOriginalImage(extractionResult.extraction_id)) {
+          setOriginalDeleted(true);
+          Alert.alert(
+            'Original Deleted',
+            'The original photo was deleted under your retention settings, so boxes can no longer be edited.'
+          );
+          return;
+        }
+      } catch (error) {
+        console.error('Error checking original photo:', error);
+      }
+    }
+
+    setEditMode(prev => !prev);
+    setActiveBoxId(null);
+    setPendingBox(null);
+  };
+
+  const replaceExtractedItem = (updated: ExtractedClothingItem) => {
+    setExtractedItems(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const handleBoxChange = async (itemId: string, box: BoundingBox) => {
+    const item = extractedItems.find(extracted => extracted.id === itemId);
+    if (!item) return;
+
+    // Show the new box right away; the saved row replaces it
+    replaceExtractedItem({ ...item, bounding_box: box });
+
+    try {
+      const updated = await PhotoExtractionService.updateItemBoundingBox(item, box);
+      replaceExtractedItem(updated);
+    } catch (error: any) {
+      console.error('Error saving bounding box:', error);
+      replaceExtractedItem(item);
+      Alert.alert('Error', 'Failed to save the box. Please try again.');
+    }
+  };
+
+  const handleBoxDrawn = (box: BoundingBox) => {
+    setActiveBoxId(null);
+    setPendingBox(box);
+    setBoxCategory(null);
+  };
+
+  const handleAssignCategory = async (category: string) => {
+    if (!pendingBox || !extractionResult?.extraction_id) return;
+
+    setSavingBox(true);
+
+    try {
+      const item = await PhotoExtractionService.addManualItem(extractionResult.extraction_id, pendingBox, category);
+      setExtractedItems(prev => [...prev, item]);
+      setSelectedItemIds(prev => [...prev, item.id]);
+      setActiveBoxId(item.id);
+      setPendingBox(null);
+
+      try {
+        const described = await PhotoExtractionService.describeItem(item.id);
+        replaceExtractedItem(described);
+
+        const matches = await PhotoExtractionService.findClosetDuplicates(user.id, [described]);
+        setDuplicateMatches(prev => ({ ...prev, ...matches }));
+      } catch (describeError) {
+        // The item can still be added, just without AI attributes
+        console.error('Error describing drawn item:', describeError);
+      }
+    } catch (error: any) {
+      console.error('Error adding drawn item:', error);
+      Alert.alert('Error', 'Failed to add the item. Please try again.');
+    } finally {
+      setSavingBox(false);
+    }
+  };
+
+  const handleDeleteBox = (itemId: string) => {
+    const item = extractedItems.find(extracted => extracted.id === itemId);
+    if (!item) return;
+
+    Alert.alert('Delete Item', `Remove the ${item.item_category} from this photo?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await PhotoExtractionService.deleteExtractedItem(item);
+            setExtractedItems(prev => prev.filter(extracted => extracted.id !== itemId));
+            setSelectedItemIds(prev => prev.filter(id => id !== itemId));
+            setActiveBoxId(null);
+          } catch (error: any) {
+            console.error('Error deleting item:', error);
+            Alert.alert('Error', 'Failed to delete the item. Please try again.');
+          }
+        }
+      }
+    ]);
+  };
+
   const handleAddToCloset = async () => {
     if (selectedItemIds.length === 0) {
       Alert.alert('No Items Selected', 'Please select at least one item to add to your closet.');
@@ -130,18 +273,24 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
       // First approve the selected items
       await PhotoExtractionService.batchApproveItems(selectedItemIds, true);
 
-      // Create closet items from approved extracted items
+      // Create closet items from approved extracted items, linking confirmed duplicates
+      const selectedMergeTargets = Object.fromEntries(
+        Object.entries(mergeTargets).filter(([itemId]) => selectedItemIds.includes(itemId))
+      );
       const closetItemIds = await PhotoExtractionService.createClosetItemsFromExtracted(
         extractionResult.extraction_id,
         user.id,
-        selectedItemIds
+        selectedItemIds,
+        selectedMergeTargets
       );
+      const linkedCount = Object.keys(selectedMergeTargets).length;
 
       setCurrentStep('completed');
       
       Alert.alert(
         'Success!', 
-        `Added ${closetItemIds.length} items to your closet.`,
+        `Added ${closetItemIds.length} items to your closet.` +
+          (linkedCount > 0 ? ` Linked ${linkedCount} to items you already have.` : ''),
         [
           {
             text: 'View Closet',
@@ -169,12 +318,21 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
     setSelectedItemIds([]);
     setUploadProgress(null);
     setProcessing(false);
+    setEditMode(false);
+    setOriginalDeleted(false);
+    setActiveBoxId(null);
+    setPendingBox(null);
+    setDuplicateMatches({});
+    setMergeTargets({});
+    setDismissedMatchIds([]);
   };
 
   const renderExtractedItem = ({ item, index }: { item: ExtractedClothingItem, index: number }) => {
     const isSelected = selectedItemIds.includes(item.id);
     const confidence = Math.round((item.extraction_confidence || 0) * 100);
     const itemColor = getItemColor(index);
+    const duplicate = dismissedMatchIds.includes(item.id) ? undefined : duplicateMatches[item.id];
+    const isMerged = !!mergeTargets[item.id];
     
     return (
       <TouchableOpacity
@@ -207,6 +365,33 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
             <Text style={styles.attributeText}>Pattern: {item.item_attributes.pattern}</Text>
           </View>
         )}
+
+        {duplicate && (
+          <View style={styles.duplicateNotice}>
+            <Text style={styles.duplicateTitle}>
+              {isMerged ? '🔗 Will be linked to your existing item' : '👯 Looks like something already in your closet'}
+            </Text>
+            <Text style={styles.duplicateDetail}>
+              {[duplicate.item.color, duplicate.item.category].filter(Boolean).join(' ')} · {Math.round(duplicate.score * 100)}% match
+            </Text>
+            <View style={styles.duplicateActions}>
+              {isMerged ? (
+                <TouchableOpacity style={styles.duplicateSecondaryButton} onPress={() => handleUndoMerge(item.id)}>
+                  <Text style={styles.duplicateSecondaryButtonText}>Undo</Text>
+                </TouchableOpacity>
+              ) : (
+                <>
+                  <TouchableOpacity style={styles.duplicateMergeButton} onPress={() => handleMergeDuplicate(item.id)}>
+                    <Text style={styles.duplicateMergeButtonText}>Same Item</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.duplicateSecondaryButton} onPress={() => handleDismissDuplicate(item.id)}>
+                    <Text style={styles.duplicateSecondaryButtonText}>Different Item</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          </View>
+        )}
         
         <View style={[styles.selectionIndicator, { backgroundColor: itemColor.bg }]}>
           <Text style={[styles.selectionText, { color: itemColor.border }]}>
@@ -261,6 +446,13 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
         )}
       </View>
 
+      {!selectedImage && (
+        <TouchableOpacity style={styles.batchLink} onPress={() => navigation.navigate('BatchExtraction')}>
+          <Text style={styles.batchLinkTitle}>Building your closet from scratch?</Text>
+          <Text style={styles.batchLinkText}>Add many photos at once →</Text>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.tipsSection}>
         <Text style={styles.tipsTitle}>💡 Best Results Tips</Text>
         <View style={styles.tips}>
@@ -335,6 +527,7 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
         style={styles.reviewContainer} 
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
+        scrollEnabled={!editMode}
       >
         <View style={styles.stepContainer}>
           <View style={styles.reviewHeader}>
@@ -350,6 +543,16 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
               <TouchableOpacity style={styles.controlButton} onPress={deselectAllItems}>
                 <Text style={styles.controlButtonText}>Deselect All</Text>
               </TouchableOpacity>
+              {!originalDeleted && (
+                <TouchableOpacity
+                  style={[styles.controlButton, editMode && styles.controlButtonActive]}
+                  onPress={toggleEditMode}
+                >
+                  <Text style={[styles.controlButtonText, editMode && styles.controlButtonTextActive]}>
+                    {editMode ? 'Done' : 'Edit Boxes'}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
 
@@ -361,17 +564,95 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
                 style={[styles.boundingBoxImage, { width: containerWidth, height: containerHeight }]}
                 resizeMode="contain"
               />
-              <BoundingBoxOverlay
-                items={boundingBoxItems}
-                imageWidth={selectedImage.width || 1}
-                imageHeight={selectedImage.height || 1}
-                containerWidth={containerWidth}
-                containerHeight={containerHeight}
-                onItemPress={toggleItemSelection}
-                selectedItemIds={selectedItemIds}
-                showLabels={true}
-              />
+              {editMode ? (
+                <BoundingBoxEditor
+                  items={boundingBoxItems}
+                  containerWidth={containerWidth}
+                  containerHeight={containerHeight}
+                  activeItemId={activeBoxId}
+                  pendingBox={pendingBox}
+                  onSelectItem={setActiveBoxId}
+                  onChangeBox={handleBoxChange}
+                  onDrawBox={handleBoxDrawn}
+                />
+              ) : (
+                <BoundingBoxOverlay
+                  items={boundingBoxItems}
+                  imageWidth={selectedImage.width || 1}
+                  imageHeight={selectedImage.height || 1}
+                  containerWidth={containerWidth}
+                  containerHeight={containerHeight}
+                  onItemPress={toggleItemSelection}
+                  selectedItemIds={selectedItemIds}
+                  showLabels={true}
+                />
+              )}
             </View>
+
+            {editMode && (
+              <View style={styles.editPanel}>
+                {pendingBox ? (
+                  <>
+                    <Text style={styles.editPanelTitle}>
+                      {boxCategory ? 'What kind?' : 'What is this item?'}
+                    </Text>
+                    <View style={styles.categoryChips}>
+                      {boxCategory ? (
+                        [...CLOSET_CATEGORIES[boxCategory], boxCategory].map(type => (
+                          <TouchableOpacity
+                            key={type}
+                            style={styles.categoryChip}
+                            onPress={() => handleAssignCategory(type)}
+                            disabled={savingBox}
+                          >
+                            <Text style={styles.categoryChipText}>
+                              {type === boxCategory ? 'Something else' : type}
+                            </Text>
+                          </TouchableOpacity>
+                        ))
+                      ) : (
+                        TAXONOMY_CATEGORIES.map(category => (
+                          <TouchableOpacity
+                            key={category.id}
+                            style={styles.categoryChip}
+                            onPress={() => category.subcategories.length > 0
+                              ? setBoxCategory(category.id)
+                              : handleAssignCategory(category.id)}
+                            disabled={savingBox}
+                          >
+                            <Text style={styles.categoryChipText}>{category.icon} {category.label}</Text>
+                          </TouchableOpacity>
+                        ))
+                      )}
+                    </View>
+                    {savingBox ? (
+                      <ActivityIndicator size="small" color="#3b82f6" />
+                    ) : boxCategory ? (
+                      <TouchableOpacity onPress={() => setBoxCategory(null)}>
+                        <Text style={styles.editPanelCancel}>← All Categories</Text>
+                      </TouchableOpacity>
+                    ) : (
+                      <TouchableOpacity onPress={() => setPendingBox(null)}>
+                        <Text style={styles.editPanelCancel}>Discard Box</Text>
+                      </TouchableOpacity>
+                    )}
+                  </>
+                ) : activeBoxId ? (
+                  <>
+                    <Text style={styles.editPanelHint}>
+                      Drag the box to move it or a corner to resize it.
+                    </Text>
+                    <TouchableOpacity style={styles.deleteBoxButton} onPress={() => handleDeleteBox(activeBoxId)}>
+                      <Text style={styles.deleteBoxButtonText}>Delete Box</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <Text style={styles.editPanelHint}>
+                    Tap a box to adjust it, or drag on an empty area to draw a missing item.
+                  </Text>
+                )}
+              </View>
+            )}
           </View>
 
           {/* Items List */}
@@ -447,7 +728,7 @@ export const PhotoExtractionScreen: React.FC<PhotoExtractionScreenProps> = ({ na
         <Text style={styles.headerTitle}>Photo Extraction</Text>
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} scrollEnabled={!editMode}>
         {currentStep === 'select' && renderSelectStep()}
         {currentStep === 'extracting' && renderExtractingStep()}
         {currentStep === 'review' && renderReviewStep()}
@@ -554,6 +835,25 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
   
+  batchLink: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: -16,
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  batchLinkTitle: {
+    fontSize: 14,
+    color: '#1e40af',
+    marginBottom: 4,
+  },
+  batchLinkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  
   // Image Preview
   imagePreview: {
     alignItems: 'center',
@@ -677,6 +977,7 @@ const styles = StyleSheet.create({
   },
   selectionControls: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
     gap: 16,
     marginTop: 16,
@@ -694,6 +995,70 @@ const styles = StyleSheet.create({
     color: '#3b82f6',
     fontWeight: '600',
   },
+  controlButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  controlButtonTextActive: {
+    color: 'white',
+  },
+
+  // Box Editing
+  editPanel: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    marginTop: 16,
+    gap: 12,
+  },
+  editPanelTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  editPanelHint: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  editPanelCancel: {
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '600',
+  },
+  categoryChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  categoryChip: {
+    backgroundColor: '#eff6ff',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#bfdbfe',
+  },
+  categoryChipText: {
+    fontSize: 14,
+    color: '#1d4ed8',
+    fontWeight: '500',
+    textTransform: 'capitalize',
+  },
+  deleteBoxButton: {
+    backgroundColor: '#fef2f2',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  deleteBoxButtonText: {
+    fontSize: 14,
+    color: '#dc2626',
+    fontWeight: '600',
+  },
   itemsList: {
     // Removed maxHeight constraint to allow all items to be visible
     // Parent ScrollView handles scrolling
@@ -765,6 +1130,54 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     borderRadius: 8,
   },
+  duplicateNotice: {
+    backgroundColor: '#fffbeb',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  duplicateTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#92400e',
+    marginBottom: 4,
+  },
+  duplicateDetail: {
+    fontSize: 13,
+    color: '#b45309',
+    marginBottom: 8,
+    textTransform: 'capitalize',
+  },
+  duplicateActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  duplicateMergeButton: {
+    backgroundColor: '#f59e0b',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  duplicateMergeButtonText: {
+    fontSize: 13,
+    color: 'white',
+    fontWeight: '600',
+  },
+  duplicateSecondaryButton: {
+    backgroundColor: 'white',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  duplicateSecondaryButtonText: {
+    fontSize: 13,
+    color: '#92400e',
+    fontWeight: '600',
+  },
   selectionIndicator: {
     alignItems: 'center',
   },
@@ -8,37 +8,65 @@ import {
   ScrollView,
   SafeAreaView,
   Alert,
+  Linking,
 } from 'react-native';
 import { supabase } from '../services/supabase';
+import { PrivacyService } from '../services/privacyService';
+import { StyleProfileService } from '../services/styleProfileService';
+import { MAX_PERSONAL_STYLES, PersonalStyle, describeStyleMapping, isStyleMappingLearned } from '../utils/styles';
+import { AccountDeletion, DataExport, DEFAULT_PRIVACY_SETTINGS, OriginalRetention, PrivacySettings } from '../types';
 
 interface ProfileScreenProps {
+  navigation: any;
   user: any;
   onSignOut: () => void;
 }
 
-const MVP_STYLES = [
-  { id: 'minimalist', name: 'Minimalist', description: 'Clean, simple, neutral' },
-  { id: 'casual', name: 'Casual', description: 'Everyday comfortable wear' },
-  { id: 'business_casual', name: 'Business Casual', description: 'Work & professional' },
-  { id: 'streetwear', name: 'Streetwear', description: 'Urban, trendy, bold' },
-  { id: 'dressy', name: 'Dressy', description: 'Special occasions' },
-  { id: 'athletic', name: 'Athletic', description: 'Athleisure & workout' },
+const RETENTION_OPTIONS: { id: OriginalRetention; name: string; description: string }[] = [
+  { id: 'after_analysis', name: 'Delete After Analysis', description: 'Originals are removed once your results are ready' },
+  { id: 'days', name: 'Delete After a While', description: 'Keep originals for a set number of days' },
+  { id: 'keep', name: 'Keep Originals', description: 'Originals stay until you delete them' },
 ];
 
-export const ProfileScreen: React.FC<ProfileScreenProps> = ({ user, onSignOut }) => {
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, user, onSignOut }) => {
   const [displayName, setDisplayName] = useState('');
-  const [selectedStyles, setSelectedStyles] = useState<string[]>([]);
+  const [personalStyles, setPersonalStyles] = useState<PersonalStyle[]>([]);
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(DEFAULT_PRIVACY_SETTINGS);
+  const [retentionDays, setRetentionDays] = useState(String(DEFAULT_PRIVACY_SETTINGS.original_retention_days));
   const [loading, setLoading] = useState(false);
+  const [latestExport, setLatestExport] = useState<DataExport | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [pendingDeletion, setPendingDeletion] = useState<AccountDeletion | null>(null);
 
   useEffect(() => {
     loadProfile();
+    loadLatestExport();
+    loadPendingDeletion();
   }, []);
 
+  // Personal styles are edited on their own screen
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', loadPersonalStyles);
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadPersonalStyles = async () => {
+    setPersonalStyles(await StyleProfileService.getPersonalStyles(user.id));
+  };
+
+  const loadPendingDeletion = async () => {
+    setPendingDeletion(await PrivacyService.getPendingAccountDeletion(user.id));
+  };
+
+  const loadLatestExport = async () => {
+    setLatestExport(await PrivacyService.getLatestDataExport(user.id));
+  };
+
   const loadProfile = async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('display_name, personal_styles')
+        .select('display_name, privacy_settings')
         .eq('id', user.id)
         .single();
 
@@ -50,42 +78,39 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ user, onSignOut })
 
       if (data) {
         setDisplayName(data.display_name || '');
-        
-        // Extract selected styles from personal_styles JSONB
-        if (data.personal_styles && Array.isArray(data.personal_styles)) {
-          const styleNames = data.personal_styles.map((style: any) => style.name);
-          setSelectedStyles(styleNames);
-        }
+
+        const settings = { ...DEFAULT_PRIVACY_SETTINGS, ...data.privacy_settings };
+        setPrivacySettings(settings);
+        setRetentionDays(String(settings.original_retention_days));
       }
     } catch (error) {
       console.error('Error loading profile:', error);
     }
   };
 
-  const toggleStyle = (styleId: string) => {
-    setSelectedStyles(prev => 
-      prev.includes(styleId)
-        ? prev.filter(id => id !== styleId)
-        : [...prev, styleId]
-    );
+  const selectRetention = (retention: OriginalRetention) => {
+    setPrivacySettings(prev => ({ ...prev, original_retention: retention }));
   };
 
   const saveProfile = async () => {
+    const days = parseInt(retentionDays, 10);
+    if (privacySettings.original_retention === 'days' && (!days || days < 1)) {
+      Alert.alert('Invalid Retention', 'Enter how many days to keep original photos (at least 1).');
+      return;
+    }
+
     setLoading(true);
     
     try {
-      // Create personal styles array with simple mappings
-      const personalStyles = selectedStyles.map(styleId => ({
-        name: styleId,
-        mapping: { [styleId]: 1.0 } // Simple 100% mapping for MVP
-      }));
-
       const { error } = await supabase
         .from('profiles')
         .upsert({
           id: user.id,
           display_name: displayName.trim(),
-          personal_styles: personalStyles,
+          privacy_settings: {
+            ...privacySettings,
+            original_retention_days: days || DEFAULT_PRIVACY_SETTINGS.original_retention_days,
+          },
           updated_at: new Date().toISOString(),
         });
 
@@ -99,6 +124,82 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ user, onSignOut })
     }
   };
 
+  const handleExportData = async () => {
+    setExporting(true);
+    const result = await PrivacyService.requestDataExport();
+    setExporting(false);
+
+    if (!result.success) {
+      Alert.alert('Export Failed', result.error || 'Please try again.');
+      await loadLatestExport();
+      return;
+    }
+
+    setLatestExport(result.data || null);
+    Alert.alert('Export Ready', 'Your data export is ready to download for the next 7 days.');
+  };
+
+  const handleDownloadExport = async () => {
+    if (!latestExport) return;
+
+    const url = await PrivacyService.getDataExportUrl(latestExport);
+    if (!url) {
+      Alert.alert('Export Unavailable', 'This export has expired. Please request a new one.');
+      await loadLatestExport();
+      return;
+    }
+
+    await Linking.openURL(url);
+  };
+
+  const getExportStatusText = (dataExport: DataExport): string => {
+    switch (dataExport.status) {
+      case 'processing':
+        return 'Export in progress...';
+      case 'completed':
+        return dataExport.expires_at
+          ? `Ready until ${new Date(dataExport.expires_at).toLocaleDateString()}`
+          : 'Ready to download';
+      case 'failed':
+        return `Last export failed: ${dataExport.error || 'unknown error'}`;
+      case 'expired':
+      default:
+        return 'Last export has expired';
+    }
+  };
+
+  const handleDeleteAccount = () => {
+    Alert.alert(
+      'Delete Account',
+      'Your account, closet, outfits, analyses and all photos will be permanently deleted after 7 days. You can cancel until then. Consider exporting your data first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Account',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await PrivacyService.requestAccountDeletion();
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Could not schedule account deletion');
+              return;
+            }
+            setPendingDeletion(result.data || null);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCancelDeletion = async () => {
+    const result = await PrivacyService.cancelAccountDeletion();
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Could not cancel account deletion');
+      return;
+    }
+    setPendingDeletion(null);
+    Alert.alert('Deletion Cancelled', 'Your account will not be deleted.');
+  };
+
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -143,40 +244,118 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ user, onSignOut })
           </View>
         </View>
 
-        {/* Style Preferences */}
+        {/* Personal Styles */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Style Preferences</Text>
+          <Text style={styles.sectionTitle}>Personal Styles</Text>
           <Text style={styles.sectionDescription}>
-            Select the styles that represent you (you can choose multiple)
+            Describe your style in your own words and mix the styles it's made of
           </Text>
           
           <View style={styles.stylesGrid}>
-            {MVP_STYLES.map((style) => (
+            {personalStyles.map((style) => (
               <TouchableOpacity
-                key={style.id}
-                style={[
-                  styles.styleCard,
-                  selectedStyles.includes(style.id) && styles.styleCardSelected
-                ]}
-                onPress={() => toggleStyle(style.id)}
+                key={style.name}
+                style={styles.styleCard}
+                onPress={() => navigation.navigate('PersonalStyleEditor', { styleName: style.name })}
               >
-                <Text style={[
-                  styles.styleName,
-                  selectedStyles.includes(style.id) && styles.styleNameSelected
-                ]}>
-                  {style.name}
-                </Text>
-                <Text style={[
-                  styles.styleDescription,
-                  selectedStyles.includes(style.id) && styles.styleDescriptionSelected
-                ]}>
-                  {style.description}
-                </Text>
-                {selectedStyles.includes(style.id) && (
-                  <Text style={styles.checkmark}>✓</Text>
+                <Text style={styles.styleName}>{style.name}</Text>
+                <Text style={styles.styleDescription}>{describeStyleMapping(style.mapping)}</Text>
+                {(style.favored_colors.length > 0 || style.favored_patterns.length > 0) && (
+                  <Text style={styles.styleDetail}>
+                    Favors {[...style.favored_colors, ...style.favored_patterns].join(', ')}
+                  </Text>
+                )}
+                {style.disliked_items.length > 0 && (
+                  <Text style={styles.styleDetail}>Avoids {style.disliked_items.join(', ')}</Text>
+                )}
+                {isStyleMappingLearned(style) && (
+                  <Text style={styles.learnedText}>✨ Tuned by your feedback</Text>
                 )}
+                <Text style={styles.editHint}>Edit ›</Text>
               </TouchableOpacity>
             ))}
+
+            {personalStyles.length < MAX_PERSONAL_STYLES && (
+              <TouchableOpacity
+                style={[styles.styleCard, styles.addStyleCard]}
+                onPress={() => navigation.navigate('PersonalStyleEditor')}
+              >
+                <Text style={styles.addStyleText}>+ Add Personal Style</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {/* Photo Privacy */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Original Photos</Text>
+          <Text style={styles.sectionDescription}>
+            Choose how long we keep your unblurred original photos
+          </Text>
+          
+          <View style={styles.stylesGrid}>
+            {RETENTION_OPTIONS.map((option) => {
+              const selected = privacySettings.original_retention === option.id;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.styleCard, selected && styles.styleCardSelected]}
+                  onPress={() => selectRetention(option.id)}
+                >
+                  <Text style={[styles.styleName, selected && styles.styleNameSelected]}>
+                    {option.name}
+                  </Text>
+                  <Text style={[styles.styleDescription, selected && styles.styleDescriptionSelected]}>
+                    {option.description}
+                  </Text>
+                  {selected && (
+                    <Text style={styles.checkmark}>✓</Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {privacySettings.original_retention === 'days' && (
+            <View style={[styles.card, styles.retentionDaysCard]}>
+              <Text style={styles.label}>Days to Keep Originals</Text>
+              <TextInput
+                style={styles.input}
+                value={retentionDays}
+                onChangeText={setRetentionDays}
+                placeholder="30"
+                keyboardType="number-pad"
+                returnKeyType="done"
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Data Export */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Your Data</Text>
+          <Text style={styles.sectionDescription}>
+            Download your profile, closet, outfits, analyses and photos as a zip archive
+          </Text>
+          
+          <View style={styles.card}>
+            {latestExport && (
+              <Text style={styles.exportStatusText}>{getExportStatusText(latestExport)}</Text>
+            )}
+            <TouchableOpacity
+              style={[styles.exportButton, exporting && styles.buttonDisabled]}
+              onPress={handleExportData}
+              disabled={exporting}
+            >
+              <Text style={styles.exportButtonText}>
+                {exporting ? 'Preparing Export...' : 'Export My Data'}
+              </Text>
+            </TouchableOpacity>
+            {latestExport?.status === 'completed' && (
+              <TouchableOpacity style={styles.downloadButton} onPress={handleDownloadExport}>
+                <Text style={styles.downloadButtonText}>Download Export</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -195,6 +374,23 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ user, onSignOut })
           <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
             <Text style={styles.signOutButtonText}>Sign Out</Text>
           </TouchableOpacity>
+
+          {pendingDeletion ? (
+            <View style={styles.deletionBanner}>
+              <Text style={styles.deletionBannerText}>
+                Your account will be deleted on {new Date(pendingDeletion.scheduled_for).toLocaleDateString()}.
+              </Text>
+              {pendingDeletion.status === 'scheduled' && (
+                <TouchableOpacity onPress={handleCancelDeletion}>
+                  <Text style={styles.deletionCancelText}>Keep My Account</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.deleteAccountButton} onPress={handleDeleteAccount}>
+              <Text style={styles.deleteAccountButtonText}>Delete Account</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -301,6 +497,34 @@ const styles = StyleSheet.create({
   styleDescriptionSelected: {
     color: '#1d4ed8',
   },
+  styleDetail: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginTop: 6,
+    textTransform: 'capitalize',
+  },
+  learnedText: {
+    fontSize: 13,
+    color: '#7c3aed',
+    marginTop: 6,
+  },
+  editHint: {
+    position: 'absolute',
+    top: 20,
+    right: 20,
+    fontSize: 14,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  addStyleCard: {
+    borderStyle: 'dashed',
+    alignItems: 'center',
+  },
+  addStyleText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
   checkmark: {
     position: 'absolute',
     top: 16,
@@ -308,6 +532,36 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: '#3b82f6',
   },
+  exportStatusText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  exportButton: {
+    backgroundColor: '#1f2937',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  downloadButton: {
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  downloadButtonText: {
+    color: '#3b82f6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  retentionDaysCard: {
+    marginTop: 12,
+  },
   actions: {
     gap: 12,
     marginTop: 20,
@@ -339,4 +593,30 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  deleteAccountButton: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  deleteAccountButtonText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  deletionBanner: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  deletionBannerText: {
+    color: '#b91c1c',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  deletionCancelText: {
+    color: '#3b82f6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
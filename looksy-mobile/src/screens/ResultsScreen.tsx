@@ -16,7 +16,9 @@ import {
   OutfitAnalysis, 
   ClinicalAnalysis, 
   BaseScreenProps,
-  PROCESSING_MESSAGES 
+  ProcessingStage,
+  PROCESSING_MESSAGES,
+  StyleFeedback
 } from '../types';
 import { 
   theme, 
@@ -30,6 +32,29 @@ import {
   ErrorCode 
 } from '../utils/errorHandler';
 import { SCREEN_NAMES } from '../navigation/types';
+import { SCORE_WEIGHTS, describeImprovementArea } from '../utils/styleScoring';
+import { StyleFeedbackKind, describeStyleMapping, styleLabel } from '../utils/styles';
+import { StyleProfileService } from '../services/styleProfileService';
+import { useOutfitStatus } from '../hooks';
+
+const PROGRESS_STAGES: { key: ProcessingStage; label: string }[] = [
+  { key: 'uploaded', label: 'Uploaded' },
+  { key: 'parsing', label: 'Reading garments' },
+  { key: 'scoring', label: 'Scoring' },
+  { key: 'recommendations', label: 'Recommendations' },
+];
+
+// Outfit-level feedback buttons, one row per kind
+const FEEDBACK_ROWS: { kind: StyleFeedbackKind; positive: boolean; label: string }[][] = [
+  [
+    { kind: 'rating', positive: true, label: '👍 Good call' },
+    { kind: 'rating', positive: false, label: '👎 Off the mark' },
+  ],
+  [
+    { kind: 'style', positive: true, label: 'This is my style' },
+    { kind: 'style', positive: false, label: 'Not my style' },
+  ],
+];
 
 interface ResultsScreenProps {
   route: {
@@ -49,53 +74,131 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({
 }) => {
   const { outfitId, imagePath } = route.params;
   const [analysis, setAnalysis] = useState<OutfitAnalysis | ClinicalAnalysis | null>(null);
-  const [loading, setLoading] = useState(true);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [processingStatus, setProcessingStatus] = useState('processing');
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
   const [showScoreBreakdown, setShowScoreBreakdown] = useState(false);
+  const [feedback, setFeedback] = useState<StyleFeedback[]>([]);
+  const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
+  const { processingStatus, stage, job, refresh } = useOutfitStatus(outfitId);
 
   useEffect(() => {
-    loadAnalysisResults();
     loadImageUrl();
   }, []);
 
+  useEffect(() => {
+    if (processingStatus === 'completed' && !analysis) {
+      loadAnalysisResults();
+      // Blurring runs alongside the analysis, so the blurred copy is usually ready by now
+      loadImageUrl();
+    }
+  }, [processingStatus]);
+
   const loadAnalysisResults = async () => {
     try {
-      setLoading(true);
-      
-      // First check if analysis is already completed
-      const existingAnalysis = await AIService.getOutfitAnalysis(outfitId);
-      
-      if (existingAnalysis) {
-        setAnalysis(existingAnalysis);
-        setProcessingStatus('completed');
-        setLoading(false);
-        return;
-      }
+      const result = await AIService.getOutfitAnalysis(outfitId);
 
-      // If not completed, start polling
-      const result = await AIService.pollForCompletion(
-        outfitId,
-        (status) => {
-          setProcessingStatus(status);
-        }
-      );
-
-      if (result) {
-        setAnalysis(result);
-        setProcessingStatus('completed');
+      if (!result) {
+        throw new Error('Analysis completed but no results were saved');
       }
+
+      setAnalysis(result);
+      setFeedback(await StyleProfileService.getOutfitFeedback(user.id, outfitId));
     } catch (error: any) {
       const appError = handleError(error, 'ResultsScreen.loadAnalysisResults');
+      setAnalysisError(appError.message);
+    }
+  };
+
+  const cancelled = job?.status === 'cancelled' || processingStatus === 'cancelled';
+  const jobError =
+    analysisError ||
+    (job?.status === 'failed' ? job.failure_reason || 'Analysis failed' : null) ||
+    (processingStatus === 'error' ? 'Analysis failed' : null);
+
+  const handleCancelAnalysis = async () => {
+    if (!job) return;
+
+    setCancelling(true);
+    const result = await AIService.cancelAnalysis(job.id);
+    setCancelling(false);
+
+    if (!result.success) {
+      showErrorAlert(result.error || 'Could not cancel analysis', 'Cancel Failed');
+    }
+  };
+
+  const handleRetryAnalysis = async () => {
+    try {
+      setAnalysisError(null);
+
+      const [personalStyles, context] = await Promise.all([
+        StyleProfileService.getPersonalStyles(user.id),
+        AIService.getOutfitContext(outfitId),
+      ]);
+      await AIService.analyzeOutfit(outfitId, user.id, personalStyles, context);
+      await refresh();
+    } catch (error: any) {
+      const appError = handleError(error, 'ResultsScreen.handleRetryAnalysis');
       showErrorAlert(appError, 'Analysis Error');
-    } finally {
-      setLoading(false);
     }
   };
 
+  const feedbackFor = (kind: StyleFeedbackKind, recommendationId = ''): boolean | undefined =>
+    feedback.find(entry => entry.kind === kind && entry.recommendation_id === recommendationId)?.positive;
+
+  const handleFeedback = async (
+    kind: StyleFeedbackKind,
+    positive: boolean,
+    recommendation?: { id: string; description: string }
+  ) => {
+    if (!analysis) return;
+
+    try {
+      const { feedback: saved, adjustedStyle } = await StyleProfileService.recordFeedback(user.id, {
+        outfitId,
+        kind,
+        positive,
+        breakdown: 'score_breakdown' in analysis ? analysis.score_breakdown : undefined,
+        recommendationId: recommendation?.id,
+        recommendationText: recommendation?.description,
+      });
+
+      setFeedback(prev => [
+        ...prev.filter(entry => !(entry.kind === saved.kind && entry.recommendation_id === saved.recommendation_id)),
+        saved,
+      ]);
+      if (adjustedStyle) {
+        setFeedbackMessage(`Your ${adjustedStyle.name} style is now ${describeStyleMapping(adjustedStyle.mapping)}.`);
+      }
+    } catch (error: any) {
+      const appError = handleError(error, 'ResultsScreen.handleFeedback');
+      showErrorAlert(appError, 'Feedback Error');
+    }
+  };
+
+  const getProcessingMessage = (): string => {
+    if (job?.status === 'queued' && job.last_error) {
+      return PROCESSING_MESSAGES.retrying;
+    }
+    if (stage === 'parsing' || stage === 'scoring' || stage === 'recommendations') {
+      return PROCESSING_MESSAGES[stage];
+    }
+    if (job?.status === 'queued') return PROCESSING_MESSAGES.queued;
+    if (job?.status === 'processing') return PROCESSING_MESSAGES.processing;
+    return PROCESSING_MESSAGES.preparing;
+  };
+
+  // Index into PROGRESS_STAGES; a queued job has not moved past the upload yet
+  const getStageIndex = (): number => {
+    if (stage === 'completed') return PROGRESS_STAGES.length - 1;
+    const index = PROGRESS_STAGES.findIndex(progressStage => progressStage.key === stage);
+    return index === -1 ? 0 : index;
+  };
+
   const loadImageUrl = async () => {
     try {
-      const url = await UploadService.getImageUrl(imagePath);
+      const url = await UploadService.getOutfitDisplayImageUrl(outfitId, imagePath);
       setImageUrl(url);
     } catch (error) {
       console.error('Error loading image URL:', error);
@@ -165,17 +268,67 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({
     return explanations[scoreType as keyof typeof explanations]?.[category] || "Style analysis complete";
   };
 
-  if (loading || !analysis) {
+  if (!analysis && (jobError || cancelled)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingTitle}>
+            {cancelled ? 'Analysis Cancelled' : 'Analysis Failed'}
+          </Text>
+          <Text style={styles.loadingSubtitle}>
+            {cancelled ? 'This outfit was not analyzed.' : jobError}
+          </Text>
+          <TouchableOpacity style={styles.jobActionButton} onPress={handleRetryAnalysis}>
+            <Text style={styles.jobActionButtonText}>
+              {cancelled ? 'Analyze Anyway' : 'Try Again'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.jobSecondaryButton} onPress={handleDone}>
+            <Text style={styles.jobSecondaryButtonText}>Back to Home</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!analysis) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={theme.colors.primary} />
           <Text style={styles.loadingTitle}>Analyzing Your Outfit</Text>
           <Text style={styles.loadingSubtitle}>
-            {processingStatus === 'processing' ? 
-              PROCESSING_MESSAGES.processing : 
-              PROCESSING_MESSAGES.preparing}
+            {getProcessingMessage()}
           </Text>
+          <View style={styles.stageList}>
+            {PROGRESS_STAGES.map((progressStage, index) => {
+              const reached = index <= getStageIndex();
+              return (
+                <View key={progressStage.key} style={styles.stageRow}>
+                  <View style={[styles.stageDot, reached && styles.stageDotReached]} />
+                  <Text style={[styles.stageLabel, reached && styles.stageLabelReached]}>
+                    {progressStage.label}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+          {job && job.attempts > 1 && (
+            <Text style={styles.jobAttemptText}>
+              Attempt {job.attempts} of {job.max_attempts}
+            </Text>
+          )}
+          {job && (job.status === 'queued' || job.status === 'processing') && (
+            <TouchableOpacity
+              style={styles.jobSecondaryButton}
+              onPress={handleCancelAnalysis}
+              disabled={cancelling}
+            >
+              <Text style={styles.jobSecondaryButtonText}>
+                {cancelling ? 'Cancelling...' : 'Cancel Analysis'}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       </SafeAreaView>
     );
@@ -209,7 +362,7 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({
             size="large"
             onPress={handleScorePress}
             label={getScoreLabel(analysis.overall_score)}
-            subtitle={analysis.style_category}
+            subtitle={styleLabel(analysis.style_category)}
           />
           <Text style={styles.scoreExplanation}>
             {getScoreExplanation('overall', analysis.overall_score)}
@@ -293,6 +446,92 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({
               <ScoreBar label="Footwear" score={analysis.sub_scores.footwear_cohesion} size="small" />
             </>
           )}
+
+          {/* Deterministic score breakdown (coverage 40 / attributes 30 / color 20 / confidence 10) */}
+          {'score_breakdown' in analysis && analysis.score_breakdown && (
+            <>
+              <Text style={[commonStyles.sectionTitle, { marginTop: theme.spacing.lg }]}>
+                How Your Score Adds Up
+              </Text>
+              <Text style={styles.breakdownStyle}>
+                Scored against {styleLabel(analysis.score_breakdown.style)}
+                {analysis.score_breakdown.personal_style ? ` (your ${analysis.score_breakdown.personal_style} style)` : ''}
+              </Text>
+              {([
+                ['Category Coverage', analysis.score_breakdown.coverage, SCORE_WEIGHTS.coverage],
+                ['Attribute Match', analysis.score_breakdown.attributes, SCORE_WEIGHTS.attributes],
+                ['Color Harmony', analysis.score_breakdown.color, SCORE_WEIGHTS.color],
+                ['Detection Confidence', analysis.score_breakdown.confidence, SCORE_WEIGHTS.confidence],
+              ] as const).map(([label, points, maxPoints]) => (
+                <ScoreBar
+                  key={label}
+                  label={label}
+                  score={points}
+                  maxScore={maxPoints}
+                  color={getScoreColor((points / maxPoints) * 100)}
+                  size="small"
+                />
+              ))}
+              {analysis.score_breakdown.weather && (
+                <Text style={styles.breakdownWeather}>
+                  Weather ({analysis.score_breakdown.weather.conditions}):{' '}
+                  {analysis.score_breakdown.weather.penalty > 0
+                    ? `−${analysis.score_breakdown.weather.penalty} points`
+                    : 'suits the outfit'}
+                </Text>
+              )}
+              {analysis.improvement_areas && analysis.improvement_areas.length > 0 && (
+                <View style={styles.improvementAreas}>
+                  {analysis.improvement_areas.map(area => (
+                    <View key={area} style={styles.improvementAreaChip}>
+                      <Text style={styles.improvementAreaText}>{describeImprovementArea(area)}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </View>
+
+        {/* Persona Alignment - how the outfit fits each of the user's personal styles */}
+        {'persona_alignment' in analysis && analysis.persona_alignment && analysis.persona_alignment.length > 0 && (
+          <View style={commonStyles.card}>
+            <Text style={commonStyles.sectionTitle}>Your Personal Styles</Text>
+            {analysis.persona_alignment.length > 1 && (
+              <Text style={styles.breakdownStyle}>
+                Best fit: {analysis.persona_alignment[0].name}
+              </Text>
+            )}
+            {analysis.persona_alignment.map(persona => (
+              <ScoreBar
+                key={persona.name}
+                label={persona.name}
+                score={Math.round(persona.score * 100)}
+                size="small"
+              />
+            ))}
+          </View>
+        )}
+
+        {/* Style Feedback - tunes the personal style this outfit was scored for */}
+        <View style={commonStyles.card}>
+          <Text style={commonStyles.sectionTitle}>How Did We Do?</Text>
+          {FEEDBACK_ROWS.map(row => (
+            <View key={row[0].label} style={styles.feedbackButtonRow}>
+              {row.map(({ kind, positive, label }) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.feedbackButton, feedbackFor(kind) === positive && styles.feedbackButtonActive]}
+                  onPress={() => handleFeedback(kind, positive)}
+                >
+                  <Text style={[styles.feedbackButtonText, feedbackFor(kind) === positive && styles.feedbackButtonTextActive]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+          {feedbackMessage && <Text style={styles.feedbackMessage}>✨ {feedbackMessage}</Text>}
         </View>
 
         {/* Style Insights Dashboard */}
@@ -305,6 +544,12 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({
             console.log('Recommendation action:', action, recommendation);
             // Future: Track user engagement with recommendations
           }}
+          feedback={Object.fromEntries(
+            feedback
+              .filter(entry => entry.kind === 'recommendation')
+              .map(entry => [entry.recommendation_id, entry.positive])
+          )}
+          onRecommendationFeedback={(card, positive) => handleFeedback('recommendation', positive, card)}
         />
 
         {/* Clinical Garment Detection if available */}
@@ -412,6 +657,61 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     textAlign: 'center',
   },
+  stageList: {
+    marginTop: 24,
+    alignSelf: 'stretch',
+    paddingHorizontal: 48,
+  },
+  stageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  stageDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#e5e7eb',
+    marginRight: 12,
+  },
+  stageDotReached: {
+    backgroundColor: '#3b82f6',
+  },
+  stageLabel: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  stageLabelReached: {
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  jobAttemptText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    marginTop: 8,
+  },
+  jobActionButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    marginTop: 24,
+  },
+  jobActionButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  jobSecondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  jobSecondaryButtonText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '500',
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -724,6 +1024,64 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
   },
   
+  breakdownStyle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+    textTransform: 'capitalize',
+  },
+  breakdownWeather: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  improvementAreas: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  improvementAreaChip: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  improvementAreaText: {
+    fontSize: 12,
+    color: '#92400e',
+    fontWeight: '500',
+  },
+  feedbackButtonRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  feedbackButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    alignItems: 'center',
+  },
+  feedbackButtonActive: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  feedbackButtonText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  feedbackButtonTextActive: {
+    color: 'white',
+  },
+  feedbackMessage: {
+    fontSize: 13,
+    color: '#7c3aed',
+    marginTop: 4,
+  },
   // Enhanced Score UI Styles
   scoreExplanation: {
     fontSize: 14,
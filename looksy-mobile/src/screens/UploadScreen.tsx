@@ -8,20 +8,45 @@ import {
   Image,
   Alert,
   ScrollView,
+  TextInput,
 } from 'react-native';
 import { CameraService, ImageResult } from '../services/cameraService';
 import { UploadService, UploadProgress } from '../services/uploadService';
 import { AIService } from '../services/aiService';
+import { StyleProfileService } from '../services/styleProfileService';
+import {
+  ContextOption,
+  DRESS_CODES,
+  MAX_CONTEXT_NOTE_LENGTH,
+  OCCASIONS,
+  OUTFIT_SETTINGS,
+  OutfitContext,
+  normalizeOutfitContext,
+} from '../utils/occasion';
+import { PRECIPITATION_TYPES, Precipitation } from '../utils/weather';
 
 interface UploadScreenProps {
   navigation: any;
   user: any;
 }
 
+const EMPTY_CONTEXT: OutfitContext = { occasion: null, dress_code: null, setting: null, note: null, weather: null };
+
+// Weather as typed; it only counts once a temperature is entered
+interface WeatherDraft {
+  temperature: string;
+  precipitation: Precipitation;
+  windy: boolean;
+}
+
+const EMPTY_WEATHER: WeatherDraft = { temperature: '', precipitation: 'none', windy: false };
+
 export const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, user }) => {
   const [selectedImage, setSelectedImage] = useState<ImageResult | null>(null);
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [context, setContext] = useState<OutfitContext>(EMPTY_CONTEXT);
+  const [weather, setWeather] = useState<WeatherDraft>(EMPTY_WEATHER);
 
   const handleSelectImage = async () => {
     try {
@@ -54,47 +79,55 @@ export const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, user })
     });
 
     try {
+      // The context step is optional; nothing chosen means no context
+      const outfitContext = normalizeOutfitContext({
+        ...context,
+        weather: {
+          temperature_c: weather.temperature,
+          precipitation: weather.precipitation,
+          windy: weather.windy,
+        },
+      });
       const result = await UploadService.uploadOutfitImage(
         user.id,
         selectedImage,
-        setUploadProgress
+        setUploadProgress,
+        outfitContext
       );
 
       if (result.success && result.outfitId && result.imagePath) {
         setUploadProgress({
-          progress: 0.8,
+          progress: 0.9,
           stage: 'processing',
-          message: 'Starting AI analysis...'
+          message: 'Queueing AI analysis...'
         });
 
         try {
-          // Get user's style preferences for analysis context
-          const userStylePreferences = await AIService.getUserStylePreferences(user.id);
+          // Personal styles steer the analysis prompt and pick the scoring target
+          const personalStyles = await StyleProfileService.getPersonalStyles(user.id);
           
-          // Trigger AI analysis
+          // Queue AI analysis - the results screen follows the job from here
           const analysisResult = await AIService.analyzeOutfit(
             result.outfitId,
-            result.imagePath,
             user.id,
-            userStylePreferences
+            personalStyles,
+            outfitContext
           );
 
-          if (analysisResult.success) {
-            // Navigate to results screen
-            navigation.navigate('Results', {
-              outfitId: result.outfitId,
-              imagePath: result.imagePath
-            });
-            
-            // Reset state
-            setSelectedImage(null);
-            setUploadProgress(null);
-          } else {
-            Alert.alert('Analysis Failed', analysisResult.error || 'Please try again.');
-          }
+          navigation.navigate('Results', {
+            outfitId: result.outfitId,
+            imagePath: result.imagePath,
+            jobId: analysisResult.jobId
+          });
+          
+          // Reset state
+          setSelectedImage(null);
+          setUploadProgress(null);
+          setContext(EMPTY_CONTEXT);
+          setWeather(EMPTY_WEATHER);
         } catch (analysisError: any) {
           console.error('Analysis error:', analysisError);
-          Alert.alert('Analysis Error', 'Failed to analyze outfit. Please try again.');
+          Alert.alert('Analysis Error', 'Failed to start outfit analysis. Please try again.');
         }
       } else {
         Alert.alert('Upload Failed', result.error || 'Please try again.');
@@ -111,6 +144,28 @@ export const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, user })
     setUploadProgress(null);
   };
 
+  // Tapping the selected option again clears it
+  const toggleContextOption = (field: 'occasion' | 'dress_code' | 'setting', id: string) => {
+    setContext(prev => ({ ...prev, [field]: prev[field] === id ? null : id }));
+  };
+
+  const renderContextOptions = (field: 'occasion' | 'dress_code' | 'setting', options: ContextOption[]) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const isSelected = context[field] === option.id;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => toggleContextOption(field, option.id)}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
   const getProgressBarWidth = () => {
     return uploadProgress ? `${Math.round(uploadProgress.progress * 100)}%` : '0%';
   };
@@ -194,6 +249,65 @@ export const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, user })
           </View>
         )}
 
+        {/* Occasion & Context (optional) */}
+        {selectedImage && !uploading && !uploadProgress && (
+          <View style={styles.contextSection}>
+            <Text style={styles.contextTitle}>What's It For?</Text>
+            <Text style={styles.contextSubtitle}>Optional - helps us judge formality, fit and weather for the occasion</Text>
+
+            <Text style={styles.contextLabel}>Occasion</Text>
+            {renderContextOptions('occasion', OCCASIONS)}
+
+            <Text style={styles.contextLabel}>Dress Code</Text>
+            {renderContextOptions('dress_code', DRESS_CODES)}
+
+            <Text style={styles.contextLabel}>Setting</Text>
+            {renderContextOptions('setting', OUTFIT_SETTINGS)}
+
+            <Text style={styles.contextLabel}>Anything Else?</Text>
+            <TextInput
+              style={styles.noteInput}
+              value={context.note || ''}
+              onChangeText={note => setContext(prev => ({ ...prev, note }))}
+              placeholder="e.g. Summer garden party, walking a lot"
+              placeholderTextColor="#9ca3af"
+              maxLength={MAX_CONTEXT_NOTE_LENGTH}
+              multiline
+            />
+
+            <Text style={styles.contextLabel}>Weather</Text>
+            <View style={styles.weatherRow}>
+              <TextInput
+                style={styles.temperatureInput}
+                value={weather.temperature}
+                onChangeText={temperature => setWeather(prev => ({ ...prev, temperature }))}
+                placeholder="°C"
+                placeholderTextColor="#9ca3af"
+                keyboardType="numbers-and-punctuation"
+                maxLength={4}
+              />
+              {PRECIPITATION_TYPES.map(type => {
+                const isSelected = weather.precipitation === type.id;
+                return (
+                  <TouchableOpacity
+                    key={type.id}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setWeather(prev => ({ ...prev, precipitation: type.id }))}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{type.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity
+                style={[styles.chip, weather.windy && styles.chipSelected]}
+                onPress={() => setWeather(prev => ({ ...prev, windy: !prev.windy }))}
+              >
+                <Text style={[styles.chipText, weather.windy && styles.chipTextSelected]}>Windy</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Action Buttons */}
         {selectedImage && !uploading && !uploadProgress && (
           <View style={styles.actions}>
@@ -347,6 +461,81 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#6b7280',
   },
+  contextSection: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+  },
+  contextTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  contextSubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  contextLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  weatherRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  temperatureInput: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#1f2937',
+    width: 64,
+  },
   actions: {
     marginBottom: 32,
   },
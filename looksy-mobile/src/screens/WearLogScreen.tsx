@@ -0,0 +1,531 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { ClosetService, ClosetItem } from '../services/closetService';
+import { WearService, toWearDate } from '../services/wearService';
+import { WearEvent } from '../types';
+
+interface WearLogScreenProps {
+  navigation: any;
+  user: any;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+// Calendar cells for a month, padded with nulls so day 1 lands on its weekday
+const buildMonthDays = (month: Date): (Date | null)[] => {
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const days: (Date | null)[] = Array(month.getDay()).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(new Date(month.getFullYear(), month.getMonth(), day));
+  }
+  return days;
+};
+
+const describeItem = (item?: ClosetItem) =>
+  item ? [item.color, item.category].filter(Boolean).join(' ') : 'Removed item';
+
+const formatDay = (wornOn: string) =>
+  new Date(`${wornOn}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+
+export const WearLogScreen: React.FC<WearLogScreenProps> = ({ navigation, user }) => {
+  const today = toWearDate(new Date());
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState(today);
+  const [events, setEvents] = useState<WearEvent[]>([]);
+  const [closetItems, setClosetItems] = useState<ClosetItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [picking, setPicking] = useState(false);
+  const [pickedItemIds, setPickedItemIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    ClosetService.getUserClosetItems(user.id)
+      .then(setClosetItems)
+      .catch(error => console.error('Error loading closet items:', error));
+  }, []);
+
+  useEffect(() => {
+    loadMonth();
+  }, [month]);
+
+  const loadMonth = async () => {
+    try {
+      setLoading(true);
+      const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+      setEvents(await WearService.getWearEvents(user.id, toWearDate(month), toWearDate(lastDay)));
+    } catch (error) {
+      console.error('Error loading wear log:', error);
+      Alert.alert('Error', 'Failed to load your wear log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeMonth = (offset: number) => {
+    setPicking(false);
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const togglePickedItem = (itemId: string) => {
+    setPickedItemIds(prev =>
+      prev.includes(itemId)
+        ? prev.filter(id => id !== itemId)
+        : [...prev, itemId]
+    );
+  };
+
+  const handleStartLogging = () => {
+    // Items already logged for the day are shown as picked
+    setPickedItemIds(dayEvents.map(event => event.closet_item_id));
+    setPicking(true);
+  };
+
+  const handleSaveWear = async () => {
+    const loggedIds = dayEvents.map(event => event.closet_item_id);
+    const newItemIds = pickedItemIds.filter(itemId => !loggedIds.includes(itemId));
+    const unpickedEvents = dayEvents.filter(event => !pickedItemIds.includes(event.closet_item_id));
+
+    try {
+      setSaving(true);
+      await WearService.logWear(user.id, newItemIds, selectedDay);
+      for (const event of unpickedEvents) {
+        await WearService.deleteWearEvent(event.id);
+      }
+      setPicking(false);
+      await loadMonth();
+    } catch (error) {
+      console.error('Error logging wear:', error);
+      Alert.alert('Error', 'Failed to log what you wore. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveEvent = (event: WearEvent) => {
+    Alert.alert('Remove Wear', `Remove the ${describeItem(itemsById[event.closet_item_id])} from ${formatDay(event.worn_on)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await WearService.deleteWearEvent(event.id);
+            setEvents(prev => prev.filter(existing => existing.id !== event.id));
+          } catch (error) {
+            console.error('Error removing wear event:', error);
+            Alert.alert('Error', 'Failed to remove the wear. Please try again.');
+          }
+        }
+      }
+    ]);
+  };
+
+  const itemsById: { [itemId: string]: ClosetItem } = {};
+  closetItems.forEach(item => {
+    itemsById[item.id] = item;
+  });
+
+  const eventsByDay: { [wornOn: string]: WearEvent[] } = {};
+  events.forEach(event => {
+    eventsByDay[event.worn_on] = [...(eventsByDay[event.worn_on] || []), event];
+  });
+
+  const dayEvents = eventsByDay[selectedDay] || [];
+  const isFutureDay = selectedDay > today;
+
+  const renderCalendar = () => (
+    <View style={styles.calendar}>
+      <View style={styles.monthHeader}>
+        <TouchableOpacity onPress={() => changeMonth(-1)} style={styles.monthButton}>
+          <Text style={styles.monthButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>
+          {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </Text>
+        <TouchableOpacity onPress={() => changeMonth(1)} style={styles.monthButton}>
+          <Text style={styles.monthButtonText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekRow}>
+        {WEEKDAYS.map((weekday, index) => (
+          <Text key={index} style={styles.weekday}>{weekday}</Text>
+        ))}
+      </View>
+
+      <View style={styles.daysGrid}>
+        {buildMonthDays(month).map((date, index) => {
+          if (!date) {
+            return <View key={`pad_${index}`} style={styles.dayCell} />;
+          }
+
+          const wornOn = toWearDate(date);
+          const wornCount = eventsByDay[wornOn]?.length || 0;
+          const isSelected = wornOn === selectedDay;
+
+          return (
+            <TouchableOpacity
+              key={wornOn}
+              style={styles.dayCell}
+              onPress={() => {
+                setSelectedDay(wornOn);
+                setPicking(false);
+              }}
+            >
+              <View style={[
+                styles.dayCircle,
+                wornCount > 0 && styles.dayCircleWorn,
+                isSelected && styles.dayCircleSelected,
+              ]}>
+                <Text style={[
+                  styles.dayNumber,
+                  wornOn === today && styles.dayNumberToday,
+                  isSelected && styles.dayNumberSelected,
+                ]}>
+                  {date.getDate()}
+                </Text>
+              </View>
+              {wornCount > 0 && <Text style={styles.dayCount}>{wornCount}</Text>}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderDay = () => (
+    <View style={styles.daySection}>
+      <Text style={styles.dayTitle}>{formatDay(selectedDay)}</Text>
+
+      {dayEvents.length === 0 ? (
+        <Text style={styles.emptyText}>Nothing logged for this day.</Text>
+      ) : (
+        dayEvents.map(event => (
+          <View key={event.id} style={styles.eventRow}>
+            <View style={styles.eventInfo}>
+              <Text style={styles.eventItem}>{describeItem(itemsById[event.closet_item_id])}</Text>
+              <Text style={styles.eventSource}>
+                {event.source === 'outfit' ? '📸 From an analyzed outfit' : '✍️ Logged by hand'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handleRemoveEvent(event)}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {!isFutureDay && (
+        <TouchableOpacity style={styles.logButton} onPress={handleStartLogging}>
+          <Text style={styles.logButtonText}>+ Log What I Wore</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderPicker = () => (
+    <View style={styles.daySection}>
+      <Text style={styles.dayTitle}>What did you wear on {formatDay(selectedDay)}?</Text>
+
+      {closetItems.length === 0 ? (
+        <Text style={styles.emptyText}>Add items to your closet to log what you wore.</Text>
+      ) : (
+        closetItems.map(item => {
+          const isPicked = pickedItemIds.includes(item.id);
+          return (
+            <TouchableOpacity
+              key={item.id}
+              style={[styles.pickRow, isPicked && styles.pickRowSelected]}
+              onPress={() => togglePickedItem(item.id)}
+            >
+              <Text style={styles.pickCheck}>{isPicked ? '✓' : '○'}</Text>
+              <View style={styles.eventInfo}>
+                <Text style={styles.eventItem}>{describeItem(item)}</Text>
+                {item.brand && <Text style={styles.eventSource}>{item.brand}</Text>}
+              </View>
+            </TouchableOpacity>
+          );
+        })
+      )}
+
+      <View style={styles.pickActions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setPicking(false)}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          onPress={handleSaveWear}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.headerBackButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Wear Log</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {renderCalendar()}
+        {loading ? (
+          <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+        ) : picking ? (
+          renderPicker()
+        ) : (
+          renderDay()
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerBackButton: {
+    marginRight: 16,
+  },
+  headerBackButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  loader: {
+    marginTop: 32,
+  },
+
+  // Calendar
+  calendar: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  monthButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  monthButtonText: {
+    fontSize: 24,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#9ca3af',
+  },
+  daysGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    height: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircle: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircleWorn: {
+    backgroundColor: '#dbeafe',
+  },
+  dayCircleSelected: {
+    backgroundColor: '#3b82f6',
+  },
+  dayNumber: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  dayNumberToday: {
+    fontWeight: 'bold',
+    color: '#3b82f6',
+  },
+  dayNumberSelected: {
+    color: 'white',
+  },
+  dayCount: {
+    fontSize: 9,
+    color: '#6b7280',
+  },
+
+  // Day detail
+  daySection: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventItem: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1f2937',
+    textTransform: 'capitalize',
+  },
+  eventSource: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  removeText: {
+    fontSize: 13,
+    color: '#ef4444',
+    fontWeight: '500',
+  },
+  logButton: {
+    marginTop: 16,
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  logButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  // Item picker
+  pickRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  pickRowSelected: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  pickCheck: {
+    fontSize: 18,
+    color: '#3b82f6',
+    width: 28,
+  },
+  pickActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveButton: {
+    flex: 2,
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -3,63 +3,114 @@ import {
   OutfitAnalysis, 
   ClinicalAnalysis, 
   AnalysisResult, 
-  ProcessingStatus,
+  AnalysisJob,
+  OutfitHistoryEntry,
   ServiceResponse 
 } from '../types';
 import { 
   handleError, 
   withErrorBoundary, 
   createServiceResponse,
-  withRetry,
   ErrorCode 
 } from '../utils/errorHandler';
+import { PersonalStyle } from '../utils/styles';
+import { OutfitContext, normalizeOutfitContext } from '../utils/occasion';
 
 export class AIService {
   
   /**
-   * Trigger outfit analysis using OpenAI Vision API
+   * Queue outfit analysis. Returns as soon as the job is enqueued; observe
+   * progress with the useOutfitStatus hook. The worker reads the photo path
+   * from the outfit row, so the job carries no storage path.
    */
   static analyzeOutfit = withErrorBoundary(async (
     outfitId: string,
-    imagePath: string,
     userId: string,
-    userStylePreferences: string[] = []
+    personalStyles: PersonalStyle[] = [],
+    context: OutfitContext | null = null
   ): Promise<AnalysisResult> => {
-    console.log('Starting outfit analysis:', { outfitId, imagePath, userId });
-    
-    // Call Supabase Edge Function with retry
-    const { data, error } = await withRetry(async () => {
-      return await supabase.functions.invoke('analyze-outfit', {
-        body: {
-          outfitId,
-          imagePath,
-          userId,
-          userStylePreferences
+    console.log('Queueing outfit analysis:', { outfitId, userId });
+
+    const { data, error } = await supabase
+      .from('analysis_jobs')
+      .insert({
+        outfit_id: outfitId,
+        user_id: userId,
+        payload: {
+          personalStyles,
+          context
         }
-      });
-    }, 2); // Retry up to 2 times
+      })
+      .select()
+      .single();
 
     if (error) {
-      throw new Error(`Analysis failed: ${error.message}`);
+      throw new Error(`Failed to queue analysis: ${error.message}`);
     }
 
-    const source = data.source || 'unknown';
-    console.log(`Analysis completed from ${source.toUpperCase()}:`, data);
-    
-    if (source === 'fallback') {
-      console.log('⚠️  Using fallback analysis - check OpenAI API key configuration');
-    } else if (source === 'openai') {
-      console.log('✅ Real OpenAI Vision analysis received');
-    }
+    // Wake the worker so the job starts now instead of on the next scheduled run
+    this.kickWorker();
 
     return {
       success: true,
-      analysis: data.analysis,
-      outfitId: data.outfitId,
-      source: source as 'openai' | 'fallback'
+      outfitId,
+      jobId: data.id
     };
   }, 'AIService.analyzeOutfit')
 
+  /**
+   * Fire-and-forget worker invocation. Failures are harmless: the scheduled
+   * worker run picks the job up.
+   */
+  private static kickWorker(): void {
+    supabase.functions.invoke('analysis-worker', { body: {} }).catch((error) => {
+      console.log('Analysis worker kick failed, job will run on next schedule:', error);
+    });
+  }
+
+  /**
+   * Get the most recent analysis job for an outfit
+   */
+  static async getLatestAnalysisJob(outfitId: string): Promise<AnalysisJob | null> {
+    try {
+      const { data, error } = await supabase
+        .from('analysis_jobs')
+        .select('*')
+        .eq('outfit_id', outfitId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching analysis job:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error getting analysis job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a queued or running analysis job
+   */
+  static async cancelAnalysis(jobId: string): Promise<ServiceResponse<AnalysisJob>> {
+    try {
+      const { data, error } = await supabase.rpc('cancel_analysis_job', { p_job_id: jobId });
+
+      if (error) {
+        throw new Error(`Failed to cancel analysis: ${error.message}`);
+      }
+
+      return createServiceResponse<AnalysisJob>(data);
+    } catch (error) {
+      const appError = handleError(error, 'AIService.cancelAnalysis');
+      return createServiceResponse<AnalysisJob>(undefined, appError);
+    }
+  }
+
   /**
    * Get analysis results for an outfit
    */
@@ -84,80 +135,57 @@ export class AIService {
   }
 
   /**
-   * Get processing status of an outfit
+   * The occasion and context an outfit was uploaded with, for re-running its analysis
    */
-  static async getProcessingStatus(outfitId: string): Promise<string | null> {
+  static async getOutfitContext(outfitId: string): Promise<OutfitContext | null> {
     try {
       const { data, error } = await supabase
         .from('outfits')
-        .select('processing_status')
+        .select('context')
         .eq('id', outfitId)
         .single();
 
       if (error) {
-        console.error('Error fetching processing status:', error);
+        console.error('Error fetching outfit context:', error);
         return null;
       }
 
-      return data.processing_status;
+      return normalizeOutfitContext(data.context);
     } catch (error) {
-      console.error('Error getting processing status:', error);
+      console.error('Error getting outfit context:', error);
       return null;
     }
   }
 
   /**
-   * Poll for analysis completion
+   * The user's outfits, newest first, optionally only those uploaded for one occasion
    */
-  static async pollForCompletion(
-    outfitId: string,
-    onStatusUpdate?: (status: string) => void,
-    maxAttempts: number = 30,
-    intervalMs: number = 2000
-  ): Promise<OutfitAnalysis | ClinicalAnalysis | null> {
-    
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const status = await this.getProcessingStatus(outfitId);
-      
-      onStatusUpdate?.(status || 'unknown');
-      
-      if (status === 'completed') {
-        return await this.getOutfitAnalysis(outfitId);
-      }
-      
-      if (status === 'failed') {
-        throw new Error('Analysis failed');
+  static async getOutfitHistory(userId: string, occasion?: string): Promise<OutfitHistoryEntry[]> {
+    try {
+      let query = supabase
+        .from('outfits')
+        .select('id, original_image_path, blurred_image_path, processing_status, context, overall_score:analysis_result->overall_score, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (occasion) {
+        query = query.eq('context->>occasion', occasion);
       }
-      
-      // Wait before next check
-      await new Promise(resolve => setTimeout(resolve, intervalMs));
-    }
-    
-    throw new Error('Analysis timeout - taking longer than expected');
-  }
 
-  /**
-   * Get user's style preferences for analysis context
-   */
-  static async getUserStylePreferences(userId: string): Promise<string[]> {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('style_preferences')
-        .eq('id', userId)
-        .single();
+      const { data, error } = await query;
 
       if (error) {
-        console.error('Error fetching style preferences:', error);
-        // Return default style preferences if column doesn't exist or other error
-        return ['casual', 'minimalist'];
+        throw new Error(`Failed to get outfit history: ${error.message}`);
       }
 
-      return data?.style_preferences || ['casual', 'minimalist'];
-    } catch (error) {
-      console.error('Error getting user style preferences:', error);
-      // Fallback to default preferences
-      return ['casual', 'minimalist'];
+      return (data || []).map((outfit: any) => ({
+        ...outfit,
+        context: normalizeOutfitContext(outfit.context),
+        overall_score: typeof outfit.overall_score === 'number' ? outfit.overall_score : null,
+      }));
+    } catch (error: any) {
+      const appError = handleError(error, 'AIService.getOutfitHistory');
+      throw appError;
     }
   }
 }
\ No newline at end of file
@@ -153,6 +153,51 @@ export class CameraService {
     }
   }
   
+  /**
+   * Pick several photos from library for batch extraction (no cropping)
+   */
+  static async pickMultipleFromLibrary(selectionLimit = 50): Promise<ImageResult[]> {
+    try {
+      const hasPermission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (hasPermission.status !== 'granted') {
+        Alert.alert(
+          'Permissions Required',
+          'Photo library access is needed to add photos of your clothes.',
+          [{ text: 'OK' }]
+        );
+        return [];
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit,
+        quality: 0.8,
+        exif: false,
+      });
+
+      if (result.canceled) {
+        return [];
+      }
+
+      // Photos are uploaded in parallel, so fallback names must not collide
+      const timestamp = Date.now();
+      return result.assets.map((asset, index) => ({
+        uri: asset.uri,
+        width: asset.width,
+        height: asset.height,
+        type: 'image' as const,
+        fileName: asset.fileName || `extraction_${timestamp}_${index}.jpg`,
+        fileSize: asset.fileSize,
+      }));
+
+    } catch (error) {
+      console.error('Error picking photos from library:', error);
+      Alert.alert('Error', 'Failed to select photos. Please try again.');
+      return [];
+    }
+  }
+
   /**
    * Validate image for outfit analysis
    */
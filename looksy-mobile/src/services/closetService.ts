@@ -1,4 +1,11 @@
 import { supabase } from './supabase';
+import {
+  ClosetMatch,
+  ClosetMatchCandidate,
+  findClosetMatches,
+  DUPLICATE_MATCH_THRESHOLD
+} from '../utils/closetMatching';
+import { TAXONOMY_VERSION, normalizeCategory, normalizeItemAttributes } from '../utils/taxonomy';
 
 export interface DetectedClosetItem {
   id: string;
@@ -15,6 +22,14 @@ export interface DetectedClosetItem {
   existsInCloset: boolean;
   garmentDetectionId?: string;
   closetItemId?: string;
+  matchConfidence?: number;
+  matchedClosetItem?: {
+    id: string;
+    category: string;
+    color?: string;
+    pattern?: string;
+    material?: string;
+  };
 }
 
 export interface ClosetItem {
@@ -31,10 +46,17 @@ export interface ClosetItem {
   season_tags: string[];
   condition: string;
   notes?: string;
+  cost?: number;          // purchase price in `currency`
+  currency?: string;      // ISO 4217 code, e.g. 'USD'
+  purchase_date?: string; // YYYY-MM-DD
   image_paths: string[];
+  blurred_image_paths?: string[]; // face-blurred copies, parallel to image_paths
+  product_image_path?: string | null;
   source: string;
   source_outfit_id?: string;
   detection_confidence?: number;
+  image_dhash?: string;
+  taxonomy_version?: number; // taxonomy the attributes were normalized with; null before it existed
   created_at: string;
   updated_at: string;
 }
@@ -82,7 +104,7 @@ export class ClosetService {
           ? Object.values(confidenceScores).reduce((a, b) => a + b, 0) / Object.values(confidenceScores).length
           : 0.5;
 
-        // Check for existing closet item matches
+        // Best candidate that the user hasn't rejected; confirmed links first
         const { data: existingMatches } = await supabase
           .from('closet_item_detections')
           .select(`
@@ -99,10 +121,12 @@ export class ClosetService {
             )
           `)
           .eq('garment_detection_id', detection.id)
+          .eq('user_rejected', false)
+          .order('user_confirmed', { ascending: false })
           .order('match_confidence', { ascending: false })
           .limit(1);
 
-        const existingMatch = existingMatches?.[0];
+        const existingMatch: any = existingMatches?.[0];
 
         detectedItems.push({
           id: detection.item_id,
@@ -119,7 +143,11 @@ export class ClosetService {
             ...(detection.all_attributes || {})
           },
           confidence: avgConfidence,
-          existsInCloset: !!existingMatch && !existingMatch.user_rejected
+          // Automatic candidates only count once they are likely duplicates
+          existsInCloset: !!existingMatch &&
+            (existingMatch.user_confirmed || existingMatch.match_confidence >= DUPLICATE_MATCH_THRESHOLD),
+          matchConfidence: existingMatch?.match_confidence,
+          matchedClosetItem: existingMatch?.closet_items || undefined
         });
       }
 
@@ -136,7 +164,8 @@ export class ClosetService {
   static async updateClosetItemConfirmation(
     itemId: string, 
     confirmed: boolean, 
-    userId: string
+    userId: string,
+    closetItemId?: string
   ): Promise<void> {
     try {
       // First get the garment detection record
@@ -150,12 +179,21 @@ export class ClosetService {
         throw new Error(`Detection not found for item ${itemId}`);
       }
 
-      // Check if there's already a closet_item_detection record
-      const { data: existingDetection } = await supabase
+      // Check if there's already a closet_item_detection record; detections
+      // can have several ranked candidates, so prefer the one shown to the user
+      let detectionQuery = supabase
         .from('closet_item_detections')
         .select('id, closet_item_id')
-        .eq('garment_detection_id', detections.id)
-        .single();
+        .eq('garment_detection_id', detections.id);
+
+      if (closetItemId) {
+        detectionQuery = detectionQuery.eq('closet_item_id', closetItemId);
+      }
+
+      const { data: existingDetection } = await detectionQuery
+        .order('match_confidence', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (existingDetection) {
         // Update existing record
@@ -181,29 +219,107 @@ export class ClosetService {
   }
 
   /**
-   * Create new closet items from confirmed detections
+   * Find the most likely existing closet item for each candidate, keyed by
+   * candidate id. Candidates without a likely duplicate are left out.
+   */
+  static async findLikelyDuplicates(
+    userId: string,
+    candidates: (ClosetMatchCandidate & { id: string })[]
+  ): Promise<{ [candidateId: string]: ClosetMatch<ClosetItem> }> {
+    try {
+      if (candidates.length === 0) {
+        return {};
+      }
+
+      const closetItems = await ClosetService.getUserClosetItems(userId);
+      const duplicates: { [candidateId: string]: ClosetMatch<ClosetItem> } = {};
+
+      for (const candidate of candidates) {
+        const [bestMatch] = findClosetMatches(candidate, closetItems);
+        if (bestMatch) {
+          duplicates[candidate.id] = bestMatch;
+        }
+      }
+
+      return duplicates;
+    } catch (error: any) {
+      console.error('Error finding duplicate closet items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create new closet items from confirmed detections. Detections in
+   * mergeTargets (keyed by item id) are linked to that existing closet item
+   * instead of creating a row. Returns the ids of the linked and new items.
    */
   static async createClosetItemsFromDetections(
     confirmedItems: DetectedClosetItem[],
     userId: string,
-    outfitId: string
-  ): Promise<void> {
+    outfitId: string,
+    mergeTargets: { [itemId: string]: ClosetMatch } = {}
+  ): Promise<string[]> {
     try {
-      const closetItemInserts = confirmedItems.map(item => ({
-        user_id: userId,
-        category: item.category,
-        color: item.attributes.color,
-        pattern: item.attributes.pattern,
-        material: item.attributes.material,
-        size: 'Unknown', // Could be enhanced with size detection
-        style_tags: [],
-        season_tags: ['all-season'],
-        condition: 'good',
-        source: 'photo_detection',
-        source_outfit_id: outfitId,
-        detection_confidence: item.confidence,
-        image_paths: []
-      }));
+      const itemsToLink = confirmedItems.filter(item => mergeTargets[item.id]);
+      const itemsToCreate = confirmedItems.filter(item => !mergeTargets[item.id]);
+      const linkedClosetItemIds = itemsToLink.map(item => mergeTargets[item.id].item.id);
+
+      for (const item of itemsToLink) {
+        const target = mergeTargets[item.id];
+
+        // analyze-outfit may already have stored this pair as a candidate
+        const { data: linked, error: confirmError } = await supabase
+          .from('closet_item_detections')
+          .update({ user_confirmed: true, user_rejected: false })
+          .eq('garment_detection_id', item.garmentDetectionId)
+          .eq('closet_item_id', target.item.id)
+          .select('id');
+
+        if (!confirmError && linked && linked.length > 0) {
+          continue;
+        }
+
+        const { error: mergeError } = await supabase
+          .from('closet_item_detections')
+          .insert({
+            garment_detection_id: item.garmentDetectionId,
+            closet_item_id: target.item.id,
+            match_confidence: target.score,
+            matched_on: target.matched,
+            user_confirmed: true,
+            user_rejected: false
+          });
+
+        if (mergeError) {
+          throw new Error(`Failed to link detection to closet item: ${mergeError.message}`);
+        }
+      }
+
+      if (itemsToCreate.length === 0) {
+        return linkedClosetItemIds;
+      }
+
+      const closetItemInserts = itemsToCreate.map(item => {
+        const { category, subcategory } = normalizeCategory(item.category);
+        const attributes = normalizeItemAttributes(item.attributes);
+        return {
+          user_id: userId,
+          category,
+          subcategory,
+          color: attributes.color,
+          pattern: attributes.pattern,
+          material: attributes.material,
+          size: 'Unknown', // Could be enhanced with size detection
+          style_tags: [],
+          season_tags: ['all-season'],
+          condition: 'good',
+          taxonomy_version: TAXONOMY_VERSION,
+          source: 'photo_detection',
+          source_outfit_id: outfitId,
+          detection_confidence: item.confidence,
+          image_paths: []
+        };
+      });
 
       const { data: newClosetItems, error: insertError } = await supabase
         .from('closet_items')
@@ -216,7 +332,7 @@ export class ClosetService {
 
       // Create closet_item_detection links
       if (newClosetItems) {
-        const detectionLinks = confirmedItems.map((item, index) => ({
+        const detectionLinks = itemsToCreate.map((item, index) => ({
           garment_detection_id: item.garmentDetectionId,
           closet_item_id: newClosetItems[index].id,
           match_confidence: item.confidence,
@@ -233,6 +349,8 @@ export class ClosetService {
           // Don't throw - items were created successfully
         }
       }
+
+      return [...linkedClosetItemIds, ...(newClosetItems || []).map(closetItem => closetItem.id)];
     } catch (error: any) {
       console.error('Error creating closet items from detections:', error);
       throw error;
@@ -267,6 +385,28 @@ export class ClosetService {
     }
   }
 
+  /**
+   * Get a single closet item
+   */
+  static async getClosetItem(itemId: string): Promise<ClosetItem | null> {
+    try {
+      const { data, error } = await supabase
+        .from('closet_items')
+        .select('*')
+        .eq('id', itemId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get closet item: ${error.message}`);
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error getting closet item:', error);
+      throw error;
+    }
+  }
+
   /**
    * Add manual closet item
    */
@@ -291,7 +431,11 @@ export class ClosetService {
           season_tags: item.season_tags || ['all-season'],
           condition: item.condition || 'good',
           notes: item.notes,
+          cost: item.cost,
+          currency: item.currency,
+          purchase_date: item.purchase_date,
           image_paths: item.image_paths || [],
+          taxonomy_version: TAXONOMY_VERSION,
           source: 'manual'
         })
         .select('id')
@@ -1,10 +1,15 @@
 import { supabase } from './supabase';
+import { UploadService } from './uploadService';
+import { ClosetService, ClosetItem } from './closetService';
 import { 
   handleError, 
   withErrorBoundary, 
   createServiceResponse,
   withRetry 
 } from '../utils/errorHandler';
+import { AnalysisSource } from '../types';
+import { ClosetMatch } from '../utils/closetMatching';
+import { TAXONOMY_VERSION, normalizeCategory, normalizeItemAttributes } from '../utils/taxonomy';
 
 // Types for photo extraction
 export interface BoundingBox {
@@ -40,7 +45,7 @@ export interface ExtractedItem {
 export interface PhotoExtraction {
   id: string;
   user_id: string;
-  original_image_path: string;
+  original_image_path: string | null; // null once purged under the user's retention setting
   extraction_type: 'outfit' | 'individual_items';
   processing_status: 'pending' | 'processing' | 'completed' | 'failed';
   extracted_items_count: number;
@@ -54,6 +59,7 @@ export interface PhotoExtraction {
 export interface ExtractionResult {
   success: boolean;
   extraction_id: string;
+  source?: AnalysisSource;
   items: ExtractedItem[];
   processing_metadata: {
     image_dimensions: { width: number; height: number };
@@ -76,9 +82,14 @@ export interface ExtractedClothingItem {
   extraction_confidence: number;
   cropped_image_path?: string;
   image_processing_status: 'pending' | 'processing' | 'completed' | 'failed';
+  product_image_path?: string;
+  background_removal_status?: 'completed' | 'failed';
+  image_dhash?: string;
+  matched_closet_item_id?: string;
   user_approved: boolean;
   user_rejected: boolean;
   user_edited_attributes?: any;
+  detection_source?: 'ai' | 'manual';
   created_closet_item_id?: string;
   created_at: string;
   updated_at: string;
@@ -91,16 +102,14 @@ export class PhotoExtractionService {
    */
   static extractItems = withErrorBoundary(async (
     imagePath: string,
-    userId: string,
     extractionType: 'outfit' | 'individual_items' = 'outfit'
   ): Promise<ExtractionResult> => {
-    console.log('Starting photo extraction:', { imagePath, userId, extractionType });
+    console.log('Starting photo extraction:', { imagePath, extractionType });
     
     const { data, error } = await withRetry(async () => {
       return await supabase.functions.invoke('extract-closet-items', {
         body: {
           imagePath,
-          userId,
           extractionType
         }
       });
@@ -110,7 +119,7 @@ export class PhotoExtractionService {
       throw new Error(`Extraction failed: ${error.message}`);
     }
 
-    console.log(`✅ Extraction completed: ${data.items?.length || 0} items detected`);
+    console.log(`✅ Extraction completed (${data.source}): ${data.items?.length || 0} items detected`);
     return data;
   }, 'PhotoExtractionService.extractItems')
 
@@ -163,6 +172,29 @@ export class PhotoExtractionService {
     }
   }
 
+  /**
+   * Whether the extraction's original photo is still stored. Edited and drawn
+   * boxes are cropped from it, so they can't be saved once it is purged.
+   */
+  static async hasOriginalImage(extractionId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('photo_extractions')
+        .select('original_image_path')
+        .eq('id', extractionId)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to get extraction: ${error.message}`);
+      }
+
+      return !!data?.original_image_path;
+    } catch (error: any) {
+      const appError = handleError(error, 'PhotoExtractionService.hasOriginalImage');
+      throw appError;
+    }
+  }
+
   /**
    * Approve/reject extracted items
    */
@@ -202,12 +234,145 @@ export class PhotoExtractionService {
   }
 
   /**
-   * Create closet items from approved extracted items
+   * Save a user-corrected bounding box. The model's box is kept in
+   * user_edited_attributes and the crop is cleared so it is cut again.
+   */
+  static async updateItemBoundingBox(
+    item: ExtractedClothingItem,
+    boundingBox: BoundingBox
+  ): Promise<ExtractedClothingItem> {
+    try {
+      const { data, error } = await supabase
+        .from('extracted_clothing_items')
+        .update({
+          bounding_box: boundingBox,
+          user_edited_attributes: {
+            ...item.user_edited_attributes,
+            bounding_box: boundingBox,
+            original_bounding_box: item.user_edited_attributes?.original_bounding_box ?? item.bounding_box
+          },
+          cropped_image_path: null,
+          product_image_path: null,
+          image_dhash: null,
+          image_processing_status: 'pending',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', item.id)
+        .select('*')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update bounding box: ${error.message}`);
+      }
+
+      return data;
+    } catch (error: any) {
+      const appError = handleError(error, 'PhotoExtractionService.updateItemBoundingBox');
+      throw appError;
+    }
+  }
+
+  /**
+   * Add an item for a box the user drew. Attributes are filled in
+   * afterwards by describeItem.
+   */
+  static async addManualItem(
+    extractionId: string,
+    boundingBox: BoundingBox,
+    category: string
+  ): Promise<ExtractedClothingItem> {
+    try {
+      const { data, error } = await supabase
+        .from('extracted_clothing_items')
+        .insert({
+          photo_extraction_id: extractionId,
+          bounding_box: boundingBox,
+          item_category: category,
+          taxonomy_version: TAXONOMY_VERSION,
+          ai_description: '',
+          extraction_confidence: 1,
+          item_attributes: {},
+          confidence_scores: {},
+          detection_source: 'manual',
+          user_edited_attributes: {
+            bounding_box: boundingBox,
+            item_category: category
+          }
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to add item: ${error.message}`);
+      }
+
+      return data;
+    } catch (error: any) {
+      const appError = handleError(error, 'PhotoExtractionService.addManualItem');
+      throw appError;
+    }
+  }
+
+  /**
+   * Run the single-item attribute pass of extract-closet-items for one box
+   */
+  static describeItem = withErrorBoundary(async (
+    itemId: string
+  ): Promise<ExtractedClothingItem> => {
+    const { data, error } = await supabase.functions.invoke('extract-closet-items', {
+      body: {
+        itemId
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to describe item: ${error.message}`);
+    }
+
+    console.log(`✅ Item described (${data.source})`);
+    return data.item;
+  }, 'PhotoExtractionService.describeItem')
+
+  /**
+   * Remove a box from the review. Manual boxes are deleted; detected items
+   * are rejected so the correction is kept.
+   */
+  static async deleteExtractedItem(item: ExtractedClothingItem): Promise<void> {
+    try {
+      const { error } = item.detection_source === 'manual'
+        ? await supabase
+            .from('extracted_clothing_items')
+            .delete()
+            .eq('id', item.id)
+        : await supabase
+            .from('extracted_clothing_items')
+            .update({
+              user_approved: false,
+              user_rejected: true,
+              user_edited_attributes: { ...item.user_edited_attributes, deleted: true },
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', item.id);
+
+      if (error) {
+        throw new Error(`Failed to delete item: ${error.message}`);
+      }
+    } catch (error: any) {
+      const appError = handleError(error, 'PhotoExtractionService.deleteExtractedItem');
+      throw appError;
+    }
+  }
+
+  /**
+   * Create closet items from approved extracted items. Items in mergeTargets
+   * (keyed by extracted item id) are linked to that existing closet item
+   * instead of creating a row. Returns the ids of the new closet items.
    */
   static async createClosetItemsFromExtracted(
     extractionId: string,
     userId: string,
-    approvedItemIds: string[]
+    approvedItemIds: string[],
+    mergeTargets: { [extractedItemId: string]: ClosetMatch } = {}
   ): Promise<string[]> {
     try {
       // Get approved extracted items
@@ -226,44 +391,101 @@ export class PhotoExtractionService {
         return [];
       }
 
-      // Create closet items from extracted items
-      const closetItemInserts = extractedItems.map(item => ({
-        user_id: userId,
-        category: item.item_category,
-        color: item.item_attributes?.color,
-        pattern: item.item_attributes?.pattern,
-        material: item.item_attributes?.material,
-        brand: item.item_attributes?.brand,
-        size: item.item_attributes?.size_estimate,
-        style_tags: item.item_attributes?.style_tags || [],
-        formality_level: item.item_attributes?.formality_level,
-        season_tags: item.item_attributes?.season_tags || [],
-        condition: 'good',
-        source: 'photo_extraction',
-        extraction_source_id: extractionId,
-        extracted_item_id: item.id,
-        ai_description: item.ai_description,
-        detection_confidence: item.extraction_confidence,
-        image_paths: item.cropped_image_path ? [item.cropped_image_path] : [],
-        extraction_metadata: {
-          bounding_box: item.bounding_box,
-          confidence_scores: item.confidence_scores,
-          original_attributes: item.item_attributes
+      // Link items the user marked as already in their closet
+      for (const item of extractedItems.filter(extracted => mergeTargets[extracted.id])) {
+        const { error: linkError } = await supabase
+          .from('extracted_clothing_items')
+          .update({
+            matched_closet_item_id: mergeTargets[item.id].item.id,
+            match_confidence: mergeTargets[item.id].score
+          })
+          .eq('id', item.id);
+
+        if (linkError) {
+          throw new Error(`Failed to link item to closet: ${linkError.message}`);
         }
-      }));
+      }
+
+      const newItems = extractedItems.filter(extracted => !mergeTargets[extracted.id]);
+
+      // Crop images for items that don't have one yet so closet items get a photo
+      const itemsToCrop = newItems.filter(item => !item.cropped_image_path);
+      if (itemsToCrop.length > 0) {
+        try {
+          await PhotoExtractionService.processItemImages(extractionId, itemsToCrop.map(item => item.id));
+
+          const { data: croppedItems } = await supabase
+            .from('extracted_clothing_items')
+            .select('id, cropped_image_path, product_image_path, image_dhash')
+            .in('id', itemsToCrop.map(item => item.id));
+
+          croppedItems?.forEach(cropped => {
+            const item = newItems.find(extracted => extracted.id === cropped.id);
+            if (item) {
+              item.cropped_image_path = cropped.cropped_image_path;
+              item.product_image_path = cropped.product_image_path;
+              item.image_dhash = cropped.image_dhash;
+            }
+          });
+        } catch (cropError) {
+          // Items are still added, just with placeholder images
+          console.error('Error cropping item images:', cropError);
+        }
+      }
+
+      // Create closet items from extracted items, normalized in case they
+      // were extracted before the taxonomy
+      const closetItemInserts = newItems.map(item => {
+        const { category, subcategory } = normalizeCategory(item.item_category);
+        const attributes = normalizeItemAttributes(item.item_attributes);
+        return {
+          user_id: userId,
+          category,
+          subcategory,
+          color: attributes.color,
+          pattern: attributes.pattern,
+          material: attributes.material,
+          brand: item.item_attributes?.brand,
+          size: item.item_attributes?.size_estimate,
+          style_tags: attributes.style_tags,
+          formality_level: attributes.formality_level,
+          season_tags: attributes.season_tags,
+          condition: 'good',
+          taxonomy_version: TAXONOMY_VERSION,
+          source: 'photo_extraction',
+          extraction_source_id: extractionId,
+          extracted_item_id: item.id,
+          ai_description: item.ai_description,
+          detection_confidence: item.extraction_confidence,
+          // Product shot first so the closet shows it, raw crop kept after it
+          image_paths: [item.product_image_path, item.cropped_image_path].filter(Boolean),
+          product_image_path: item.product_image_path,
+          image_dhash: item.image_dhash,
+          extraction_metadata: {
+            bounding_box: item.bounding_box,
+            confidence_scores: item.confidence_scores,
+            original_attributes: item.item_attributes
+          }
+        };
+      });
 
       const { data: newClosetItems, error: insertError } = await supabase
         .from('closet_items')
         .insert(closetItemInserts)
-        .select('id');
+        .select('id, image_paths');
 
       if (insertError) {
         throw new Error(`Failed to create closet items: ${insertError.message}`);
       }
 
+      // Blur faces in any cropped images before they are displayed
+      newClosetItems
+        ?.filter(closetItem => closetItem.image_paths?.length > 0)
+        .forEach(closetItem => UploadService.requestFaceBlur({ closetItemId: closetItem.id }));
+
       // Update extracted items with closet item references
       if (newClosetItems) {
-        const updates = extractedItems.map((item, index) => ({
+        const updates = newItems.map((item, index) => ({
           id: item.id,
           created_closet_item_id: newClosetItems[index].id
         }));
@@ -294,24 +516,89 @@ export class PhotoExtractionService {
   }
 
   /**
-   * Process item images (crop and optimize)
+   * Link extracted items to the closet item created (or matched) for another
+   * detection of the same piece, e.g. the same jeans in two batch photos
+   */
+  static async linkDuplicateExtractedItems(
+    links: { itemId: string; representativeId: string; score: number }[]
+  ): Promise<void> {
+    if (links.length === 0) return;
+
+    try {
+      const representativeIds = [...new Set(links.map(link => link.representativeId))];
+      const { data: representatives, error: fetchError } = await supabase
+        .from('extracted_clothing_items')
+        .select('id, created_closet_item_id, matched_closet_item_id')
+        .in('id', representativeIds);
+
+      if (fetchError) {
+        throw new Error(`Failed to fetch extracted items: ${fetchError.message}`);
+      }
+
+      for (const link of links) {
+        const representative = representatives?.find(item => item.id === link.representativeId);
+        const closetItemId = representative?.created_closet_item_id || representative?.matched_closet_item_id;
+        if (!closetItemId) continue;
+
+        const { error: linkError } = await supabase
+          .from('extracted_clothing_items')
+          .update({
+            matched_closet_item_id: closetItemId,
+            match_confidence: link.score
+          })
+          .eq('id', link.itemId);
+
+        if (linkError) {
+          throw new Error(`Failed to link item to closet: ${linkError.message}`);
+        }
+      }
+    } catch (error: any) {
+      const appError = handleError(error, 'PhotoExtractionService.linkDuplicateExtractedItems');
+      throw appError;
+    }
+  }
+
+  /**
+   * Likely existing closet items for extracted items, keyed by extracted item id
+   */
+  static async findClosetDuplicates(
+    userId: string,
+    items: ExtractedClothingItem[]
+  ): Promise<{ [extractedItemId: string]: ClosetMatch<ClosetItem> }> {
+    return ClosetService.findLikelyDuplicates(userId, items.map(item => ({
+      id: item.id,
+      category: item.item_category,
+      color: item.item_attributes?.color,
+      pattern: item.item_attributes?.pattern,
+      material: item.item_attributes?.material,
+      brand: item.item_attributes?.brand,
+      image_dhash: item.image_dhash
+    })));
+  }
+
+  /**
+   * Crop item images out of the extraction photo (process-item-images).
+   * Crops every item without one when no ids are given.
    */
   static async processItemImages(
     extractionId: string,
-    imagePath: string
+    itemIds?: string[]
   ): Promise<void> {
     try {
-      // This would typically call an image processing Edge Function
-      // For now, we'll mark items as processed
-      const { error } = await supabase
-        .from('extracted_clothing_items')
-        .update({ 
-          image_processing_status: 'completed'
-        })
-        .eq('photo_extraction_id', extractionId);
+      const { data, error } = await supabase.functions.invoke('process-item-images', {
+        body: {
+          extractionId,
+          itemIds
+        }
+      });
 
       if (error) {
-        throw new Error(`Failed to update processing status: ${error.message}`);
+        throw new Error(`Failed to process item images: ${error.message}`);
+      }
+
+      const failed = (data?.processed || []).filter((outcome: any) => outcome.status === 'failed');
+      if (failed.length > 0) {
+        console.log(`⚠️ ${failed.length} item images could not be cropped:`, failed);
       }
     } catch (error: any) {
       const appError = handleError(error, 'PhotoExtractionService.processItemImages');
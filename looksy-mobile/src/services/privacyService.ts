@@ -0,0 +1,151 @@
+import { supabase } from './supabase';
+import { AccountDeletion, DataExport, ServiceResponse } from '../types';
+import { 
+  handleError, 
+  createServiceResponse 
+} from '../utils/errorHandler';
+
+export class PrivacyService {
+  
+  /**
+   * Build a downloadable archive of everything stored for the signed-in user.
+   * Runs synchronously in export-user-data, so this can take a while for
+   * large closets.
+   */
+  static async requestDataExport(): Promise<ServiceResponse<DataExport>> {
+    try {
+      const { data, error } = await supabase.functions.invoke('export-user-data', {
+        body: {}
+      });
+
+      if (error) {
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || `Export failed: ${error.message}`);
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Export failed');
+      }
+
+      return createServiceResponse<DataExport>(data.export);
+    } catch (error) {
+      const appError = handleError(error, 'PrivacyService.requestDataExport');
+      return createServiceResponse<DataExport>(undefined, appError);
+    }
+  }
+
+  /**
+   * Get the user's most recent data export
+   */
+  static async getLatestDataExport(userId: string): Promise<DataExport | null> {
+    try {
+      const { data, error } = await supabase
+        .from('data_exports')
+        .select('*')
+        .eq('user_id', userId)
+        .order('requested_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching data export:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error getting data export:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Signed download URL for a completed export that has not expired yet
+   */
+  static async getDataExportUrl(dataExport: DataExport): Promise<string | null> {
+    if (
+      dataExport.status !== 'completed' ||
+      !dataExport.archive_path ||
+      (dataExport.expires_at && new Date(dataExport.expires_at) < new Date())
+    ) {
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabase.storage
+        .from('data-exports')
+        .createSignedUrl(dataExport.archive_path, 3600); // 1 hour expiry
+
+      if (error) {
+        console.error('Error creating export signed URL:', error);
+        return null;
+      }
+
+      return data.signedUrl;
+    } catch (error) {
+      console.error('Error getting export URL:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Schedule deletion of the signed-in user's account. Nothing is removed
+   * until the grace period ends, and the request can be cancelled until then.
+   */
+  static async requestAccountDeletion(): Promise<ServiceResponse<AccountDeletion>> {
+    try {
+      const { data, error } = await supabase.rpc('request_account_deletion');
+
+      if (error) {
+        throw new Error(`Failed to schedule account deletion: ${error.message}`);
+      }
+
+      return createServiceResponse<AccountDeletion>(data);
+    } catch (error) {
+      const appError = handleError(error, 'PrivacyService.requestAccountDeletion');
+      return createServiceResponse<AccountDeletion>(undefined, appError);
+    }
+  }
+
+  /**
+   * Cancel a scheduled account deletion during the grace period
+   */
+  static async cancelAccountDeletion(): Promise<ServiceResponse<AccountDeletion>> {
+    try {
+      const { data, error } = await supabase.rpc('cancel_account_deletion');
+
+      if (error) {
+        throw new Error(`Failed to cancel account deletion: ${error.message}`);
+      }
+
+      return createServiceResponse<AccountDeletion>(data);
+    } catch (error) {
+      const appError = handleError(error, 'PrivacyService.cancelAccountDeletion');
+      return createServiceResponse<AccountDeletion>(undefined, appError);
+    }
+  }
+
+  /**
+   * Get the user's scheduled or in-progress account deletion, if any
+   */
+  static async getPendingAccountDeletion(userId: string): Promise<AccountDeletion | null> {
+    try {
+      const { data, error } = await supabase
+        .from('account_deletions')
+        .select('*')
+        .eq('user_id', userId)
+        .in('status', ['scheduled', 'processing'])
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching account deletion:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error getting account deletion:', error);
+      return null;
+    }
+  }
+}
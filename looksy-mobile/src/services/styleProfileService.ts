@@ -0,0 +1,320 @@
+import { supabase } from './supabase';
+import { handleError } from '../utils/errorHandler';
+import {
+  normalizePersonalStyles,
+  PersonalStyle,
+  StyleFeedbackKind,
+  FEEDBACK_LEARNING_RATES,
+  applyStyleFeedback,
+  outfitStyleProfile,
+  normalizeStyleId,
+  sameStyleMapping,
+} from '../utils/styles';
+import { ScoreBreakdown } from '../utils/styleScoring';
+import { PersonalStyleChangeReason, PersonalStyleHistoryEntry, StyleFeedback } from '../types';
+
+export interface StyleFeedbackInput {
+  outfitId: string;
+  kind: StyleFeedbackKind;
+  positive: boolean;
+  // Missing for analyses scored before breakdowns were stored; the feedback
+  // is still recorded but can't re-weight anything
+  breakdown?: ScoreBreakdown;
+  recommendationId?: string;
+  recommendationText?: string;
+}
+
+export interface StyleFeedbackOutcome {
+  feedback: StyleFeedback;
+  // The personal style whose mix changed, with its new mix
+  adjustedStyle: PersonalStyle | null;
+}
+
+export class StyleProfileService {
+
+  /**
+   * The user's personal styles from profiles.personal_styles, repaired into
+   * the current shape. Empty when none are set or the profile can't be read,
+   * in which case outfits are scored against the closest controlled style.
+   */
+  static async getPersonalStyles(userId: string): Promise<PersonalStyle[]> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('personal_styles')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching personal styles:', error);
+        return [];
+      }
+
+      return normalizePersonalStyles(data?.personal_styles);
+    } catch (error) {
+      console.error('Error getting personal styles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace the user's personal styles from the editor. Mixes the user
+   * changed by hand are logged to the history.
+   */
+  static async savePersonalStyles(userId: string, personalStyles: PersonalStyle[]): Promise<PersonalStyle[]> {
+    try {
+      const previous = await StyleProfileService.getPersonalStyles(userId);
+      const saved = await StyleProfileService.writePersonalStyles(userId, personalStyles);
+
+      const changes = saved.flatMap(style => {
+        const before = previous.find(candidate => candidate.name === style.name);
+        return before && !sameStyleMapping(before.mapping, style.mapping)
+          ? [{ styleName: style.name, previous: before.mapping, next: style.mapping }]
+          : [];
+      });
+      await StyleProfileService.recordHistory(userId, changes, 'edit');
+
+      return saved;
+    } catch (error: any) {
+      const appError = handleError(error, 'StyleProfileService.savePersonalStyles');
+      throw appError;
+    }
+  }
+
+  /**
+   * Feedback already given on an outfit and its recommendation cards
+   */
+  static async getOutfitFeedback(userId: string, outfitId: string): Promise<StyleFeedback[]> {
+    try {
+      const { data, error } = await supabase
+        .from('style_feedback')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('outfit_id', outfitId);
+
+      if (error) {
+        console.error('Error fetching style feedback:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error getting style feedback:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record feedback on an analyzed outfit and nudge the personal style it
+   * was scored for. Repeating the same answer changes nothing; flipping an
+   * earlier answer nudges the other way.
+   *
+   * "This is / isn't my style" and thumbs on the result move the mix toward
+   * or away from the styles the outfit scored best on. Thumbs on a
+   * recommendation move it toward or away from the style the recommendations
+   * were made for.
+   */
+  static async recordFeedback(userId: string, input: StyleFeedbackInput): Promise<StyleFeedbackOutcome> {
+    try {
+      const recommendationId = input.recommendationId || '';
+
+      const { data: existing, error: existingError } = await supabase
+        .from('style_feedback')
+        .select('*')
+        .eq('outfit_id', input.outfitId)
+        .eq('kind', input.kind)
+        .eq('recommendation_id', recommendationId)
+        .maybeSingle();
+
+      if (existingError) {
+        throw new Error(`Failed to check earlier feedback: ${existingError.message}`);
+      }
+
+      if (existing && existing.positive === input.positive) {
+        return { feedback: existing, adjustedStyle: null };
+      }
+
+      const personalStyles = await StyleProfileService.getPersonalStyles(userId);
+      const target = StyleProfileService.feedbackTarget(personalStyles, input.breakdown);
+
+      const { data: feedback, error: feedbackError } = await supabase
+        .from('style_feedback')
+        .upsert({
+          user_id: userId,
+          outfit_id: input.outfitId,
+          kind: input.kind,
+          positive: input.positive,
+          recommendation_id: recommendationId,
+          recommendation_text: input.recommendationText || null,
+          scored_style: input.breakdown?.style || null,
+          personal_style: target?.name || null,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'outfit_id,kind,recommendation_id' })
+        .select()
+        .single();
+
+      if (feedbackError) {
+        throw new Error(`Failed to save feedback: ${feedbackError.message}`);
+      }
+
+      if (!target || !input.breakdown) {
+        return { feedback, adjustedStyle: null };
+      }
+
+      const scoredStyle = normalizeStyleId(input.breakdown.style);
+      const profile = input.kind === 'recommendation'
+        ? (scoredStyle ? { [scoredStyle]: 1 } : {})
+        : outfitStyleProfile(input.breakdown.style_scores);
+      const mapping = applyStyleFeedback(target.mapping, profile, input.positive, FEEDBACK_LEARNING_RATES[input.kind]);
+
+      if (sameStyleMapping(mapping, target.mapping)) {
+        return { feedback, adjustedStyle: null };
+      }
+
+      const adjusted: PersonalStyle = {
+        ...target,
+        mapping,
+        base_mapping: target.base_mapping || target.mapping,
+      };
+      await StyleProfileService.writePersonalStyles(
+        userId,
+        personalStyles.map(style => style === target ? adjusted : style)
+      );
+      await StyleProfileService.recordHistory(
+        userId,
+        [{ styleName: target.name, previous: target.mapping, next: mapping }],
+        'feedback',
+        feedback.id
+      );
+
+      return { feedback, adjustedStyle: adjusted };
+    } catch (error: any) {
+      const appError = handleError(error, 'StyleProfileService.recordFeedback');
+      throw appError;
+    }
+  }
+
+  /**
+   * How a personal style's mix changed over time, newest first
+   */
+  static async getStyleHistory(userId: string, styleName: string): Promise<PersonalStyleHistoryEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('personal_style_history')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('style_name', styleName)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching personal style history:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error getting personal style history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Undo everything feedback taught a personal style, restoring the mix the
+   * user last set in the editor
+   */
+  static async resetStyleMapping(userId: string, styleName: string): Promise<PersonalStyle[]> {
+    try {
+      const personalStyles = await StyleProfileService.getPersonalStyles(userId);
+      const target = personalStyles.find(style => style.name === styleName);
+      if (!target?.base_mapping || sameStyleMapping(target.mapping, target.base_mapping)) {
+        return personalStyles;
+      }
+
+      const saved = await StyleProfileService.writePersonalStyles(
+        userId,
+        personalStyles.map(style => style === target ? { ...target, mapping: target.base_mapping as Record<string, number> } : style)
+      );
+      await StyleProfileService.recordHistory(
+        userId,
+        [{ styleName, previous: target.mapping, next: target.base_mapping }],
+        'reset'
+      );
+
+      return saved;
+    } catch (error: any) {
+      const appError = handleError(error, 'StyleProfileService.resetStyleMapping');
+      throw appError;
+    }
+  }
+
+  /**
+   * The personal style feedback on an outfit should re-weight: the one it
+   * was scored for, else the one that leans most on the scored style, else
+   * the first
+   */
+  private static feedbackTarget(
+    personalStyles: PersonalStyle[],
+    breakdown?: ScoreBreakdown
+  ): PersonalStyle | undefined {
+    if (personalStyles.length === 0) return undefined;
+
+    const named = breakdown?.personal_style
+      ? personalStyles.find(style => style.name === breakdown.personal_style)
+      : undefined;
+    if (named) return named;
+
+    const scoredStyle = normalizeStyleId(breakdown?.style);
+    const leaning = scoredStyle
+      ? personalStyles
+        .filter(style => (style.mapping[scoredStyle] || 0) > 0)
+        .sort((a, b) => b.mapping[scoredStyle] - a.mapping[scoredStyle])[0]
+      : undefined;
+
+    return leaning || personalStyles[0];
+  }
+
+  private static async writePersonalStyles(userId: string, personalStyles: PersonalStyle[]): Promise<PersonalStyle[]> {
+    const normalized = normalizePersonalStyles(personalStyles);
+
+    const { error } = await supabase
+      .from('profiles')
+      .upsert({
+        id: userId,
+        personal_styles: normalized,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      throw new Error(`Failed to save personal styles: ${error.message}`);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Log mix changes. Failures are only logged - the history is informational.
+   */
+  private static async recordHistory(
+    userId: string,
+    changes: { styleName: string; previous: Record<string, number>; next: Record<string, number> }[],
+    reason: PersonalStyleChangeReason,
+    feedbackId?: string
+  ): Promise<void> {
+    if (changes.length === 0) return;
+
+    const { error } = await supabase
+      .from('personal_style_history')
+      .insert(changes.map(change => ({
+        user_id: userId,
+        style_name: change.styleName,
+        previous_mapping: change.previous,
+        new_mapping: change.next,
+        reason,
+        feedback_id: feedbackId || null,
+      })));
+
+    if (error) {
+      console.error('Failed to record personal style history:', error);
+    }
+  }
+}
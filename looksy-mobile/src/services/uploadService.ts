@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import { ImageResult } from './cameraService';
 import * as FileSystem from 'expo-file-system';
+import { OutfitContext } from '../utils/occasion';
 
 export interface UploadProgress {
   progress: number; // 0-1
@@ -24,12 +25,13 @@ export interface ExtractionUploadResult {
 export class UploadService {
   
   /**
-   * Upload image and create outfit record
+   * Upload image and create outfit record, with the occasion it is for when given
    */
   static async uploadOutfitImage(
     userId: string,
     image: ImageResult,
-    onProgress?: (progress: UploadProgress) => void
+    onProgress?: (progress: UploadProgress) => void,
+    context: OutfitContext | null = null
   ): Promise<UploadResult> {
     
     try {
@@ -95,6 +97,8 @@ export class UploadService {
           user_id: userId,
           original_image_path: uploadData.path,
           processing_status: 'pending',
+          processing_stage: 'uploaded',
+          context,
         })
         .select()
         .single();
@@ -108,6 +112,9 @@ export class UploadService {
         throw new Error(`Failed to create outfit record: ${outfitError.message}`);
       }
       
+      // Blur faces for display while the analysis runs
+      UploadService.requestFaceBlur({ outfitId: outfitData.id });
+      
       onProgress?.({
         progress: 1.0,
         stage: 'completed',
@@ -221,6 +228,82 @@ export class UploadService {
     }
   }
   
+  /**
+   * Upload a photo for a manually added or edited closet item. The returned
+   * path goes into the item's image_paths.
+   */
+  static async uploadClosetItemImage(
+    userId: string,
+    image: ImageResult,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<ExtractionUploadResult> {
+
+    try {
+      onProgress?.({
+        progress: 0.1,
+        stage: 'preparing',
+        message: 'Preparing image...'
+      });
+
+      const timestamp = Date.now();
+      const fileName = `${userId}/closet/${timestamp}_${image.fileName || 'closet_item.jpg'}`;
+
+      onProgress?.({
+        progress: 0.3,
+        stage: 'uploading',
+        message: 'Uploading image...'
+      });
+
+      const base64String = await FileSystem.readAsStringAsync(image.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      // Convert base64 to binary data
+      const byteCharacters = atob(base64String);
+      const byteNumbers = new Array(byteCharacters.length);
+      for (let i = 0; i < byteCharacters.length; i++) {
+        byteNumbers[i] = byteCharacters.charCodeAt(i);
+      }
+      const uint8Array = new Uint8Array(byteNumbers);
+
+      const { data: uploadData, error: uploadError } = await supabase.storage
+        .from('private-uploads')
+        .upload(fileName, uint8Array, {
+          contentType: 'image/jpeg',
+          upsert: false
+        });
+
+      if (uploadError) {
+        throw new Error(`Upload failed: ${uploadError.message}`);
+      }
+
+      onProgress?.({
+        progress: 1.0,
+        stage: 'completed',
+        message: 'Upload complete!'
+      });
+
+      return {
+        success: true,
+        imagePath: uploadData.path
+      };
+
+    } catch (error: any) {
+      console.error('Closet item upload error:', error);
+
+      onProgress?.({
+        progress: 0,
+        stage: 'error',
+        message: error.message || 'Upload failed'
+      });
+
+      return {
+        success: false,
+        error: error.message || 'Upload failed'
+      };
+    }
+  }
+
   /**
    * Create blob from image URI for upload
    */
@@ -252,46 +335,79 @@ export class UploadService {
   }
   
   /**
-   * Delete uploaded image
+   * Get a signed URL for the face-blurred display copy, falling back to the
+   * original while no blurred copy exists (or blurring is turned off)
    */
-  static async deleteImage(imagePath: string): Promise<boolean> {
+  static async getDisplayImageUrl(
+    blurredImagePath: string | null | undefined,
+    originalImagePath: string
+  ): Promise<string | null> {
+    if (!blurredImagePath) {
+      return UploadService.getImageUrl(originalImagePath);
+    }
+
     try {
-      const { error } = await supabase.storage
-        .from('private-uploads')
-        .remove([imagePath]);
+      const { data, error } = await supabase.storage
+        .from('user-display-images')
+        .createSignedUrl(blurredImagePath, 3600); // 1 hour expiry
         
       if (error) {
-        console.error('Error deleting image:', error);
-        return false;
+        console.error('Error creating display signed URL:', error);
+        return UploadService.getImageUrl(originalImagePath);
       }
       
-      return true;
+      return data.signedUrl;
     } catch (error) {
-      console.error('Error deleting image:', error);
-      return false;
+      console.error('Error getting display image URL:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Display URL for an outfit photo, preferring its face-blurred copy
+   */
+  static async getOutfitDisplayImageUrl(outfitId: string, originalImagePath: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('outfits')
+      .select('blurred_image_path')
+      .eq('id', outfitId)
+      .single();
+      
+    if (error) {
+      console.error('Error loading blurred image path:', error);
     }
+    
+    return UploadService.getDisplayImageUrl(data?.blurred_image_path, originalImagePath);
+  }
+  
+  /**
+   * Fire-and-forget face blurring. Failures only mean the original keeps
+   * being shown to its owner.
+   */
+  static requestFaceBlur(target: { outfitId: string } | { closetItemId: string }): void {
+    supabase.functions.invoke('blur-faces', { body: target }).catch((error) => {
+      console.log('Face blurring request failed:', error);
+    });
   }
   
   /**
-   * Get upload progress for outfit processing
+   * Delete uploaded image
    */
-  static async getProcessingStatus(outfitId: string): Promise<string | null> {
+  static async deleteImage(imagePath: string): Promise<boolean> {
     try {
-      const { data, error } = await supabase
-        .from('outfits')
-        .select('processing_status')
-        .eq('id', outfitId)
-        .single();
+      const { error } = await supabase.storage
+        .from('private-uploads')
+        .remove([imagePath]);
         
       if (error) {
-        console.error('Error getting processing status:', error);
-        return null;
+        console.error('Error deleting image:', error);
+        return false;
       }
       
-      return data.processing_status;
+      return true;
     } catch (error) {
-      console.error('Error getting processing status:', error);
-      return null;
+      console.error('Error deleting image:', error);
+      return false;
     }
   }
 }
\ No newline at end of file
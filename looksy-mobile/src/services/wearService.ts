@@ -0,0 +1,150 @@
+import { supabase } from './supabase';
+import { ClosetItemWearStats, WearEvent, WearEventSource } from '../types';
+import { handleError } from '../utils/errorHandler';
+
+/**
+ * Local calendar date as YYYY-MM-DD. toISOString() would use the UTC date,
+ * which is the wrong day for evening wears west of Greenwich.
+ */
+export const toWearDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export class WearService {
+
+  /**
+   * Record that closet items were worn on a day. An item already logged for
+   * that day keeps its existing event.
+   */
+  static async logWear(
+    userId: string,
+    closetItemIds: string[],
+    wornOn: string = toWearDate(new Date()),
+    source: WearEventSource = 'manual',
+    outfitId?: string
+  ): Promise<void> {
+    if (closetItemIds.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('wear_events')
+        .upsert(
+          [...new Set(closetItemIds)].map(closetItemId => ({
+            user_id: userId,
+            closet_item_id: closetItemId,
+            outfit_id: outfitId || null,
+            worn_on: wornOn,
+            source
+          })),
+          { onConflict: 'closet_item_id,worn_on', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        throw new Error(`Failed to log wear: ${error.message}`);
+      }
+    } catch (error: any) {
+      const appError = handleError(error, 'WearService.logWear');
+      throw appError;
+    }
+  }
+
+  /**
+   * Record the closet items in a confirmed outfit as worn on the day its
+   * photo was uploaded
+   */
+  static async logOutfitWear(
+    userId: string,
+    outfitId: string,
+    closetItemIds: string[]
+  ): Promise<void> {
+    if (closetItemIds.length === 0) return;
+
+    try {
+      const { data: outfit, error } = await supabase
+        .from('outfits')
+        .select('created_at')
+        .eq('id', outfitId)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to get outfit: ${error.message}`);
+      }
+
+      const wornOn = toWearDate(outfit?.created_at ? new Date(outfit.created_at) : new Date());
+      await WearService.logWear(userId, closetItemIds, wornOn, 'outfit', outfitId);
+    } catch (error: any) {
+      const appError = handleError(error, 'WearService.logOutfitWear');
+      throw appError;
+    }
+  }
+
+  /**
+   * Wear events between two dates (inclusive, YYYY-MM-DD), newest first
+   */
+  static async getWearEvents(userId: string, from: string, to: string): Promise<WearEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('wear_events')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('worn_on', from)
+        .lte('worn_on', to)
+        .order('worn_on', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to get wear events: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error: any) {
+      const appError = handleError(error, 'WearService.getWearEvents');
+      throw appError;
+    }
+  }
+
+  /**
+   * Wear count and last-worn date for every worn item, keyed by closet item id
+   */
+  static async getWearStats(userId: string): Promise<{ [closetItemId: string]: ClosetItemWearStats }> {
+    try {
+      const { data, error } = await supabase
+        .from('closet_item_wear_stats')
+        .select('closet_item_id, wear_count, last_worn_on, first_worn_on')
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to get wear stats: ${error.message}`);
+      }
+
+      const stats: { [closetItemId: string]: ClosetItemWearStats } = {};
+      (data || []).forEach(row => {
+        stats[row.closet_item_id] = { ...row, wear_count: Number(row.wear_count) };
+      });
+      return stats;
+    } catch (error: any) {
+      const appError = handleError(error, 'WearService.getWearStats');
+      throw appError;
+    }
+  }
+
+  /**
+   * Remove a wear that was logged by mistake
+   */
+  static async deleteWearEvent(eventId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('wear_events')
+        .delete()
+        .eq('id', eventId);
+
+      if (error) {
+        throw new Error(`Failed to delete wear event: ${error.message}`);
+      }
+    } catch (error: any) {
+      const appError = handleError(error, 'WearService.deleteWearEvent');
+      throw appError;
+    }
+  }
+}
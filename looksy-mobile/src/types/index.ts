@@ -1,3 +1,7 @@
+import type { PersonaAlignment, ScoreBreakdown } from '../utils/styleScoring';
+import type { StyleFeedbackKind } from '../utils/styles';
+import type { OutfitContext } from '../utils/occasion';
+
 // Core User Types
 export interface User {
   id: string;
@@ -8,6 +12,17 @@ export interface User {
   };
 }
 
+// How long original photos stay in private-uploads before purge-originals deletes them
+export type OriginalRetention = 'after_analysis' | 'days' | 'keep';
+
+// profiles.privacy_settings
+export interface PrivacySettings {
+  share_to_community: boolean;
+  blur_faces: boolean;
+  original_retention: OriginalRetention;
+  original_retention_days: number; // used with 'days'
+}
+
 // Navigation Types
 export interface NavigationProps {
   navigation: {
@@ -28,6 +43,7 @@ export interface BaseScreenProps extends NavigationProps {
 export interface ResultsScreenParams {
   outfitId: string;
   imagePath: string;
+  jobId?: string;
 }
 
 export interface ClosetConfirmationParams {
@@ -66,6 +82,10 @@ export interface ClinicalAnalysis extends OutfitAnalysis {
   recommendations: Recommendations;
   confidence_flags: string[];
   analysis_completeness: number;
+  score_breakdown?: ScoreBreakdown;
+  improvement_areas?: string[];
+  // Fit with each of the user's personal styles at analysis time, best first
+  persona_alignment?: PersonaAlignment[];
 }
 
 export interface DetectedItem {
@@ -172,9 +192,136 @@ export interface ServiceResponse<T = any> {
   error?: string;
 }
 
+// Which vision provider produced an analysis ('fallback' when the reply was unusable,
+// 'cache' when an earlier result for the same photo was reused)
+export type AnalysisSource = 'openai' | 'anthropic' | 'fixture' | 'cache' | 'fallback';
+
 export interface AnalysisResult extends ServiceResponse<ClinicalAnalysis | OutfitAnalysis> {
   outfitId?: string;
-  source?: 'openai' | 'fallback';
+  jobId?: string;
+  source?: AnalysisSource;
+}
+
+// Analysis Queue Types
+export type AnalysisJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  outfit_id: string;
+  user_id: string;
+  status: AnalysisJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error?: string | null;
+  failure_reason?: string | null;
+  cancelled_at?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Data Export Types
+export type DataExportStatus = 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface DataExport {
+  id: string;
+  user_id: string;
+  status: DataExportStatus;
+  archive_path: string | null;
+  archive_size_bytes: number | null;
+  manifest: {
+    manifest_version: number;
+    generated_at: string;
+    tables: { [table: string]: { file: string; rows: number } };
+    image_count: number;
+    missing_image_count: number;
+  } | null;
+  error: string | null;
+  requested_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+}
+
+// Account Deletion Types
+export type AccountDeletionStatus = 'scheduled' | 'cancelled' | 'processing' | 'completed' | 'failed';
+
+export interface AccountDeletion {
+  id: string;
+  user_id: string;
+  status: AccountDeletionStatus;
+  requested_at: string;
+  scheduled_for: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+  attempts: number;
+  receipt: {
+    storage_objects_deleted: { [bucket: string]: number };
+    rows_deleted: { [table: string]: number };
+    auth_user_deleted: boolean;
+  } | null;
+  error: string | null;
+}
+
+// Wear Log Types
+export type WearEventSource = 'outfit' | 'manual';
+
+export interface WearEvent {
+  id: string;
+  user_id: string;
+  closet_item_id: string;
+  outfit_id: string | null;
+  worn_on: string; // YYYY-MM-DD
+  source: WearEventSource;
+  created_at: string;
+}
+
+export interface ClosetItemWearStats {
+  closet_item_id: string;
+  wear_count: number;
+  last_worn_on: string;
+  first_worn_on: string;
+}
+
+// Style Feedback Types
+// 'rating' is a thumbs up/down on the result, 'style' is "this is / isn't my
+// style", 'recommendation' is a thumbs up/down on one recommendation card
+export interface StyleFeedback {
+  id: string;
+  user_id: string;
+  outfit_id: string;
+  kind: StyleFeedbackKind;
+  positive: boolean;
+  recommendation_id: string; // '' for feedback on the whole outfit
+  recommendation_text: string | null;
+  scored_style: string | null; // score_breakdown.style when the feedback was given
+  personal_style: string | null; // the personal style it re-weighted, if any
+  created_at: string;
+  updated_at: string;
+}
+
+export type PersonalStyleChangeReason = 'feedback' | 'edit' | 'reset';
+
+export interface PersonalStyleHistoryEntry {
+  id: string;
+  user_id: string;
+  style_name: string;
+  previous_mapping: Record<string, number>;
+  new_mapping: Record<string, number>;
+  reason: PersonalStyleChangeReason;
+  feedback_id: string | null;
+  created_at: string;
+}
+
+// Outfit History Types
+export interface OutfitHistoryEntry {
+  id: string;
+  original_image_path: string;
+  blurred_image_path: string | null;
+  processing_status: ProcessingStatus;
+  context: OutfitContext | null;
+  overall_score: number | null; // from analysis_result, null until analyzed
+  created_at: string;
 }
 
 // Upload Types
@@ -186,7 +333,18 @@ export interface ImagePickerResult {
 }
 
 // Processing Status Types
-export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
+
+// Fine-grained progress published by analyze-outfit alongside processing_status
+export type ProcessingStage =
+  | 'uploaded'
+  | 'queued'
+  | 'parsing'
+  | 'scoring'
+  | 'recommendations'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
 
 // Style Types
 export interface StyleTheme {
@@ -278,8 +436,20 @@ export const SCORE_THRESHOLDS = {
   good: 60
 } as const;
 
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  share_to_community: false,
+  blur_faces: true,
+  original_retention: 'after_analysis',
+  original_retention_days: 30,
+};
+
 export const PROCESSING_MESSAGES = {
+  queued: 'Waiting for an available analyst...',
   processing: 'AI is analyzing your style...',
+  retrying: 'That took a wrong turn - trying again shortly...',
+  parsing: 'Reading the pieces in your outfit...',
+  scoring: 'Scoring against your style...',
+  recommendations: 'Putting together recommendations...',
   preparing: 'Preparing your results...',
   completed: 'Analysis complete!'
 } as const;
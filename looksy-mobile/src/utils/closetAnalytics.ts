@@ -0,0 +1,144 @@
+/**
+ * Closet value and cost-per-wear analytics
+ */
+
+import { ClosetItemWearStats } from '../types';
+import { toTaxonomyCategory } from './styleScoring';
+
+export interface AnalyticsClosetItem {
+  id: string;
+  category: string;
+  color?: string;
+  season_tags?: string[];
+  cost?: number | string | null; // DECIMAL columns can arrive as strings
+  currency?: string | null;
+  purchase_date?: string | null;
+}
+
+export interface ItemCostPerWear<T extends AnalyticsClosetItem = AnalyticsClosetItem> {
+  item: T;
+  cost: number;
+  wearCount: number;
+  costPerWear: number;
+}
+
+export interface SpendBreakdown {
+  key: string;   // taxonomy category or season tag
+  total: number;
+  itemCount: number;
+}
+
+export interface ClosetAnalytics<T extends AnalyticsClosetItem = AnalyticsClosetItem> {
+  currency: string;            // the closet's most common currency; every total is in it
+  totalValue: number;
+  pricedItemCount: number;
+  unpricedItems: T[];
+  otherCurrencyItems: T[];     // priced in another currency, left out of the totals
+  costPerWear: ItemCostPerWear<T>[]; // worn priced items, highest cost-per-wear first
+  averageCostPerWear: number | null;
+  spendByCategory: SpendBreakdown[];
+  spendBySeason: SpendBreakdown[];
+  neverWorn: T[];              // most expensive first, unpriced last
+  neverWornValue: number;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const itemCost = (item: AnalyticsClosetItem): number | null => {
+  if (item.cost === null || item.cost === undefined || item.cost === '') return null;
+  const cost = Number(item.cost);
+  return isNaN(cost) ? null : cost;
+};
+
+const itemCurrency = (item: AnalyticsClosetItem) => (item.currency || DEFAULT_CURRENCY).toUpperCase();
+
+const toBreakdown = (totals: Map<string, SpendBreakdown>): SpendBreakdown[] =>
+  [...totals.values()]
+    .map(entry => ({ ...entry, total: round2(entry.total) }))
+    .sort((a, b) => b.total - a.total);
+
+/**
+ * Format an amount in an ISO 4217 currency, falling back to "12.50 EUR"
+ * where the runtime has no Intl currency support
+ */
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+/**
+ * Value, spend and cost-per-wear for a closet. An item tagged with several
+ * seasons splits its cost evenly between them, so season totals add up to
+ * the closet value; untagged items count as 'all-season'.
+ */
+export const computeClosetAnalytics = <T extends AnalyticsClosetItem>(
+  items: T[],
+  wearStats: { [closetItemId: string]: ClosetItemWearStats }
+): ClosetAnalytics<T> => {
+  const currencyCounts = new Map<string, number>();
+  items
+    .filter(item => itemCost(item) !== null)
+    .forEach(item => currencyCounts.set(itemCurrency(item), (currencyCounts.get(itemCurrency(item)) || 0) + 1));
+  const currency = [...currencyCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || DEFAULT_CURRENCY;
+
+  const unpricedItems = items.filter(item => itemCost(item) === null);
+  const otherCurrencyItems = items.filter(item => itemCost(item) !== null && itemCurrency(item) !== currency);
+  const pricedItems = items.filter(item => itemCost(item) !== null && itemCurrency(item) === currency);
+
+  const byCategory = new Map<string, SpendBreakdown>();
+  const bySeason = new Map<string, SpendBreakdown>();
+  const addSpend = (totals: Map<string, SpendBreakdown>, key: string, amount: number) => {
+    const entry = totals.get(key) || { key, total: 0, itemCount: 0 };
+    entry.total += amount;
+    entry.itemCount += 1;
+    totals.set(key, entry);
+  };
+
+  let totalValue = 0;
+  const costPerWear: ItemCostPerWear<T>[] = [];
+
+  for (const item of pricedItems) {
+    const cost = itemCost(item) as number;
+    totalValue += cost;
+
+    addSpend(byCategory, toTaxonomyCategory(item.category), cost);
+    const seasons = item.season_tags && item.season_tags.length > 0 ? item.season_tags : ['all-season'];
+    seasons.forEach(season => addSpend(bySeason, season, cost / seasons.length));
+
+    const wearCount = wearStats[item.id]?.wear_count || 0;
+    if (wearCount > 0) {
+      costPerWear.push({ item, cost, wearCount, costPerWear: round2(cost / wearCount) });
+    }
+  }
+
+  costPerWear.sort((a, b) => b.costPerWear - a.costPerWear);
+
+  const totalWorn = costPerWear.reduce((sum, entry) => sum + entry.wearCount, 0);
+  const wornCost = costPerWear.reduce((sum, entry) => sum + entry.cost, 0);
+
+  const neverWorn = items
+    .filter(item => !wearStats[item.id])
+    .sort((a, b) => (itemCost(b) ?? -1) - (itemCost(a) ?? -1));
+  const neverWornValue = neverWorn
+    .filter(item => itemCurrency(item) === currency)
+    .reduce((sum, item) => sum + (itemCost(item) || 0), 0);
+
+  return {
+    currency,
+    totalValue: round2(totalValue),
+    pricedItemCount: pricedItems.length,
+    unpricedItems,
+    otherCurrencyItems,
+    costPerWear,
+    averageCostPerWear: totalWorn > 0 ? round2(wornCost / totalWorn) : null,
+    spendByCategory: toBreakdown(byCategory),
+    spendBySeason: toBreakdown(bySeason),
+    neverWorn,
+    neverWornValue: round2(neverWornValue),
+  };
+};
@@ -0,0 +1,16 @@
+/**
+ * Closet item matching shared with the analyze-outfit edge function
+ */
+
+export {
+  CLOSET_MATCH_WEIGHTS,
+  DUPLICATE_MATCH_THRESHOLD,
+  scoreClosetMatch,
+  findClosetMatches,
+} from '../../supabase/functions/_shared/closetMatching';
+
+export type {
+  ClosetMatchCandidate,
+  MatchableClosetItem,
+  ClosetMatch,
+} from '../../supabase/functions/_shared/closetMatching';
@@ -2,4 +2,11 @@
  * Utility Functions for Enhanced Analysis Components
  */
 
-export * from './scoreUtils';
\ No newline at end of file
+export * from './scoreUtils';
+export * from './styleScoring';
+export * from './closetMatching';
+export * from './closetAnalytics';
+export * from './taxonomy';
+export * from './styles';
+export * from './occasion';
+export * from './weather';
@@ -0,0 +1,20 @@
+/**
+ * Occasion and context for outfit analyses, shared with the edge functions
+ */
+
+export {
+  OCCASIONS,
+  DRESS_CODES,
+  OUTFIT_SETTINGS,
+  MAX_CONTEXT_NOTE_LENGTH,
+  normalizeOutfitContext,
+  occasionLabel,
+  outfitContextLabel,
+  describeOutfitContext,
+  contextFormality,
+} from '../../supabase/functions/_shared/occasion';
+
+export type {
+  ContextOption,
+  OutfitContext,
+} from '../../supabase/functions/_shared/occasion';
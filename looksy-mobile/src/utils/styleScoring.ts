@@ -0,0 +1,27 @@
+/**
+ * Deterministic style scoring engine shared with the analyze-outfit edge function
+ */
+
+export {
+  SCORING_VERSION,
+  SCORE_WEIGHTS,
+  DEFAULT_STYLE_TAXONOMY,
+  computeStyleScore,
+  computePersonaAlignment,
+  scoreAgainstStyle,
+  toTaxonomyCategory,
+  colorFamily,
+  patternFamily,
+  describeImprovementArea,
+} from '../../supabase/functions/_shared/scoring';
+
+export type {
+  StyleTaxonomyRule,
+  ScoringGarment,
+  ScoringAssessment,
+  SubScores,
+  StyleComponentScores,
+  ScoreBreakdown,
+  StyleScoreResult,
+  PersonaAlignment,
+} from '../../supabase/functions/_shared/scoring';
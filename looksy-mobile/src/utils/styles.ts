@@ -0,0 +1,29 @@
+/**
+ * Controlled styles and personal style profiles shared with the edge functions
+ */
+
+export {
+  CONTROLLED_STYLES,
+  CONTROLLED_STYLE_IDS,
+  MAX_PERSONAL_STYLES,
+  normalizeStyleId,
+  styleLabel,
+  normalizeStyleMapping,
+  normalizePersonalStyle,
+  normalizePersonalStyles,
+  combinedStyleMix,
+  describeStyleMapping,
+  describePersonalStyle,
+  validatePersonalStyle,
+  sameStyleMapping,
+  isStyleMappingLearned,
+  outfitStyleProfile,
+  applyStyleFeedback,
+  FEEDBACK_LEARNING_RATES,
+} from '../../supabase/functions/_shared/styles';
+
+export type {
+  ControlledStyle,
+  PersonalStyle,
+  StyleFeedbackKind,
+} from '../../supabase/functions/_shared/styles';
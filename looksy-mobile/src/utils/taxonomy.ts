@@ -0,0 +1,37 @@
+/**
+ * Versioned closet taxonomy shared with the edge functions
+ */
+
+export {
+  TAXONOMY_VERSION,
+  TAXONOMY_CATEGORIES,
+  TAXONOMY_COLORS,
+  CLOSET_CATEGORIES,
+  GARMENT_TYPES,
+  CLOSET_COLORS,
+  CLOSET_PATTERNS,
+  CLOSET_MATERIALS,
+  CLOSET_STYLE_TAGS,
+  CLOSET_SEASONS,
+  CLOSET_CONDITIONS,
+  FORMALITY_LEVELS,
+  normalizeCategory,
+  normalizeGarmentType,
+  normalizeColor,
+  normalizePattern,
+  normalizeMaterial,
+  normalizeStyleTags,
+  normalizeSeasons,
+  normalizeFormality,
+  normalizeItemAttributes,
+  colorFamilyOf,
+  colorHex,
+  categoryInfo,
+  validateClosetItemAttributes,
+} from '../../supabase/functions/_shared/taxonomy';
+
+export type {
+  TaxonomyCategory,
+  TaxonomyColor,
+  VocabularyClosetItem,
+} from '../../supabase/functions/_shared/taxonomy';
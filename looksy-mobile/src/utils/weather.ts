@@ -0,0 +1,23 @@
+/**
+ * Weather conditions and appropriateness, shared with the edge functions
+ */
+
+export {
+  PRECIPITATION_TYPES,
+  WEATHER_ADJUSTMENT_LABELS,
+  normalizeWeatherConditions,
+  describeWeather,
+  weatherSeason,
+  scoreWeather,
+  describeWeatherAdjustment,
+  pickWeatherClosetItems,
+} from '../../supabase/functions/_shared/weather/conditions';
+
+export type {
+  SeasonalClosetItem,
+} from '../../supabase/functions/_shared/weather/conditions';
+
+export type {
+  Precipitation,
+  WeatherConditions,
+} from '../../supabase/functions/_shared/weather/types';
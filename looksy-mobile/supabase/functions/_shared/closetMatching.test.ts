@@ -0,0 +1,75 @@
+import { assertEquals } from '@std/assert'
+import {
+  DUPLICATE_MATCH_THRESHOLD,
+  findClosetMatches,
+  MatchableClosetItem,
+  scoreClosetMatch
+} from './closetMatching.ts'
+
+const NAVY_BLAZER: MatchableClosetItem = {
+  id: 'navy-blazer',
+  category: 'blazer',
+  color: 'navy',
+  pattern: 'solid',
+  material: 'wool',
+  brand: 'Uniqlo',
+  image_dhash: '00000000ffffffff',
+}
+
+Deno.test('an identical item matches on every dimension', () => {
+  const match = scoreClosetMatch({ ...NAVY_BLAZER, brand: ' uniqlo ' }, NAVY_BLAZER)
+
+  assertEquals(match?.score, 1)
+  assertEquals(match?.matched, ['color', 'pattern', 'material', 'brand', 'image'])
+})
+
+Deno.test('items in different coarse categories never match', () => {
+  assertEquals(scoreClosetMatch({ ...NAVY_BLAZER, category: 'jeans' }, NAVY_BLAZER), null)
+})
+
+Deno.test('synonymous categories and color families still match', () => {
+  const match = scoreClosetMatch(
+    { category: 'sport coat', color: 'dark navy', pattern: 'plain', material: 'wool blend' },
+    NAVY_BLAZER
+  )
+
+  assertEquals(match?.score, 1)
+  assertEquals(match?.matched, ['color', 'pattern', 'material'])
+})
+
+Deno.test('too little evidence is not reported as a match', () => {
+  assertEquals(scoreClosetMatch({ category: 'blazer', color: 'navy' }, NAVY_BLAZER), null)
+  assertEquals(
+    scoreClosetMatch({ category: 'blazer', color: 'navy', material: 'unknown', brand: '' }, NAVY_BLAZER),
+    null
+  )
+})
+
+Deno.test('image similarity falls off with hash distance', () => {
+  const candidate = { category: 'blazer', color: 'navy' }
+
+  const near = scoreClosetMatch({ ...candidate, image_dhash: '00000000fffffff0' }, NAVY_BLAZER)
+  const halfway = scoreClosetMatch({ ...candidate, image_dhash: '000000000000efff' }, NAVY_BLAZER)
+  const far = scoreClosetMatch({ ...candidate, image_dhash: 'ffffffff00000000' }, NAVY_BLAZER)
+
+  assertEquals(near?.score, 1)
+  assertEquals(halfway?.score, 0.75)
+  assertEquals(halfway?.matched, ['color', 'image'])
+  assertEquals(far?.score, 0.5)
+  assertEquals(far?.matched, ['color'])
+})
+
+Deno.test('findClosetMatches keeps likely duplicates, best first', () => {
+  const blackBlazer = { ...NAVY_BLAZER, id: 'black-blazer', color: 'black', image_dhash: undefined }
+  const navyJeans = { ...NAVY_BLAZER, id: 'navy-jeans', category: 'jeans' }
+  const otherBrand = { ...NAVY_BLAZER, id: 'other-brand', brand: 'Zara', image_dhash: undefined }
+  const candidate = { ...NAVY_BLAZER, image_dhash: undefined }
+
+  const matches = findClosetMatches(candidate, [blackBlazer, otherBrand, navyJeans, NAVY_BLAZER])
+
+  assertEquals(matches.map(match => match.item.id), ['navy-blazer', 'other-brand'])
+  assertEquals(matches.map(match => match.score), [1, 0.86])
+  assertEquals(findClosetMatches(candidate, [blackBlazer]), [])
+  assertEquals(findClosetMatches(candidate, [blackBlazer], 0.5).length, 1)
+  assertEquals(DUPLICATE_MATCH_THRESHOLD, 0.7)
+})
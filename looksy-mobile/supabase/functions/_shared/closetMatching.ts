@@ -0,0 +1,159 @@
+/**
+ * Closet Item Matching
+ *
+ * Compares a candidate (an extracted item or an outfit detection) with each
+ * existing closet item of the same coarse category. Color, pattern,
+ * material, brand and image hash each contribute when both sides have them;
+ * the score is the weighted share of the evidence that agrees.
+ *
+ * Shared by analyze-outfit, which stores ranked candidates in
+ * closet_item_detections, and the app (via src/utils/closetMatching.ts),
+ * which flags likely duplicates before adding items to the closet.
+ */
+
+import { colorFamily, patternFamily, toTaxonomyCategory } from './scoring.ts'
+
+export interface ClosetMatchCandidate {
+  category: string;
+  color?: string;
+  pattern?: string;
+  material?: string;
+  brand?: string;
+  image_dhash?: string; // 64-bit difference hash of the item crop, set by process-item-images
+}
+
+export interface MatchableClosetItem extends ClosetMatchCandidate {
+  id: string;
+}
+
+export interface ClosetMatch<T extends MatchableClosetItem = MatchableClosetItem> {
+  item: T;
+  score: number;     // 0-1
+  matched: string[]; // dimensions that agreed, e.g. ['color', 'image']
+}
+
+export const CLOSET_MATCH_WEIGHTS = {
+  color: 0.3,
+  pattern: 0.15,
+  material: 0.15,
+  brand: 0.1,
+  image: 0.3,
+} as const
+
+// Score from which a match is shown as a likely duplicate
+export const DUPLICATE_MATCH_THRESHOLD = 0.7
+
+// Compared dimensions must carry at least this much weight, so a bare
+// category match is never reported as a duplicate
+const MIN_EVIDENCE_WEIGHT = 0.4
+
+// Hash distances (out of 64 bits) for an identical and an unrelated image
+const SAME_IMAGE_DISTANCE = 10
+const DIFFERENT_IMAGE_DISTANCE = 24
+
+type MatchDimension = keyof typeof CLOSET_MATCH_WEIGHTS
+
+const isKnown = (value?: string): value is string =>
+  !!value && value.trim() !== '' && value.toLowerCase() !== 'unknown'
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0
+  for (let index = 0; index < a.length; index++) {
+    let bits = parseInt(a[index], 16) ^ parseInt(b[index], 16)
+    while (bits) {
+      distance += bits & 1
+      bits >>= 1
+    }
+  }
+  return distance
+}
+
+/**
+ * Similarity of one dimension (0-1), or null when either side lacks it
+ */
+const compareDimension = (
+  dimension: MatchDimension,
+  candidate: ClosetMatchCandidate,
+  closetItem: ClosetMatchCandidate
+): number | null => {
+  switch (dimension) {
+    case 'color': {
+      const a = colorFamily(candidate.color)
+      const b = colorFamily(closetItem.color)
+      return a && b ? (a === b ? 1 : 0) : null
+    }
+    case 'pattern': {
+      const a = patternFamily(candidate.pattern)
+      const b = patternFamily(closetItem.pattern)
+      return a !== 'unknown' && b !== 'unknown' ? (a === b ? 1 : 0) : null
+    }
+    case 'material': {
+      if (!isKnown(candidate.material) || !isKnown(closetItem.material)) return null
+      const a = candidate.material.toLowerCase()
+      const b = closetItem.material.toLowerCase()
+      return a.includes(b) || b.includes(a) ? 1 : 0
+    }
+    case 'brand': {
+      if (!isKnown(candidate.brand) || !isKnown(closetItem.brand)) return null
+      return candidate.brand.trim().toLowerCase() === closetItem.brand.trim().toLowerCase() ? 1 : 0
+    }
+    case 'image': {
+      const a = candidate.image_dhash
+      const b = closetItem.image_dhash
+      if (!a || !b || a.length !== b.length) return null
+      const distance = hammingDistance(a, b)
+      return Math.min(1, Math.max(0,
+        (DIFFERENT_IMAGE_DISTANCE - distance) / (DIFFERENT_IMAGE_DISTANCE - SAME_IMAGE_DISTANCE)
+      ))
+    }
+  }
+}
+
+/**
+ * Score how likely a candidate is the same physical item as a closet item,
+ * or null when the categories differ or there is too little to compare
+ */
+export const scoreClosetMatch = <T extends MatchableClosetItem>(
+  candidate: ClosetMatchCandidate,
+  closetItem: T
+): ClosetMatch<T> | null => {
+  if (toTaxonomyCategory(candidate.category) !== toTaxonomyCategory(closetItem.category)) {
+    return null
+  }
+
+  let weight = 0
+  let agreement = 0
+  const matched: string[] = []
+
+  for (const dimension of Object.keys(CLOSET_MATCH_WEIGHTS) as MatchDimension[]) {
+    const similarity = compareDimension(dimension, candidate, closetItem)
+    if (similarity === null) continue
+
+    weight += CLOSET_MATCH_WEIGHTS[dimension]
+    agreement += CLOSET_MATCH_WEIGHTS[dimension] * similarity
+    if (similarity >= 0.5) matched.push(dimension)
+  }
+
+  if (weight < MIN_EVIDENCE_WEIGHT) {
+    return null
+  }
+
+  return {
+    item: closetItem,
+    score: Math.round((agreement / weight) * 100) / 100,
+    matched,
+  }
+}
+
+/**
+ * Closet items scoring at least `threshold` against the candidate, best first
+ */
+export const findClosetMatches = <T extends MatchableClosetItem>(
+  candidate: ClosetMatchCandidate,
+  closetItems: T[],
+  threshold = DUPLICATE_MATCH_THRESHOLD
+): ClosetMatch<T>[] =>
+  closetItems
+    .map(closetItem => scoreClosetMatch(candidate, closetItem))
+    .filter((match): match is ClosetMatch<T> => match !== null && match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
@@ -0,0 +1,34 @@
+import { createVisionProvider } from '../vision/index.ts'
+import { StubFaceDetector } from './stub.ts'
+import { FaceBox, FaceDetector } from './types.ts'
+import { VisionFaceDetector } from './vision.ts'
+
+export * from './types.ts'
+export { StubFaceDetector, VisionFaceDetector }
+
+export type FaceDetectorName = 'vision' | 'stub'
+
+const DETECTOR_NAMES: FaceDetectorName[] = ['vision', 'stub']
+
+/**
+ * Build the face detector configured by FACE_DETECTOR (vision | stub,
+ * defaults to vision). The vision detector uses the vision provider
+ * configured for `functionName`.
+ *
+ * FACE_DETECTOR_STUB_FACES optionally overrides the stub's boxes with a JSON
+ * array of {x1, y1, x2, y2, confidence}; "[]" simulates a photo with no faces.
+ */
+export const createFaceDetector = (functionName: string): FaceDetector => {
+  const configured = (Deno.env.get('FACE_DETECTOR') || 'vision').toLowerCase()
+
+  if (!DETECTOR_NAMES.includes(configured as FaceDetectorName)) {
+    throw new Error(`Unknown face detector "${configured}". Expected one of: ${DETECTOR_NAMES.join(', ')}`)
+  }
+
+  if (configured === 'stub') {
+    const stubFaces = Deno.env.get('FACE_DETECTOR_STUB_FACES')
+    return new StubFaceDetector(stubFaces ? JSON.parse(stubFaces) as FaceBox[] : undefined)
+  }
+
+  return new VisionFaceDetector(createVisionProvider(functionName))
+}
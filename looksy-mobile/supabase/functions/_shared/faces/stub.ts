@@ -0,0 +1,20 @@
+import { FaceBox, FaceDetector } from './types.ts'
+
+// Roughly where the head sits in a full-length outfit photo
+const DEFAULT_STUB_FACES: FaceBox[] = [
+  { x1: 40, y1: 4, x2: 60, y2: 20, confidence: 1 }
+]
+
+/**
+ * Deterministic detector for tests and local development. Always reports the
+ * same boxes regardless of the image, so the blur output is reproducible.
+ */
+export class StubFaceDetector implements FaceDetector {
+  readonly name = 'stub'
+
+  constructor(private faces: FaceBox[] = DEFAULT_STUB_FACES) {}
+
+  async detect(): Promise<FaceBox[]> {
+    return this.faces.map(face => ({ ...face }))
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * A detected face as percentages (0-100) of the image dimensions, matching
+ * the bounding box convention used by extract-closet-items
+ */
+export interface FaceBox {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  confidence: number;
+}
+
+export interface FaceDetectionInput {
+  imageUrl: string; // signed URL of the original
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds faces in an image. Implementations only locate faces; blurring is
+ * done by the caller so every detector produces the same output format.
+ */
+export interface FaceDetector {
+  readonly name: string;
+  detect(input: FaceDetectionInput): Promise<FaceBox[]>;
+}
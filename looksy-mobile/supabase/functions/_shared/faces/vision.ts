@@ -0,0 +1,81 @@
+import { VisionProvider } from '../vision/index.ts'
+import { FaceBox, FaceDetectionInput, FaceDetector } from './types.ts'
+
+const clampPercent = (value: unknown): number => {
+  const number = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(number) ? Math.min(100, Math.max(0, number)) : 0
+}
+
+/**
+ * Detects faces by asking the configured vision model for bounding boxes.
+ * Errs on the side of reporting a face: a missed face is a privacy leak,
+ * an extra blurred patch is not.
+ */
+export class VisionFaceDetector implements FaceDetector {
+  readonly name: string
+
+  constructor(private visionProvider: VisionProvider) {
+    this.name = `vision:${visionProvider.name}`
+  }
+
+  async detect({ imageUrl }: FaceDetectionInput): Promise<FaceBox[]> {
+    const { text } = await this.visionProvider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: `You locate human faces in photos so they can be blurred for privacy.
+
+Report every face, including partial, turned away, reflected (mirror selfies) and background faces. When unsure, include it.
+
+Coordinates are percentages (0-100) of the image width and height. Cover the whole head including hair.`
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: `Find all faces in this photo.
+
+Return ONLY JSON with this structure:
+{
+  "faces": [{"x1": <0-100>, "y1": <0-100>, "x2": <0-100>, "y2": <0-100>, "confidence": <0.0-1.0>}]
+}`
+            },
+            {
+              type: 'image',
+              url: imageUrl
+            }
+          ]
+        }
+      ],
+      maxTokens: 500,
+      temperature: 0
+    })
+
+    const jsonMatch = text.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) {
+      throw new Error('No JSON found in face detection response')
+    }
+
+    const parsed = JSON.parse(jsonMatch[0])
+    if (!Array.isArray(parsed.faces)) {
+      throw new Error('Face detection response has no faces array')
+    }
+
+    return parsed.faces
+      .map((face: any) => {
+        const x1 = clampPercent(face?.x1)
+        const y1 = clampPercent(face?.y1)
+        const x2 = clampPercent(face?.x2)
+        const y2 = clampPercent(face?.y2)
+        return {
+          x1: Math.min(x1, x2),
+          y1: Math.min(y1, y2),
+          x2: Math.max(x1, x2),
+          y2: Math.max(y1, y2),
+          confidence: typeof face?.confidence === 'number' ? face.confidence : 1
+        }
+      })
+      .filter((face: FaceBox) => face.x2 > face.x1 && face.y2 > face.y1)
+  }
+}
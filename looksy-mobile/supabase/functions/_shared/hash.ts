@@ -0,0 +1,9 @@
+/**
+ * Hex-encoded SHA-256 digest of raw bytes
+ */
+export const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,93 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { decode, Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts'
+import { sha256Hex } from './hash.ts'
+
+export { decode, Image }
+
+/**
+ * Download a stored image and decode it for pixel access
+ */
+export const downloadImage = async (
+  supabaseClient: SupabaseClient,
+  bucket: string,
+  path: string
+): Promise<Image> => {
+  const { data, error } = await supabaseClient.storage
+    .from(bucket)
+    .download(path)
+
+  if (error || !data) {
+    throw new Error(`Failed to download ${path}: ${error?.message}`)
+  }
+
+  const image = await decode(new Uint8Array(await data.arrayBuffer()))
+  if (!(image instanceof Image)) {
+    throw new Error(`Unsupported image format for ${path}`)
+  }
+
+  return image
+}
+
+/**
+ * SHA-256 of a stored object's bytes, so result caches never rely on a
+ * hash the client computed
+ */
+export const hashStoredObject = async (
+  supabaseClient: SupabaseClient,
+  bucket: string,
+  path: string
+): Promise<string> => {
+  const { data, error } = await supabaseClient.storage
+    .from(bucket)
+    .download(path)
+
+  if (error || !data) {
+    throw new Error(`Failed to download ${path}: ${error?.message}`)
+  }
+
+  return sha256Hex(await data.arrayBuffer())
+}
+
+/**
+ * Encode an image as JPEG and store it, replacing any earlier version
+ */
+export const uploadJpeg = async (
+  supabaseClient: SupabaseClient,
+  bucket: string,
+  path: string,
+  image: Image,
+  quality: number
+) => {
+  const { error } = await supabaseClient.storage
+    .from(bucket)
+    .upload(path, await image.encodeJPEG(quality), {
+      contentType: 'image/jpeg',
+      upsert: true
+    })
+
+  if (error) {
+    throw new Error(`Failed to upload ${path}: ${error.message}`)
+  }
+}
+
+/**
+ * 64-bit difference hash as 16 hex characters. Similar images differ in few
+ * bits, so items can be compared by Hamming distance without their pixels.
+ */
+export const differenceHash = (image: Image): string => {
+  const small = image.clone().resize(9, 8)
+  const luminance = (x: number, y: number) => {
+    const offset = (y * 9 + x) * 4
+    return 0.299 * small.bitmap[offset] + 0.587 * small.bitmap[offset + 1] + 0.114 * small.bitmap[offset + 2]
+  }
+
+  let hash = ''
+  for (let y = 0; y < 8; y++) {
+    let row = 0
+    for (let x = 0; x < 8; x++) {
+      row = (row << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0)
+    }
+    hash += row.toString(16).padStart(2, '0')
+  }
+  return hash
+}
@@ -0,0 +1,152 @@
+/**
+ * Occasion and context for an outfit analysis
+ *
+ * What the user says an outfit is for: the occasion, a dress code, whether
+ * it is worn indoors or outdoors, a free-text note and the weather if they
+ * entered it. It is added to the analysis prompt, sets the formality the
+ * scoring engine expects, and is stored on outfits.context so history can be
+ * filtered by occasion.
+ *
+ * Its only import is the shared weather conditions, so it can be shared by
+ * the Deno edge functions and the React Native app (via src/utils/occasion.ts).
+ */
+
+import { describeWeather, normalizeWeatherConditions } from './weather/conditions.ts'
+import { WeatherConditions } from './weather/types.ts'
+
+export interface ContextOption {
+  id: string;
+  label: string;
+  // Expected formality (0-100), on the scale of the perceived formality level
+  formality?: number;
+}
+
+export const OCCASIONS: ContextOption[] = [
+  { id: 'work', label: 'Work', formality: 65 },
+  { id: 'date', label: 'Date', formality: 60 },
+  { id: 'wedding_guest', label: 'Wedding Guest', formality: 85 },
+  { id: 'interview', label: 'Interview', formality: 75 },
+  { id: 'gym', label: 'Gym', formality: 15 },
+]
+
+export const DRESS_CODES: ContextOption[] = [
+  { id: 'casual', label: 'Casual', formality: 30 },
+  { id: 'smart_casual', label: 'Smart Casual', formality: 55 },
+  { id: 'business', label: 'Business', formality: 70 },
+  { id: 'cocktail', label: 'Cocktail', formality: 80 },
+  { id: 'black_tie', label: 'Black Tie', formality: 95 },
+  { id: 'athletic', label: 'Athletic', formality: 15 },
+]
+
+export const OUTFIT_SETTINGS: ContextOption[] = [
+  { id: 'indoor', label: 'Indoors' },
+  { id: 'outdoor', label: 'Outdoors' },
+]
+
+export const MAX_CONTEXT_NOTE_LENGTH = 200
+
+// Common names for the options above
+const CONTEXT_SYNONYMS: Record<string, string> = {
+  office: 'work', business_meeting: 'work',
+  wedding: 'wedding_guest', job_interview: 'interview',
+  workout: 'gym', training: 'gym',
+  smart: 'smart_casual', business_casual: 'smart_casual', business_formal: 'business',
+  formal: 'black_tie', sporty: 'athletic',
+  indoors: 'indoor', inside: 'indoor', outdoors: 'outdoor', outside: 'outdoor',
+}
+
+export interface OutfitContext {
+  occasion: string | null;
+  dress_code: string | null;
+  setting: string | null;
+  note: string | null;
+  // Entered by hand; read by the manual weather provider
+  weather: WeatherConditions | null;
+}
+
+const toContextKey = (raw: string): string =>
+  raw.toLowerCase().trim().replace(/[\s-]+/g, '_')
+
+const normalizeOption = (raw: unknown, options: ContextOption[]): string | null => {
+  if (typeof raw !== 'string' || !raw.trim()) return null
+  const key = toContextKey(raw)
+  const id = CONTEXT_SYNONYMS[key] || key
+  const option = options.find(candidate => candidate.id === id || toContextKey(candidate.label) === key)
+  return option ? option.id : null
+}
+
+/**
+ * Repair a context from the app, a queued job or a stored outfit. Unknown
+ * options are dropped; null when nothing is left.
+ */
+export const normalizeOutfitContext = (raw: unknown): OutfitContext | null => {
+  if (!raw || typeof raw !== 'object') return null
+  const entry = raw as Record<string, unknown>
+
+  const note = typeof entry.note === 'string'
+    ? entry.note.trim().slice(0, MAX_CONTEXT_NOTE_LENGTH)
+    : ''
+  const context: OutfitContext = {
+    occasion: normalizeOption(entry.occasion, OCCASIONS),
+    dress_code: normalizeOption(entry.dress_code, DRESS_CODES),
+    setting: normalizeOption(entry.setting, OUTFIT_SETTINGS),
+    note: note || null,
+    weather: normalizeWeatherConditions(entry.weather),
+  }
+
+  return context.occasion || context.dress_code || context.setting || context.note || context.weather
+    ? context
+    : null
+}
+
+const optionLabel = (id: string | null, options: ContextOption[]): string | null =>
+  id ? options.find(option => option.id === id)?.label ?? null : null
+
+export const occasionLabel = (occasion: string | null): string | null => optionLabel(occasion, OCCASIONS)
+
+/**
+ * Short summary for chips and history rows, e.g.
+ * "Wedding Guest · Cocktail · Outdoors · 18°C"
+ */
+export const outfitContextLabel = (context: OutfitContext | null): string =>
+  context
+    ? [
+      occasionLabel(context.occasion),
+      optionLabel(context.dress_code, DRESS_CODES),
+      optionLabel(context.setting, OUTFIT_SETTINGS),
+      describeWeather(context.weather),
+    ].filter((label): label is string => !!label).join(' · ')
+    : ''
+
+/**
+ * Context as prompt lines, e.g. "Occasion: Interview\nDress code: Business".
+ * Weather is left out; the analysis describes whatever its weather provider returned.
+ */
+export const describeOutfitContext = (context: OutfitContext | null): string => {
+  const lines = context
+    ? [
+      ['Occasion', occasionLabel(context.occasion)],
+      ['Dress code', optionLabel(context.dress_code, DRESS_CODES)],
+      ['Setting', optionLabel(context.setting, OUTFIT_SETTINGS)],
+      ['Note from the user', context.note],
+    ]
+      .filter(([, value]) => !!value)
+      .map(([label, value]) => `${label}: ${value}`)
+    : []
+
+  return lines.length > 0 ? lines.join('\n') : 'not given - judge for everyday wear'
+}
+
+/**
+ * Formality (0-100) the context calls for: the dress code when given, else
+ * the occasion's usual formality. Null when the context says nothing about it.
+ */
+export const contextFormality = (context: OutfitContext | null): number | null => {
+  if (!context) return null
+
+  const dressCode = DRESS_CODES.find(option => option.id === context.dress_code)
+  if (dressCode?.formality !== undefined) return dressCode.formality
+
+  const occasion = OCCASIONS.find(option => option.id === context.occasion)
+  return occasion?.formality ?? null
+}
@@ -0,0 +1,199 @@
+import { assert, assertEquals } from '@std/assert'
+import {
+  colorFamily,
+  computePersonaAlignment,
+  computeStyleScore,
+  DEFAULT_STYLE_TAXONOMY,
+  describeImprovementArea,
+  patternFamily,
+  SCORE_WEIGHTS,
+  SCORING_VERSION,
+  scoreAgainstStyle,
+  ScoringGarment,
+  StyleTaxonomyRule,
+  toTaxonomyCategory
+} from './scoring.ts'
+import { PersonalStyle } from './styles.ts'
+
+const garment = (
+  category: string,
+  attributes: ScoringGarment['attributes'] = {},
+  confidence = 0.9
+): ScoringGarment => ({
+  item_id: category,
+  category,
+  attributes: { fit: 'well-fitted', pattern: 'solid', ...attributes },
+  confidence_scores: { fit: confidence, color: confidence },
+})
+
+const MINIMAL_OUTFIT = [
+  garment('t-shirt', { color: 'white', material: 'cotton' }),
+  garment('trousers', { color: 'black', material: 'wool' }),
+  garment('sneakers', { color: 'white', material: 'leather' }),
+]
+
+const personalStyle = (
+  name: string,
+  mapping: Record<string, number>,
+  overrides: Partial<PersonalStyle> = {}
+): PersonalStyle => ({
+  name,
+  mapping,
+  favored_colors: [],
+  favored_patterns: [],
+  disliked_items: [],
+  ...overrides,
+})
+
+const minimalist = DEFAULT_STYLE_TAXONOMY.find(rule => rule.name === 'minimalist') as StyleTaxonomyRule
+
+Deno.test('garment categories map onto the coarse taxonomy', () => {
+  assertEquals(toTaxonomyCategory('Blazer'), 'outer')
+  assertEquals(toTaxonomyCategory('jeans'), 'bottom')
+  assertEquals(toTaxonomyCategory('minidress'), 'dress')
+  assertEquals(toTaxonomyCategory('trainers'), 'shoes')
+  assertEquals(toTaxonomyCategory('Cropped denim jacket'), 'outer')
+  assertEquals(toTaxonomyCategory('spaceship'), 'other')
+})
+
+Deno.test('colors and patterns are classified by their first keyword', () => {
+  assertEquals(colorFamily('charcoal'), 'gray')
+  assertEquals(colorFamily('navy with red stripes'), 'navy')
+  assertEquals(colorFamily('light blue denim'), 'navy')
+  assertEquals(colorFamily('unknown'), null)
+  assertEquals(patternFamily('printed logo'), 'logo')
+  assertEquals(patternFamily('navy pinstripe'), 'subtle')
+  assertEquals(patternFamily('plaid'), 'bold')
+})
+
+Deno.test('component scores stay within their weights and add up to the total', () => {
+  const scores = scoreAgainstStyle(MINIMAL_OUTFIT, undefined, minimalist)
+
+  assert(scores.coverage <= SCORE_WEIGHTS.coverage)
+  assert(scores.attributes <= SCORE_WEIGHTS.attributes)
+  assert(scores.color <= SCORE_WEIGHTS.color)
+  assert(scores.confidence <= SCORE_WEIGHTS.confidence)
+  assertEquals(scores.coverage, SCORE_WEIGHTS.coverage)
+  assertEquals(scores.missing_categories, [])
+  assert(Math.abs(scores.coverage + scores.attributes + scores.color + scores.confidence - scores.total) <= 0.5)
+})
+
+Deno.test('missing required categories cost coverage and become improvement areas', () => {
+  const result = computeStyleScore([garment('t-shirt', { color: 'white' })], undefined, [minimalist])
+
+  assertEquals(result.breakdown.missing_categories, ['bottom'])
+  assertEquals(result.breakdown.coverage, SCORE_WEIGHTS.coverage / 2)
+  assert(result.improvement_areas.includes('missing_bottom'))
+  assertEquals(describeImprovementArea('missing_bottom'), 'Missing bottom')
+})
+
+Deno.test('a dress covers both top and bottom', () => {
+  const scores = scoreAgainstStyle([garment('dress', { color: 'black' })], undefined, minimalist)
+
+  assertEquals(scores.missing_categories, [])
+})
+
+Deno.test('the same detections always give the same score', () => {
+  const first = computeStyleScore(MINIMAL_OUTFIT, undefined, [])
+  const second = computeStyleScore(MINIMAL_OUTFIT, undefined, [])
+
+  assertEquals(first, second)
+  assertEquals(first.breakdown.version, SCORING_VERSION)
+  assertEquals(first.breakdown.weather, null)
+})
+
+Deno.test('without personal styles the best scoring taxonomy style is the target', () => {
+  const result = computeStyleScore(MINIMAL_OUTFIT, undefined, [])
+  const best = Math.max(...Object.values(result.breakdown.style_scores))
+
+  assertEquals(result.breakdown.style_scores[result.breakdown.style], best)
+  assertEquals(result.overall_score, best)
+  assertEquals(result.breakdown.personal_style, null)
+})
+
+Deno.test('personal styles pick the target style and name the persona', () => {
+  const styles = [personalStyle('Weekend', { streetwear: 1 })]
+
+  const result = computeStyleScore(MINIMAL_OUTFIT, undefined, [], styles)
+
+  assertEquals(result.breakdown.style, 'streetwear')
+  assertEquals(result.breakdown.personal_style, 'Weekend')
+})
+
+Deno.test('poor fit and disliked items are flagged', () => {
+  const outfit = [
+    garment('t-shirt', { color: 'white', fit: 'too tight' }),
+    garment('jeans', { color: 'navy', fit: 'baggy and sagging' }),
+    garment('sneakers', { color: 'white', fit: 'poorly fitted' }),
+  ]
+  const styles = [personalStyle('Work', { minimalist: 1 }, { disliked_items: ['jeans'] })]
+
+  const result = computeStyleScore(outfit, undefined, [], styles)
+
+  assert(result.fit_score < 60)
+  assert(result.improvement_areas.includes('fit_issues'))
+  assert(result.improvement_areas.includes('disliked_items'))
+})
+
+Deno.test('perceived formality is compared with the target style', () => {
+  const styles = [personalStyle('Work', { minimalist: 1 })]
+
+  const matching = computeStyleScore(MINIMAL_OUTFIT, { formality_level: { score: 55 } }, [], styles)
+  const tooCasual = computeStyleScore(MINIMAL_OUTFIT, { formality_level: { score: 0 } }, [], styles)
+
+  assertEquals(matching.occasion_score, 100)
+  assertEquals(tooCasual.occasion_score, 45)
+  assert(tooCasual.improvement_areas.includes('formality_mismatch'))
+})
+
+Deno.test('the occasion sets the expected formality', () => {
+  const assessment = { formality_level: { score: 20 } }
+
+  const casual = computeStyleScore(MINIMAL_OUTFIT, assessment, [], [], {
+    occasion: 'gym', dress_code: null, setting: null, note: null, weather: null,
+  })
+  const blackTie = computeStyleScore(MINIMAL_OUTFIT, assessment, [], [], {
+    occasion: null, dress_code: 'black_tie', setting: null, note: null, weather: null,
+  })
+
+  assert(casual.occasion_score > blackTie.occasion_score)
+  assert(blackTie.improvement_areas.includes('formality_mismatch'))
+  assert(!casual.improvement_areas.includes('formality_mismatch'))
+})
+
+Deno.test('competing patterns are flagged', () => {
+  const outfit = [
+    garment('shirt', { color: 'white', pattern: 'plaid' }),
+    garment('trousers', { color: 'navy', pattern: 'striped' }),
+    garment('blazer', { color: 'gray', pattern: 'houndstooth' }),
+  ]
+
+  const result = computeStyleScore(outfit, undefined, [])
+
+  assert(result.sub_scores.pattern_texture < 70)
+  assert(result.improvement_areas.includes('pattern_overload'))
+  assertEquals(describeImprovementArea('pattern_overload'), 'Too many competing patterns')
+})
+
+Deno.test('persona alignment weighs style totals by each mix, best first', () => {
+  const totals = { minimalist: 80, streetwear: 40 }
+  const styles = [
+    personalStyle('Weekend', { streetwear: 0.5, minimalist: 0.5 }),
+    personalStyle('Work', { minimalist: 1 }),
+    personalStyle('Unknown', { techwear: 1 }),
+  ]
+
+  assertEquals(computePersonaAlignment(MINIMAL_OUTFIT, totals, styles), [
+    { name: 'Work', score: 0.8 },
+    { name: 'Weekend', score: 0.6 },
+    { name: 'Unknown', score: 0 },
+  ])
+})
+
+Deno.test('a disliked item lowers alignment with that persona', () => {
+  const styles = [personalStyle('Work', { minimalist: 1 }, { disliked_items: ['sneakers'] })]
+
+  assertEquals(computePersonaAlignment(MINIMAL_OUTFIT, { minimalist: 80 }, styles), [
+    { name: 'Work', score: 0.64 },
+  ])
+})
@@ -0,0 +1,852 @@
+/**
+ * Deterministic Style Scoring Module
+ *
+ * Computes outfit scores from perception data (garment detections and the
+ * outfit assessment) against the style_taxonomy rules, personalized by the
+ * user's personal styles and the occasion they gave. The vision model only
+ * describes what it sees; every number shown to the user comes from here.
+ *
+ * Score (0-100) = category coverage (40) + attribute match (30)
+ *               + color harmony (20) + detection confidence (10)
+ *
+ * When the weather is known, an outfit that doesn't suit it loses up to
+ * WEATHER_FACTOR_WEIGHT of that score.
+ *
+ * Its only imports are the shared taxonomy, styles, occasion and weather, so
+ * it can be shared by the Deno edge functions and the React Native app (via
+ * src/utils/styleScoring.ts).
+ */
+
+import { categoryKeywords, normalizeCategory, normalizeGarmentType } from './taxonomy.ts'
+import { combinedStyleMix, normalizeStyleId, PersonalStyle } from './styles.ts'
+import { contextFormality, OutfitContext } from './occasion.ts'
+import { describeWeather, scoreWeather, WEATHER_ADJUSTMENT_LABELS } from './weather/conditions.ts'
+import { WeatherConditions } from './weather/types.ts'
+
+export const SCORING_VERSION = '1.5.0'
+
+export const SCORE_WEIGHTS = {
+  coverage: 40,
+  attributes: 30,
+  color: 20,
+  confidence: 10,
+} as const
+
+// Share of the score an outfit that is entirely wrong for the weather loses
+export const WEATHER_FACTOR_WEIGHT = 0.15
+
+export interface StyleTaxonomyRule {
+  name: string;
+  required_categories: string[];
+  preferred_attributes: {
+    colors?: string[];
+    patterns?: string[];
+    materials?: string[];
+    fits?: string[];
+  };
+  attribute_weights: Record<string, number>;
+}
+
+export interface ScoringGarment {
+  item_id: string;
+  category: string;
+  attributes: {
+    fit?: string;
+    color?: string;
+    pattern?: string;
+    material?: string;
+    layer_order?: number;
+    [key: string]: unknown;
+  };
+  confidence_scores: Record<string, number>;
+}
+
+export interface ScoringAssessment {
+  proportions?: { top_length_ratio?: number };
+  layering?: { weight_order?: string[] };
+  color_analysis?: { palette?: string[]; outliers?: string[] };
+  formality_level?: { score?: number };
+}
+
+export interface SubScores {
+  proportion_silhouette: number;
+  fit_technical: number;
+  color_harmony: number;
+  pattern_texture: number;
+  layering_logic: number;
+  formality_occasion: number;
+  footwear_cohesion: number;
+}
+
+export interface StyleComponentScores {
+  coverage: number;
+  attributes: number;
+  color: number;
+  confidence: number;
+  total: number;
+  missing_categories: string[];
+}
+
+export interface ScoreBreakdown {
+  style: string;
+  // Personal style that weighs the target style most, when the user has any
+  personal_style: string | null;
+  coverage: number;
+  attributes: number;
+  color: number;
+  confidence: number;
+  missing_categories: string[];
+  style_scores: Record<string, number>;
+  // Missing before the weather factor existed; null when the weather was unknown
+  weather?: {
+    conditions: string;
+    score: number; // weather appropriateness, 0-100
+    penalty: number; // points taken off the total
+  } | null;
+  weights: typeof SCORE_WEIGHTS;
+  version: string;
+}
+
+// How well an outfit fits one of the user's personal styles, 0-1
+export interface PersonaAlignment {
+  name: string;
+  score: number;
+}
+
+export interface StyleScoreResult {
+  overall_score: number;
+  style_score: number;
+  fit_score: number;
+  color_score: number;
+  occasion_score: number;
+  sub_scores: SubScores;
+  breakdown: ScoreBreakdown;
+  improvement_areas: string[];
+  persona_alignment: PersonaAlignment[];
+}
+
+/**
+ * The twelve controlled styles, mirroring the rows seeded by
+ * database-schema-personal-styles.sql. Used when the style_taxonomy table
+ * cannot be read so scoring never depends on a database round trip.
+ */
+export const DEFAULT_STYLE_TAXONOMY: StyleTaxonomyRule[] = [
+  {
+    name: 'minimalist',
+    required_categories: ['top', 'bottom'],
+    preferred_attributes: { colors: ['neutral', 'white', 'black', 'gray'], patterns: ['solid'] },
+    attribute_weights: { fit: 0.4, color: 0.4, material: 0.2 },
+  },
+  {
+    name: 'streetwear',
+    required_categories: ['top', 'bottom', 'shoes'],
+    preferred_attributes: { colors: ['bold', 'black', 'white'], patterns: ['graphic', 'logo'] },
+    attribute_weights: { fit: 0.2, color: 0.4, material: 0.4 },
+  },
+  {
+    name: 'business_casual',
+    required_categories: ['top', 'bottom', 'shoes'],
+    preferred_attributes: { colors: ['neutral', 'navy', 'white'], patterns: ['solid', 'subtle'] },
+    attribute_weights: { fit: 0.5, color: 0.3, material: 0.2 },
+  },
+  {
+    name: 'formal',
+    required_categories: ['top', 'bottom', 'outer', 'shoes'],
+    preferred_attributes: { colors: ['elegant'], patterns: ['solid', 'subtle'], materials: ['wool', 'silk', 'satin'], fits: ['tailored'] },
+    attribute_weights: { fit: 0.5, color: 0.3, material: 0.2 },
+  },
+  {
+    name: 'athleisure',
+    required_categories: ['top', 'bottom', 'shoes'],
+    preferred_attributes: { colors: ['any'], patterns: ['solid', 'logo', 'graphic'], materials: ['nylon', 'polyester', 'fleece', 'jersey', 'spandex'] },
+    attribute_weights: { fit: 0.4, color: 0.2, material: 0.4 },
+  },
+  {
+    name: 'bohemian',
+    required_categories: ['top', 'bottom'],
+    preferred_attributes: { colors: ['beige', 'brown', 'white', 'rust', 'olive', 'mustard', 'sage'], patterns: ['bold', 'graphic'], materials: ['linen', 'cotton', 'suede', 'crochet'], fits: ['flowy', 'relaxed', 'loose'] },
+    attribute_weights: { fit: 0.3, color: 0.3, material: 0.4 },
+  },
+  {
+    name: 'preppy',
+    required_categories: ['top', 'bottom', 'shoes'],
+    preferred_attributes: { colors: ['navy', 'white', 'beige', 'red', 'green', 'pink'], patterns: ['solid', 'bold'], materials: ['cotton', 'wool', 'knit', 'oxford'], fits: ['fitted', 'tailored'] },
+    attribute_weights: { fit: 0.4, color: 0.3, material: 0.3 },
+  },
+  {
+    name: 'smart_casual',
+    required_categories: ['top', 'bottom', 'shoes'],
+    preferred_attributes: { colors: ['neutral', 'elegant'], patterns: ['solid', 'subtle'] },
+    attribute_weights: { fit: 0.4, color: 0.3, material: 0.3 },
+  },
+  {
+    name: 'vintage',
+    required_categories: ['top', 'bottom'],
+    preferred_attributes: { colors: ['mustard', 'rust', 'burgundy', 'olive', 'brown', 'beige'], patterns: ['bold', 'subtle'], materials: ['wool', 'denim', 'suede', 'corduroy'] },
+    attribute_weights: { fit: 0.3, color: 0.4, material: 0.3 },
+  },
+  {
+    name: 'y2k',
+    required_categories: ['top', 'bottom'],
+    preferred_attributes: { colors: ['pink', 'lavender', 'lilac', 'bold', 'gray'], patterns: ['graphic', 'logo'], materials: ['denim', 'satin', 'mesh'], fits: ['cropped', 'low-rise', 'baggy'] },
+    attribute_weights: { fit: 0.4, color: 0.4, material: 0.2 },
+  },
+  {
+    name: 'techwear',
+    required_categories: ['top', 'bottom', 'outer', 'shoes'],
+    preferred_attributes: { colors: ['black', 'gray', 'olive'], patterns: ['solid'], materials: ['nylon', 'gore-tex', 'polyester', 'synthetic', 'softshell'] },
+    attribute_weights: { fit: 0.3, color: 0.3, material: 0.4 },
+  },
+  {
+    name: 'glam',
+    required_categories: ['top', 'bottom', 'shoes'],
+    preferred_attributes: { colors: ['elegant', 'bold'], patterns: ['solid'], materials: ['satin', 'silk', 'sequin', 'velvet', 'leather'] },
+    attribute_weights: { fit: 0.4, color: 0.3, material: 0.3 },
+  },
+]
+
+// Expected formality (0-100) for each style, compared with the perceived formality level
+const STYLE_FORMALITY: Record<string, number> = {
+  athleisure: 20,
+  streetwear: 35,
+  techwear: 35,
+  y2k: 35,
+  bohemian: 45,
+  minimalist: 55,
+  vintage: 55,
+  smart_casual: 60,
+  preppy: 60,
+  business_casual: 65,
+  glam: 80,
+  formal: 90,
+}
+
+// Category ids, subcategories and synonyms from the shared taxonomy
+const CATEGORY_GROUPS: Record<string, string[]> = categoryKeywords()
+
+const CATEGORY_LABELS: Record<string, string> = {
+  top: 'top',
+  bottom: 'bottom',
+  dress: 'dress',
+  outer: 'outer layer',
+  shoes: 'shoes',
+  bag: 'bag',
+  accessory: 'accessory',
+}
+
+/**
+ * Map a detected garment category ("blazer", "jeans") to the coarse taxonomy
+ * category used by style_taxonomy.required_categories ("outer", "bottom").
+ */
+export const toTaxonomyCategory = (category: string): string => {
+  const normalized = normalizeCategory(category).category
+  if (normalized !== 'other') return normalized
+
+  // Compound words the taxonomy has no term for ("overshirt", "minidress")
+  const key = (category || '').toLowerCase().trim()
+  for (const [group, members] of Object.entries(CATEGORY_GROUPS)) {
+    if (members.some(member => key.includes(member))) return group
+  }
+  return 'other'
+}
+
+// Color wheel position (degrees) for chromatic colors
+const COLOR_HUES: Record<string, number> = {
+  red: 0, crimson: 350, burgundy: 345, maroon: 345, wine: 345, pink: 330, blush: 340,
+  magenta: 300, fuchsia: 310, purple: 280, violet: 270, lavender: 270, lilac: 275, plum: 290,
+  blue: 220, cobalt: 215, royal: 225, sky: 200, teal: 180, turquoise: 175, aqua: 180,
+  mint: 150, green: 120, emerald: 140, forest: 130, sage: 100, olive: 75, lime: 90,
+  yellow: 55, mustard: 45, gold: 45, orange: 30, rust: 20, coral: 15, peach: 25,
+}
+
+const NEUTRAL_COLORS: Record<string, string> = {
+  white: 'white', 'off-white': 'white', ivory: 'white', cream: 'white',
+  black: 'black', jet: 'black',
+  gray: 'gray', grey: 'gray', charcoal: 'gray', silver: 'gray', heather: 'gray',
+  navy: 'navy', denim: 'navy', indigo: 'navy',
+  beige: 'beige', tan: 'beige', khaki: 'beige', camel: 'beige', taupe: 'beige', stone: 'beige', sand: 'beige',
+  brown: 'brown', chocolate: 'brown', cognac: 'brown',
+}
+
+const MUTED_COLORS = ['burgundy', 'maroon', 'wine', 'plum', 'sage', 'olive', 'rust', 'mustard', 'blush', 'lavender']
+const ELEGANT_COLORS = ['black', 'navy', 'white', 'gray', 'burgundy', 'wine', 'emerald', 'plum', 'gold', 'ivory', 'charcoal', 'silver']
+
+interface ColorInfo {
+  name: string;
+  neutral: boolean;
+  hue?: number;
+  tags: string[];
+}
+
+const findKeyword = (value: string, keywords: string[]): string | undefined =>
+  keywords
+    .filter(keyword => new RegExp(`(^|[^a-z])${keyword}([^a-z]|$)`).test(value))
+    .sort((a, b) => value.indexOf(a) - value.indexOf(b))[0]
+
+const classifyColor = (raw?: string): ColorInfo | null => {
+  const value = (raw || '').toLowerCase()
+  if (!value || value === 'unknown') return null
+
+  const neutralMatch = findKeyword(value, Object.keys(NEUTRAL_COLORS))
+  const hueMatch = findKeyword(value, Object.keys(COLOR_HUES))
+
+  // The first color mentioned is the dominant one ("navy with red stripes"),
+  // except denim which reads as a neutral whatever its shade ("light blue denim")
+  const useNeutral = neutralMatch !== undefined &&
+    (hueMatch === undefined || neutralMatch === 'denim' || value.indexOf(neutralMatch) <= value.indexOf(hueMatch))
+
+  if (useNeutral) {
+    const name = NEUTRAL_COLORS[neutralMatch!]
+    const tags = ['neutral', name, neutralMatch!]
+    if (ELEGANT_COLORS.includes(name) || ELEGANT_COLORS.includes(neutralMatch!)) tags.push('elegant')
+    return { name, neutral: true, tags }
+  }
+
+  if (hueMatch !== undefined) {
+    const tags = [hueMatch]
+    if (!MUTED_COLORS.includes(hueMatch)) tags.push('bold')
+    if (ELEGANT_COLORS.includes(hueMatch)) tags.push('elegant')
+    return { name: hueMatch, neutral: false, hue: COLOR_HUES[hueMatch], tags }
+  }
+
+  return null
+}
+
+const PATTERN_KEYWORDS: Record<string, string[]> = {
+  solid: ['solid', 'plain', 'none', 'no pattern', 'block'],
+  subtle: ['pinstripe', 'herringbone', 'twill', 'textured', 'texture', 'tonal', 'heather', 'ribbed', 'micro', 'subtle', 'waffle', 'cable'],
+  logo: ['logo', 'monogram', 'branded'],
+  graphic: ['graphic', 'print', 'printed', 'camo', 'camouflage', 'tie-dye', 'abstract', 'animal', 'leopard', 'slogan'],
+  bold: ['stripe', 'striped', 'stripes', 'plaid', 'check', 'checked', 'floral', 'polka', 'paisley', 'tartan', 'gingham', 'houndstooth'],
+}
+
+const classifyPattern = (raw?: string): string => {
+  const value = (raw || '').toLowerCase()
+  if (!value || value === 'unknown') return 'unknown'
+
+  // Specific patterns win over generic ones ("printed logo" is a logo)
+  for (const tag of ['logo', 'subtle', 'graphic', 'bold', 'solid']) {
+    if (findKeyword(value, PATTERN_KEYWORDS[tag])) return tag
+  }
+  return 'unknown'
+}
+
+/**
+ * Normalized color name ("charcoal" -> "gray", "light blue denim" -> "navy"),
+ * or null when no known color is mentioned
+ */
+export const colorFamily = (raw?: string): string | null => classifyColor(raw)?.name ?? null
+
+/**
+ * Coarse pattern class: solid, subtle, logo, graphic, bold or unknown
+ */
+export const patternFamily = (raw?: string): string => classifyPattern(raw)
+
+const POOR_FIT = ['too', 'tight', 'baggy', 'sloppy', 'ill', 'poor', 'poorly', 'bunching', 'bunched', 'wrinkled', 'pulling', 'sagging', 'not']
+const GOOD_FIT = ['tailored', 'well', 'fitted', 'slim', 'good', 'great', 'excellent', 'perfect', 'proper', 'flattering', 'sharp', 'structured', 'clean', 'regular', 'true']
+const RELAXED_FIT = ['relaxed', 'oversized', 'loose', 'boxy', 'wide', 'cropped', 'straight']
+
+const fitMatch = (raw: string | undefined, rule?: StyleTaxonomyRule): number => {
+  const value = (raw || '').toLowerCase()
+  if (!value || value === 'unknown') return 0.6
+
+  if (rule?.preferred_attributes.fits?.some(fit => value.includes(fit.toLowerCase()))) return 1
+  if (findKeyword(value, POOR_FIT)) return 0.35
+  if (findKeyword(value, GOOD_FIT)) return 1
+  if (findKeyword(value, RELAXED_FIT)) return 0.75
+  return 0.7
+}
+
+const prefers = (preferred: string[] | undefined, tags: string[]): number | null => {
+  if (!preferred || preferred.length === 0) return null
+  const normalized = preferred.map(value => value.toLowerCase())
+  if (normalized.includes('any')) return 1
+  return tags.some(tag => normalized.includes(tag)) ? 1 : 0.3
+}
+
+const colorMatch = (raw: string | undefined, rule: StyleTaxonomyRule): number => {
+  const color = classifyColor(raw)
+  if (!color) return 0.5
+  return prefers(rule.preferred_attributes.colors, color.tags) ?? 0.7
+}
+
+const patternMatch = (raw: string | undefined, rule: StyleTaxonomyRule): number => {
+  const pattern = classifyPattern(raw)
+  if (pattern === 'unknown') return 0.6
+  return prefers(rule.preferred_attributes.patterns, [pattern]) ?? 0.7
+}
+
+const materialMatch = (raw: string | undefined, rule: StyleTaxonomyRule): number => {
+  const value = (raw || '').toLowerCase()
+  if (!value || value === 'unknown') return 0.5
+
+  const preferred = rule.preferred_attributes.materials
+  if (preferred && preferred.length > 0) {
+    return preferred.some(material => value.includes(material.toLowerCase())) ? 1 : 0.5
+  }
+  return 0.8
+}
+
+const clamp = (value: number, min = 0, max = 100) => Math.min(max, Math.max(min, value))
+const round1 = (value: number) => Math.round(value * 10) / 10
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length
+
+const garmentConfidence = (garment: ScoringGarment): number => {
+  const values = Object.values(garment.confidence_scores || {}).filter(value => typeof value === 'number')
+  return values.length > 0 ? average(values) : 0.5
+}
+
+/**
+ * Attribute dimensions scored for a style, normalized to sum to 1. Patterns
+ * get a default weight when the style lists preferred patterns but the
+ * taxonomy row has no explicit pattern weight.
+ */
+const attributeDimensions = (rule: StyleTaxonomyRule): Record<string, number> => {
+  const weights: Record<string, number> = {}
+  for (const [key, weight] of Object.entries(rule.attribute_weights || {})) {
+    if (typeof weight === 'number' && weight > 0) weights[key] = weight
+  }
+  if (rule.preferred_attributes.patterns?.length && weights.pattern === undefined) {
+    weights.pattern = 0.2
+  }
+  if (Object.keys(weights).length === 0) {
+    weights.fit = 1
+  }
+
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0)
+  return Object.fromEntries(Object.entries(weights).map(([key, weight]) => [key, weight / total]))
+}
+
+const attributeMatch = (garment: ScoringGarment, dimension: string, rule: StyleTaxonomyRule): number => {
+  const attributes = garment.attributes || {}
+  switch (dimension) {
+    case 'fit': return fitMatch(attributes.fit, rule)
+    case 'color': return colorMatch(attributes.color, rule)
+    case 'pattern': return patternMatch(attributes.pattern, rule)
+    case 'material': return materialMatch(attributes.material, rule)
+    default: return 0.6
+  }
+}
+
+/**
+ * Per-item attribute match weighted by the detector's confidence in each
+ * attribute, so low-confidence guesses move the score less.
+ */
+const garmentAttributeScore = (garment: ScoringGarment, rule: StyleTaxonomyRule): number => {
+  const dimensions = attributeDimensions(rule)
+  const fallbackConfidence = garmentConfidence(garment)
+
+  let weighted = 0
+  let totalWeight = 0
+  let unweighted = 0
+
+  for (const [dimension, weight] of Object.entries(dimensions)) {
+    const match = attributeMatch(garment, dimension, rule)
+    const confidence = garment.confidence_scores?.[dimension] ?? fallbackConfidence
+    weighted += weight * confidence * match
+    totalWeight += weight * confidence
+    unweighted += weight * match
+  }
+
+  return totalWeight > 0 ? weighted / totalWeight : unweighted
+}
+
+const hueDistance = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 360
+  return diff > 180 ? 360 - diff : diff
+}
+
+const hueHarmony = (a: number, b: number): number => {
+  const distance = hueDistance(a, b)
+  if (distance <= 30) return 1 // monochromatic / analogous
+  if (distance >= 150) return 0.9 // complementary
+  if (distance >= 110 && distance <= 130) return 0.8 // triadic
+  if (distance <= 60) return 0.75
+  return 0.55
+}
+
+/**
+ * Palette harmony (0-1) from simple color wheel rules. Neutrals go with
+ * everything; chromatic colors are compared pairwise.
+ */
+const paletteHarmony = (garments: ScoringGarment[], assessment?: ScoringAssessment): number => {
+  const colors = garments
+    .map(garment => classifyColor(garment.attributes?.color))
+    .filter((color): color is ColorInfo => color !== null)
+
+  if (colors.length === 0) return 0.6
+
+  const hues = colors.filter(color => !color.neutral).map(color => color.hue as number)
+  const pairs: number[] = []
+  for (let i = 0; i < hues.length; i++) {
+    for (let j = i + 1; j < hues.length; j++) {
+      pairs.push(hueHarmony(hues[i], hues[j]))
+    }
+  }
+
+  const outliers = assessment?.color_analysis?.outliers?.length || 0
+  const harmony = pairs.length > 0 ? average(pairs) : 1
+  return clamp(harmony - 0.1 * outliers, 0, 1)
+}
+
+const paletteFit = (garments: ScoringGarment[], rule: StyleTaxonomyRule): number => {
+  const matches = garments.map(garment => colorMatch(garment.attributes?.color, rule))
+  return matches.length > 0 ? average(matches) : 0.5
+}
+
+/**
+ * Score the outfit against a single taxonomy style.
+ */
+export const scoreAgainstStyle = (
+  garments: ScoringGarment[],
+  assessment: ScoringAssessment | undefined,
+  rule: StyleTaxonomyRule
+): StyleComponentScores => {
+  const present = new Set(garments.map(garment => toTaxonomyCategory(garment.category)))
+  if (present.has('dress')) {
+    present.add('top')
+    present.add('bottom')
+  }
+
+  const required = rule.required_categories || []
+  const missing = required.filter(category => !present.has(category))
+  const coverageRatio = required.length > 0 ? (required.length - missing.length) / required.length : 1
+
+  const attributeRatio = garments.length > 0
+    ? average(garments.map(garment => garmentAttributeScore(garment, rule)))
+    : 0
+
+  const colorRatio = 0.6 * paletteHarmony(garments, assessment) + 0.4 * paletteFit(garments, rule)
+
+  const confidenceRatio = garments.length > 0 ? average(garments.map(garmentConfidence)) : 0
+
+  const coverage = SCORE_WEIGHTS.coverage * coverageRatio
+  const attributes = SCORE_WEIGHTS.attributes * attributeRatio
+  const color = SCORE_WEIGHTS.color * colorRatio
+  const confidence = SCORE_WEIGHTS.confidence * confidenceRatio
+
+  return {
+    coverage: round1(coverage),
+    attributes: round1(attributes),
+    color: round1(color),
+    confidence: round1(confidence),
+    total: Math.round(clamp(coverage + attributes + color + confidence)),
+    missing_categories: missing,
+  }
+}
+
+const proportionScore = (assessment?: ScoringAssessment): number => {
+  const ratio = assessment?.proportions?.top_length_ratio
+  if (typeof ratio !== 'number' || isNaN(ratio)) return 70
+
+  // Rule of thirds: a top/bottom split near 1:2 or 2:1 reads as balanced
+  const distance = Math.min(Math.abs(ratio - 0.382), Math.abs(ratio - 0.618))
+  return Math.round(clamp(100 - distance * 150, 40, 100))
+}
+
+const patternTextureScore = (garments: ScoringGarment[]): number => {
+  const patterned = garments
+    .map(garment => classifyPattern(garment.attributes?.pattern))
+    .filter(pattern => pattern !== 'solid' && pattern !== 'unknown')
+  const materials = new Set(
+    garments
+      .map(garment => (garment.attributes?.material || '').toLowerCase())
+      .filter(material => material && material !== 'unknown')
+  )
+
+  let score: number
+  if (patterned.length === 0) score = 80
+  else if (patterned.length === 1) score = 90
+  else if (patterned.length === 2) score = 75
+  else score = Math.max(40, 75 - 15 * (patterned.length - 2))
+
+  if (materials.size >= 2) score += 5
+  return Math.round(clamp(score))
+}
+
+const layeringScore = (garments: ScoringGarment[], assessment?: ScoringAssessment): number => {
+  const order = assessment?.layering?.weight_order || []
+  const layers = order
+    .map(itemId => garments.find(garment => garment.item_id === itemId)?.attributes?.layer_order)
+    .filter((layer): layer is number => typeof layer === 'number')
+
+  if (layers.length < 2) return 80
+
+  let consistent = 0
+  for (let i = 1; i < layers.length; i++) {
+    if (layers[i] >= layers[i - 1]) consistent++
+  }
+  return Math.round(60 + 40 * (consistent / (layers.length - 1)))
+}
+
+// The occasion's formality wins over the style's when the user gave one
+const formalityScore = (
+  assessment: ScoringAssessment | undefined,
+  style: string,
+  context: OutfitContext | null
+): number => {
+  const formality = assessment?.formality_level?.score
+  if (typeof formality !== 'number' || isNaN(formality)) return 70
+
+  const target = contextFormality(context) ?? STYLE_FORMALITY[style] ?? 50
+  return Math.round(clamp(100 - Math.abs(formality - target)))
+}
+
+const footwearScore = (garments: ScoringGarment[]): number => {
+  const shoes = garments.filter(garment => toTaxonomyCategory(garment.category) === 'shoes')
+  if (shoes.length === 0) return 50
+
+  const others = garments
+    .filter(garment => toTaxonomyCategory(garment.category) !== 'shoes')
+    .map(garment => classifyColor(garment.attributes?.color))
+    .filter((color): color is ColorInfo => color !== null)
+
+  const cohesive = shoes.map(shoe => {
+    const color = classifyColor(shoe.attributes?.color)
+    if (!color) return 70
+    if (color.neutral) return 90
+    const echoed = others.some(other =>
+      other.name === color.name ||
+      (!other.neutral && hueDistance(other.hue as number, color.hue as number) <= 30)
+    )
+    return echoed ? 90 : 65
+  })
+
+  return Math.round(average(cohesive))
+}
+
+/**
+ * A taxonomy rule extended with the favored colors and patterns of the
+ * personal styles that map onto it
+ */
+const personalizeRule = (rule: StyleTaxonomyRule, personalStyles: PersonalStyle[]): StyleTaxonomyRule => {
+  const styleId = normalizeStyleId(rule.name) || rule.name
+  const mapped = personalStyles.filter(style => (style.mapping[styleId] || 0) > 0)
+  if (mapped.length === 0) return rule
+
+  const colors = mapped
+    .flatMap(style => style.favored_colors)
+    .map(color => classifyColor(color)?.name)
+    .filter((color): color is string => !!color)
+  const patterns = mapped
+    .flatMap(style => style.favored_patterns)
+    .map(pattern => classifyPattern(pattern))
+    .filter(pattern => pattern !== 'unknown')
+
+  const preferred = rule.preferred_attributes
+  return {
+    ...rule,
+    preferred_attributes: {
+      ...preferred,
+      colors: colors.length > 0 ? [...new Set([...(preferred.colors || []), ...colors])] : preferred.colors,
+      patterns: patterns.length > 0 ? [...new Set([...(preferred.patterns || []), ...patterns])] : preferred.patterns,
+    },
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Whether a garment matches one of the user's disliked items ("crop top",
+ * "logo", "leather")
+ */
+const isDisliked = (garment: ScoringGarment, dislikes: string[]): boolean => {
+  if (dislikes.length === 0) return false
+
+  const garmentType = normalizeGarmentType(garment.category)
+  const attributes = garment.attributes || {}
+  const described = [garment.category, attributes.color, attributes.pattern, attributes.material]
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.toLowerCase())
+
+  return dislikes.some(dislike =>
+    (garmentType !== null && normalizeGarmentType(dislike) === garmentType) ||
+    described.some(value => findKeyword(value, [escapeRegExp(dislike)]) !== undefined)
+  )
+}
+
+/**
+ * Pick the style to score against: the best-matching style in the user's
+ * personal style mix, or the best-matching taxonomy style when they have none.
+ */
+const selectTargetStyle = (
+  styleScores: Record<string, StyleComponentScores>,
+  styleMix: Record<string, number>
+): string => {
+  const candidates = Object.keys(styleScores).filter(style => (styleMix[normalizeStyleId(style) || style] || 0) > 0)
+  const pool = candidates.length > 0 ? candidates : Object.keys(styleScores)
+
+  return pool.reduce((best, style) =>
+    styleScores[style].total > styleScores[best].total ? style : best
+  )
+}
+
+// An outfit with a piece a personal style dislikes fits it this much less
+const DISLIKED_ALIGNMENT_FACTOR = 0.8
+
+/**
+ * Alignment of an outfit with each personal style, best first: the style
+ * totals weighted by the style's mix, lowered when the outfit includes one
+ * of its disliked items. Mix entries with no taxonomy rule are skipped.
+ *
+ * @param styleTotals - total score (0-100) per taxonomy style, as in ScoreBreakdown.style_scores
+ */
+export const computePersonaAlignment = (
+  garments: ScoringGarment[],
+  styleTotals: Record<string, number>,
+  personalStyles: PersonalStyle[]
+): PersonaAlignment[] => {
+  const totals: Record<string, number> = {}
+  for (const [name, total] of Object.entries(styleTotals)) {
+    totals[normalizeStyleId(name) || name] = total
+  }
+
+  return personalStyles
+    .map(personalStyle => {
+      const weighted = Object.entries(personalStyle.mapping).filter(([styleId]) => styleId in totals)
+      const weight = weighted.reduce((sum, [, share]) => sum + share, 0)
+      if (weight === 0) return { name: personalStyle.name, score: 0 }
+
+      const fit = weighted.reduce((sum, [styleId, share]) => sum + share * totals[styleId], 0) / weight / 100
+      const disliked = (garments || []).some(garment => isDisliked(garment, personalStyle.disliked_items))
+
+      return {
+        name: personalStyle.name,
+        score: Math.round(fit * (disliked ? DISLIKED_ALIGNMENT_FACTOR : 1) * 100) / 100,
+      }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Compute the full score for an outfit.
+ *
+ * @param garments - garment_detection from the vision model
+ * @param assessment - outfit_assessment from the vision model
+ * @param taxonomy - style_taxonomy rows (falls back to DEFAULT_STYLE_TAXONOMY when empty)
+ * @param personalStyles - user's personal styles (see normalizePersonalStyles), used
+ *   to pick the target style, to personalize its preferred colors and patterns
+ *   and for the per-style persona_alignment
+ * @param context - occasion, dress code and setting the outfit is for (see
+ *   normalizeOutfitContext); sets the expected formality
+ * @param weather - weather from the analysis' weather provider; adds the weather factor
+ */
+export const computeStyleScore = (
+  garments: ScoringGarment[],
+  assessment: ScoringAssessment | undefined,
+  taxonomy: StyleTaxonomyRule[],
+  personalStyles: PersonalStyle[] = [],
+  context: OutfitContext | null = null,
+  weather: WeatherConditions | null = null
+): StyleScoreResult => {
+  const rules = (taxonomy.length > 0 ? taxonomy : DEFAULT_STYLE_TAXONOMY)
+    .map(rule => personalizeRule(rule, personalStyles))
+  const items = garments || []
+  const styleMix = combinedStyleMix(personalStyles)
+
+  const styleScores: Record<string, StyleComponentScores> = {}
+  for (const rule of rules) {
+    styleScores[rule.name] = scoreAgainstStyle(items, assessment, rule)
+  }
+
+  const style = selectTargetStyle(styleScores, styleMix)
+  const target = styleScores[style]
+  const rule = rules.find(candidate => candidate.name === style)
+  const styleId = normalizeStyleId(style) || style
+  const personalStyle = personalStyles
+    .filter(candidate => (candidate.mapping[styleId] || 0) > 0)
+    .sort((a, b) => b.mapping[styleId] - a.mapping[styleId])[0]
+  const dislikes = [...new Set(personalStyles.flatMap(candidate => candidate.disliked_items))]
+
+  const wearables = items.filter(garment => !['accessory', 'bag'].includes(toTaxonomyCategory(garment.category)))
+  const fitRatio = wearables.length > 0
+    ? average(wearables.map(garment => fitMatch(garment.attributes?.fit, rule)))
+    : 0.6
+  const harmony = paletteHarmony(items, assessment)
+
+  const sub_scores: SubScores = {
+    proportion_silhouette: proportionScore(assessment),
+    fit_technical: Math.round(fitRatio * 100),
+    color_harmony: Math.round(harmony * 100),
+    pattern_texture: patternTextureScore(items),
+    layering_logic: layeringScore(items, assessment),
+    formality_occasion: formalityScore(assessment, style, context),
+    footwear_cohesion: footwearScore(items),
+  }
+
+  const improvement_areas: string[] = target.missing_categories.map(category => `missing_${category}`)
+  if (sub_scores.fit_technical < 60) improvement_areas.push('fit_issues')
+  if (harmony < 0.6) improvement_areas.push('color_clash')
+  if (rule && paletteFit(items, rule) < 0.5) improvement_areas.push('off_palette')
+  if (target.attributes < SCORE_WEIGHTS.attributes * 0.5) improvement_areas.push('style_attributes')
+  if (sub_scores.pattern_texture < 70) improvement_areas.push('pattern_overload')
+  if (sub_scores.layering_logic < 70) improvement_areas.push('layering_order')
+  if (sub_scores.proportion_silhouette < 65) improvement_areas.push('proportions')
+  if (sub_scores.formality_occasion < 60) improvement_areas.push('formality_mismatch')
+  if (sub_scores.footwear_cohesion < 70 && !target.missing_categories.includes('shoes')) {
+    improvement_areas.push('footwear')
+  }
+  if (items.some(garment => isDisliked(garment, dislikes))) improvement_areas.push('disliked_items')
+  if (target.confidence < SCORE_WEIGHTS.confidence * 0.5) improvement_areas.push('low_confidence')
+
+  const weatherFit = weather ? scoreWeather(items, weather) : null
+  const weatherPenalty = weatherFit
+    ? Math.round(target.total * WEATHER_FACTOR_WEIGHT * (1 - weatherFit.score / 100))
+    : 0
+  if (weatherFit) improvement_areas.push(...weatherFit.adjustments)
+
+  const style_scores = Object.fromEntries(Object.entries(styleScores).map(([name, scores]) => [name, scores.total]))
+
+  return {
+    overall_score: target.total - weatherPenalty,
+    style_score: Math.round(((target.coverage + target.attributes) / (SCORE_WEIGHTS.coverage + SCORE_WEIGHTS.attributes)) * 100),
+    fit_score: sub_scores.fit_technical,
+    color_score: Math.round((target.color / SCORE_WEIGHTS.color) * 100),
+    occasion_score: sub_scores.formality_occasion,
+    sub_scores,
+    breakdown: {
+      style,
+      personal_style: personalStyle?.name ?? null,
+      coverage: target.coverage,
+      attributes: target.attributes,
+      color: target.color,
+      confidence: target.confidence,
+      missing_categories: target.missing_categories,
+      style_scores,
+      weather: weather && weatherFit
+        ? { conditions: describeWeather(weather), score: weatherFit.score, penalty: weatherPenalty }
+        : null,
+      weights: SCORE_WEIGHTS,
+      version: SCORING_VERSION,
+    },
+    improvement_areas,
+    persona_alignment: computePersonaAlignment(items, style_scores, personalStyles),
+  }
+}
+
+const IMPROVEMENT_AREA_LABELS: Record<string, string> = {
+  fit_issues: 'Some pieces don\'t fit well',
+  color_clash: 'Colors are clashing',
+  off_palette: 'Colors are off-palette for this style',
+  style_attributes: 'Pieces don\'t match the style\'s details',
+  pattern_overload: 'Too many competing patterns',
+  layering_order: 'Layers are out of order',
+  proportions: 'Proportions feel unbalanced',
+  formality_mismatch: 'Formality doesn\'t match the style or occasion',
+  footwear: 'Shoes don\'t tie into the outfit',
+  disliked_items: 'Includes pieces you said you don\'t like',
+  low_confidence: 'Photo was hard to read',
+  ...WEATHER_ADJUSTMENT_LABELS,
+}
+
+/**
+ * Human-readable label for an improvement_areas code.
+ */
+export const describeImprovementArea = (code: string): string => {
+  if (code.startsWith('missing_')) {
+    const category = code.slice('missing_'.length)
+    return `Missing ${CATEGORY_LABELS[category] || category.replace(/_/g, ' ')}`
+  }
+  return IMPROVEMENT_AREA_LABELS[code] || code.replace(/_/g, ' ')
+}
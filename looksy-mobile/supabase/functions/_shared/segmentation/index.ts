@@ -0,0 +1,39 @@
+import { RembgSegmenter } from './rembg.ts'
+import { StubSegmenter } from './stub.ts'
+import { Segmenter } from './types.ts'
+
+export * from './types.ts'
+export { RembgSegmenter, StubSegmenter }
+
+export type SegmenterName = 'none' | 'rembg' | 'stub'
+
+const SEGMENTER_NAMES: SegmenterName[] = ['none', 'rembg', 'stub']
+
+/**
+ * Build the segmenter configured by BACKGROUND_SEGMENTER, or null when
+ * background removal is off (the default).
+ *
+ * rembg needs REMBG_URL pointing at a `rembg s` server; REMBG_MODEL picks
+ * the model (u2netp by default, small enough for CPU-only hosts).
+ */
+export const createSegmenter = (): Segmenter | null => {
+  const configured = (Deno.env.get('BACKGROUND_SEGMENTER') || 'none').toLowerCase()
+
+  if (!SEGMENTER_NAMES.includes(configured as SegmenterName)) {
+    throw new Error(`Unknown background segmenter "${configured}". Expected one of: ${SEGMENTER_NAMES.join(', ')}`)
+  }
+
+  if (configured === 'stub') {
+    return new StubSegmenter()
+  }
+
+  if (configured === 'rembg') {
+    const baseUrl = Deno.env.get('REMBG_URL')
+    if (!baseUrl) {
+      throw new Error('REMBG_URL not configured. Point it at a running `rembg s` server')
+    }
+    return new RembgSegmenter(baseUrl, Deno.env.get('REMBG_MODEL') || undefined)
+  }
+
+  return null
+}
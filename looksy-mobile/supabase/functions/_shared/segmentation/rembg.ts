@@ -0,0 +1,44 @@
+import { decode, Image } from '../images.ts'
+import { Segmenter } from './types.ts'
+
+/**
+ * Calls a self-hosted rembg server (`rembg s`), which runs U2-Net style
+ * models on the CPU with onnxruntime. Only the mask is requested so the
+ * compositing stays the same for every segmenter.
+ */
+export class RembgSegmenter implements Segmenter {
+  readonly name: string
+
+  constructor(private baseUrl: string, private model = 'u2netp') {
+    this.name = `rembg:${model}`
+  }
+
+  async segment(image: Image): Promise<Uint8Array> {
+    const form = new FormData()
+    form.append('file', new Blob([await image.encode()], { type: 'image/png' }), 'crop.png')
+
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, '')}/api/remove?model=${encodeURIComponent(this.model)}&om=true`,
+      { method: 'POST', body: form }
+    )
+
+    if (!response.ok) {
+      throw new Error(`rembg error: ${response.status} - ${await response.text()}`)
+    }
+
+    const maskImage = await decode(new Uint8Array(await response.arrayBuffer()))
+    if (!(maskImage instanceof Image)) {
+      throw new Error('rembg returned an unsupported mask format')
+    }
+    if (maskImage.width !== image.width || maskImage.height !== image.height) {
+      throw new Error(`rembg mask is ${maskImage.width}x${maskImage.height}, expected ${image.width}x${image.height}`)
+    }
+
+    // Greyscale mask: any channel carries the coverage
+    const mask = new Uint8Array(image.width * image.height)
+    for (let index = 0; index < mask.length; index++) {
+      mask[index] = maskImage.bitmap[index * 4]
+    }
+    return mask
+  }
+}
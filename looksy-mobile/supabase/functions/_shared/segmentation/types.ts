@@ -0,0 +1,11 @@
+import { Image } from '../images.ts'
+
+/**
+ * Separates a garment from its background. Returns a foreground mask with
+ * one byte per pixel (0 = background, 255 = garment), row-major, the same
+ * size as the input image.
+ */
+export interface Segmenter {
+  readonly name: string;
+  segment(image: Image): Promise<Uint8Array>;
+}
@@ -0,0 +1,127 @@
+import { assert, assertEquals } from '@std/assert'
+import {
+  applyStyleFeedback,
+  describeStyleMapping,
+  isStyleMappingLearned,
+  normalizePersonalStyle,
+  normalizePersonalStyles,
+  normalizeStyleId,
+  normalizeStyleMapping,
+  outfitStyleProfile,
+  PersonalStyle,
+  validatePersonalStyle
+} from './styles.ts'
+
+const EVEN_MIX = { minimalist: 0.5, streetwear: 0.5 }
+
+Deno.test('style names, labels and synonyms resolve to controlled style ids', () => {
+  assertEquals(normalizeStyleId('Business Casual'), 'business_casual')
+  assertEquals(normalizeStyleId('Glam / Party'), 'glam')
+  assertEquals(normalizeStyleId('boho'), 'bohemian')
+  assertEquals(normalizeStyleId('cottagecore'), null)
+  assertEquals(normalizeStyleId(''), null)
+})
+
+Deno.test('style mappings merge synonyms, drop unknowns and sum to 1', () => {
+  assertEquals(
+    normalizeStyleMapping({ casual: 30, 'Smart Casual': 20, Minimalist: '50', cottagecore: 10, glam: -1 }),
+    { smart_casual: 0.5, minimalist: 0.5 }
+  )
+  assertEquals(normalizeStyleMapping(['minimalist']), {})
+  assertEquals(normalizeStyleMapping({ glam: 0 }), {})
+})
+
+Deno.test('earlier one-style entries are repaired into personal styles', () => {
+  assertEquals(normalizePersonalStyle('business_casual'), {
+    name: 'Business Casual',
+    mapping: { business_casual: 1 },
+    favored_colors: [],
+    favored_patterns: [],
+    disliked_items: [],
+  })
+  assertEquals(normalizePersonalStyle({ name: 'Chic', mapping: { cottagecore: 1 } }), null)
+})
+
+Deno.test('favored terms are normalized and dislikes deduplicated', () => {
+  const style = normalizePersonalStyle({
+    name: 'Chic',
+    mapping: { glam: 1 },
+    favored_colors: 'grey, spaceship',
+    favored_patterns: ['pinstripe'],
+    disliked_items: ['Crocs', ' crocs ', ''],
+  })
+
+  assertEquals(style?.favored_colors, ['gray'])
+  assertEquals(style?.favored_patterns, ['striped'])
+  assertEquals(style?.disliked_items, ['crocs'])
+})
+
+Deno.test('stored personal styles keep the first of each name', () => {
+  const styles = normalizePersonalStyles(['minimalist', { name: 'Minimalist', mapping: { glam: 1 } }, 42])
+
+  assertEquals(styles.map(style => style.name), ['Minimalist'])
+  assertEquals(styles[0].mapping, { minimalist: 1 })
+  assertEquals(normalizePersonalStyles('minimalist'), [])
+})
+
+Deno.test('an outfit profile weights its best styles by their lead over the next', () => {
+  const profile = outfitStyleProfile({ minimalist: 90, streetwear: 80, glam: 70, formal: 60, cottagecore: 100 })
+
+  assertEquals(profile, { minimalist: 0.49, streetwear: 0.33, glam: 0.17 })
+})
+
+Deno.test('positive feedback moves the mix toward the outfit profile', () => {
+  assertEquals(
+    applyStyleFeedback(EVEN_MIX, { streetwear: 1 }, true, 0.2),
+    { streetwear: 0.6, minimalist: 0.4 }
+  )
+})
+
+Deno.test('negative feedback shifts weight onto the rest of the mix', () => {
+  assertEquals(
+    applyStyleFeedback(EVEN_MIX, { streetwear: 1 }, false, 0.2),
+    { minimalist: 0.56, streetwear: 0.44 }
+  )
+})
+
+Deno.test('a single-style mix has nowhere to shift and stays as it is', () => {
+  assertEquals(applyStyleFeedback({ minimalist: 1 }, { minimalist: 1 }, false, 0.2), { minimalist: 1 })
+})
+
+Deno.test('learned weights below the minimum drop out of the mix', () => {
+  assertEquals(applyStyleFeedback({ minimalist: 1 }, { glam: 0.5 }, true, 0.05), { minimalist: 1 })
+})
+
+Deno.test('an empty profile leaves the mix untouched', () => {
+  const mapping = { minimalist: 1 }
+
+  assertEquals(applyStyleFeedback(mapping, {}, true, 0.2), mapping)
+})
+
+Deno.test('a mix counts as learned once it moves away from the base mapping', () => {
+  const style = normalizePersonalStyle({ name: 'Weekend', mapping: EVEN_MIX, base_mapping: EVEN_MIX }) as PersonalStyle
+
+  assert(!isStyleMappingLearned(style))
+  assert(isStyleMappingLearned({ ...style, mapping: applyStyleFeedback(style.mapping, { streetwear: 1 }, true, 0.2) }))
+  assert(!isStyleMappingLearned({ ...style, base_mapping: undefined }))
+})
+
+Deno.test('mixes are described as percentages of style labels', () => {
+  assertEquals(
+    describeStyleMapping({ business_casual: 0.5, minimalist: 0.3, glam: 0.2 }),
+    '50% Business Casual, 30% Minimalist, 20% Glam / Party'
+  )
+})
+
+Deno.test('the style editor needs a unique name and weights totalling 100', () => {
+  assertEquals(validatePersonalStyle({ name: 'Chic', weights: { glam: 100 } }), {})
+  assertEquals(validatePersonalStyle({ name: ' work ', weights: { minimalist: 60, glam: 30 } }, ['Work']), {
+    name: 'You already have a style with this name',
+    weights: 'Weights add up to 90% - they need to total 100%',
+  })
+  assertEquals(validatePersonalStyle({ name: 'Chic', weights: { cottagecore: 100 } }).weights, 'Unknown style in the mix')
+  assertEquals(validatePersonalStyle({ name: '', weights: {} }), {
+    name: 'Give your style a name',
+    weights: 'Pick at least one style',
+  })
+})
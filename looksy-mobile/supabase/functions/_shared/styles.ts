@@ -0,0 +1,310 @@
+/**
+ * Controlled style taxonomy and user-defined personal styles
+ *
+ * The twelve controlled styles are fixed and each has a style_taxonomy
+ * scoring rule. Personal styles are named by the user ("Chic") and map onto a
+ * weighted mix of controlled styles, plus favored colors and patterns and
+ * items they never want suggested. They are stored in profiles.personal_styles
+ * and passed to the scoring engine as-is. Feedback on analyzed outfits nudges
+ * each mix; base_mapping keeps the mix the user chose so it can be restored.
+ *
+ * Its only import is the shared taxonomy, so it can be shared by the Deno
+ * edge functions and the React Native app (via src/utils/styles.ts).
+ */
+
+import { normalizeColor, normalizePattern } from './taxonomy.ts'
+
+export interface ControlledStyle {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export const CONTROLLED_STYLES: ControlledStyle[] = [
+  { id: 'minimalist', label: 'Minimalist', description: 'Clean lines, neutral palette' },
+  { id: 'streetwear', label: 'Streetwear', description: 'Urban, graphic, bold' },
+  { id: 'business_casual', label: 'Business Casual', description: 'Work & professional' },
+  { id: 'formal', label: 'Formalwear', description: 'Suits, gowns, black tie' },
+  { id: 'athleisure', label: 'Athleisure', description: 'Sporty pieces worn every day' },
+  { id: 'bohemian', label: 'Bohemian', description: 'Flowing, earthy, layered' },
+  { id: 'preppy', label: 'Preppy', description: 'Polished, collegiate classics' },
+  { id: 'smart_casual', label: 'Smart Casual', description: 'Relaxed but put together' },
+  { id: 'vintage', label: 'Retro / Vintage', description: 'Looks from past decades' },
+  { id: 'y2k', label: 'Y2K', description: 'Early-2000s, playful, cropped' },
+  { id: 'techwear', label: 'Techwear', description: 'Technical fabrics, utility cuts' },
+  { id: 'glam', label: 'Glam / Party', description: 'Statement pieces for nights out' },
+]
+
+export const CONTROLLED_STYLE_IDS: string[] = CONTROLLED_STYLES.map(style => style.id)
+
+// Earlier style ids and common names for the controlled styles
+const STYLE_SYNONYMS: Record<string, string> = {
+  casual: 'smart_casual', everyday: 'smart_casual', relaxed: 'smart_casual',
+  dressy: 'glam', party: 'glam', evening: 'glam',
+  athletic: 'athleisure', sporty: 'athleisure', sport: 'athleisure', activewear: 'athleisure',
+  formalwear: 'formal', black_tie: 'formal',
+  business: 'business_casual', office: 'business_casual', work: 'business_casual',
+  boho: 'bohemian', retro: 'vintage', street: 'streetwear', urban: 'streetwear',
+  minimal: 'minimalist', utility: 'techwear', glam_party: 'glam', retro_vintage: 'vintage',
+}
+
+// A user can keep a handful of personal styles; more stops being a profile
+export const MAX_PERSONAL_STYLES = 5
+
+export interface PersonalStyle {
+  name: string;
+  // Controlled style id -> weight, summing to 1
+  mapping: Record<string, number>;
+  // The mix as last set in the editor, before feedback adjusted it
+  base_mapping?: Record<string, number>;
+  favored_colors: string[];
+  favored_patterns: string[];
+  disliked_items: string[];
+}
+
+const toStyleKey = (raw: string): string =>
+  raw.toLowerCase().trim().replace(/\s*\/\s*/g, '_').replace(/[\s-]+/g, '_')
+
+/**
+ * Controlled style id for a style name ("Business Casual", "boho", "dressy"),
+ * or null when it is not one of the twelve
+ */
+export const normalizeStyleId = (raw: unknown): string | null => {
+  if (typeof raw !== 'string' || !raw.trim()) return null
+  const key = toStyleKey(raw)
+  if (CONTROLLED_STYLE_IDS.includes(key)) return key
+  if (STYLE_SYNONYMS[key]) return STYLE_SYNONYMS[key]
+
+  const byLabel = CONTROLLED_STYLES.find(style => toStyleKey(style.label) === key)
+  return byLabel ? byLabel.id : null
+}
+
+export const styleLabel = (styleId: string): string =>
+  CONTROLLED_STYLES.find(style => style.id === styleId)?.label || styleId.replace(/_/g, ' ')
+
+/**
+ * Scale a style mix so its weights sum to 1, merging synonyms and dropping
+ * unknown styles and non-positive weights. Percentages are accepted too.
+ */
+export const normalizeStyleMapping = (raw: unknown): Record<string, number> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {}
+
+  const merged: Record<string, number> = {}
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    const styleId = normalizeStyleId(name)
+    const weight = typeof value === 'string' ? parseFloat(value) : value
+    if (!styleId || typeof weight !== 'number' || isNaN(weight) || weight <= 0) continue
+    merged[styleId] = (merged[styleId] || 0) + weight
+  }
+
+  const total = Object.values(merged).reduce((sum, weight) => sum + weight, 0)
+  if (total <= 0) return {}
+
+  return Object.fromEntries(
+    Object.entries(merged)
+      .sort(([, a], [, b]) => b - a)
+      .map(([styleId, weight]) => [styleId, Math.round((weight / total) * 100) / 100])
+  )
+}
+
+const normalizeTermList = (raw: unknown, normalize: (value: unknown) => string | null): string[] => {
+  const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : []
+  const normalized = items
+    .map(normalize)
+    .filter((item): item is string => item !== null)
+  return [...new Set(normalized)]
+}
+
+const normalizeDislikes = (raw: unknown): string[] => {
+  const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : []
+  const normalized = items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.toLowerCase().trim())
+    .filter(item => item.length > 0)
+  return [...new Set(normalized)]
+}
+
+/**
+ * Repair a stored personal style. Accepts the earlier one-style entries
+ * ({name: 'casual', mapping: {casual: 1}}) and bare style names. Returns null
+ * when nothing maps onto the controlled styles.
+ */
+export const normalizePersonalStyle = (raw: unknown): PersonalStyle | null => {
+  const entry = typeof raw === 'string' ? { name: raw } : raw
+  if (!entry || typeof entry !== 'object') return null
+
+  const { name, mapping, base_mapping, favored_colors, favored_patterns, disliked_items } = entry as Record<string, unknown>
+  const rawName = typeof name === 'string' ? name.trim() : ''
+  const nameStyleId = normalizeStyleId(rawName)
+
+  let styleMapping = normalizeStyleMapping(mapping)
+  if (Object.keys(styleMapping).length === 0 && nameStyleId) {
+    styleMapping = { [nameStyleId]: 1 }
+  }
+  if (Object.keys(styleMapping).length === 0) return null
+
+  // Earlier entries were named after a style id ("business_casual")
+  const displayName = nameStyleId && toStyleKey(rawName) === rawName
+    ? styleLabel(nameStyleId)
+    : rawName || styleLabel(Object.keys(styleMapping)[0])
+
+  const baseMapping = normalizeStyleMapping(base_mapping)
+
+  return {
+    name: displayName,
+    mapping: styleMapping,
+    ...(Object.keys(baseMapping).length > 0 ? { base_mapping: baseMapping } : {}),
+    favored_colors: normalizeTermList(favored_colors, normalizeColor),
+    favored_patterns: normalizeTermList(favored_patterns, normalizePattern),
+    disliked_items: normalizeDislikes(disliked_items),
+  }
+}
+
+/**
+ * Repair profiles.personal_styles, dropping unusable entries and keeping
+ * the first of any two with the same name
+ */
+export const normalizePersonalStyles = (raw: unknown): PersonalStyle[] => {
+  if (!Array.isArray(raw)) return []
+
+  const styles: PersonalStyle[] = []
+  for (const entry of raw) {
+    const style = normalizePersonalStyle(entry)
+    if (!style) continue
+    if (styles.some(existing => existing.name.toLowerCase() === style.name.toLowerCase())) continue
+    styles.push(style)
+  }
+  return styles.slice(0, MAX_PERSONAL_STYLES)
+}
+
+/**
+ * Combined controlled-style mix across all personal styles, each personal
+ * style counting equally
+ */
+export const combinedStyleMix = (personalStyles: PersonalStyle[]): Record<string, number> => {
+  const totals: Record<string, number> = {}
+  for (const style of personalStyles) {
+    for (const [styleId, weight] of Object.entries(style.mapping)) {
+      totals[styleId] = (totals[styleId] || 0) + weight
+    }
+  }
+  return normalizeStyleMapping(totals)
+}
+
+export const sameStyleMapping = (a: Record<string, number>, b: Record<string, number>): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return [...keys].every(key => Math.abs((a[key] || 0) - (b[key] || 0)) < 0.005)
+}
+
+/**
+ * Whether feedback has moved a personal style away from the mix the user set
+ */
+export const isStyleMappingLearned = (style: PersonalStyle): boolean =>
+  !!style.base_mapping && !sameStyleMapping(style.mapping, style.base_mapping)
+
+export type StyleFeedbackKind = 'rating' | 'style' | 'recommendation'
+
+// How far one piece of feedback moves a mix: "this is / isn't my style" is
+// the strongest signal, thumbs on the result or a recommendation are weaker
+export const FEEDBACK_LEARNING_RATES: Record<StyleFeedbackKind, number> = {
+  rating: 0.05,
+  style: 0.15,
+  recommendation: 0.05,
+}
+
+// Learned weights below this drop out of the mix
+const MIN_LEARNED_WEIGHT = 0.05
+
+/**
+ * The outfit's own style mix from its per-style scores
+ * (score_breakdown.style_scores): the best-scoring styles, weighted by how
+ * far they score above the next one
+ */
+export const outfitStyleProfile = (styleScores: Record<string, number>, top = 3): Record<string, number> => {
+  const ranked = Object.entries(styleScores)
+    .map(([name, score]) => [normalizeStyleId(name), score] as const)
+    .filter((entry): entry is readonly [string, number] => entry[0] !== null && typeof entry[1] === 'number')
+    .sort(([, a], [, b]) => b - a)
+
+  const floor = ranked[top]?.[1] ?? 0
+  return normalizeStyleMapping(Object.fromEntries(
+    ranked.slice(0, top).map(([styleId, score]) => [styleId, score - floor + 1])
+  ))
+}
+
+/**
+ * Move a mix toward a style profile on positive feedback, or shift weight
+ * away from it onto the rest of the mix on negative feedback. A mix of a
+ * single style has nowhere to shift to and stays as it is.
+ */
+export const applyStyleFeedback = (
+  mapping: Record<string, number>,
+  profile: Record<string, number>,
+  positive: boolean,
+  rate: number
+): Record<string, number> => {
+  const strongest = Math.max(0, ...Object.values(profile))
+  if (strongest === 0) return mapping
+
+  const next: Record<string, number> = {}
+  for (const styleId of new Set([...Object.keys(mapping), ...Object.keys(profile)])) {
+    const weight = mapping[styleId] || 0
+    const signal = profile[styleId] || 0
+    next[styleId] = positive
+      ? (1 - rate) * weight + rate * signal
+      : weight * (1 - rate * signal / strongest)
+  }
+
+  const kept = Object.fromEntries(Object.entries(next).filter(([, weight]) => weight >= MIN_LEARNED_WEIGHT))
+  const learned = normalizeStyleMapping(Object.keys(kept).length > 0 ? kept : next)
+  return Object.keys(learned).length > 0 ? learned : mapping
+}
+
+/**
+ * "50% Business Casual, 30% Minimalist, 20% Glam / Party"
+ */
+export const describeStyleMapping = (mapping: Record<string, number>): string =>
+  Object.entries(mapping)
+    .map(([styleId, weight]) => `${Math.round(weight * 100)}% ${styleLabel(styleId)}`)
+    .join(', ')
+
+/**
+ * One-line summary of a personal style for model prompts and cache keys
+ */
+export const describePersonalStyle = (style: PersonalStyle): string => {
+  const parts = [`${style.name}: ${describeStyleMapping(style.mapping)}`]
+  if (style.favored_colors.length > 0) parts.push(`favors colors ${style.favored_colors.join(', ')}`)
+  if (style.favored_patterns.length > 0) parts.push(`favors patterns ${style.favored_patterns.join(', ')}`)
+  if (style.disliked_items.length > 0) parts.push(`dislikes ${style.disliked_items.join(', ')}`)
+  return parts.join('; ')
+}
+
+/**
+ * Form validation for the personal style editor. Weights are entered as
+ * whole percentages and must add up to 100. Returns field -> message.
+ */
+export const validatePersonalStyle = (
+  style: { name: string; weights: Record<string, number> },
+  existingNames: string[] = []
+): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  const name = style.name.trim()
+
+  if (!name) {
+    errors.name = 'Give your style a name'
+  } else if (existingNames.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+    errors.name = 'You already have a style with this name'
+  }
+
+  const weights = Object.entries(style.weights).filter(([, weight]) => weight > 0)
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0)
+  if (weights.length === 0) {
+    errors.weights = 'Pick at least one style'
+  } else if (weights.some(([styleId]) => !CONTROLLED_STYLE_IDS.includes(styleId))) {
+    errors.weights = 'Unknown style in the mix'
+  } else if (Math.round(total) !== 100) {
+    errors.weights = `Weights add up to ${Math.round(total)}% - they need to total 100%`
+  }
+
+  return errors
+}
@@ -0,0 +1,119 @@
+import { assert, assertEquals } from '@std/assert'
+import {
+  categoryInfo,
+  categoryKeywords,
+  colorFamilyOf,
+  colorHex,
+  normalizeCategory,
+  normalizeColor,
+  normalizeFormality,
+  normalizeGarmentType,
+  normalizeItemAttributes,
+  normalizeMaterial,
+  normalizePattern,
+  normalizeSeasons,
+  normalizeStyleTags,
+  validateClosetItemAttributes
+} from './taxonomy.ts'
+
+Deno.test('garment names map onto a category and subcategory', () => {
+  assertEquals(normalizeCategory('Cropped denim jacket'), { category: 'outer', subcategory: 'jacket' })
+  assertEquals(normalizeCategory('tee'), { category: 'top', subcategory: 't-shirt' })
+  assertEquals(normalizeCategory('Hoodies'), { category: 'top', subcategory: 'hoodie' })
+  assertEquals(normalizeCategory('outerwear'), { category: 'outer', subcategory: null })
+  assertEquals(normalizeCategory('spaceship'), { category: 'other', subcategory: null })
+})
+
+Deno.test('a subcategory is kept only when it belongs to the category', () => {
+  assertEquals(normalizeCategory('tops', 'polo'), { category: 'top', subcategory: 'polo' })
+  assertEquals(normalizeCategory('top', 'jeans'), { category: 'top', subcategory: null })
+  assertEquals(normalizeCategory(undefined, 'trainers'), { category: 'shoes', subcategory: 'sneakers' })
+})
+
+Deno.test('the finest garment type is kept for detections', () => {
+  assertEquals(normalizeGarmentType('graphic tee'), 't-shirt')
+  assertEquals(normalizeGarmentType('Outerwear'), 'outer')
+  assertEquals(normalizeGarmentType('unknown'), null)
+})
+
+Deno.test('colors, patterns and materials take the first term mentioned', () => {
+  assertEquals(normalizeColor('Navy with white stripes'), 'navy')
+  assertEquals(normalizeColor('sky blue shirt'), 'light blue')
+  assertEquals(normalizeColor('grey'), 'gray')
+  assertEquals(normalizeColor('unknown'), null)
+  assertEquals(normalizeColor(42), null)
+  assertEquals(normalizePattern('pinstripe'), 'striped')
+  assertEquals(normalizePattern('polka_dot'), 'polka dot')
+  assertEquals(normalizeMaterial('faux leather'), 'synthetic')
+  assertEquals(normalizeMaterial('Leather'), 'leather')
+})
+
+Deno.test('tag lists accept arrays or comma-separated text and drop unknowns', () => {
+  assertEquals(normalizeSeasons('Autumn, winter, autumn'), ['fall', 'winter'])
+  assertEquals(normalizeSeasons(['year round', 'summer', 'monsoon']), ['all-season', 'summer'])
+  assertEquals(normalizeSeasons(null), [])
+  assertEquals(normalizeStyleTags('boho, office'), ['bohemian', 'business'])
+})
+
+Deno.test('formality is rescaled from 0-1 and clamped to 1-100', () => {
+  assertEquals(normalizeFormality(0.7), 70)
+  assertEquals(normalizeFormality('45'), 45)
+  assertEquals(normalizeFormality(150), 100)
+  assertEquals(normalizeFormality(0), 1)
+  assertEquals(normalizeFormality('formal'), null)
+})
+
+Deno.test('item attributes are normalized and other fields pass through', () => {
+  const attributes = normalizeItemAttributes({
+    color: 'charcoal',
+    pattern: 'spaceship',
+    brand: 'Uniqlo',
+    fit: 'slim',
+    style_tags: 'boho, office',
+  })
+
+  assertEquals(attributes, {
+    color: 'gray',
+    pattern: null,
+    material: null,
+    brand: 'Uniqlo',
+    fit: 'slim',
+    style_tags: ['bohemian', 'business'],
+    season_tags: [],
+    formality_level: null,
+  })
+  assertEquals(normalizeItemAttributes(null).color, null)
+})
+
+Deno.test('colors resolve to a family and swatch', () => {
+  assertEquals(colorFamilyOf('wine'), 'red')
+  assertEquals(colorHex('navy blue'), '#1e3a8a')
+  assertEquals(colorHex('multicolored'), null)
+  assertEquals(categoryInfo('trainers').id, 'shoes')
+  assertEquals(categoryInfo('spaceship').id, 'other')
+})
+
+Deno.test('category keywords include synonyms under their parent category', () => {
+  const keywords = categoryKeywords()
+
+  assert(keywords.outer.includes('trench'))
+  assert(keywords.shoes.includes('trainers'))
+  assert(!('other' in keywords))
+})
+
+Deno.test('closet item validation reports each field outside the vocabulary', () => {
+  assertEquals(validateClosetItemAttributes({ category: 'Top', subcategory: 'Polo', color: 'navy' }), {})
+  assertEquals(validateClosetItemAttributes({}), { category: 'Choose a category' })
+  assertEquals(validateClosetItemAttributes({
+    category: 'top',
+    subcategory: 'jeans',
+    color: 'charcoal',
+    season_tags: ['winter', 'monsoon'],
+    formality_level: 120,
+  }), {
+    subcategory: '"jeans" is not a kind of top',
+    color: '"charcoal" is not a known color',
+    season_tags: 'Unknown season tags: monsoon',
+    formality_level: 'Formality must be between 1 and 100',
+  })
+})
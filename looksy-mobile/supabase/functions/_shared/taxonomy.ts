@@ -0,0 +1,407 @@
+/**
+ * Closet Taxonomy
+ *
+ * The controlled vocabulary for garment categories and attributes. The
+ * extraction and analysis prompts list these values, both edge functions
+ * normalize the model's free text onto them through the synonym maps below,
+ * and the app (via src/utils/taxonomy.ts) builds every category picker and
+ * filter from the same lists.
+ *
+ * closet_items.category holds a coarse category id and subcategory the fine
+ * garment type; garment_detection and extracted_clothing_items keep the
+ * finest type known. Rows record the TAXONOMY_VERSION they were normalized
+ * with, so bump it whenever a value is renamed or removed (adding values or
+ * synonyms does not need a bump).
+ */
+
+export const TAXONOMY_VERSION = 1
+
+export interface TaxonomyCategory {
+  id: string;
+  label: string;
+  icon: string;
+  subcategories: string[];
+}
+
+export interface TaxonomyColor {
+  id: string;
+  family: string;
+  hex: string | null; // null for multicolor
+}
+
+export const TAXONOMY_CATEGORIES: TaxonomyCategory[] = [
+  {
+    id: 'top', label: 'Tops', icon: '👔',
+    subcategories: ['shirt', 't-shirt', 'blouse', 'sweater', 'hoodie', 'polo', 'tank top', 'sweatshirt', 'turtleneck', 'camisole'],
+  },
+  {
+    id: 'bottom', label: 'Bottoms', icon: '👖',
+    subcategories: ['pants', 'jeans', 'shorts', 'skirt', 'trousers', 'chinos', 'leggings', 'joggers'],
+  },
+  {
+    id: 'dress', label: 'Dresses', icon: '👗',
+    subcategories: ['dress', 'jumpsuit', 'romper', 'gown'],
+  },
+  {
+    id: 'outer', label: 'Outerwear', icon: '🧥',
+    subcategories: ['jacket', 'coat', 'blazer', 'vest', 'cardigan', 'parka'],
+  },
+  {
+    id: 'shoes', label: 'Shoes', icon: '👟',
+    subcategories: ['sneakers', 'boots', 'sandals', 'heels', 'loafers', 'flats', 'oxfords'],
+  },
+  {
+    id: 'bag', label: 'Bags', icon: '👜',
+    subcategories: ['handbag', 'backpack', 'tote', 'clutch', 'crossbody'],
+  },
+  {
+    id: 'accessory', label: 'Accessories', icon: '🧢',
+    subcategories: ['hat', 'belt', 'scarf', 'jewelry', 'watch', 'sunglasses', 'tie', 'gloves'],
+  },
+  {
+    id: 'other', label: 'Other', icon: '📦',
+    subcategories: [],
+  },
+]
+
+// Coarse category id -> its subcategories
+export const CLOSET_CATEGORIES: Record<string, string[]> = Object.fromEntries(
+  TAXONOMY_CATEGORIES.map(category => [category.id, category.subcategories])
+)
+
+// Every garment type a prompt may answer with: coarse ids and subcategories
+export const GARMENT_TYPES: string[] = TAXONOMY_CATEGORIES.flatMap(category =>
+  [...category.subcategories, category.id]
+)
+
+export const TAXONOMY_COLORS: TaxonomyColor[] = [
+  { id: 'black', family: 'neutral', hex: '#111827' },
+  { id: 'white', family: 'neutral', hex: '#ffffff' },
+  { id: 'gray', family: 'neutral', hex: '#9ca3af' },
+  { id: 'cream', family: 'neutral', hex: '#f5f0e1' },
+  { id: 'beige', family: 'neutral', hex: '#d6c7a1' },
+  { id: 'khaki', family: 'brown', hex: '#bdb76b' },
+  { id: 'brown', family: 'brown', hex: '#78350f' },
+  { id: 'navy', family: 'blue', hex: '#1e3a8a' },
+  { id: 'blue', family: 'blue', hex: '#2563eb' },
+  { id: 'light blue', family: 'blue', hex: '#93c5fd' },
+  { id: 'teal', family: 'green', hex: '#0d9488' },
+  { id: 'green', family: 'green', hex: '#16a34a' },
+  { id: 'olive', family: 'green', hex: '#6b7c23' },
+  { id: 'red', family: 'red', hex: '#dc2626' },
+  { id: 'burgundy', family: 'red', hex: '#7f1d1d' },
+  { id: 'pink', family: 'pink', hex: '#f472b6' },
+  { id: 'purple', family: 'purple', hex: '#7c3aed' },
+  { id: 'orange', family: 'orange', hex: '#f97316' },
+  { id: 'yellow', family: 'yellow', hex: '#facc15' },
+  { id: 'gold', family: 'metallic', hex: '#d4a017' },
+  { id: 'silver', family: 'metallic', hex: '#c0c0c0' },
+  { id: 'multicolor', family: 'multi', hex: null },
+]
+
+export const CLOSET_COLORS = TAXONOMY_COLORS.map(color => color.id)
+
+export const CLOSET_PATTERNS = [
+  'solid', 'striped', 'plaid', 'checked', 'floral', 'polka dot', 'graphic',
+  'animal print', 'camo', 'paisley', 'houndstooth', 'tie-dye',
+]
+
+export const CLOSET_MATERIALS = [
+  'cotton', 'denim', 'wool', 'cashmere', 'linen', 'silk', 'polyester',
+  'leather', 'suede', 'knit', 'fleece', 'nylon', 'canvas', 'synthetic',
+]
+
+export const CLOSET_STYLE_TAGS = [
+  'casual', 'formal', 'business', 'sporty', 'streetwear', 'minimalist',
+  'vintage', 'bohemian', 'preppy', 'edgy', 'romantic', 'classic',
+]
+
+export const CLOSET_SEASONS = ['spring', 'summer', 'fall', 'winter', 'all-season']
+
+export const CLOSET_CONDITIONS = ['new', 'excellent', 'good', 'fair', 'worn']
+
+// formality_level is 1-100; pickers offer these steps
+export const FORMALITY_LEVELS = [
+  { value: 10, label: 'Very casual' },
+  { value: 30, label: 'Casual' },
+  { value: 50, label: 'Smart casual' },
+  { value: 70, label: 'Business' },
+  { value: 90, label: 'Formal' },
+]
+
+// Free text the models (and older rows) use, mapped to a canonical value
+const CATEGORY_SYNONYMS: Record<string, string> = {
+  tops: 'top', bottoms: 'bottom', dresses: 'dress', outerwear: 'outer', 'outer layer': 'outer',
+  footwear: 'shoes', shoe: 'shoes', bags: 'bag', accessories: 'accessory',
+  tee: 't-shirt', tshirt: 't-shirt', 't shirt': 't-shirt', 'graphic tee': 't-shirt',
+  'button-down': 'shirt', 'button-up': 'shirt', 'dress shirt': 'shirt', 'flannel shirt': 'shirt',
+  tank: 'tank top', jumper: 'sweater', pullover: 'sweater', cami: 'camisole',
+  crewneck: 'sweatshirt', 'crop top': 'top',
+  jean: 'jeans', slacks: 'trousers', sweatpants: 'joggers', trackpants: 'joggers', khakis: 'chinos',
+  overalls: 'jumpsuit', playsuit: 'romper', 'maxi dress': 'dress', sundress: 'dress',
+  overcoat: 'coat', trench: 'coat', 'trench coat': 'coat', peacoat: 'coat', puffer: 'jacket',
+  windbreaker: 'jacket', bomber: 'jacket', gilet: 'vest', waistcoat: 'vest',
+  trainers: 'sneakers', sneaker: 'sneakers', boot: 'boots', sandal: 'sandals', 'flip-flops': 'sandals',
+  pumps: 'heels', stilettos: 'heels', loafer: 'loafers', 'ballet flats': 'flats', brogues: 'oxfords',
+  purse: 'handbag', 'shoulder bag': 'handbag', 'messenger bag': 'crossbody', 'tote bag': 'tote',
+  cap: 'hat', beanie: 'hat', necklace: 'jewelry', bracelet: 'jewelry', earrings: 'jewelry',
+  ring: 'jewelry', jewellery: 'jewelry', glasses: 'sunglasses', necktie: 'tie', 'bow tie': 'tie',
+  mittens: 'gloves',
+}
+
+const COLOR_SYNONYMS: Record<string, string> = {
+  grey: 'gray', charcoal: 'gray', heather: 'gray', slate: 'gray',
+  ivory: 'cream', 'off-white': 'cream', 'off white': 'cream', ecru: 'cream',
+  tan: 'beige', camel: 'beige', sand: 'beige', taupe: 'beige', stone: 'beige', nude: 'beige',
+  chocolate: 'brown', cognac: 'brown', mocha: 'brown',
+  indigo: 'navy', 'navy blue': 'navy', cobalt: 'blue', 'royal blue': 'blue', denim: 'blue',
+  'sky blue': 'light blue', 'baby blue': 'light blue', 'powder blue': 'light blue',
+  turquoise: 'teal', aqua: 'teal',
+  emerald: 'green', forest: 'green', sage: 'green', mint: 'green', lime: 'green', 'army green': 'olive',
+  crimson: 'red', scarlet: 'red', maroon: 'burgundy', wine: 'burgundy', oxblood: 'burgundy',
+  blush: 'pink', fuchsia: 'pink', magenta: 'pink', rose: 'pink',
+  lavender: 'purple', lilac: 'purple', violet: 'purple', plum: 'purple',
+  coral: 'orange', rust: 'orange', peach: 'orange', mustard: 'yellow',
+  multi: 'multicolor', 'multi-color': 'multicolor', multicolored: 'multicolor', colorful: 'multicolor',
+}
+
+const PATTERN_SYNONYMS: Record<string, string> = {
+  plain: 'solid', none: 'solid', 'no pattern': 'solid',
+  stripe: 'striped', stripes: 'striped', pinstripe: 'striped', pinstriped: 'striped',
+  tartan: 'plaid', checkered: 'checked', gingham: 'checked', check: 'checked', checks: 'checked',
+  flowers: 'floral', 'flower print': 'floral', dots: 'polka dot', 'polka dots': 'polka dot', 'polka-dot': 'polka dot',
+  logo: 'graphic', print: 'graphic', printed: 'graphic', slogan: 'graphic',
+  leopard: 'animal print', zebra: 'animal print', snakeskin: 'animal print', animal: 'animal print',
+  camouflage: 'camo', 'tie dye': 'tie-dye',
+}
+
+const MATERIAL_SYNONYMS: Record<string, string> = {
+  'faux leather': 'synthetic', 'vegan leather': 'synthetic', pu: 'synthetic',
+  spandex: 'synthetic', elastane: 'synthetic', acrylic: 'synthetic', rayon: 'synthetic',
+  viscose: 'synthetic', mesh: 'synthetic', rubber: 'synthetic',
+  merino: 'wool', tweed: 'wool', corduroy: 'cotton', chambray: 'cotton', jersey: 'cotton',
+  twill: 'cotton', satin: 'silk', chiffon: 'silk', knitted: 'knit', knitwear: 'knit',
+  sherpa: 'fleece', nubuck: 'suede',
+}
+
+const STYLE_TAG_SYNONYMS: Record<string, string> = {
+  sport: 'sporty', athletic: 'sporty', athleisure: 'sporty', street: 'streetwear',
+  boho: 'bohemian', 'business casual': 'business', work: 'business', office: 'business',
+  professional: 'business', retro: 'vintage', minimal: 'minimalist', elegant: 'formal',
+  dressy: 'formal', everyday: 'casual', relaxed: 'casual', timeless: 'classic',
+}
+
+const SEASON_SYNONYMS: Record<string, string> = {
+  autumn: 'fall', 'all season': 'all-season', 'all seasons': 'all-season', 'all-seasons': 'all-season',
+  'year-round': 'all-season', 'year round': 'all-season', all: 'all-season',
+}
+
+const cleanKey = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().toLowerCase().replace(/_/g, ' ').replace(/\s+/g, ' ') : ''
+
+// Terms are letters, spaces and hyphens only, so they need no regex escaping
+const containsTerm = (value: string, term: string) =>
+  new RegExp(`(^|[^a-z])${term}([^a-z]|$)`).test(value)
+
+/**
+ * Map free text onto one of `values`: exact value, synonym, singular/plural
+ * form, then the first (or for garment nouns, last) term mentioned in a
+ * longer phrase such as "navy with white stripes" or "cropped denim jacket".
+ */
+const normalizeTerm = (
+  raw: unknown,
+  values: string[],
+  synonyms: Record<string, string>,
+  prefer: 'first' | 'last' = 'first'
+): string | null => {
+  const key = cleanKey(raw)
+  if (!key || key === 'unknown') return null
+
+  if (values.includes(key)) return key
+  if (synonyms[key]) return synonyms[key]
+  if (values.includes(`${key}s`)) return `${key}s`
+  if (key.endsWith('s') && values.includes(key.slice(0, -1))) return key.slice(0, -1)
+
+  const terms = [...values, ...Object.keys(synonyms)]
+    .filter(term => containsTerm(key, term))
+    .map(term => ({ term, start: key.indexOf(term), end: key.indexOf(term) + term.length }))
+  if (terms.length === 0) return null
+
+  // Longer terms win at the same position ("light blue" over "blue")
+  const best = terms.sort((a, b) => prefer === 'first'
+    ? a.start - b.start || b.term.length - a.term.length
+    : b.end - a.end || b.term.length - a.term.length
+  )[0].term
+  return values.includes(best) ? best : synonyms[best]
+}
+
+const normalizeList = (raw: unknown, values: string[], synonyms: Record<string, string>): string[] => {
+  const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : []
+  const normalized = items
+    .map(item => normalizeTerm(item, values, synonyms))
+    .filter((item): item is string => item !== null)
+  return [...new Set(normalized)]
+}
+
+const parentCategory = (garmentType: string): string =>
+  TAXONOMY_CATEGORIES.find(category =>
+    category.id === garmentType || category.subcategories.includes(garmentType)
+  )?.id || 'other'
+
+/**
+ * Coarse category and subcategory for free-text garment names ("Denim
+ * jacket" -> outer/jacket). Unrecognised garments fall under 'other'.
+ */
+export const normalizeCategory = (
+  raw: unknown,
+  rawSubcategory?: unknown
+): { category: string; subcategory: string | null } => {
+  const garmentType = normalizeTerm(raw, GARMENT_TYPES, CATEGORY_SYNONYMS, 'last')
+  const subcategoryType = normalizeTerm(rawSubcategory, GARMENT_TYPES, CATEGORY_SYNONYMS, 'last')
+  const category = parentCategory(garmentType || subcategoryType || 'other')
+
+  const subcategory = [subcategoryType, garmentType].find(type =>
+    type && CLOSET_CATEGORIES[category].includes(type)
+  ) || null
+
+  return { category, subcategory }
+}
+
+/**
+ * The finest known garment type ("tee" -> "t-shirt", "outerwear" -> "outer")
+ */
+export const normalizeGarmentType = (raw: unknown): string | null =>
+  normalizeTerm(raw, GARMENT_TYPES, CATEGORY_SYNONYMS, 'last')
+
+export const normalizeColor = (raw: unknown): string | null =>
+  normalizeTerm(raw, CLOSET_COLORS, COLOR_SYNONYMS)
+
+export const normalizePattern = (raw: unknown): string | null =>
+  normalizeTerm(raw, CLOSET_PATTERNS, PATTERN_SYNONYMS)
+
+export const normalizeMaterial = (raw: unknown): string | null =>
+  normalizeTerm(raw, CLOSET_MATERIALS, MATERIAL_SYNONYMS)
+
+export const normalizeStyleTags = (raw: unknown): string[] =>
+  normalizeList(raw, CLOSET_STYLE_TAGS, STYLE_TAG_SYNONYMS)
+
+export const normalizeSeasons = (raw: unknown): string[] =>
+  normalizeList(raw, CLOSET_SEASONS, SEASON_SYNONYMS)
+
+/**
+ * Formality on the 1-100 scale; 0-1 ratios are rescaled, other numbers clamped
+ */
+export const normalizeFormality = (raw: unknown): number | null => {
+  const value = typeof raw === 'string' ? parseFloat(raw) : raw
+  if (typeof value !== 'number' || isNaN(value)) return null
+  const scaled = value > 0 && value <= 1 ? value * 100 : value
+  return Math.min(100, Math.max(1, Math.round(scaled)))
+}
+
+export const colorFamilyOf = (color: unknown): string | null => {
+  const normalized = normalizeColor(color)
+  return TAXONOMY_COLORS.find(entry => entry.id === normalized)?.family ?? null
+}
+
+export const colorHex = (color: unknown): string | null => {
+  const normalized = normalizeColor(color)
+  return TAXONOMY_COLORS.find(entry => entry.id === normalized)?.hex ?? null
+}
+
+export const categoryInfo = (category: unknown): TaxonomyCategory =>
+  TAXONOMY_CATEGORIES.find(entry => entry.id === normalizeCategory(category).category) ||
+  TAXONOMY_CATEGORIES[TAXONOMY_CATEGORIES.length - 1]
+
+/**
+ * Normalize an attributes object from a vision model. Values that map onto
+ * nothing become null (lists drop them); fields outside the taxonomy such as
+ * brand or fit pass through untouched.
+ */
+export const normalizeItemAttributes = <T extends Record<string, any>>(attributes: T | null | undefined) => {
+  const raw: Record<string, any> = attributes || {}
+  return {
+    ...raw,
+    color: normalizeColor(raw.color),
+    pattern: normalizePattern(raw.pattern),
+    material: normalizeMaterial(raw.material),
+    style_tags: normalizeStyleTags(raw.style_tags),
+    season_tags: normalizeSeasons(raw.season_tags),
+    formality_level: normalizeFormality(raw.formality_level),
+  }
+}
+
+/**
+ * Keywords per coarse category for toTaxonomyCategory in scoring.ts
+ */
+export const categoryKeywords = (): Record<string, string[]> => {
+  const keywords: Record<string, string[]> = Object.fromEntries(
+    TAXONOMY_CATEGORIES
+      .filter(category => category.id !== 'other')
+      .map(category => [category.id, [category.id, ...category.subcategories]])
+  )
+  for (const [synonym, target] of Object.entries(CATEGORY_SYNONYMS)) {
+    const parent = parentCategory(target)
+    if (keywords[parent] && !keywords[parent].includes(synonym)) {
+      keywords[parent].push(synonym)
+    }
+  }
+  return keywords
+}
+
+export interface VocabularyClosetItem {
+  category?: string;
+  subcategory?: string;
+  color?: string;
+  pattern?: string;
+  material?: string;
+  style_tags?: string[];
+  season_tags?: string[];
+  condition?: string;
+  formality_level?: number;
+}
+
+const isBlank = (value?: string) => !value || value.trim() === ''
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+/**
+ * Vocabulary errors keyed by field name; empty when the item is valid.
+ * Category is required, the other fields may be left out.
+ */
+export const validateClosetItemAttributes = (item: VocabularyClosetItem): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  const checkOne = (field: keyof VocabularyClosetItem, value: string | undefined, allowed: string[]) => {
+    if (!isBlank(value) && !allowed.includes(normalize(value as string))) {
+      errors[field] = `"${value}" is not a known ${field.replace('_', ' ')}`
+    }
+  }
+  const checkMany = (field: keyof VocabularyClosetItem, values: string[] | undefined, allowed: string[]) => {
+    const unknown = (values || []).filter(value => !allowed.includes(normalize(value)))
+    if (unknown.length > 0) {
+      errors[field] = `Unknown ${field.replace('_', ' ')}: ${unknown.join(', ')}`
+    }
+  }
+
+  if (isBlank(item.category)) {
+    errors.category = 'Choose a category'
+  } else if (!CLOSET_CATEGORIES[normalize(item.category as string)]) {
+    errors.category = `"${item.category}" is not a known category`
+  } else if (!isBlank(item.subcategory) &&
+    !CLOSET_CATEGORIES[normalize(item.category as string)].includes(normalize(item.subcategory as string))) {
+    errors.subcategory = `"${item.subcategory}" is not a kind of ${item.category}`
+  }
+
+  checkOne('color', item.color, CLOSET_COLORS)
+  checkOne('pattern', item.pattern, CLOSET_PATTERNS)
+  checkOne('material', item.material, CLOSET_MATERIALS)
+  checkOne('condition', item.condition, CLOSET_CONDITIONS)
+  checkMany('style_tags', item.style_tags, CLOSET_STYLE_TAGS)
+  checkMany('season_tags', item.season_tags, CLOSET_SEASONS)
+
+  if (item.formality_level !== undefined && item.formality_level !== null &&
+    (item.formality_level < 1 || item.formality_level > 100)) {
+    errors.formality_level = 'Formality must be between 1 and 100'
+  }
+
+  return errors
+}
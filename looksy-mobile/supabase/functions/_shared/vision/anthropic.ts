@@ -0,0 +1,58 @@
+import { VisionMessage, VisionProvider, VisionRequest, VisionResponse } from './types.ts'
+
+const toAnthropicContent = (content: VisionMessage['content']) =>
+  typeof content === 'string'
+    ? content
+    : content.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image', source: { type: 'url', url: part.url } })
+
+export class AnthropicVisionProvider implements VisionProvider {
+  readonly name = 'anthropic'
+
+  constructor(private apiKey: string, readonly model: string = 'claude-3-5-sonnet-latest') {}
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    // The Messages API takes the system prompt separately from the conversation
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => part.type === 'text' ? part.text : '').join('\n'))
+      .join('\n\n')
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: system || undefined,
+        messages: request.messages
+          .filter(message => message.role !== 'system')
+          .map(message => ({ role: message.role, content: toAnthropicContent(message.content) })),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error(`Anthropic API Error: ${response.status} - ${errorText}`)
+      throw new Error(`Anthropic API error: ${response.status} ${errorText}`)
+    }
+
+    const result = await response.json()
+    return {
+      text: result.content
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join(''),
+      provider: this.name,
+      model: this.model
+    }
+  }
+}
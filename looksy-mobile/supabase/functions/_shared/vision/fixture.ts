@@ -0,0 +1,95 @@
+import { sha256Hex } from '../hash.ts'
+import { VisionProvider, VisionRequest, VisionResponse } from './types.ts'
+
+/**
+ * Recorded reply on disk. `response` is stored as JSON for readability and
+ * replayed as its serialized text; `text` is replayed verbatim (useful for
+ * fixtures that exercise the schema repair path with malformed replies).
+ */
+interface VisionFixture {
+  model?: string;
+  text?: string;
+  response?: unknown;
+}
+
+const DEFAULT_FIXTURE_DIR = new URL('./fixtures/', import.meta.url)
+
+/**
+ * Deterministic offline provider. Replays recorded replies from
+ * fixtures/<fixtureSet>/<sha256 of image bytes>.json, falling back to
+ * fixtures/<fixtureSet>/default.json for images without a recording.
+ *
+ * When constructed with a `recordWith` provider, unknown images are sent to
+ * that provider and its reply is written to disk for later replays.
+ */
+export class FixtureVisionProvider implements VisionProvider {
+  readonly name = 'fixture'
+  readonly model: string
+
+  constructor(
+    private fixtureSet: string,
+    private fixtureDir: URL = DEFAULT_FIXTURE_DIR,
+    private recordWith?: VisionProvider
+  ) {
+    this.model = recordWith ? `fixture:${recordWith.model}` : 'fixture'
+  }
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const imageHash = await this.hashRequestImage(request)
+    const fixtureUrl = new URL(`${this.fixtureSet}/${imageHash}.json`, this.fixtureDir)
+
+    const recorded = await this.readFixture(fixtureUrl)
+    if (recorded) {
+      console.log(`📼 Replaying vision fixture ${this.fixtureSet}/${imageHash}.json`)
+      return this.toResponse(recorded)
+    }
+
+    if (this.recordWith) {
+      const response = await this.recordWith.complete(request)
+      await Deno.mkdir(new URL(`${this.fixtureSet}/`, this.fixtureDir), { recursive: true })
+      await Deno.writeTextFile(fixtureUrl, JSON.stringify({ model: response.model, text: response.text }, null, 2))
+      console.log(`📼 Recorded vision fixture ${this.fixtureSet}/${imageHash}.json`)
+      return { ...response, provider: this.name }
+    }
+
+    const fallback = await this.readFixture(new URL(`${this.fixtureSet}/default.json`, this.fixtureDir))
+    if (!fallback) {
+      throw new Error(`No vision fixture for image ${imageHash} and no default.json in fixtures/${this.fixtureSet}`)
+    }
+
+    console.log(`📼 No recording for image ${imageHash}, replaying ${this.fixtureSet}/default.json`)
+    return this.toResponse(fallback)
+  }
+
+  private async hashRequestImage(request: VisionRequest): Promise<string> {
+    for (const message of request.messages) {
+      if (typeof message.content === 'string') continue
+      const image = message.content.find(part => part.type === 'image')
+      if (image && image.type === 'image') {
+        const response = await fetch(image.url)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch image for fixture lookup: ${response.status}`)
+        }
+        return await sha256Hex(await response.arrayBuffer())
+      }
+    }
+    return 'no-image'
+  }
+
+  private async readFixture(url: URL): Promise<VisionFixture | null> {
+    try {
+      return JSON.parse(await Deno.readTextFile(url))
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null
+      throw error
+    }
+  }
+
+  private toResponse(fixture: VisionFixture): VisionResponse {
+    return {
+      text: fixture.text ?? JSON.stringify(fixture.response),
+      provider: this.name,
+      model: fixture.model || this.model
+    }
+  }
+}
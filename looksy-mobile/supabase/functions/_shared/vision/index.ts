@@ -0,0 +1,82 @@
+import { AnthropicVisionProvider } from './anthropic.ts'
+import { FixtureVisionProvider } from './fixture.ts'
+import { OpenAIVisionProvider } from './openai.ts'
+import { VisionProvider } from './types.ts'
+
+export * from './types.ts'
+export { AnthropicVisionProvider, FixtureVisionProvider, OpenAIVisionProvider }
+
+export type VisionProviderName = 'openai' | 'anthropic' | 'fixture'
+
+const PROVIDER_NAMES: VisionProviderName[] = ['openai', 'anthropic', 'fixture']
+
+const envPrefix = (functionName: string) => functionName.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+
+/**
+ * Resolve which provider a function should use.
+ *
+ * `<FUNCTION_NAME>_VISION_PROVIDER` (e.g. ANALYZE_OUTFIT_VISION_PROVIDER) wins
+ * over the project-wide VISION_PROVIDER; defaults to openai.
+ */
+export const resolveVisionProviderName = (functionName: string): VisionProviderName => {
+  const configured = (
+    Deno.env.get(`${envPrefix(functionName)}_VISION_PROVIDER`) ||
+    Deno.env.get('VISION_PROVIDER') ||
+    'openai'
+  ).toLowerCase()
+
+  if (!PROVIDER_NAMES.includes(configured as VisionProviderName)) {
+    throw new Error(`Unknown vision provider "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}`)
+  }
+  return configured as VisionProviderName
+}
+
+const createNetworkProvider = (name: 'openai' | 'anthropic', functionName: string): VisionProvider => {
+  const prefix = envPrefix(functionName)
+
+  if (name === 'anthropic') {
+    const apiKey = Deno.env.get('ANTHROPIC_API_KEY')
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY not configured. Please set it in Supabase Dashboard > Edge Functions > Secrets')
+    }
+    return new AnthropicVisionProvider(
+      apiKey,
+      Deno.env.get(`${prefix}_ANTHROPIC_MODEL`) || Deno.env.get('ANTHROPIC_MODEL') || undefined
+    )
+  }
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY not configured. Please set it in Supabase Dashboard > Edge Functions > Secrets')
+  }
+  return new OpenAIVisionProvider(
+    apiKey,
+    Deno.env.get(`${prefix}_OPENAI_MODEL`) || Deno.env.get('OPENAI_MODEL') || undefined
+  )
+}
+
+/**
+ * Build the vision provider configured for an edge function.
+ *
+ * The fixture provider needs no network or API keys. Set
+ * VISION_FIXTURE_RECORD=openai|anthropic to record replies from a real
+ * provider for images that have no fixture yet.
+ */
+export const createVisionProvider = (functionName: string): VisionProvider => {
+  const name = resolveVisionProviderName(functionName)
+
+  if (name === 'fixture') {
+    const recordWith = Deno.env.get('VISION_FIXTURE_RECORD')?.toLowerCase()
+    const fixtureDir = Deno.env.get('VISION_FIXTURE_DIR')
+
+    return new FixtureVisionProvider(
+      functionName,
+      fixtureDir ? new URL(fixtureDir.endsWith('/') ? fixtureDir : `${fixtureDir}/`, `file://${Deno.cwd()}/`) : undefined,
+      recordWith === 'openai' || recordWith === 'anthropic'
+        ? createNetworkProvider(recordWith, functionName)
+        : undefined
+    )
+  }
+
+  return createNetworkProvider(name, functionName)
+}
@@ -0,0 +1,45 @@
+import { VisionMessage, VisionProvider, VisionRequest, VisionResponse } from './types.ts'
+
+const toOpenAIMessage = (message: VisionMessage) => ({
+  role: message.role,
+  content: typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: part.url } })
+})
+
+export class OpenAIVisionProvider implements VisionProvider {
+  readonly name = 'openai'
+
+  constructor(private apiKey: string, readonly model: string = 'gpt-4o-mini') {}
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages.map(toOpenAIMessage),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error(`OpenAI API Error: ${response.status} - ${errorText}`)
+      throw new Error(`OpenAI API error: ${response.status} ${errorText}`)
+    }
+
+    const result = await response.json()
+    return {
+      text: result.choices[0].message.content,
+      provider: this.name,
+      model: this.model
+    }
+  }
+}
@@ -0,0 +1,30 @@
+export type VisionContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url: string }
+
+export interface VisionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | VisionContentPart[];
+}
+
+export interface VisionRequest {
+  messages: VisionMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface VisionResponse {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * A vision-capable chat model. Implementations translate the provider-neutral
+ * messages into their own API format and return the raw reply text.
+ */
+export interface VisionProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: VisionRequest): Promise<VisionResponse>;
+}
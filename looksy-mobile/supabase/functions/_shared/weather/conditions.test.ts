@@ -0,0 +1,127 @@
+import { assertEquals } from '@std/assert'
+import {
+  describeWeather,
+  describeWeatherAdjustment,
+  normalizeWeatherConditions,
+  pickWeatherClosetItems,
+  scoreWeather,
+  weatherSeason
+} from './conditions.ts'
+import { ManualWeatherProvider } from './manual.ts'
+import { WeatherConditions } from './types.ts'
+
+const weather = (temperature_c: number, overrides: Partial<WeatherConditions> = {}): WeatherConditions => ({
+  temperature_c,
+  precipitation: 'none',
+  windy: false,
+  source: 'manual',
+  ...overrides,
+})
+
+const COLD_RAIN = weather(5, { precipitation: 'rain', windy: true })
+
+const SUMMER_OUTFIT = [
+  { category: 't-shirt', attributes: { material: 'cotton' } },
+  { category: 'shorts', attributes: { material: 'denim' } },
+  { category: 'sandals', attributes: { material: 'leather' } },
+]
+
+Deno.test('weather is repaired from loosely typed input', () => {
+  assertEquals(
+    normalizeWeatherConditions({ temperature_c: '7.6', precipitation: 'hail', windy: 'yes' }),
+    weather(8)
+  )
+  assertEquals(normalizeWeatherConditions({ temperature_c: 80, source: 'app' }), weather(50, { source: 'app' }))
+  assertEquals(normalizeWeatherConditions({ temperature_c: 5 }, 'fixture')?.source, 'fixture')
+  assertEquals(normalizeWeatherConditions({ precipitation: 'rain' }), null)
+  assertEquals(normalizeWeatherConditions('sunny'), null)
+})
+
+Deno.test('weather is summarized for prompts and the results screen', () => {
+  assertEquals(describeWeather(COLD_RAIN), '5°C, rain, windy')
+  assertEquals(describeWeather(weather(18)), '18°C')
+  assertEquals(describeWeather(null), '')
+})
+
+Deno.test('the season follows the temperature, then the time of year', () => {
+  assertEquals(weatherSeason(weather(8)), 'winter')
+  assertEquals(weatherSeason(weather(24)), 'summer')
+  assertEquals(weatherSeason(weather(18), new Date('2026-03-15')), 'spring')
+  assertEquals(weatherSeason(weather(18), new Date('2026-10-15')), 'fall')
+})
+
+Deno.test('a summer outfit in cold rain collects every adjustment', () => {
+  assertEquals(scoreWeather(SUMMER_OUTFIT, COLD_RAIN), {
+    score: 10,
+    adjustments: ['weather_outer_layer', 'weather_rain', 'weather_footwear', 'weather_exposed'],
+  })
+})
+
+Deno.test('a coat covers cold and rain but not open shoes', () => {
+  const outfit = [{ category: 'trench coat' }, { category: 'jeans' }, { category: 'sandals' }]
+
+  assertEquals(scoreWeather(outfit, weather(9, { precipitation: 'rain' })), {
+    score: 85,
+    adjustments: ['weather_footwear'],
+  })
+})
+
+Deno.test('wind makes mild weather call for an outer layer', () => {
+  const outfit = [{ category: 't-shirt' }, { category: 'jeans' }]
+
+  assertEquals(scoreWeather(outfit, weather(14)), { score: 100, adjustments: [] })
+  assertEquals(scoreWeather(outfit, weather(14, { windy: true })), {
+    score: 75,
+    adjustments: ['weather_outer_layer'],
+  })
+})
+
+Deno.test('heavy layers and materials are too warm in the heat', () => {
+  assertEquals(scoreWeather([{ category: 'coat', attributes: { material: 'wool' } }], weather(31)), {
+    score: 75,
+    adjustments: ['weather_too_warm'],
+  })
+  assertEquals(scoreWeather([{ category: 'sweater', attributes: { material: 'merino' } }], weather(31)).adjustments, [
+    'weather_too_warm',
+  ])
+  assertEquals(scoreWeather(SUMMER_OUTFIT.slice(0, 2), weather(31)).score, 100)
+})
+
+Deno.test('closet suggestions prefer items tagged for the season, one per category', () => {
+  const closet = [
+    { id: 'linen-jacket', category: 'outer', subcategory: 'jacket', season_tags: ['summer'] },
+    { id: 'trench', category: 'outer', subcategory: 'coat', season_tags: [] },
+    { id: 'navy-coat', category: 'outer', subcategory: 'coat', season_tags: ['Winter', 'autumn'] },
+    { id: 'blazer', category: 'outer', subcategory: 'blazer', season_tags: ['winter'] },
+    { id: 'boots', category: 'shoes', subcategory: 'boots', season_tags: ['all-season'] },
+    { id: 'sandals', category: 'shoes', subcategory: 'sandals', season_tags: ['winter'] },
+  ]
+
+  const picks = pickWeatherClosetItems(
+    ['weather_outer_layer', 'weather_rain', 'weather_footwear', 'weather_exposed'],
+    closet,
+    'winter'
+  )
+
+  assertEquals(picks.map(({ adjustment, item }) => [adjustment, item.id]), [
+    ['weather_outer_layer', 'navy-coat'],
+    ['weather_footwear', 'boots'],
+  ])
+  assertEquals(pickWeatherClosetItems(['weather_rain'], closet.slice(0, 1), 'winter'), [])
+})
+
+Deno.test('adjustment codes have labels for tips', () => {
+  assertEquals(describeWeatherAdjustment('weather_rain'), 'Add a jacket or coat for the rain')
+  assertEquals(describeWeatherAdjustment('weather_hail'), 'weather hail')
+})
+
+Deno.test('the manual provider uses what the user entered, or nothing', async () => {
+  const provider = new ManualWeatherProvider()
+  const date = new Date('2026-10-19')
+
+  assertEquals(
+    await provider.getConditions({ manual: { temperature_c: 3, precipitation: 'snow' }, date }),
+    weather(3, { precipitation: 'snow' })
+  )
+  assertEquals(await provider.getConditions({ date }), null)
+})
@@ -0,0 +1,194 @@
+/**
+ * Weather appropriateness
+ *
+ * Normalizes weather from any provider, judges how well the detected
+ * garments suit it, and picks closet items - by category and season_tags -
+ * that would fix what doesn't. The scoring engine turns the judgement into a
+ * weather factor on the overall score.
+ *
+ * Its only imports are the shared taxonomy and weather types, so it can be
+ * shared by the Deno edge functions and the React Native app (via
+ * src/utils/weather.ts).
+ */
+
+import { normalizeCategory, normalizeMaterial, normalizeSeasons } from '../taxonomy.ts'
+import { Precipitation, WeatherConditions } from './types.ts'
+
+export const PRECIPITATION_TYPES: { id: Precipitation; label: string }[] = [
+  { id: 'none', label: 'Dry' },
+  { id: 'rain', label: 'Rain' },
+  { id: 'snow', label: 'Snow' },
+]
+
+// Feels this much colder when it is windy
+const WIND_CHILL_C = 3
+// At or below: wants a warm outer layer, and bare legs or shoulders are exposed
+const COLD_C = 12
+const EXPOSED_C = 10
+const FREEZING_C = 5
+// At or above: heavy layers and materials are too warm
+const HOT_C = 25
+
+// Outerwear that keeps out cold and rain, and materials too heavy for heat
+const WARM_OUTER_TYPES = ['jacket', 'coat', 'parka']
+const OPEN_SHOE_TYPES = ['sandals']
+const EXPOSED_TYPES = ['shorts', 'tank top', 'camisole']
+const HEAVY_MATERIALS = ['wool', 'cashmere', 'fleece', 'leather', 'suede']
+
+const ADJUSTMENT_PENALTIES: Record<string, number> = {
+  weather_outer_layer: 25,
+  weather_rain: 20,
+  weather_footwear: 15,
+  weather_exposed: 15,
+  weather_too_warm: 25,
+}
+
+export const WEATHER_ADJUSTMENT_LABELS: Record<string, string> = {
+  weather_outer_layer: 'Add an outer layer for the cold',
+  weather_rain: 'Add a jacket or coat for the rain',
+  weather_footwear: 'Swap open shoes for the weather',
+  weather_exposed: 'Too much skin for the cold',
+  weather_too_warm: 'Too warm for the weather',
+}
+
+/**
+ * Repair weather from the app, a provider or a stored outfit; null when the
+ * temperature is missing
+ */
+export const normalizeWeatherConditions = (raw: unknown, source = 'manual'): WeatherConditions | null => {
+  if (!raw || typeof raw !== 'object') return null
+  const entry = raw as Record<string, unknown>
+
+  const temperature = typeof entry.temperature_c === 'string' ? parseFloat(entry.temperature_c) : entry.temperature_c
+  if (typeof temperature !== 'number' || isNaN(temperature)) return null
+
+  const precipitation = PRECIPITATION_TYPES.find(type => type.id === entry.precipitation)?.id ?? 'none'
+
+  return {
+    temperature_c: Math.round(Math.min(50, Math.max(-40, temperature))),
+    precipitation,
+    windy: entry.windy === true,
+    source: typeof entry.source === 'string' && entry.source ? entry.source : source,
+  }
+}
+
+/**
+ * Short summary, e.g. "5°C, rain, windy"
+ */
+export const describeWeather = (weather: WeatherConditions | null): string =>
+  weather
+    ? [
+      `${weather.temperature_c}°C`,
+      weather.precipitation !== 'none' ? weather.precipitation : null,
+      weather.windy ? 'windy' : null,
+    ].filter(Boolean).join(', ')
+    : ''
+
+/**
+ * Closet season the weather calls for. Cold is winter and heat is summer;
+ * mild weather is spring in the first half of the year and fall in the second.
+ */
+export const weatherSeason = (weather: WeatherConditions, date: Date = new Date()): string => {
+  if (weather.temperature_c <= FREEZING_C + 3) return 'winter'
+  if (weather.temperature_c >= HOT_C - 1) return 'summer'
+  return date.getMonth() < 6 ? 'spring' : 'fall'
+}
+
+interface WeatherGarment {
+  category: string;
+  attributes?: { material?: string; [key: string]: any };
+}
+
+const garmentTypes = (garment: WeatherGarment) => {
+  const { category, subcategory } = normalizeCategory(garment.category)
+  return { category, type: subcategory || category }
+}
+
+/**
+ * How well the garments suit the weather (0-100) and the improvement area
+ * codes for what doesn't
+ */
+export const scoreWeather = (
+  garments: WeatherGarment[],
+  weather: WeatherConditions
+): { score: number; adjustments: string[] } => {
+  const feelsLike = weather.temperature_c - (weather.windy ? WIND_CHILL_C : 0)
+  const types = garments.map(garmentTypes)
+  const hasWarmOuter = types.some(({ type }) => WARM_OUTER_TYPES.includes(type))
+  const hasType = (candidates: string[]) => types.some(({ type }) => candidates.includes(type))
+  const hasHeavyMaterial = garments.some(garment =>
+    HEAVY_MATERIALS.includes(normalizeMaterial(garment.attributes?.material) || '')
+  )
+
+  const adjustments: string[] = []
+  if (feelsLike <= COLD_C && !hasWarmOuter) adjustments.push('weather_outer_layer')
+  if (weather.precipitation !== 'none' && !hasWarmOuter) adjustments.push('weather_rain')
+  if ((weather.precipitation !== 'none' || feelsLike <= FREEZING_C) && hasType(OPEN_SHOE_TYPES)) {
+    adjustments.push('weather_footwear')
+  }
+  if (feelsLike <= EXPOSED_C && hasType(EXPOSED_TYPES)) adjustments.push('weather_exposed')
+  if (weather.temperature_c >= HOT_C && (hasWarmOuter || hasHeavyMaterial)) adjustments.push('weather_too_warm')
+
+  // Freezing without a coat is worse than merely cold
+  const penalty = adjustments.reduce((sum, code) => sum + ADJUSTMENT_PENALTIES[code], 0) +
+    (feelsLike <= FREEZING_C && adjustments.includes('weather_outer_layer') ? 15 : 0)
+
+  return { score: Math.max(0, 100 - penalty), adjustments }
+}
+
+export const describeWeatherAdjustment = (code: string): string =>
+  WEATHER_ADJUSTMENT_LABELS[code] || code.replace(/_/g, ' ')
+
+export interface SeasonalClosetItem {
+  id: string;
+  category: string;
+  subcategory?: string | null;
+  color?: string | null;
+  season_tags?: string[] | null;
+}
+
+// What to look for in the closet for each adjustment
+const ADJUSTMENT_CLOSET_TYPES: Record<string, { category: string; types?: string[] }> = {
+  weather_outer_layer: { category: 'outer', types: WARM_OUTER_TYPES },
+  weather_rain: { category: 'outer', types: WARM_OUTER_TYPES },
+  weather_footwear: { category: 'shoes', types: ['boots', 'sneakers', 'loafers', 'oxfords', 'flats'] },
+  weather_exposed: { category: 'bottom', types: ['pants', 'jeans', 'trousers', 'chinos', 'leggings'] },
+  weather_too_warm: { category: 'top', types: ['t-shirt', 'tank top', 'polo', 'shirt', 'blouse'] },
+}
+
+/**
+ * Closet items that fix the weather adjustments, at most one per category
+ * (a coat covers both cold and rain). Items tagged for the season come
+ * first, then all-season or untagged ones; items tagged only for other
+ * seasons are never suggested.
+ */
+export const pickWeatherClosetItems = <T extends SeasonalClosetItem>(
+  adjustments: string[],
+  closetItems: T[],
+  season: string
+): { adjustment: string; item: T }[] => {
+  const seasonRank = (item: T): number => {
+    const seasons = normalizeSeasons(item.season_tags)
+    if (seasons.includes(season)) return 0
+    if (seasons.length === 0 || seasons.includes('all-season')) return 1
+    return -1
+  }
+
+  const coveredCategories = new Set<string>()
+  return adjustments.flatMap(adjustment => {
+    const wanted = ADJUSTMENT_CLOSET_TYPES[adjustment]
+    if (!wanted || coveredCategories.has(wanted.category)) return []
+
+    const item = closetItems
+      .filter(candidate => seasonRank(candidate) >= 0)
+      .filter(candidate => {
+        const { category, subcategory } = normalizeCategory(candidate.category, candidate.subcategory)
+        return category === wanted.category && (!wanted.types || !subcategory || wanted.types.includes(subcategory))
+      })
+      .sort((a, b) => seasonRank(a) - seasonRank(b))[0]
+
+    if (!item) return []
+    coveredCategories.add(wanted.category)
+    return [{ adjustment, item }]
+  })
+}
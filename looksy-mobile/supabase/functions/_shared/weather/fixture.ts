@@ -0,0 +1,35 @@
+import { normalizeWeatherConditions } from './conditions.ts'
+import { WeatherConditions, WeatherProvider, WeatherRequest } from './types.ts'
+
+const DEFAULT_FIXTURE_DIR = new URL('./fixtures/', import.meta.url)
+
+/**
+ * Deterministic offline provider for tests and local development. Always
+ * returns fixtures/<fixtureName>.json, ignoring the request, so an analysis
+ * can be replayed under fixed weather (e.g. "cold-rain" or "hot").
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture'
+
+  constructor(
+    private fixtureName: string = 'default',
+    private fixtureDir: URL = DEFAULT_FIXTURE_DIR
+  ) {}
+
+  async getConditions(_request: WeatherRequest): Promise<WeatherConditions | null> {
+    const fixtureUrl = new URL(`${this.fixtureName}.json`, this.fixtureDir)
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(await Deno.readTextFile(fixtureUrl))
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        throw new Error(`No weather fixture ${this.fixtureName}.json in ${this.fixtureDir.pathname}`)
+      }
+      throw error
+    }
+
+    console.log(`📼 Replaying weather fixture ${this.fixtureName}.json`)
+    return normalizeWeatherConditions(raw, this.name)
+  }
+}
@@ -0,0 +1,36 @@
+import { FixtureWeatherProvider } from './fixture.ts'
+import { ManualWeatherProvider } from './manual.ts'
+import { WeatherProvider } from './types.ts'
+
+export * from './types.ts'
+export * from './conditions.ts'
+export { FixtureWeatherProvider, ManualWeatherProvider }
+
+export type WeatherProviderName = 'manual' | 'fixture'
+
+const PROVIDER_NAMES: WeatherProviderName[] = ['manual', 'fixture']
+
+/**
+ * Build the weather provider configured by WEATHER_PROVIDER; defaults to
+ * manual, which uses whatever the user entered with the outfit.
+ *
+ * The fixture provider needs no network: WEATHER_FIXTURE picks the fixture
+ * (default.json by default) and WEATHER_FIXTURE_DIR overrides where they live.
+ */
+export const createWeatherProvider = (): WeatherProvider => {
+  const configured = (Deno.env.get('WEATHER_PROVIDER') || 'manual').toLowerCase()
+
+  if (!PROVIDER_NAMES.includes(configured as WeatherProviderName)) {
+    throw new Error(`Unknown weather provider "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}`)
+  }
+
+  if (configured === 'fixture') {
+    const fixtureDir = Deno.env.get('WEATHER_FIXTURE_DIR')
+    return new FixtureWeatherProvider(
+      Deno.env.get('WEATHER_FIXTURE') || undefined,
+      fixtureDir ? new URL(fixtureDir.endsWith('/') ? fixtureDir : `${fixtureDir}/`, `file://${Deno.cwd()}/`) : undefined
+    )
+  }
+
+  return new ManualWeatherProvider()
+}
@@ -0,0 +1,14 @@
+import { normalizeWeatherConditions } from './conditions.ts'
+import { WeatherConditions, WeatherProvider, WeatherRequest } from './types.ts'
+
+/**
+ * Weather the user typed in with the outfit context. Nothing entered means
+ * no weather.
+ */
+export class ManualWeatherProvider implements WeatherProvider {
+  readonly name = 'manual'
+
+  async getConditions(request: WeatherRequest): Promise<WeatherConditions | null> {
+    return normalizeWeatherConditions(request.manual, this.name)
+  }
+}
@@ -0,0 +1,26 @@
+export type Precipitation = 'none' | 'rain' | 'snow'
+
+/**
+ * Weather where and when an outfit is worn
+ */
+export interface WeatherConditions {
+  temperature_c: number;
+  precipitation: Precipitation;
+  windy: boolean;
+  source: string; // provider that supplied it
+}
+
+export interface WeatherRequest {
+  // Weather the user entered with the outfit context, if any (unnormalized)
+  manual?: unknown;
+  date: Date;
+}
+
+/**
+ * A source of weather for an analysis. Returns null when it has nothing for
+ * the request; analysis then carries on without a weather factor.
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  getConditions(request: WeatherRequest): Promise<WeatherConditions | null>;
+}
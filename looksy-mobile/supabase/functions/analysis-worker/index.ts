@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface AnalysisJob {
+  id: string;
+  outfit_id: string;
+  user_id: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  // Client-written; the photo path is always read from the outfit row instead
+  payload: {
+    personalStyles?: unknown[];
+    // Jobs queued before personal styles carry style ids instead
+    userStylePreferences?: string[];
+    // Occasion, dress code, setting and note from the upload screen
+    context?: unknown;
+  };
+}
+
+interface JobOutcome {
+  jobId: string;
+  outfitId: string;
+  attempt: number;
+  status: string;
+  error?: string;
+}
+
+/**
+ * Pull a readable error out of a failed functions.invoke call
+ */
+const describeInvokeError = async (error: any): Promise<string> => {
+  try {
+    const body = await error.context?.json?.()
+    if (body?.error) return body.error
+  } catch {
+    // Body was not JSON - fall through to the generic message
+  }
+  return error.message || 'Unknown analysis error'
+}
+
+/**
+ * Run one claimed job through analyze-outfit and record the outcome
+ */
+const runJob = async (supabaseClient: SupabaseClient, job: AnalysisJob): Promise<JobOutcome> => {
+  console.log(`▶️ Running analysis job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`)
+
+  let failure: string | null = null
+
+  try {
+    const { data: outfit, error: outfitError } = await supabaseClient
+      .from('outfits')
+      .select('original_image_path')
+      .eq('id', job.outfit_id)
+      .eq('user_id', job.user_id)
+      .maybeSingle()
+
+    if (outfitError) {
+      throw new Error(`Failed to load outfit: ${outfitError.message}`)
+    }
+    if (!outfit?.original_image_path) {
+      throw new Error('Outfit photo is no longer available')
+    }
+
+    const { data, error } = await supabaseClient.functions.invoke('analyze-outfit', {
+      body: {
+        outfitId: job.outfit_id,
+        imagePath: outfit.original_image_path,
+        userId: job.user_id,
+        personalStyles: job.payload.personalStyles,
+        userStylePreferences: job.payload.userStylePreferences || [],
+        context: job.payload.context,
+        jobId: job.id
+      }
+    })
+
+    if (error) {
+      failure = await describeInvokeError(error)
+    } else if (data?.cancelled) {
+      console.log(`🛑 Job ${job.id} was cancelled during processing`)
+      return { jobId: job.id, outfitId: job.outfit_id, attempt: job.attempts, status: 'cancelled' }
+    } else if (!data?.success) {
+      failure = data?.error || 'Analysis returned no result'
+    }
+  } catch (invokeError: any) {
+    failure = invokeError.message || 'Failed to invoke analyze-outfit'
+  }
+
+  if (failure) {
+    console.error(`❌ Analysis job ${job.id} failed:`, failure)
+
+    const { data: failedJob, error: failError } = await supabaseClient
+      .rpc('fail_analysis_job', { p_job_id: job.id, p_error: failure })
+
+    if (failError) {
+      console.error('Failed to record job failure:', failError)
+    }
+
+    return {
+      jobId: job.id,
+      outfitId: job.outfit_id,
+      attempt: job.attempts,
+      status: failedJob?.status || 'failed',
+      error: failure
+    }
+  }
+
+  const { data: completedJob, error: completeError } = await supabaseClient
+    .rpc('complete_analysis_job', { p_job_id: job.id })
+
+  if (completeError) {
+    console.error('Failed to mark job completed:', completeError)
+  }
+
+  console.log(`✅ Analysis job ${job.id} completed`)
+  return {
+    jobId: job.id,
+    outfitId: job.outfit_id,
+    attempt: job.attempts,
+    status: completedJob?.status || 'completed'
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+    const workerId = crypto.randomUUID()
+    const batchSize = parseInt(Deno.env.get('ANALYSIS_WORKER_BATCH_SIZE') || '3', 10)
+
+    // Return jobs abandoned by crashed or timed-out workers to the queue first
+    const { data: reaped, error: reapError } = await supabaseClient.rpc('reap_stale_analysis_jobs')
+    if (reapError) {
+      console.error('Failed to reap stale jobs:', reapError)
+    } else if (reaped > 0) {
+      console.log(`♻️ Reaped ${reaped} stale analysis jobs`)
+    }
+
+    const { data: jobs, error: claimError } = await supabaseClient
+      .rpc('claim_analysis_jobs', { p_worker_id: workerId, p_batch_size: batchSize })
+
+    if (claimError) {
+      throw new Error(`Failed to claim analysis jobs: ${claimError.message}`)
+    }
+
+    const claimed = (jobs || []) as AnalysisJob[]
+    console.log(`🧵 Worker ${workerId} claimed ${claimed.length} analysis jobs`)
+
+    const outcomes: JobOutcome[] = []
+    for (const job of claimed) {
+      outcomes.push(await runJob(supabaseClient, job))
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        workerId,
+        reaped: reaped || 0,
+        processed: outcomes
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error: any) {
+    console.error('Error in analysis-worker function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Analysis worker failed'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
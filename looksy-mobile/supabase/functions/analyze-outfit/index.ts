@@ -1,437 +1,676 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AnalysisRequest, ClinicalAnalysis, PerceptionAnalysis } from './types.ts'
+import { computeStyleScore, DEFAULT_STYLE_TAXONOMY, StyleTaxonomyRule } from '../_shared/scoring.ts'
+import { findClosetMatches } from '../_shared/closetMatching.ts'
+import { TAXONOMY_VERSION, normalizeColor, normalizeMaterial, normalizePattern } from '../_shared/taxonomy.ts'
+import { describePersonalStyle, normalizePersonalStyles, PersonalStyle } from '../_shared/styles.ts'
+import { describeOutfitContext, normalizeOutfitContext, OutfitContext } from '../_shared/occasion.ts'
+import {
+  createWeatherProvider,
+  describeWeather,
+  describeWeatherAdjustment,
+  pickWeatherClosetItems,
+  weatherSeason,
+  WeatherConditions,
+  WeatherProvider
+} from '../_shared/weather/index.ts'
+import { createVisionProvider, VisionMessage, VisionProvider } from '../_shared/vision/index.ts'
+import { hashStoredObject } from '../_shared/images.ts'
+import {
+  parseModelJson,
+  validatePerceptionAnalysis,
+  buildRepairPrompt,
+  buildFallbackAnalysis,
+  ValidationResult,
+  GARMENT_CATEGORIES,
+  STYLE_CATEGORIES,
+  COLOR_SCHEMES,
+  TUCK_STATUSES
+} from './schema.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface AnalysisRequest {
-  outfitId: string;
-  imagePath: string;
-  userId: string;
-  userStylePreferences: string[];
+const ANALYSIS_MAX_TOKENS = 2000
+const ANALYSIS_TEMPERATURE = 0.7
+// Bump whenever the prompt or expected output changes so cached results are not reused
+const ANALYSIS_PROMPT_VERSION = 'perception-5'
+// Closet candidates stored per detection, and the lowest score worth storing
+const MAX_CLOSET_CANDIDATES = 3
+const CLOSET_CANDIDATE_THRESHOLD = 0.5
+
+/**
+ * Parse and repair a model reply. Returns null when no JSON could be parsed.
+ */
+const validateModelOutput = (responseText: string): ValidationResult | null => {
+  const parsed = parseModelJson(responseText)
+  return parsed === null ? null : validatePerceptionAnalysis(parsed)
 }
 
-interface OutfitAnalysis {
-  overall_score: number;
-  style_category: string;
-  style_score: number;
-  fit_score: number;
-  color_score: number;
-  occasion_appropriateness: number;
-  detailed_feedback: {
-    strengths: string[];
-    improvements: string[];
-    style_alignment: string;
-  };
-  items_detected: {
-    category: string;
-    description: string;
-    fit_assessment: string;
-  }[];
+/**
+ * Record schema validation failures in audit_logs so we can track which
+ * fields the model gets wrong most often (see analysis_validation_field_stats)
+ */
+const recordValidationIssues = async (
+  supabaseClient: SupabaseClient,
+  outfitId: string,
+  attempt: number,
+  model: string,
+  validation: ValidationResult | null
+) => {
+  if (validation && validation.issues.length === 0) return
+
+  const { error } = await supabaseClient
+    .from('audit_logs')
+    .insert({
+      outfit_id: outfitId,
+      event_type: 'schema_validation',
+      details: {
+        attempt,
+        model,
+        parsed: !!validation,
+        error_count: validation?.errorCount ?? 1,
+        issues: validation?.issues ?? [{ path: '', code: 'unparseable', severity: 'error' }]
+      }
+    })
+
+  if (error) {
+    console.error('Failed to record validation issues:', error)
+    // Continue - this is monitoring data
+  }
 }
 
-interface ClinicalAnalysis extends OutfitAnalysis {
-  sub_scores: {
-    proportion_silhouette: number;
-    fit_technical: number;
-    color_harmony: number;
-    pattern_texture: number;
-    layering_logic: number;
-    formality_occasion: number;
-    footwear_cohesion: number;
-  };
-  garment_detection: {
-    item_id: string;
-    category: string;
-    attributes: {
-      fit: string;
-      color: string;
-      pattern: string;
-      material: string;
-      length?: string;
-      sleeve_length?: string;
-      neckline?: string;
-      waistline?: string;
-      hem_treatment?: string;
-      layer_order?: number;
-    };
-    confidence_scores: {
-      [key: string]: number;
-    };
-  }[];
-  outfit_assessment: {
-    proportions: {
-      top_length_ratio: number;
-      silhouette_shape: string;
-    };
-    layering: {
-      weight_order: string[];
-      hem_order: string[];
-    };
-    color_analysis: {
-      palette: string[];
-      scheme: string;
-      outliers: string[];
-    };
-    formality_level: {
-      score: number;
-      reasoning: string;
-    };
-    micro_adjustments: {
-      tuck_status: string;
-      sleeves: string;
-      cuffs: string;
-    };
-  };
-  recommendations: {
-    minor_adjustments: string[];
-    detected_closet_items: {
-      category: string;
-      attributes: any;
-      confidence: number;
-    }[];
-    closet_recommendations: string[];
-    new_item_suggestions: string[];
-  };
-  confidence_flags: string[];
-  analysis_completeness: number;
+/**
+ * Load the style taxonomy rules used by the scoring engine
+ */
+const loadStyleTaxonomy = async (supabaseClient: SupabaseClient): Promise<StyleTaxonomyRule[]> => {
+  const { data, error } = await supabaseClient
+    .from('style_taxonomy')
+    .select('name, required_categories, preferred_attributes, attribute_weights')
+
+  if (error || !data || data.length === 0) {
+    console.error('Failed to load style taxonomy, using defaults:', error)
+    return DEFAULT_STYLE_TAXONOMY
+  }
+
+  return data.map((row: any) => ({
+    name: row.name,
+    required_categories: row.required_categories || [],
+    preferred_attributes: row.preferred_attributes || {},
+    attribute_weights: row.attribute_weights || {}
+  }))
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+/**
+ * Publish an intermediate processing stage for realtime subscribers
+ */
+const updateProcessingStage = async (
+  supabaseClient: SupabaseClient,
+  outfitId: string,
+  stage: 'parsing' | 'scoring' | 'recommendations'
+) => {
+  const { error } = await supabaseClient
+    .from('outfits')
+    .update({ processing_stage: stage })
+    .eq('id', outfitId)
+
+  if (error) {
+    console.error(`Failed to update processing stage to ${stage}:`, error)
+    // Continue - stages are progress hints only
   }
+}
 
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')
-    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-    const openAIKey = Deno.env.get('OPENAI_API_KEY')
+/**
+ * Check whether the analysis job driving this request was cancelled
+ */
+const isJobCancelled = async (supabaseClient: SupabaseClient, jobId: string): Promise<boolean> => {
+  const { data, error } = await supabaseClient
+    .from('analysis_jobs')
+    .select('status')
+    .eq('id', jobId)
+    .single()
+
+  if (error) {
+    console.error('Failed to check analysis job status:', error)
+    return false
+  }
 
-    if (!supabaseUrl || !serviceRoleKey) {
-      throw new Error('Missing Supabase environment variables')
-    }
+  return data.status === 'cancelled'
+}
 
-    if (!openAIKey) {
-      throw new Error('OPENAI_API_KEY not configured. Please set it in Supabase Dashboard > Edge Functions > Secrets')
-    }
+/**
+ * Remove the rows an earlier attempt stored for this outfit, so a retried or
+ * re-queued job replaces them instead of adding a second set
+ */
+const clearStoredAnalysis = async (supabaseClient: SupabaseClient, outfitId: string) => {
+  const { data: detections, error: detectionError } = await supabaseClient
+    .from('garment_detection')
+    .select('id')
+    .eq('outfit_id', outfitId)
+
+  if (detectionError) {
+    throw new Error(`Failed to load earlier garment detections: ${detectionError.message}`)
+  }
 
-    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+  if (detections && detections.length > 0) {
+    const { error: candidateError } = await supabaseClient
+      .from('closet_item_detections')
+      .delete()
+      .in('garment_detection_id', detections.map((detection: any) => detection.id))
 
-    const { outfitId, imagePath, userId, userStylePreferences } = await req.json() as AnalysisRequest
-    
-    console.log('Processing outfit analysis:', { outfitId, imagePath, userId })
+    if (candidateError) {
+      throw new Error(`Failed to clear earlier closet candidates: ${candidateError.message}`)
+    }
+  }
 
-    // Get signed URL for the image
-    const { data: signedUrlData, error: signedUrlError } = await supabaseClient.storage
-      .from('private-uploads')
-      .createSignedUrl(imagePath, 300) // 5 minutes
+  for (const table of ['garment_detection', 'outfit_assessment', 'outfit_recommendations', 'outfit_scores']) {
+    const { error } = await supabaseClient
+      .from(table)
+      .delete()
+      .eq('outfit_id', outfitId)
 
-    if (signedUrlError) {
-      throw new Error(`Failed to get signed URL: ${signedUrlError.message}`)
+    if (error) {
+      throw new Error(`Failed to clear earlier ${table} rows: ${error.message}`)
     }
+  }
+}
 
-    console.log('🔍 About to call OpenAI Vision API with:')
-    console.log('- Model: gpt-4o-mini')  
-    console.log('- Image URL length:', signedUrlData.signedUrl.length)
-    console.log('- User preferences:', userStylePreferences)
-    
-    // Call OpenAI Vision API
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIKey}`,
-        'Content-Type': 'application/json',
+/**
+ * Score each stored garment detection against the user's closet and record
+ * the best candidates in closet_item_detections, ranked from 1. The user
+ * confirms or rejects them on the closet confirmation screen.
+ */
+const storeClosetCandidates = async (
+  supabaseClient: SupabaseClient,
+  userId: string,
+  detections: any[]
+) => {
+  const { data: closetItems, error: closetError } = await supabaseClient
+    .from('closet_items')
+    .select('id, category, color, pattern, material, brand, image_dhash')
+    .eq('user_id', userId)
+
+  if (closetError) {
+    console.error('Failed to load closet for matching:', closetError)
+    return
+  }
+
+  if (!closetItems || closetItems.length === 0) return
+
+  const candidateInserts = detections.flatMap(detection =>
+    findClosetMatches(
+      {
+        category: detection.category,
+        color: detection.color,
+        pattern: detection.pattern,
+        material: detection.material,
+        brand: detection.all_attributes?.brand
       },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a professional fashion analyst providing clinical outfit evaluation.
+      closetItems,
+      CLOSET_CANDIDATE_THRESHOLD
+    )
+      .slice(0, MAX_CLOSET_CANDIDATES)
+      .map((match, index) => ({
+        garment_detection_id: detection.id,
+        closet_item_id: match.item.id,
+        match_confidence: match.score,
+        match_rank: index + 1,
+        match_source: 'auto',
+        matched_on: match.matched,
+        user_confirmed: false,
+        user_rejected: false
+      }))
+  )
 
-TASK: Analyze outfit photo and provide structured feedback with detailed scoring.
+  if (candidateInserts.length === 0) return
 
-USER PREFERENCES (prioritize these): ${userStylePreferences.join(', ')}
+  const { error } = await supabaseClient
+    .from('closet_item_detections')
+    .insert(candidateInserts)
 
-SCORING SYSTEM (0-100 scale):
-- Proportion/Silhouette (25%): body proportions, fit balance
-- Technical Fit (20%): garment construction, tailoring
-- Color Harmony (20%): palette coordination, contrast
-- Pattern/Texture (10%): scale balance, material mix
-- Layering Logic (10%): weight order, hem placement
-- Formality/Occasion (10%): appropriateness for setting
-- Footwear Cohesion (5%): style/color integration
+  if (error) {
+    console.error('Failed to store closet candidates:', error)
+    // Continue - the user can still confirm items manually
+    return
+  }
 
-DETECTION: For each garment, identify category, fit, color, pattern, material with confidence scores (0-1).
+  console.log(`👔 Stored ${candidateInserts.length} closet candidates for ${detections.length} detections`)
+}
+
+/**
+ * Cache key for analyses of the same image: results are only reused while the
+ * prompt version, the user's personal styles, the outfit context and the
+ * weather are unchanged
+ */
+const buildAnalysisCacheKey = (
+  personalStyles: PersonalStyle[],
+  context: OutfitContext | null,
+  weather: WeatherConditions | null
+): string => {
+  const preferences = personalStyles.map(style => describePersonalStyle(style).toLowerCase()).sort()
+  const occasion = context ? describeOutfitContext(context).toLowerCase().replace(/\n/g, ';') : ''
+  return `${ANALYSIS_PROMPT_VERSION}:${preferences.join('|')}:${occasion}:${describeWeather(weather)}`
+}
+
+/**
+ * Weather for the analysis. A failing provider only costs the weather factor.
+ */
+const loadWeather = async (
+  weatherProvider: WeatherProvider,
+  context: OutfitContext | null
+): Promise<WeatherConditions | null> => {
+  try {
+    return await weatherProvider.getConditions({ manual: context?.weather, date: new Date() })
+  } catch (error) {
+    console.error(`Failed to get weather from ${weatherProvider.name}:`, error)
+    return null
+  }
+}
+
+/**
+ * Recommendations for the weather adjustments the scoring engine flagged:
+ * a tip for each, and a closet item (chosen by category and season_tags)
+ * that fixes it when the user has one
+ */
+const buildWeatherRecommendations = async (
+  supabaseClient: SupabaseClient,
+  userId: string,
+  improvementAreas: string[],
+  weather: WeatherConditions | null
+): Promise<{ tips: string[]; closet: string[] }> => {
+  const adjustments = improvementAreas.filter(code => code.startsWith('weather_'))
+  if (!weather || adjustments.length === 0) return { tips: [], closet: [] }
+
+  const conditions = describeWeather(weather)
+  const tips = adjustments.map(code => `${describeWeatherAdjustment(code)} (${conditions})`)
+
+  const { data: closetItems, error } = await supabaseClient
+    .from('closet_items')
+    .select('id, category, subcategory, color, season_tags')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Failed to load closet for weather suggestions:', error)
+    return { tips, closet: [] }
+  }
+
+  const closet = pickWeatherClosetItems(adjustments, closetItems || [], weatherSeason(weather))
+    .map(({ item }) => {
+      const name = [item.color, item.subcategory || item.category].filter(Boolean).join(' ')
+      return `For ${conditions}: wear your ${name} from your closet`
+    })
+
+  return { tips, closet }
+}
+
+/**
+ * Personal styles as prompt lines, e.g. "Chic: 50% Business Casual, 30% Minimalist"
+ */
+const describePreferences = (personalStyles: PersonalStyle[]): string =>
+  personalStyles.length > 0
+    ? personalStyles.map(describePersonalStyle).join('\n')
+    : 'none set - judge against the closest style'
+
+/**
+ * Find a completed analysis of the same image for this user. The hash is
+ * taken from the stored photo and saved on the outfit for later uploads.
+ */
+const findCachedAnalysis = async (
+  supabaseClient: SupabaseClient,
+  outfitId: string,
+  userId: string,
+  imagePath: string,
+  cacheKey: string
+): Promise<{ outfitId: string; perception: PerceptionAnalysis } | null> => {
+  let imageHash: string
+  try {
+    imageHash = await hashStoredObject(supabaseClient, 'private-uploads', imagePath)
+  } catch (hashError) {
+    console.error('Failed to hash outfit photo:', hashError)
+    return null
+  }
+
+  const { error: hashUpdateError } = await supabaseClient
+    .from('outfits')
+    .update({ image_hash: imageHash })
+    .eq('id', outfitId)
+
+  if (hashUpdateError) {
+    console.error('Failed to store outfit image hash:', hashUpdateError)
+  }
+
+  const { data, error } = await supabaseClient
+    .from('outfits')
+    .select('id, analysis_result')
+    .eq('user_id', userId)
+    .eq('image_hash', imageHash)
+    .eq('analysis_cache_key', cacheKey)
+    .eq('processing_status', 'completed')
+    .neq('id', outfitId)
+    .not('analysis_result', 'is', null)
+    .order('analyzed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to look up cached analysis:', error)
+    return null
+  }
+
+  // Scores are recomputed below, so only the perception part is reused
+  return data ? { outfitId: data.id, perception: data.analysis_result as PerceptionAnalysis } : null
+}
+
+/**
+ * Ask the vision model to describe the outfit, with one repair re-prompt
+ * when the reply fails schema validation
+ */
+const analyzeWithVision = async (
+  supabaseClient: SupabaseClient,
+  visionProvider: VisionProvider,
+  outfitId: string,
+  imagePath: string,
+  personalStyles: PersonalStyle[],
+  context: OutfitContext | null,
+  weather: WeatherConditions | null
+): Promise<{ perception: PerceptionAnalysis; usingFallback: boolean }> => {
+  // Get signed URL for the image
+  const { data: signedUrlData, error: signedUrlError } = await supabaseClient.storage
+    .from('private-uploads')
+    .createSignedUrl(imagePath, 300) // 5 minutes
+
+  if (signedUrlError) {
+    throw new Error(`Failed to get signed URL: ${signedUrlError.message}`)
+  }
+
+  console.log('🔍 About to call vision provider with:')
+  console.log('- Provider:', visionProvider.name)
+  console.log('- Model:', visionProvider.model)
+  console.log('- Image URL length:', signedUrlData.signedUrl.length)
+  console.log('- Personal styles:', personalStyles.map(style => style.name))
+  console.log('- Context:', context)
+  console.log('- Weather:', weather)
+  
+  const preferences = describePreferences(personalStyles)
+  const occasion = describeOutfitContext(context)
+  const conditions = describeWeather(weather) || 'unknown - do not assume'
+  
+  const messages: VisionMessage[] = [
+    {
+      role: 'system',
+      content: `You are a professional fashion analyst providing clinical outfit evaluation.
+
+TASK: Describe what you see in the outfit photo and provide structured feedback. Do NOT score the outfit - scores are computed separately from your detections.
+
+USER PERSONAL STYLES (prioritize these; each is a weighted mix of controlled styles):
+${preferences}
+
+OCCASION (judge appropriateness and tailor recommendations to it):
+${occasion}
+
+WEATHER (recommend layers, footwear and fabrics that suit it):
+${conditions}
+
+DETECTION: For each garment, identify category, fit, color, pattern, material with confidence scores (0-1). Be accurate rather than generous - low confidence is better than a wrong guess.
+
+ASSESSMENT: Report proportions, layering order, color palette and scheme, and perceived formality (0 = gym wear, 100 = black tie).
 
 OUTPUT: Professional tone, specific measurements, actionable recommendations.`
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Analyze this outfit photo and provide detailed feedback. 
+    },
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'text',
+          text: `Analyze this outfit photo and provide detailed feedback. 
                 
-User's style preferences: ${userStylePreferences.join(', ')}
+User's personal styles:
+${preferences}
+
+What the outfit is for:
+${occasion}
 
-Return JSON with this structure:
+Weather:
+${conditions}
+
+Return ONLY JSON with this structure (all confidences and ratios are numbers 0-1):
 {
-  "overall_score": <1-100>,
-  "style_category": "<primary_style>",
-  "style_score": <1-100>,
-  "fit_score": <1-100>,
-  "color_score": <1-100>,
-  "occasion_appropriateness": <1-100>,
-  "sub_scores": {
-    "proportion_silhouette": <1-100>,
-    "fit_technical": <1-100>,
-    "color_harmony": <1-100>,
-    "pattern_texture": <1-100>,
-    "layering_logic": <1-100>,
-    "formality_occasion": <1-100>,
-    "footwear_cohesion": <1-100>
-  },
+  "style_category": "<one of: ${STYLE_CATEGORIES.join('|')}>",
   "detailed_feedback": {
     "strengths": ["strength1", "strength2"],
     "improvements": ["improvement1", "improvement2"],
     "style_alignment": "user preference match assessment"
   },
-  "items_detected": [{"category": "type", "description": "desc", "fit_assessment": "fit"}],
+  "items_detected": [{"category": "<garment category>", "description": "desc", "fit_assessment": "fit"}],
   "garment_detection": [{
     "item_id": "id",
-    "category": "type",
-    "attributes": {"fit": "fit", "color": "color", "pattern": "pattern", "material": "material"},
+    "category": "<one of: ${GARMENT_CATEGORIES.join('|')}>",
+    "attributes": {"fit": "fit", "color": "color", "pattern": "pattern", "material": "material", "layer_order": <0-10>},
     "confidence_scores": {"fit": 0.8, "color": 0.9, "pattern": 0.7}
   }],
   "outfit_assessment": {
     "proportions": {"top_length_ratio": 0.6, "silhouette_shape": "shape"},
-    "color_analysis": {"palette": ["color1"], "scheme": "scheme", "outliers": []},
-    "formality_level": {"score": 75, "reasoning": "reason"}
+    "layering": {"weight_order": ["item_id"], "hem_order": ["item_id"]},
+    "color_analysis": {"palette": ["color1"], "scheme": "<one of: ${COLOR_SCHEMES.join('|')}>", "outliers": []},
+    "formality_level": {"score": <0-100>, "reasoning": "reason"},
+    "micro_adjustments": {"tuck_status": "<one of: ${TUCK_STATUSES.join('|')}>", "sleeves": "note", "cuffs": "note"}
   },
   "recommendations": {
     "minor_adjustments": ["adjustment1"],
-    "detected_closet_items": [{"category": "type", "attributes": {}, "confidence": 0.8}],
+    "detected_closet_items": [{"category": "<garment category>", "attributes": {}, "confidence": 0.8}],
     "closet_recommendations": ["rec1"],
     "new_item_suggestions": ["suggestion1"]
   },
   "confidence_flags": ["flag1"],
   "analysis_completeness": 95
 }`
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: signedUrlData.signedUrl
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.7
-      })
+        },
+        {
+          type: 'image',
+          url: signedUrlData.signedUrl
+        }
+      ]
+    }
+  ]
+
+  // Call the vision model
+  const visionRequest = { maxTokens: ANALYSIS_MAX_TOKENS, temperature: ANALYSIS_TEMPERATURE }
+  const { text: analysisText } = await visionProvider.complete({ ...visionRequest, messages })
+  
+  console.log(`✅ ${visionProvider.name} response received successfully`)
+  console.log('Raw response length:', analysisText.length, 'characters')
+
+  let validation = validateModelOutput(analysisText)
+  await recordValidationIssues(supabaseClient, outfitId, 1, visionProvider.model, validation)
+
+  // One repair re-prompt before giving up on the model output
+  if (!validation || validation.errorCount > 0) {
+    console.log('🔁 Analysis failed schema validation, requesting repair:', {
+      parsed: !!validation,
+      errors: validation?.errorCount
     })
 
-    if (!openAIResponse.ok) {
-      const errorText = await openAIResponse.text()
-      console.error(`OpenAI API Error: ${openAIResponse.status} - ${errorText}`)
-      console.error('Request details:', {
-        model: 'gpt-4o-mini',
-        systemPromptLength: `You are a professional fashion analysis AI...`.length,
-        imageUrlLength: signedUrlData.signedUrl.length,
-        maxTokens: 2000,
-        temperature: 0.7
+    try {
+      const { text: repairText } = await visionProvider.complete({
+        ...visionRequest,
+        messages: [
+          ...messages,
+          { role: 'assistant', content: analysisText },
+          { role: 'user', content: buildRepairPrompt(validation) }
+        ]
       })
-      throw new Error(`OpenAI API error: ${openAIResponse.status} ${errorText}`)
+      const repaired = validateModelOutput(repairText)
+      await recordValidationIssues(supabaseClient, outfitId, 2, visionProvider.model, repaired)
+
+      if (repaired && (!validation || repaired.errorCount <= validation.errorCount)) {
+        validation = repaired
+      }
+    } catch (repairError) {
+      console.error('❌ Repair re-prompt failed:', repairError)
     }
+  }
+
+  if (!validation) {
+    console.error(`❌ Failed to parse ${visionProvider.name} response`)
+    console.error('Raw response that failed to parse:', analysisText.substring(0, 500) + '...')
+    console.log('⚠️ Using fallback analysis due to parsing error')
+    return { perception: buildFallbackAnalysis(), usingFallback: true }
+  }
 
-    const openAIResult = await openAIResponse.json()
-    const analysisText = openAIResult.choices[0].message.content
+  console.log('✅ Analysis validated:', {
+    errors: validation.errorCount,
+    warnings: validation.issues.length - validation.errorCount
+  })
+  return { perception: validation.value, usingFallback: false }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    // Only the analysis worker may call this: it trusts the user and outfit in
+    // the body and writes with the service role
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    if (token !== serviceRoleKey) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Not authorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      )
+    }
+
+    const visionProvider = createVisionProvider('analyze-outfit')
+    const weatherProvider = createWeatherProvider()
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+
+    const { outfitId, imagePath, userId, personalStyles: rawPersonalStyles, userStylePreferences, context: rawContext, jobId } = await req.json() as AnalysisRequest
+    const personalStyles = normalizePersonalStyles(rawPersonalStyles ?? userStylePreferences)
+    const context = normalizeOutfitContext(rawContext)
+    const weather = await loadWeather(weatherProvider, context)
     
-    console.log('✅ OpenAI API Response received successfully')
-    console.log('Raw OpenAI response length:', analysisText.length, 'characters')
+    console.log('Processing outfit analysis:', { outfitId, imagePath, userId, jobId })
+
+    await updateProcessingStage(supabaseClient, outfitId, 'parsing')
+
+    // Reuse an earlier analysis of the same photo when nothing that shapes it changed
+    const analysisCacheKey = buildAnalysisCacheKey(personalStyles, context, weather)
+    const cached = await findCachedAnalysis(supabaseClient, outfitId, userId, imagePath, analysisCacheKey)
 
-    let analysis: ClinicalAnalysis
+    let perception: PerceptionAnalysis
     let usingFallback = false
-    
-    try {
-      // Extract JSON from the response (it might have markdown formatting)
-      const jsonMatch = analysisText.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const parsedAnalysis = JSON.parse(jsonMatch[0])
-        
-        // Handle both legacy and new format - convert legacy to clinical format
-        if (parsedAnalysis.sub_scores) {
-          // New clinical format
-          analysis = parsedAnalysis as ClinicalAnalysis
-          console.log('✅ Successfully parsed Clinical Analysis JSON')
-        } else {
-          // Legacy format - convert to clinical format
-          analysis = {
-            ...parsedAnalysis,
-            sub_scores: {
-              proportion_silhouette: parsedAnalysis.style_score || 70,
-              fit_technical: parsedAnalysis.fit_score || 70,
-              color_harmony: parsedAnalysis.color_score || 70,
-              pattern_texture: 70,
-              layering_logic: 70,
-              formality_occasion: parsedAnalysis.occasion_appropriateness || 70,
-              footwear_cohesion: 70
-            },
-            garment_detection: parsedAnalysis.items_detected?.map((item: any, index: number) => ({
-              item_id: `item_${index}`,
-              category: item.category,
-              attributes: {
-                fit: item.fit_assessment,
-                color: 'unknown',
-                pattern: 'unknown',
-                material: 'unknown'
-              },
-              confidence_scores: {
-                fit: 0.7,
-                color: 0.5,
-                pattern: 0.5
-              }
-            })) || [],
-            outfit_assessment: {
-              proportions: {
-                top_length_ratio: 0.5,
-                silhouette_shape: 'unknown'
-              },
-              layering: {
-                weight_order: [],
-                hem_order: []
-              },
-              color_analysis: {
-                palette: [],
-                scheme: 'unknown',
-                outliers: []
-              },
-              formality_level: {
-                score: parsedAnalysis.occasion_appropriateness || 70,
-                reasoning: 'Legacy format conversion'
-              },
-              micro_adjustments: {
-                tuck_status: 'unknown',
-                sleeves: 'unknown',
-                cuffs: 'unknown'
-              }
-            },
-            recommendations: {
-              minor_adjustments: parsedAnalysis.detailed_feedback?.improvements || [],
-              detected_closet_items: [],
-              closet_recommendations: [],
-              new_item_suggestions: []
-            },
-            confidence_flags: ['Converted from legacy format'],
-            analysis_completeness: 70
-          } as ClinicalAnalysis
-          console.log('✅ Successfully converted legacy analysis to clinical format')
-        }
-        
-        console.log('Analysis scores:', {
-          overall: analysis.overall_score,
-          style: analysis.style_score,
-          fit: analysis.fit_score,
-          color: analysis.color_score,
-          occasion: analysis.occasion_appropriateness
-        })
-      } else {
-        throw new Error('No JSON found in OpenAI response')
-      }
-    } catch (parseError) {
-      console.error('❌ Failed to parse OpenAI response:', parseError)
-      console.error('Raw response that failed to parse:', analysisText.substring(0, 500) + '...')
-      usingFallback = true
-      
-      // Fallback analysis if parsing fails
-      analysis = {
-        overall_score: 70,
-        style_category: 'casual',
-        style_score: 70,
-        fit_score: 70,
-        color_score: 70,
-        occasion_appropriateness: 70,
-        sub_scores: {
-          proportion_silhouette: 70,
-          fit_technical: 70,
-          color_harmony: 70,
-          pattern_texture: 70,
-          layering_logic: 70,
-          formality_occasion: 70,
-          footwear_cohesion: 70
-        },
-        detailed_feedback: {
-          strengths: ['Good outfit choice'],
-          improvements: ['Analysis parsing failed - please try again'],
-          style_alignment: 'Unable to fully analyze due to technical issue'
-        },
-        items_detected: [{
-          category: 'outfit',
-          description: 'Full outfit visible',
-          fit_assessment: 'Unable to assess due to parsing error'
-        }],
-        garment_detection: [{
-          item_id: 'fallback_item',
-          category: 'outfit',
-          attributes: {
-            fit: 'unknown',
-            color: 'unknown',
-            pattern: 'unknown',
-            material: 'unknown'
-          },
-          confidence_scores: {
-            fit: 0.1,
-            color: 0.1,
-            pattern: 0.1
-          }
-        }],
-        outfit_assessment: {
-          proportions: {
-            top_length_ratio: 0.5,
-            silhouette_shape: 'unknown'
-          },
-          layering: {
-            weight_order: [],
-            hem_order: []
-          },
-          color_analysis: {
-            palette: [],
-            scheme: 'unknown',
-            outliers: []
-          },
-          formality_level: {
-            score: 70,
-            reasoning: 'Fallback assessment - analysis failed'
-          },
-          micro_adjustments: {
-            tuck_status: 'unknown',
-            sleeves: 'unknown',
-            cuffs: 'unknown'
-          }
-        },
-        recommendations: {
-          minor_adjustments: ['Please retry analysis'],
-          detected_closet_items: [],
-          closet_recommendations: [],
-          new_item_suggestions: []
-        },
-        confidence_flags: ['Analysis parsing failed', 'Using fallback data'],
-        analysis_completeness: 10
+
+    if (cached) {
+      console.log('♻️ Reusing cached analysis from outfit:', cached.outfitId)
+      perception = cached.perception
+    } else {
+      ({ perception, usingFallback } = await analyzeWithVision(
+        supabaseClient,
+        visionProvider,
+        outfitId,
+        imagePath,
+        personalStyles,
+        context,
+        weather
+      ))
+    }
+
+    const source = cached ? 'cache' : usingFallback ? 'fallback' : visionProvider.name
+
+    await updateProcessingStage(supabaseClient, outfitId, 'scoring')
+
+    // Compute scores deterministically from the detections
+    const taxonomy = await loadStyleTaxonomy(supabaseClient)
+    const scoring = computeStyleScore(
+      perception.garment_detection,
+      perception.outfit_assessment,
+      taxonomy,
+      personalStyles,
+      context,
+      weather
+    )
+
+    // Weather tips and closet picks go ahead of the model's own recommendations
+    const weatherRecommendations = await buildWeatherRecommendations(
+      supabaseClient,
+      userId,
+      scoring.improvement_areas,
+      weather
+    )
+
+    const analysis: ClinicalAnalysis = {
+      ...perception,
+      overall_score: scoring.overall_score,
+      style_score: scoring.style_score,
+      fit_score: scoring.fit_score,
+      color_score: scoring.color_score,
+      occasion_appropriateness: scoring.occasion_score,
+      sub_scores: scoring.sub_scores,
+      score_breakdown: scoring.breakdown,
+      improvement_areas: scoring.improvement_areas,
+      persona_alignment: scoring.persona_alignment,
+      recommendations: {
+        ...perception.recommendations,
+        // A cached perception already carries the tips for the same weather
+        minor_adjustments: [...new Set([
+          ...weatherRecommendations.tips,
+          ...(perception.recommendations?.minor_adjustments || [])
+        ])],
+        closet_recommendations: [...new Set([
+          ...weatherRecommendations.closet,
+          ...(perception.recommendations?.closet_recommendations || [])
+        ])]
       }
-      console.log('⚠️ Using fallback analysis due to parsing error')
+    }
+
+    console.log('Analysis scores:', {
+      overall: analysis.overall_score,
+      style: scoring.breakdown.style,
+      weather: scoring.breakdown.weather,
+      breakdown: {
+        coverage: scoring.breakdown.coverage,
+        attributes: scoring.breakdown.attributes,
+        color: scoring.breakdown.color,
+        confidence: scoring.breakdown.confidence
+      },
+      improvementAreas: scoring.improvement_areas,
+      personaAlignment: scoring.persona_alignment
+    })
+
+    // The user may have cancelled while the model was running - discard the result
+    if (jobId && await isJobCancelled(supabaseClient, jobId)) {
+      console.log('🛑 Analysis job was cancelled, discarding result:', jobId)
+      return new Response(
+        JSON.stringify({ success: false, cancelled: true, outfitId }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      )
     }
 
     // Update outfit record with analysis results
     const { error: updateError } = await supabaseClient
       .from('outfits')
       .update({
-        processing_status: 'completed',
         analysis_result: analysis,
-        analyzed_at: new Date().toISOString()
+        analyzed_at: new Date().toISOString(),
+        analysis_cache_key: usingFallback ? null : analysisCacheKey,
+        analysis_cached_from: cached?.outfitId ?? null,
+        processing_stage: 'recommendations'
       })
       .eq('id', outfitId)
 
@@ -439,6 +678,9 @@ Return JSON with this structure:
       throw new Error(`Failed to update outfit: ${updateError.message}`)
     }
 
+    // A retry must not leave the previous attempt's rows next to these
+    await clearStoredAnalysis(supabaseClient, outfitId)
+
     // Insert outfit score record with clinical data
     const { error: scoreError } = await supabaseClient
       .from('outfit_scores')
@@ -451,6 +693,9 @@ Return JSON with this structure:
         color_score: analysis.color_score,
         occasion_score: analysis.occasion_appropriateness,
         sub_scores: analysis.sub_scores,
+        breakdown: scoring.breakdown,
+        improvement_areas: scoring.improvement_areas,
+        persona_alignment: scoring.persona_alignment,
         analysis_completeness: analysis.analysis_completeness || 100,
         confidence_flags: analysis.confidence_flags || [],
         feedback: analysis.detailed_feedback,
@@ -462,16 +707,17 @@ Return JSON with this structure:
       // Don't throw here - analysis was successful even if score insert failed
     }
 
-    // Store detailed garment detection data if available
+    // Store detailed garment detection data if available. Color, pattern and
+    // material columns hold taxonomy values; the model's wording stays in all_attributes
     if (analysis.garment_detection && analysis.garment_detection.length > 0) {
       const detectionInserts = analysis.garment_detection.map(garment => ({
         outfit_id: outfitId,
         item_id: garment.item_id,
         category: garment.category,
         fit_assessment: garment.attributes.fit,
-        color: garment.attributes.color,
-        pattern: garment.attributes.pattern,
-        material: garment.attributes.material,
+        color: normalizeColor(garment.attributes.color),
+        pattern: normalizePattern(garment.attributes.pattern),
+        material: normalizeMaterial(garment.attributes.material),
         length: garment.attributes.length,
         sleeve_length: garment.attributes.sleeve_length,
         neckline: garment.attributes.neckline,
@@ -479,16 +725,20 @@ Return JSON with this structure:
         hem_treatment: garment.attributes.hem_treatment,
         layer_order: garment.attributes.layer_order,
         confidence_scores: garment.confidence_scores,
-        all_attributes: garment.attributes
+        all_attributes: garment.attributes,
+        taxonomy_version: TAXONOMY_VERSION
       }))
 
-      const { error: detectionError } = await supabaseClient
+      const { data: detections, error: detectionError } = await supabaseClient
         .from('garment_detection')
         .insert(detectionInserts)
+        .select('id, category, color, pattern, material, all_attributes')
 
       if (detectionError) {
         console.error('Failed to insert garment detection:', detectionError)
         // Continue - this is supplementary data
+      } else if (detections && detections.length > 0) {
+        await storeClosetCandidates(supabaseClient, userId, detections)
       }
     }
 
@@ -559,11 +809,40 @@ Return JSON with this structure:
       }
     }
 
+    // Mark complete only once everything is stored so subscribers see the full
+    // result. A cancel that landed after the check above wins.
+    const { data: completed, error: completeError } = await supabaseClient
+      .from('outfits')
+      .update({
+        processing_status: 'completed',
+        processing_stage: 'completed'
+      })
+      .eq('id', outfitId)
+      .neq('processing_status', 'cancelled')
+      .select('id')
+
+    if (completeError) {
+      throw new Error(`Failed to mark outfit completed: ${completeError.message}`)
+    }
+
+    if (!completed || completed.length === 0) {
+      console.log('🛑 Outfit was cancelled while results were stored, leaving it cancelled:', outfitId)
+      return new Response(
+        JSON.stringify({ success: false, cancelled: true, outfitId }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      )
+    }
+
     // Log final analysis source
-    if (usingFallback) {
-      console.log('🔄 Analysis completed using FALLBACK data (check OpenAI API key and response format)')
+    if (cached) {
+      console.log(`♻️ Analysis completed from cache (outfit ${cached.outfitId})`)
+    } else if (usingFallback) {
+      console.log(`🔄 Analysis completed using FALLBACK data (check ${visionProvider.name} configuration and response format)`)
     } else {
-      console.log('🎯 Analysis completed using REAL OpenAI Vision analysis')
+      console.log(`🎯 Analysis completed using ${visionProvider.name} vision analysis (${visionProvider.model})`)
     }
 
     return new Response(
@@ -571,7 +850,7 @@ Return JSON with this structure:
         success: true, 
         analysis,
         outfitId,
-        source: usingFallback ? 'fallback' : 'openai'
+        source
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,102 @@
+import { assertEquals, assertRejects } from '@std/assert'
+import { FixtureVisionProvider } from '../_shared/vision/fixture.ts'
+import { VisionRequest } from '../_shared/vision/types.ts'
+import { computeStyleScore } from '../_shared/scoring.ts'
+import { FixtureWeatherProvider, WeatherConditions } from '../_shared/weather/index.ts'
+import { parseModelJson, validatePerceptionAnalysis } from './schema.ts'
+
+/**
+ * Replays the committed vision and weather fixtures through the same parse,
+ * repair and scoring steps analyze-outfit runs on a live reply
+ */
+
+const analysisRequest = (imageUrl?: string): VisionRequest => ({
+  messages: [{
+    role: 'user',
+    content: imageUrl
+      ? [{ type: 'text', text: 'Describe this outfit' }, { type: 'image', url: imageUrl }]
+      : 'Describe this outfit'
+  }],
+  maxTokens: 2000,
+  temperature: 0.2
+})
+
+const replayAnalysis = async (request: VisionRequest, weather: WeatherConditions | null = null) => {
+  const reply = await new FixtureVisionProvider('analyze-outfit').complete(request)
+  const validation = validatePerceptionAnalysis(parseModelJson(reply.text))
+  const perception = validation.value
+  return {
+    reply,
+    validation,
+    scoring: computeStyleScore(perception.garment_detection, perception.outfit_assessment, [], [], null, weather)
+  }
+}
+
+Deno.test('the default analyze-outfit fixture passes the schema untouched', async () => {
+  const { reply, validation } = await replayAnalysis(analysisRequest())
+
+  assertEquals(reply.provider, 'fixture')
+  assertEquals(validation.issues, [])
+})
+
+Deno.test('the default analyze-outfit fixture scores the same every time', async () => {
+  const { scoring } = await replayAnalysis(analysisRequest())
+
+  assertEquals(scoring.overall_score, 96)
+  assertEquals(scoring.breakdown.style, 'minimalist')
+  assertEquals(scoring.improvement_areas, [])
+  assertEquals(scoring.breakdown.weather, null)
+})
+
+Deno.test('images without a recording fall back to default.json', async () => {
+  const image = `data:image/jpeg;base64,${btoa('not a recorded photo')}`
+
+  const withImage = await replayAnalysis(analysisRequest(image))
+  const withoutImage = await replayAnalysis(analysisRequest())
+
+  assertEquals(withImage.scoring, withoutImage.scoring)
+})
+
+Deno.test('a fixture set without recordings or default.json is an error', async () => {
+  await assertRejects(
+    () => new FixtureVisionProvider('no-such-function').complete(analysisRequest()),
+    Error,
+    'no default.json in fixtures/no-such-function'
+  )
+})
+
+const replayWeather = (fixtureName: string) =>
+  new FixtureWeatherProvider(fixtureName).getConditions({ date: new Date('2026-10-19') })
+
+Deno.test('mild weather leaves the fixture score unchanged', async () => {
+  const weather = await replayWeather('default')
+  const { scoring } = await replayAnalysis(analysisRequest(), weather)
+
+  assertEquals(weather, { temperature_c: 18, precipitation: 'none', windy: false, source: 'fixture' })
+  assertEquals(scoring.overall_score, 96)
+  assertEquals(scoring.breakdown.weather, { conditions: '18°C', score: 100, penalty: 0 })
+})
+
+Deno.test('cold rain costs the blazer outfit its missing coat', async () => {
+  const { scoring } = await replayAnalysis(analysisRequest(), await replayWeather('cold-rain'))
+
+  assertEquals(scoring.breakdown.weather, { conditions: '5°C, rain, windy', score: 40, penalty: 9 })
+  assertEquals(scoring.overall_score, 87)
+  assertEquals(scoring.improvement_areas, ['weather_outer_layer', 'weather_rain'])
+})
+
+Deno.test('heat flags the wool and leather as too warm', async () => {
+  const { scoring } = await replayAnalysis(analysisRequest(), await replayWeather('hot'))
+
+  assertEquals(scoring.breakdown.weather, { conditions: '31°C', score: 75, penalty: 4 })
+  assertEquals(scoring.overall_score, 92)
+  assertEquals(scoring.improvement_areas, ['weather_too_warm'])
+})
+
+Deno.test('a missing weather fixture is an error', async () => {
+  await assertRejects(
+    () => replayWeather('monsoon'),
+    Error,
+    'No weather fixture monsoon.json'
+  )
+})
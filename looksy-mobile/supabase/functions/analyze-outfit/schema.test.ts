@@ -0,0 +1,194 @@
+import { assert, assertEquals } from '@std/assert'
+import {
+  buildFallbackAnalysis,
+  buildRepairPrompt,
+  parseModelJson,
+  validatePerceptionAnalysis,
+  ValidationResult
+} from './schema.ts'
+
+const validPerception = () => ({
+  style_category: 'minimalist',
+  detailed_feedback: {
+    strengths: ['Clean lines'],
+    improvements: ['Hem is long'],
+    style_alignment: 'Understated'
+  },
+  items_detected: [
+    { category: 't-shirt', description: 'White tee', fit_assessment: 'Regular' }
+  ],
+  garment_detection: [
+    {
+      item_id: 'item_1',
+      category: 't-shirt',
+      attributes: { fit: 'regular', color: 'white', pattern: 'solid', material: 'cotton' },
+      confidence_scores: { fit: 0.8, color: 0.9 }
+    }
+  ],
+  outfit_assessment: {
+    proportions: { top_length_ratio: 0.4, silhouette_shape: 'straight' },
+    layering: { weight_order: [], hem_order: [] },
+    color_analysis: { palette: ['white'], scheme: 'neutral', outliers: [] },
+    formality_level: { score: 40, reasoning: 'Casual basics' },
+    micro_adjustments: { tuck_status: 'untucked', sleeves: 'none', cuffs: 'none' }
+  },
+  recommendations: {
+    minor_adjustments: [],
+    detected_closet_items: [],
+    closet_recommendations: [],
+    new_item_suggestions: []
+  },
+  confidence_flags: [],
+  analysis_completeness: 90
+})
+
+const issueAt = (result: ValidationResult, path: string) =>
+  result.issues.find(issue => issue.path === path)
+
+Deno.test('parseModelJson extracts the object from fenced or chatty replies', () => {
+  assertEquals(parseModelJson('Sure!\n```json\n{"a": 1}\n```'), { a: 1 })
+  assertEquals(parseModelJson('no json here'), null)
+  assertEquals(parseModelJson('{"a": 1,}'), null)
+})
+
+Deno.test('a valid reply passes without issues', () => {
+  const result = validatePerceptionAnalysis(validPerception())
+
+  assertEquals(result.issues, [])
+  assertEquals(result.errorCount, 0)
+  assertEquals(result.value.style_category, 'minimalist')
+})
+
+Deno.test('numbers are coerced, rescaled and clamped into range', () => {
+  const perception = validPerception()
+  const [garment] = perception.garment_detection
+  const damaged: Record<string, unknown> = {
+    ...perception,
+    garment_detection: [{ ...garment, confidence_scores: { fit: 0.55, color: 0.9 } }],
+    outfit_assessment: {
+      ...perception.outfit_assessment,
+      proportions: { top_length_ratio: 45, silhouette_shape: 'straight' },
+      formality_level: { score: '75%', reasoning: 'Casual basics' },
+    },
+    analysis_completeness: 140,
+  }
+
+  const result = validatePerceptionAnalysis(damaged)
+
+  assertEquals(result.value.outfit_assessment.formality_level.score, 75)
+  assertEquals(issueAt(result, 'outfit_assessment.formality_level.score')?.code, 'coerced')
+  assertEquals(result.value.outfit_assessment.proportions.top_length_ratio, 0.45)
+  assertEquals(issueAt(result, 'outfit_assessment.proportions.top_length_ratio')?.code, 'rescaled')
+  assertEquals(result.value.analysis_completeness, 100)
+  assertEquals(issueAt(result, 'analysis_completeness')?.code, 'out_of_range')
+  assertEquals(result.value.garment_detection[0].confidence_scores.fit, 0.55)
+  assertEquals(result.errorCount, 0)
+})
+
+Deno.test('a 0-1 formality score is rescaled to 0-100', () => {
+  const perception = validPerception()
+  const damaged: Record<string, unknown> = {
+    ...perception,
+    outfit_assessment: {
+      ...perception.outfit_assessment,
+      formality_level: { score: 0.6, reasoning: 'Casual basics' },
+    },
+  }
+
+  const result = validatePerceptionAnalysis(damaged)
+
+  assertEquals(result.value.outfit_assessment.formality_level.score, 60)
+})
+
+Deno.test('enums match loosely and synonyms map onto the taxonomy', () => {
+  const perception = validPerception()
+  const damaged: Record<string, unknown> = {
+    ...perception,
+    style_category: 'dressy',
+    items_detected: [{ ...perception.items_detected[0], category: 'cape' }],
+    garment_detection: [{ ...perception.garment_detection[0], category: 'tee' }],
+    outfit_assessment: {
+      ...perception.outfit_assessment,
+      color_analysis: { palette: ['white'], scheme: 'Split-Complementary', outliers: [] },
+    },
+  }
+
+  const result = validatePerceptionAnalysis(damaged)
+
+  assertEquals(result.value.outfit_assessment.color_analysis.scheme, 'split_complementary')
+  assertEquals(result.value.garment_detection[0].category, 't-shirt')
+  assertEquals(issueAt(result, 'garment_detection[0].category')?.code, 'coerced')
+  assertEquals(result.value.style_category, 'glam')
+  assertEquals(result.value.items_detected[0].category, 'other')
+  assertEquals(issueAt(result, 'items_detected[0].category')?.code, 'invalid_enum')
+})
+
+Deno.test('scores the model volunteers are dropped for the scoring engine', () => {
+  const result = validatePerceptionAnalysis({ ...validPerception(), overall_score: 95, fit_score: 90 })
+  const value = result.value as unknown as Record<string, unknown>
+
+  assert(!('overall_score' in value))
+  assert(!('fit_score' in value))
+  assertEquals(result.issues, [])
+})
+
+Deno.test('missing sections are rebuilt from defaults and counted as errors', () => {
+  const perception: Record<string, unknown> = validPerception()
+  delete perception.outfit_assessment
+  delete perception.recommendations
+
+  const result = validatePerceptionAnalysis(perception)
+
+  assertEquals(result.value.outfit_assessment.formality_level.score, 50)
+  assertEquals(result.value.outfit_assessment.micro_adjustments.tuck_status, 'unknown')
+  assertEquals(result.value.recommendations.minor_adjustments, [])
+  assertEquals(issueAt(result, 'outfit_assessment')?.code, 'missing')
+  assertEquals(result.errorCount, 2)
+})
+
+Deno.test('optional attributes are left out rather than defaulted', () => {
+  const result = validatePerceptionAnalysis(validPerception())
+  const attributes = result.value.garment_detection[0].attributes as Record<string, unknown>
+
+  assert(!('neckline' in attributes))
+  assert(!('layer_order' in attributes))
+})
+
+Deno.test('non-object list items are dropped and an empty detection list is an error', () => {
+  const damaged: Record<string, unknown> = { ...validPerception(), garment_detection: ['blazer', null] }
+
+  const result = validatePerceptionAnalysis(damaged)
+
+  assertEquals(result.value.garment_detection, [])
+  assertEquals(issueAt(result, 'garment_detection[0]')?.code, 'invalid_item')
+  assertEquals(issueAt(result, 'garment_detection')?.code, 'too_few_items')
+  assert(result.errorCount > 0)
+})
+
+Deno.test('legacy flat replies get garment detections seeded from items_detected', () => {
+  const perception: Record<string, unknown> = validPerception()
+  delete perception.garment_detection
+
+  const result = validatePerceptionAnalysis(perception)
+
+  assertEquals(result.value.garment_detection.length, 1)
+  assertEquals(result.value.garment_detection[0].item_id, 'item_0')
+  assertEquals(result.value.garment_detection[0].category, 't-shirt')
+  assert(result.value.confidence_flags.includes('Converted from legacy format'))
+})
+
+Deno.test('the repair prompt lists only the errors', () => {
+  const perception: Record<string, unknown> = validPerception()
+  delete perception.recommendations
+  perception.analysis_completeness = 140
+
+  const prompt = buildRepairPrompt(validatePerceptionAnalysis(perception))
+
+  assert(prompt.includes('- recommendations: missing'))
+  assert(!prompt.includes('analysis_completeness'))
+  assert(buildRepairPrompt(null).includes('did not contain a parseable JSON object'))
+})
+
+Deno.test('the fallback analysis passes its own schema', () => {
+  assertEquals(validatePerceptionAnalysis(buildFallbackAnalysis()).errorCount, 0)
+})
@@ -0,0 +1,441 @@
+import { PerceptionAnalysis } from './types.ts'
+import { GARMENT_TYPES, normalizeGarmentType } from '../_shared/taxonomy.ts'
+import { CONTROLLED_STYLE_IDS, normalizeStyleId } from '../_shared/styles.ts'
+
+/**
+ * Runtime schema for the perception JSON returned by the vision model.
+ *
+ * The model output is never trusted as-is: every field is checked against the
+ * spec below, numbers are coerced/rescaled/clamped into range, enums are
+ * normalized, and missing sections are rebuilt from defaults. Each deviation is
+ * reported as a ValidationIssue so callers can decide whether to re-prompt and
+ * can log which fields the model gets wrong.
+ */
+
+// Garment types come from the shared taxonomy; synonyms ("tee", "trainers")
+// are mapped onto them rather than rejected
+export const GARMENT_CATEGORIES: readonly string[] = GARMENT_TYPES
+
+// The twelve controlled styles; older names ("dressy", "athletic") are mapped onto them
+export const STYLE_CATEGORIES: readonly string[] = [...CONTROLLED_STYLE_IDS, 'other']
+
+export const COLOR_SCHEMES = [
+  'monochromatic', 'analogous', 'complementary', 'split_complementary', 'triadic',
+  'neutral', 'contrasting', 'unknown',
+] as const
+
+export const TUCK_STATUSES = [
+  'tucked', 'untucked', 'half_tucked', 'french_tuck', 'not_applicable', 'unknown',
+] as const
+
+export type IssueCode =
+  | 'missing'
+  | 'type_mismatch'
+  | 'out_of_range'
+  | 'rescaled'
+  | 'coerced'
+  | 'invalid_enum'
+  | 'invalid_item'
+  | 'too_few_items'
+
+export interface ValidationIssue {
+  path: string;
+  code: IssueCode;
+  severity: 'error' | 'warning';
+  received?: string;
+  repaired_to?: unknown;
+}
+
+export interface ValidationResult {
+  value: PerceptionAnalysis;
+  issues: ValidationIssue[];
+  errorCount: number;
+}
+
+type FieldSpec =
+  | { kind: 'number'; min: number; max: number; fallback: number; integer?: boolean; optional?: boolean }
+  | { kind: 'string'; fallback: string; optional?: boolean }
+  | { kind: 'enum'; values: readonly string[]; fallback: string; optional?: boolean; normalize?: (value: string) => string | null }
+  | { kind: 'array'; items: FieldSpec; minItems?: number; optional?: boolean }
+  | { kind: 'object'; fields: Record<string, FieldSpec>; passthrough?: boolean; optional?: boolean }
+  | { kind: 'record'; values: FieldSpec; optional?: boolean }
+  | { kind: 'any'; optional?: boolean }
+
+const score = (): FieldSpec => ({ kind: 'number', min: 0, max: 100, fallback: 50, integer: true })
+const ratio = (fallback = 0.5): FieldSpec => ({ kind: 'number', min: 0, max: 1, fallback })
+const text = (fallback = 'unknown', optional = false): FieldSpec => ({ kind: 'string', fallback, optional })
+const oneOf = (
+  values: readonly string[],
+  fallback: string,
+  normalize?: (value: string) => string | null
+): FieldSpec => ({ kind: 'enum', values, fallback, normalize })
+const list = (items: FieldSpec, minItems = 0): FieldSpec => ({ kind: 'array', items, minItems })
+const obj = (fields: Record<string, FieldSpec>, passthrough = false): FieldSpec => ({ kind: 'object', fields, passthrough })
+
+// Scores are deliberately absent: any the model volunteers are dropped and
+// recomputed by the scoring engine.
+const PERCEPTION_SCHEMA: FieldSpec = obj({
+  style_category: oneOf(STYLE_CATEGORIES, 'other', normalizeStyleId),
+  detailed_feedback: obj({
+    strengths: list(text()),
+    improvements: list(text()),
+    style_alignment: text(''),
+  }),
+  items_detected: list(obj({
+    category: oneOf(GARMENT_CATEGORIES, 'other', normalizeGarmentType),
+    description: text(''),
+    fit_assessment: text(),
+  })),
+  garment_detection: list(obj({
+    item_id: text('item'),
+    category: oneOf(GARMENT_CATEGORIES, 'other', normalizeGarmentType),
+    attributes: obj({
+      fit: text(),
+      color: text(),
+      pattern: text(),
+      material: text(),
+      length: text('', true),
+      sleeve_length: text('', true),
+      neckline: text('', true),
+      waistline: text('', true),
+      hem_treatment: text('', true),
+      layer_order: { kind: 'number', min: 0, max: 10, fallback: 0, integer: true, optional: true },
+    }, true),
+    confidence_scores: { kind: 'record', values: ratio() },
+  }), 1),
+  outfit_assessment: obj({
+    proportions: obj({
+      top_length_ratio: ratio(),
+      silhouette_shape: text(),
+    }),
+    layering: obj({
+      weight_order: list(text()),
+      hem_order: list(text()),
+    }),
+    color_analysis: obj({
+      palette: list(text()),
+      scheme: oneOf(COLOR_SCHEMES, 'unknown'),
+      outliers: list(text()),
+    }),
+    formality_level: obj({
+      score: score(),
+      reasoning: text(''),
+    }),
+    micro_adjustments: obj({
+      tuck_status: oneOf(TUCK_STATUSES, 'unknown'),
+      sleeves: text(),
+      cuffs: text(),
+    }),
+  }),
+  recommendations: obj({
+    minor_adjustments: list(text()),
+    detected_closet_items: list(obj({
+      category: oneOf(GARMENT_CATEGORIES, 'other', normalizeGarmentType),
+      attributes: { kind: 'any' },
+      confidence: ratio(),
+    })),
+    closet_recommendations: list(text()),
+    new_item_suggestions: list(text()),
+  }),
+  confidence_flags: list(text()),
+  analysis_completeness: { kind: 'number', min: 0, max: 100, fallback: 50, integer: true },
+})
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'undefined'
+  const json = JSON.stringify(value) ?? String(value)
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const enumKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Build the default value for a spec without recording any issues.
+ */
+const buildDefault = (spec: FieldSpec): unknown => {
+  switch (spec.kind) {
+    case 'number':
+    case 'string':
+    case 'enum':
+      return spec.fallback
+    case 'array':
+      return []
+    case 'record':
+      return {}
+    case 'any':
+      return {}
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      for (const [key, fieldSpec] of Object.entries(spec.fields)) {
+        if (!fieldSpec.optional) {
+          result[key] = buildDefault(fieldSpec)
+        }
+      }
+      return result
+    }
+  }
+}
+
+const repairNumber = (
+  spec: Extract<FieldSpec, { kind: 'number' }>,
+  input: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): number => {
+  let value: number
+
+  if (typeof input === 'number' && Number.isFinite(input)) {
+    value = input
+  } else if (typeof input === 'string' && Number.isFinite(parseFloat(input.replace('%', '')))) {
+    value = parseFloat(input.replace('%', ''))
+    issues.push({ path, code: 'coerced', severity: 'warning', received: describe(input), repaired_to: value })
+  } else {
+    issues.push({ path, code: 'type_mismatch', severity: 'error', received: describe(input), repaired_to: spec.fallback })
+    return spec.fallback
+  }
+
+  // The model regularly mixes up 0-1 and 0-100 scales
+  if (spec.max === 100 && value > 0 && value < 1) {
+    issues.push({ path, code: 'rescaled', severity: 'warning', received: describe(value), repaired_to: value * 100 })
+    value = value * 100
+  } else if (spec.max === 1 && value > 1 && value <= 100) {
+    issues.push({ path, code: 'rescaled', severity: 'warning', received: describe(value), repaired_to: value / 100 })
+    value = value / 100
+  }
+
+  if (value < spec.min || value > spec.max) {
+    const clamped = Math.max(spec.min, Math.min(spec.max, value))
+    issues.push({ path, code: 'out_of_range', severity: 'warning', received: describe(value), repaired_to: clamped })
+    value = clamped
+  }
+
+  return spec.integer ? Math.round(value) : value
+}
+
+const repairValue = (spec: FieldSpec, input: unknown, path: string, issues: ValidationIssue[]): unknown => {
+  if (input === undefined || input === null) {
+    if (spec.optional) return undefined
+    issues.push({ path, code: 'missing', severity: 'error' })
+    return buildDefault(spec)
+  }
+
+  switch (spec.kind) {
+    case 'any':
+      return input
+
+    case 'number':
+      return repairNumber(spec, input, path, issues)
+
+    case 'string':
+      if (typeof input === 'string') return input
+      if (typeof input === 'number' || typeof input === 'boolean') {
+        issues.push({ path, code: 'coerced', severity: 'warning', received: describe(input), repaired_to: String(input) })
+        return String(input)
+      }
+      issues.push({ path, code: 'type_mismatch', severity: 'error', received: describe(input), repaired_to: spec.fallback })
+      return spec.fallback
+
+    case 'enum': {
+      if (typeof input !== 'string') {
+        issues.push({ path, code: 'type_mismatch', severity: 'error', received: describe(input), repaired_to: spec.fallback })
+        return spec.fallback
+      }
+      const match = spec.values.find(allowed => enumKey(allowed) === enumKey(input))
+      if (match) return match
+      const normalized = spec.normalize?.(input)
+      if (normalized && spec.values.includes(normalized)) {
+        issues.push({ path, code: 'coerced', severity: 'warning', received: describe(input), repaired_to: normalized })
+        return normalized
+      }
+      issues.push({ path, code: 'invalid_enum', severity: 'warning', received: describe(input), repaired_to: spec.fallback })
+      return spec.fallback
+    }
+
+    case 'array': {
+      if (!Array.isArray(input)) {
+        issues.push({ path, code: 'type_mismatch', severity: 'error', received: describe(input), repaired_to: [] })
+        return []
+      }
+      const items: unknown[] = []
+      input.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`
+        if (spec.items.kind === 'object' && !isPlainObject(item)) {
+          issues.push({ path: itemPath, code: 'invalid_item', severity: 'warning', received: describe(item) })
+          return
+        }
+        items.push(repairValue(spec.items, item, itemPath, issues))
+      })
+      if (spec.minItems && items.length < spec.minItems) {
+        issues.push({ path, code: 'too_few_items', severity: 'error', received: describe(input) })
+      }
+      return items
+    }
+
+    case 'record': {
+      if (!isPlainObject(input)) {
+        issues.push({ path, code: 'type_mismatch', severity: 'error', received: describe(input), repaired_to: {} })
+        return {}
+      }
+      const result: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(input)) {
+        result[key] = repairValue(spec.values, value, `${path}.${key}`, issues)
+      }
+      return result
+    }
+
+    case 'object': {
+      if (!isPlainObject(input)) {
+        issues.push({ path, code: 'type_mismatch', severity: 'error', received: describe(input) })
+        return buildDefault(spec)
+      }
+      const result: Record<string, unknown> = spec.passthrough ? { ...input } : {}
+      for (const [key, fieldSpec] of Object.entries(spec.fields)) {
+        const repaired = repairValue(fieldSpec, input[key], path ? `${path}.${key}` : key, issues)
+        if (repaired === undefined) {
+          delete result[key]
+        } else {
+          result[key] = repaired
+        }
+      }
+      return result
+    }
+  }
+}
+
+/**
+ * Extract the JSON object from a model reply (which may be wrapped in
+ * markdown fences or surrounded by prose). Returns null if nothing parses.
+ */
+export const parseModelJson = (responseText: string): unknown | null => {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) return null
+
+  try {
+    return JSON.parse(jsonMatch[0])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Older prompts returned only the flat OutfitAnalysis shape. Seed garment
+ * detections from items_detected so the scoring engine has something to work with.
+ */
+const upgradeLegacyAnalysis = (parsed: Record<string, any>): Record<string, any> => {
+  if (parsed.garment_detection || !Array.isArray(parsed.items_detected)) return parsed
+
+  return {
+    ...parsed,
+    garment_detection: parsed.items_detected.map((item: any, index: number) => ({
+      item_id: `item_${index}`,
+      category: item?.category,
+      attributes: {
+        fit: item?.fit_assessment,
+        color: 'unknown',
+        pattern: 'unknown',
+        material: 'unknown'
+      },
+      confidence_scores: { fit: 0.7, color: 0.5, pattern: 0.5 }
+    })),
+    confidence_flags: [...(Array.isArray(parsed.confidence_flags) ? parsed.confidence_flags : []), 'Converted from legacy format'],
+  }
+}
+
+/**
+ * Validate and field-by-field repair a parsed model response.
+ */
+export const validatePerceptionAnalysis = (parsed: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = []
+  const input = isPlainObject(parsed) ? upgradeLegacyAnalysis(parsed) : parsed
+  const value = repairValue(PERCEPTION_SCHEMA, input, '', issues) as PerceptionAnalysis
+
+  return {
+    value,
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length
+  }
+}
+
+/**
+ * Follow-up prompt asking the model to fix its previous reply.
+ */
+export const buildRepairPrompt = (validation: ValidationResult | null): string => {
+  if (!validation) {
+    return 'Your previous reply did not contain a parseable JSON object. Return ONLY the JSON object with the exact structure requested, with no markdown or commentary.'
+  }
+
+  const problems = validation.issues
+    .filter(issue => issue.severity === 'error')
+    .slice(0, 20)
+    .map(issue => `- ${issue.path || '(root)'}: ${issue.code}${issue.received ? ` (got ${issue.received})` : ''}`)
+    .join('\n')
+
+  return `Your previous reply failed schema validation:
+${problems}
+
+Return ONLY the corrected JSON object with every required field present. The formality score is an integer 0-100, confidences and ratios are numbers 0-1. Do not add commentary.`
+}
+
+export const buildFallbackAnalysis = (): PerceptionAnalysis => ({
+  style_category: 'other',
+  detailed_feedback: {
+    strengths: ['Good outfit choice'],
+    improvements: ['Analysis parsing failed - please try again'],
+    style_alignment: 'Unable to fully analyze due to technical issue'
+  },
+  items_detected: [{
+    category: 'other',
+    description: 'Full outfit visible',
+    fit_assessment: 'Unable to assess due to parsing error'
+  }],
+  garment_detection: [{
+    item_id: 'fallback_item',
+    category: 'other',
+    attributes: {
+      fit: 'unknown',
+      color: 'unknown',
+      pattern: 'unknown',
+      material: 'unknown'
+    },
+    confidence_scores: {
+      fit: 0.1,
+      color: 0.1,
+      pattern: 0.1
+    }
+  }],
+  outfit_assessment: {
+    proportions: {
+      top_length_ratio: 0.5,
+      silhouette_shape: 'unknown'
+    },
+    layering: {
+      weight_order: [],
+      hem_order: []
+    },
+    color_analysis: {
+      palette: [],
+      scheme: 'unknown',
+      outliers: []
+    },
+    formality_level: {
+      score: 70,
+      reasoning: 'Fallback assessment - analysis failed'
+    },
+    micro_adjustments: {
+      tuck_status: 'unknown',
+      sleeves: 'unknown',
+      cuffs: 'unknown'
+    }
+  },
+  recommendations: {
+    minor_adjustments: ['Please retry analysis'],
+    detected_closet_items: [],
+    closet_recommendations: [],
+    new_item_suggestions: []
+  },
+  confidence_flags: ['Analysis parsing failed', 'Using fallback data'],
+  analysis_completeness: 10
+})
@@ -0,0 +1,120 @@
+import { PersonaAlignment, ScoreBreakdown } from '../_shared/scoring.ts'
+
+export interface AnalysisRequest {
+  outfitId: string;
+  imagePath: string;
+  userId: string;
+  // Raw profiles.personal_styles entries; jobs queued before personal styles
+  // only carry userStylePreferences (style ids)
+  personalStyles?: unknown[];
+  userStylePreferences?: string[];
+  // Raw outfit context (occasion, dress code, setting, note); see normalizeOutfitContext
+  context?: unknown;
+  jobId?: string; // set when invoked by analysis-worker
+}
+
+export interface OutfitAnalysis {
+  overall_score: number;
+  style_category: string;
+  style_score: number;
+  fit_score: number;
+  color_score: number;
+  occasion_appropriateness: number;
+  detailed_feedback: {
+    strengths: string[];
+    improvements: string[];
+    style_alignment: string;
+  };
+  items_detected: {
+    category: string;
+    description: string;
+    fit_assessment: string;
+  }[];
+}
+
+export interface ClinicalAnalysis extends OutfitAnalysis {
+  sub_scores: {
+    proportion_silhouette: number;
+    fit_technical: number;
+    color_harmony: number;
+    pattern_texture: number;
+    layering_logic: number;
+    formality_occasion: number;
+    footwear_cohesion: number;
+  };
+  garment_detection: {
+    item_id: string;
+    category: string;
+    attributes: {
+      fit: string;
+      color: string;
+      pattern: string;
+      material: string;
+      length?: string;
+      sleeve_length?: string;
+      neckline?: string;
+      waistline?: string;
+      hem_treatment?: string;
+      layer_order?: number;
+    };
+    confidence_scores: {
+      [key: string]: number;
+    };
+  }[];
+  outfit_assessment: {
+    proportions: {
+      top_length_ratio: number;
+      silhouette_shape: string;
+    };
+    layering: {
+      weight_order: string[];
+      hem_order: string[];
+    };
+    color_analysis: {
+      palette: string[];
+      scheme: string;
+      outliers: string[];
+    };
+    formality_level: {
+      score: number;
+      reasoning: string;
+    };
+    micro_adjustments: {
+      tuck_status: string;
+      sleeves: string;
+      cuffs: string;
+    };
+  };
+  recommendations: {
+    minor_adjustments: string[];
+    detected_closet_items: {
+      category: string;
+      attributes: any;
+      confidence: number;
+    }[];
+    closet_recommendations: string[];
+    new_item_suggestions: string[];
+  };
+  confidence_flags: string[];
+  analysis_completeness: number;
+  score_breakdown?: ScoreBreakdown;
+  improvement_areas?: string[];
+  persona_alignment?: PersonaAlignment[];
+}
+
+/**
+ * What the vision model is asked for: perception only. All scores are
+ * computed afterwards by the scoring engine in _shared/scoring.ts.
+ */
+export type PerceptionAnalysis = Omit<
+  ClinicalAnalysis,
+  | 'overall_score'
+  | 'style_score'
+  | 'fit_score'
+  | 'color_score'
+  | 'occasion_appropriateness'
+  | 'sub_scores'
+  | 'score_breakdown'
+  | 'improvement_areas'
+  | 'persona_alignment'
+>
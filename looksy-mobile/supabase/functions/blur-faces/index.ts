@@ -0,0 +1,209 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { downloadImage, uploadJpeg } from '../_shared/images.ts'
+import { createFaceDetector, FaceDetector } from '../_shared/faces/index.ts'
+import { pixelateFaces } from './pixelate.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const ORIGINALS_BUCKET = 'private-uploads'
+const DISPLAY_BUCKET = 'user-display-images'
+const DISPLAY_JPEG_QUALITY = 85
+
+interface BlurRequest {
+  outfitId?: string;
+  closetItemId?: string;
+}
+
+interface BlurredImage {
+  path: string;
+  facesBlurred: number;
+}
+
+/**
+ * Whether the user wants faces blurred (profiles.privacy_settings.blur_faces,
+ * on unless explicitly turned off)
+ */
+const shouldBlurFaces = async (supabaseClient: SupabaseClient, userId: string): Promise<boolean> => {
+  const { data, error } = await supabaseClient
+    .from('profiles')
+    .select('privacy_settings')
+    .eq('id', userId)
+    .single()
+
+  if (error) {
+    console.error('Failed to load privacy settings, blurring by default:', error)
+    return true
+  }
+
+  return data?.privacy_settings?.blur_faces !== false
+}
+
+/**
+ * Detect and pixelate faces in one original, then store the result in the
+ * display bucket under the same path
+ */
+const blurImage = async (
+  supabaseClient: SupabaseClient,
+  faceDetector: FaceDetector,
+  originalPath: string
+): Promise<BlurredImage> => {
+  const image = await downloadImage(supabaseClient, ORIGINALS_BUCKET, originalPath)
+
+  const { data: signedUrlData, error: signedUrlError } = await supabaseClient.storage
+    .from(ORIGINALS_BUCKET)
+    .createSignedUrl(originalPath, 300)
+
+  if (signedUrlError) {
+    throw new Error(`Failed to get signed URL: ${signedUrlError.message}`)
+  }
+
+  const faces = await faceDetector.detect({
+    imageUrl: signedUrlData.signedUrl,
+    width: image.width,
+    height: image.height
+  })
+
+  console.log(`🙈 ${faceDetector.name} found ${faces.length} face(s) in ${originalPath}`)
+  pixelateFaces(image, faces)
+
+  await uploadJpeg(supabaseClient, DISPLAY_BUCKET, originalPath, image, DISPLAY_JPEG_QUALITY)
+
+  return { path: originalPath, facesBlurred: faces.length }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+
+    // The function writes with the service role, so the caller must own the target
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Not authenticated' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      )
+    }
+
+    const { outfitId, closetItemId } = await req.json() as BlurRequest
+
+    if (!outfitId && !closetItemId) {
+      throw new Error('outfitId or closetItemId is required')
+    }
+
+    console.log('Blurring faces:', { outfitId, closetItemId })
+
+    const table = outfitId ? 'outfits' : 'closet_items'
+    const { data: target, error: targetError } = await supabaseClient
+      .from(table)
+      .select('*')
+      .eq('id', outfitId || closetItemId)
+      .single()
+
+    if (targetError || !target) {
+      throw new Error(`Failed to load ${table} record: ${targetError?.message}`)
+    }
+
+    if (target.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({ success: false, error: `The ${table} record does not belong to this user` }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403
+        }
+      )
+    }
+
+    const originalPaths: string[] = outfitId
+      ? [target.original_image_path].filter(Boolean)
+      : target.image_paths || []
+
+    if (originalPaths.length === 0) {
+      throw new Error('No original image to blur')
+    }
+
+    if (!await shouldBlurFaces(supabaseClient, target.user_id)) {
+      console.log('⏭️ Face blurring disabled in privacy settings, skipping')
+      return new Response(
+        JSON.stringify({ success: true, skipped: true }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      )
+    }
+
+    const faceDetector = createFaceDetector('blur-faces')
+    const blurred: BlurredImage[] = []
+    for (const originalPath of originalPaths) {
+      blurred.push(await blurImage(supabaseClient, faceDetector, originalPath))
+    }
+
+    const blurMetadata = {
+      detector: faceDetector.name,
+      faces_blurred: blurred.reduce((total, image) => total + image.facesBlurred, 0),
+      blurred_at: new Date().toISOString()
+    }
+
+    const { error: updateError } = await supabaseClient
+      .from(table)
+      .update(outfitId
+        ? { blurred_image_path: blurred[0].path, blur_metadata: blurMetadata }
+        : { blurred_image_paths: blurred.map(image => image.path), blur_metadata: blurMetadata })
+      .eq('id', outfitId || closetItemId)
+
+    if (updateError) {
+      throw new Error(`Failed to record blurred image: ${updateError.message}`)
+    }
+
+    console.log(`🎯 Blurred ${blurMetadata.faces_blurred} face(s) across ${blurred.length} image(s)`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        outfitId,
+        closetItemId,
+        blurredImagePaths: blurred.map(image => image.path),
+        facesBlurred: blurMetadata.faces_blurred,
+        detector: faceDetector.name
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error: any) {
+    console.error('Error in blur-faces function:', error)
+
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to blur faces',
+        success: false
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,50 @@
+import { Image } from '../_shared/images.ts'
+import { FaceBox } from '../_shared/faces/index.ts'
+
+// Grow each box so hairlines and jaw edges are covered too
+const FACE_PADDING = 0.2
+// Blocks per face width; low enough that a face cannot be recognised
+const BLOCKS_PER_FACE = 6
+
+/**
+ * Pixelate each face region in place. Pixelation is used rather than a
+ * gaussian blur because it cannot be reversed by sharpening.
+ */
+export const pixelateFaces = (image: Image, faces: FaceBox[]) => {
+  const { width, height, bitmap } = image
+
+  for (const face of faces) {
+    const padX = ((face.x2 - face.x1) / 100) * width * FACE_PADDING
+    const padY = ((face.y2 - face.y1) / 100) * height * FACE_PADDING
+    const left = Math.max(0, Math.floor((face.x1 / 100) * width - padX))
+    const top = Math.max(0, Math.floor((face.y1 / 100) * height - padY))
+    const right = Math.min(width, Math.ceil((face.x2 / 100) * width + padX))
+    const bottom = Math.min(height, Math.ceil((face.y2 / 100) * height + padY))
+
+    const blockSize = Math.max(4, Math.ceil((right - left) / BLOCKS_PER_FACE))
+
+    for (let blockY = top; blockY < bottom; blockY += blockSize) {
+      for (let blockX = left; blockX < right; blockX += blockSize) {
+        const blockRight = Math.min(blockX + blockSize, right)
+        const blockBottom = Math.min(blockY + blockSize, bottom)
+        const totals = [0, 0, 0, 0]
+        let count = 0
+
+        for (let y = blockY; y < blockBottom; y++) {
+          for (let x = blockX; x < blockRight; x++) {
+            const offset = (y * width + x) * 4
+            for (let channel = 0; channel < 4; channel++) totals[channel] += bitmap[offset + channel]
+            count++
+          }
+        }
+
+        for (let y = blockY; y < blockBottom; y++) {
+          for (let x = blockX; x < blockRight; x++) {
+            const offset = (y * width + x) * 4
+            for (let channel = 0; channel < 4; channel++) bitmap[offset + channel] = Math.round(totals[channel] / count)
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Every bucket keeps a user's objects under a "<user id>/" prefix
+const USER_BUCKETS = ['private-uploads', 'user-display-images', 'data-exports']
+// Tables removed by the cascade from profiles, counted for the receipt
+const CASCADED_TABLES = ['closet_items', 'outfits', 'outfit_scores', 'analysis_jobs', 'data_exports', 'wear_events', 'style_feedback', 'personal_style_history']
+const STORAGE_PAGE_SIZE = 1000
+const ID_CHUNK_SIZE = 100
+
+interface AccountDeletion {
+  id: string;
+  user_id: string;
+  requested_at: string;
+  scheduled_for: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface DeletionReceipt {
+  user_id: string;
+  requested_at: string;
+  completed_at: string;
+  storage_objects_deleted: Record<string, number>;
+  rows_deleted: Record<string, number>;
+  auth_user_deleted: boolean;
+}
+
+const chunk = <T>(values: T[], size: number): T[][] => {
+  const chunks: T[][] = []
+  for (let start = 0; start < values.length; start += size) {
+    chunks.push(values.slice(start, start + size))
+  }
+  return chunks
+}
+
+/**
+ * All object paths under a prefix. Storage lists one folder level at a time;
+ * folders come back without an id.
+ */
+const listObjectPaths = async (supabaseClient: SupabaseClient, bucket: string, prefix: string): Promise<string[]> => {
+  const paths: string[] = []
+
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabaseClient.storage
+      .from(bucket)
+      .list(prefix, { limit: STORAGE_PAGE_SIZE, offset })
+
+    if (error) {
+      throw new Error(`Failed to list ${bucket}/${prefix}: ${error.message}`)
+    }
+
+    for (const entry of data || []) {
+      const path = `${prefix}/${entry.name}`
+      if (entry.id === null) {
+        paths.push(...await listObjectPaths(supabaseClient, bucket, path))
+      } else {
+        paths.push(path)
+      }
+    }
+
+    if (!data || data.length < STORAGE_PAGE_SIZE) break
+  }
+
+  return paths
+}
+
+const deleteStorage = async (supabaseClient: SupabaseClient, userId: string): Promise<Record<string, number>> => {
+  const deleted: Record<string, number> = {}
+
+  for (const bucket of USER_BUCKETS) {
+    const paths = await listObjectPaths(supabaseClient, bucket, userId)
+
+    for (const batch of chunk(paths, ID_CHUNK_SIZE)) {
+      const { error } = await supabaseClient.storage.from(bucket).remove(batch)
+      if (error) {
+        throw new Error(`Failed to delete objects in ${bucket}: ${error.message}`)
+      }
+    }
+
+    deleted[bucket] = paths.length
+  }
+
+  return deleted
+}
+
+/**
+ * Delete rows matching any of `values` in one column, returning how many went
+ */
+const deleteRows = async (
+  supabaseClient: SupabaseClient,
+  table: string,
+  column: string,
+  values: string[]
+): Promise<number> => {
+  let deleted = 0
+
+  for (const batch of chunk(values, ID_CHUNK_SIZE)) {
+    const { count, error } = await supabaseClient
+      .from(table)
+      .delete({ count: 'exact' })
+      .in(column, batch)
+
+    if (error) {
+      throw new Error(`Failed to delete ${table}: ${error.message}`)
+    }
+    deleted += count || 0
+  }
+
+  return deleted
+}
+
+const countRows = async (supabaseClient: SupabaseClient, table: string, userId: string): Promise<number> => {
+  const { count, error } = await supabaseClient
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error(`Failed to count ${table} rows:`, error)
+    return 0
+  }
+  return count || 0
+}
+
+/**
+ * Remove everything for one user and return the receipt
+ */
+const deleteAccount = async (supabaseClient: SupabaseClient, deletion: AccountDeletion): Promise<DeletionReceipt> => {
+  const userId = deletion.user_id
+  const rowsDeleted: Record<string, number> = {}
+
+  for (const table of CASCADED_TABLES) {
+    rowsDeleted[table] = await countRows(supabaseClient, table, userId)
+  }
+
+  const storageDeleted = await deleteStorage(supabaseClient, userId)
+
+  const { data: extractions } = await supabaseClient.from('photo_extractions').select('id').eq('user_id', userId)
+  const extractionIds = (extractions || []).map((extraction: any) => extraction.id)
+
+  // audit_logs.user_id is SET NULL on delete; logs tied to an outfit go with its cascade
+  rowsDeleted.audit_logs = await deleteRows(supabaseClient, 'audit_logs', 'user_id', [userId])
+  rowsDeleted.extracted_clothing_items = await deleteRows(supabaseClient, 'extracted_clothing_items', 'photo_extraction_id', extractionIds)
+  rowsDeleted.photo_extractions = await deleteRows(supabaseClient, 'photo_extractions', 'id', extractionIds)
+
+  // Cascades to profiles and from there to every user-owned table
+  const { error: authError } = await supabaseClient.auth.admin.deleteUser(userId)
+  if (authError) {
+    throw new Error(`Failed to delete auth user: ${authError.message}`)
+  }
+  rowsDeleted.profiles = 1
+
+  return {
+    user_id: userId,
+    requested_at: deletion.requested_at,
+    completed_at: new Date().toISOString(),
+    storage_objects_deleted: storageDeleted,
+    rows_deleted: rowsDeleted,
+    auth_user_deleted: true
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+
+    const { data: due, error: claimError } = await supabaseClient.rpc('claim_due_account_deletions')
+    if (claimError) {
+      throw new Error(`Failed to claim account deletions: ${claimError.message}`)
+    }
+
+    const deletions = (due || []) as AccountDeletion[]
+    console.log(`🗑️ ${deletions.length} account deletions due`)
+
+    const outcomes = []
+    for (const deletion of deletions) {
+      try {
+        const receipt = await deleteAccount(supabaseClient, deletion)
+
+        await supabaseClient
+          .from('account_deletions')
+          .update({ status: 'completed', completed_at: receipt.completed_at, receipt })
+          .eq('id', deletion.id)
+
+        console.log(`✅ Deleted account ${deletion.user_id}:`, receipt.rows_deleted)
+        outcomes.push({ deletionId: deletion.id, status: 'completed' })
+      } catch (deletionError: any) {
+        console.error(`❌ Account deletion ${deletion.id} failed (attempt ${deletion.attempts}/${deletion.max_attempts}):`, deletionError)
+
+        // Back to the queue so the next run retries (deleting is idempotent),
+        // until the attempts run out
+        const status = deletion.attempts >= deletion.max_attempts ? 'failed' : 'scheduled'
+        await supabaseClient
+          .from('account_deletions')
+          .update({ status, error: deletionError.message || 'Deletion failed' })
+          .eq('id', deletion.id)
+
+        outcomes.push({ deletionId: deletion.id, status, error: deletionError.message })
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: outcomes
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error: any) {
+    console.error('Error in delete-accounts function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Failed to process account deletions'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,354 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { makeZip } from 'https://esm.sh/client-zip@2.5.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const EXPORTS_BUCKET = 'data-exports'
+const EXPORT_TTL_DAYS = 7
+const DOWNLOAD_URL_TTL_SECONDS = 24 * 60 * 60
+// An export still 'processing' after this long lost its function run
+const STALE_EXPORT_MINUTES = 15
+// Bump when the archive layout or manifest fields change
+const MANIFEST_VERSION = 1
+// Keeps .in() filters well under PostgREST's URL length limit
+const ID_CHUNK_SIZE = 100
+
+interface ExportedImage {
+  bucket: string;
+  path: string;
+  archive_path: string | null; // null when the object no longer exists
+  source: string; // "<table>.<column>"
+}
+
+/**
+ * Rows from a table filtered by one column, chunking the value list
+ */
+const selectRows = async (
+  supabaseClient: SupabaseClient,
+  table: string,
+  column: string,
+  values: string[]
+): Promise<any[]> => {
+  const rows: any[] = []
+
+  for (let start = 0; start < values.length; start += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseClient
+      .from(table)
+      .select('*')
+      .in(column, values.slice(start, start + ID_CHUNK_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`)
+    }
+    rows.push(...(data || []))
+  }
+
+  return rows
+}
+
+/**
+ * Everything tied to a user, keyed by table name
+ */
+const collectUserData = async (supabaseClient: SupabaseClient, userId: string): Promise<Record<string, any[]>> => {
+  const profiles = await selectRows(supabaseClient, 'profiles', 'id', [userId])
+  const closetItems = await selectRows(supabaseClient, 'closet_items', 'user_id', [userId])
+  const outfits = await selectRows(supabaseClient, 'outfits', 'user_id', [userId])
+  const outfitScores = await selectRows(supabaseClient, 'outfit_scores', 'user_id', [userId])
+  const photoExtractions = await selectRows(supabaseClient, 'photo_extractions', 'user_id', [userId])
+  const wearEvents = await selectRows(supabaseClient, 'wear_events', 'user_id', [userId])
+  const styleFeedback = await selectRows(supabaseClient, 'style_feedback', 'user_id', [userId])
+  const personalStyleHistory = await selectRows(supabaseClient, 'personal_style_history', 'user_id', [userId])
+
+  const outfitIds = outfits.map(outfit => outfit.id)
+  const extractionIds = photoExtractions.map(extraction => extraction.id)
+
+  return {
+    profiles,
+    closet_items: closetItems,
+    outfits,
+    outfit_scores: outfitScores,
+    garment_detection: await selectRows(supabaseClient, 'garment_detection', 'outfit_id', outfitIds),
+    outfit_assessment: await selectRows(supabaseClient, 'outfit_assessment', 'outfit_id', outfitIds),
+    outfit_recommendations: await selectRows(supabaseClient, 'outfit_recommendations', 'outfit_id', outfitIds),
+    photo_extractions: photoExtractions,
+    extracted_clothing_items: await selectRows(supabaseClient, 'extracted_clothing_items', 'photo_extraction_id', extractionIds),
+    wear_events: wearEvents,
+    style_feedback: styleFeedback,
+    personal_style_history: personalStyleHistory
+  }
+}
+
+/**
+ * Storage objects referenced by the exported rows
+ */
+const listImages = (data: Record<string, any[]>): Omit<ExportedImage, 'archive_path'>[] => {
+  const images: Omit<ExportedImage, 'archive_path'>[] = []
+  const add = (bucket: string, source: string, paths: (string | null | undefined)[]) => {
+    for (const path of paths) {
+      if (path) images.push({ bucket, path, source })
+    }
+  }
+
+  for (const outfit of data.outfits) {
+    add('private-uploads', 'outfits.original_image_path', [outfit.original_image_path])
+    add('user-display-images', 'outfits.blurred_image_path', [outfit.blurred_image_path])
+  }
+  for (const item of data.closet_items) {
+    add('private-uploads', 'closet_items.image_paths', item.image_paths || [])
+    add('user-display-images', 'closet_items.blurred_image_paths', item.blurred_image_paths || [])
+  }
+  for (const extraction of data.photo_extractions) {
+    add('private-uploads', 'photo_extractions.original_image_path', [extraction.original_image_path])
+  }
+  for (const item of data.extracted_clothing_items) {
+    add('private-uploads', 'extracted_clothing_items.cropped_image_path', [item.cropped_image_path])
+    add('private-uploads', 'extracted_clothing_items.product_image_path', [item.product_image_path])
+  }
+
+  // The same object can be referenced from several rows
+  const seen = new Set<string>()
+  return images.filter(image => {
+    const key = `${image.bucket}/${image.path}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Archive entries, produced one at a time so only the image being added is
+ * in memory. Records each image in `images` as it goes; the manifest comes
+ * last so it can list them.
+ */
+async function* archiveEntries(
+  supabaseClient: SupabaseClient,
+  data: Record<string, any[]>,
+  images: ExportedImage[],
+  buildManifest: () => Record<string, unknown>
+) {
+  for (const [table, rows] of Object.entries(data)) {
+    yield { name: `data/${table}.json`, input: JSON.stringify(rows, null, 2) }
+  }
+
+  for (const image of listImages(data)) {
+    const { data: blob, error: downloadError } = await supabaseClient.storage
+      .from(image.bucket)
+      .download(image.path)
+
+    if (downloadError || !blob) {
+      // Purged originals are expected to be missing
+      images.push({ ...image, archive_path: null })
+      continue
+    }
+
+    const archivePath = `images/${image.bucket}/${image.path}`
+    images.push({ ...image, archive_path: archivePath })
+    yield { name: archivePath, input: blob }
+  }
+
+  yield { name: 'manifest.json', input: JSON.stringify({ ...buildManifest(), images }, null, 2) }
+}
+
+/**
+ * Delete archives past their expiry and mark their exports expired
+ */
+const expireOldExports = async (supabaseClient: SupabaseClient, userId: string) => {
+  const { data: expired, error } = await supabaseClient
+    .from('data_exports')
+    .select('id, archive_path')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .lt('expires_at', new Date().toISOString())
+
+  if (error || !expired || expired.length === 0) return
+
+  const archivePaths = expired.map((dataExport: any) => dataExport.archive_path).filter(Boolean)
+  if (archivePaths.length > 0) {
+    await supabaseClient.storage.from(EXPORTS_BUCKET).remove(archivePaths)
+  }
+
+  await supabaseClient
+    .from('data_exports')
+    .update({ status: 'expired', archive_path: null })
+    .in('id', expired.map((dataExport: any) => dataExport.id))
+
+  console.log(`🧹 Expired ${expired.length} old data exports`)
+}
+
+/**
+ * Fail exports whose function run died before finishing, so they no longer
+ * block a new export through idx_data_exports_active_user
+ */
+const failStaleExports = async (supabaseClient: SupabaseClient, userId: string) => {
+  const cutoff = new Date(Date.now() - STALE_EXPORT_MINUTES * 60 * 1000).toISOString()
+
+  const { data: stale, error } = await supabaseClient
+    .from('data_exports')
+    .update({ status: 'failed', error: 'Export timed out' })
+    .eq('user_id', userId)
+    .eq('status', 'processing')
+    .lt('requested_at', cutoff)
+    .select('id')
+
+  if (error) {
+    console.error('Failed to fail stale exports:', error)
+  } else if (stale && stale.length > 0) {
+    console.log(`♻️ Failed ${stale.length} stale data exports`)
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  let supabaseClient: SupabaseClient | null = null
+  let exportId: string | null = null
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+
+    // Exports contain everything about a user, so the user comes from the
+    // caller's JWT rather than the request body
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Not authenticated' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      )
+    }
+
+    const userId = user.id
+    console.log('Starting data export for user:', userId)
+
+    await expireOldExports(supabaseClient, userId)
+    await failStaleExports(supabaseClient, userId)
+
+    const { data: dataExport, error: insertError } = await supabaseClient
+      .from('data_exports')
+      .insert({ user_id: userId, status: 'processing' })
+      .select()
+      .single()
+
+    if (insertError) {
+      // Unique violation: an export is already running
+      throw new Error(insertError.code === '23505'
+        ? 'An export is already in progress'
+        : `Failed to create export: ${insertError.message}`)
+    }
+    exportId = dataExport.id
+
+    const data = await collectUserData(supabaseClient, userId)
+    const images: ExportedImage[] = []
+    const generatedAt = new Date().toISOString()
+    const expiresAt = new Date(Date.now() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const buildManifest = () => ({
+      manifest_version: MANIFEST_VERSION,
+      export_id: exportId,
+      user_id: userId,
+      generated_at: generatedAt,
+      expires_at: expiresAt,
+      tables: Object.fromEntries(
+        Object.entries(data).map(([table, rows]) => [table, { file: `data/${table}.json`, rows: rows.length }])
+      ),
+      image_count: images.filter(image => image.archive_path).length,
+      missing_image_count: images.filter(image => !image.archive_path).length
+    })
+
+    // The zip is streamed into storage as it is written rather than built in memory
+    let archiveSize = 0
+    const archive = makeZip(archiveEntries(supabaseClient, data, images, buildManifest)).pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          archiveSize += chunk.length
+          controller.enqueue(chunk)
+        }
+      })
+    )
+    const archivePath = `${userId}/${exportId}.zip`
+
+    const { error: uploadError } = await supabaseClient.storage
+      .from(EXPORTS_BUCKET)
+      .upload(archivePath, archive, { contentType: 'application/zip', upsert: false, duplex: 'half' })
+
+    if (uploadError) {
+      throw new Error(`Failed to store export archive: ${uploadError.message}`)
+    }
+
+    // Every image has been added by now, so the counts are final
+    const manifestSummary = buildManifest()
+
+    const { data: completedExport, error: updateError } = await supabaseClient
+      .from('data_exports')
+      .update({
+        status: 'completed',
+        archive_path: archivePath,
+        archive_size_bytes: archiveSize,
+        manifest: manifestSummary,
+        completed_at: new Date().toISOString(),
+        expires_at: expiresAt
+      })
+      .eq('id', exportId)
+      .select()
+      .single()
+
+    if (updateError) {
+      throw new Error(`Failed to complete export: ${updateError.message}`)
+    }
+
+    const { data: signedUrlData } = await supabaseClient.storage
+      .from(EXPORTS_BUCKET)
+      .createSignedUrl(archivePath, DOWNLOAD_URL_TTL_SECONDS)
+
+    console.log(`📦 Data export ${exportId} completed: ${archiveSize} bytes, ${manifestSummary.image_count} images`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        export: completedExport,
+        downloadUrl: signedUrlData?.signedUrl || null
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error: any) {
+    console.error('Error in export-user-data function:', error)
+
+    if (supabaseClient && exportId) {
+      await supabaseClient
+        .from('data_exports')
+        .update({ status: 'failed', error: error.message || 'Export failed' })
+        .eq('id', exportId)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Failed to export user data'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
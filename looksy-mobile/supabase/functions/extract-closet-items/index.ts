@@ -1,17 +1,37 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createVisionProvider, VisionProvider } from '../_shared/vision/index.ts'
+import { hashStoredObject } from '../_shared/images.ts'
+import {
+  TAXONOMY_VERSION,
+  GARMENT_TYPES,
+  CLOSET_COLORS,
+  CLOSET_PATTERNS,
+  CLOSET_MATERIALS,
+  CLOSET_STYLE_TAGS,
+  CLOSET_SEASONS,
+  normalizeGarmentType,
+  normalizeItemAttributes
+} from '../_shared/taxonomy.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Bump whenever the prompt or expected output changes so cached results are not reused
+const EXTRACTION_PROMPT_VERSION = 'extraction-2'
+
 interface ExtractionRequest {
-  imagePath: string;
-  userId: string;
+  imagePath: string; // must be in the caller's own upload folder
   extractionType: 'outfit' | 'individual_items'; // outfit = multiple items, individual_items = single items
 }
 
+// Single-item attribute pass for a box the user drew or corrected
+interface ItemAttributesRequest {
+  itemId: string;
+}
+
 interface BoundingBox {
   x1: number;
   y1: number;
@@ -44,9 +64,30 @@ interface ExtractedItem {
   closet_suitability: number; // 0-1 score for how suitable this is for closet tracking
 }
 
+// Attribute values the prompts ask for, straight from the shared taxonomy
+const ATTRIBUTES_PROMPT = `        "color": "${CLOSET_COLORS.join('|')}",
+        "pattern": "${CLOSET_PATTERNS.join('|')}",
+        "material": "${CLOSET_MATERIALS.join('|')}",
+        "brand": "brand_if_visible",
+        "size_estimate": "XS|S|M|L|XL|estimated_size",
+        "style_tags": [<any of: ${CLOSET_STYLE_TAGS.map(tag => `"${tag}"`).join(', ')}>],
+        "formality_level": <1-100_number>,
+        "season_tags": [<any of: ${CLOSET_SEASONS.map(season => `"${season}"`).join(', ')}>]`
+
+/**
+ * Map a model's item onto the taxonomy: the finest known garment type and
+ * normalized attributes. The raw reply stays in photo_extractions.extraction_result.
+ */
+const normalizeExtractedItem = (item: any) => ({
+  ...item,
+  category: normalizeGarmentType(item.category) || 'other',
+  attributes: normalizeItemAttributes(item.attributes)
+})
+
 interface ExtractionResult {
   success: boolean;
   extraction_id: string;
+  source: string; // vision provider name, 'cache' or 'fallback'
   items: ExtractedItem[];
   processing_metadata: {
     image_dimensions: { width: number; height: number };
@@ -57,6 +98,158 @@ interface ExtractionResult {
   };
 }
 
+/**
+ * Find the parsed model reply of an earlier extraction of the same image for
+ * this user, made with the same prompt version and extraction type
+ */
+const findCachedExtraction = async (
+  supabaseClient: SupabaseClient,
+  userId: string,
+  imageHash: string,
+  cacheKey: string
+): Promise<{ extractionId: string; extractionData: any } | null> => {
+  const { data, error } = await supabaseClient
+    .from('photo_extractions')
+    .select('id, extraction_result')
+    .eq('user_id', userId)
+    .eq('image_hash', imageHash)
+    .eq('extraction_cache_key', cacheKey)
+    .eq('processing_status', 'completed')
+    .not('extraction_result', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to look up cached extraction:', error)
+    return null
+  }
+
+  return data ? { extractionId: data.id, extractionData: data.extraction_result } : null
+}
+
+/**
+ * Catalogue one extracted_clothing_items row from its bounding box. The model
+ * sees the whole photo and is told which region and category to describe;
+ * the box and category stay as the user set them.
+ */
+const describeItem = async (
+  supabaseClient: SupabaseClient,
+  visionProvider: VisionProvider,
+  { itemId }: ItemAttributesRequest,
+  userId: string
+) => {
+  const { data: item, error: itemError } = await supabaseClient
+    .from('extracted_clothing_items')
+    .select('*')
+    .eq('id', itemId)
+    .single()
+
+  if (itemError || !item) {
+    throw new Error(`Failed to load extracted item: ${itemError?.message}`)
+  }
+
+  const { data: extraction, error: extractionError } = await supabaseClient
+    .from('photo_extractions')
+    .select('user_id, original_image_path')
+    .eq('id', item.photo_extraction_id)
+    .single()
+
+  if (extractionError || !extraction) {
+    throw new Error(`Failed to load extraction: ${extractionError?.message}`)
+  }
+
+  if (extraction.user_id !== userId) {
+    throw new Error('Extracted item does not belong to this user')
+  }
+
+  if (!extraction.original_image_path) {
+    throw new Error('The original photo has already been deleted')
+  }
+
+  const { data: signedUrlData, error: signedUrlError } = await supabaseClient.storage
+    .from('private-uploads')
+    .createSignedUrl(extraction.original_image_path, 300)
+
+  if (signedUrlError) {
+    throw new Error(`Failed to get signed URL: ${signedUrlError.message}`)
+  }
+
+  const box: BoundingBox = item.bounding_box
+  console.log(`🔍 Calling ${visionProvider.name} vision provider for a single ${item.item_category} (${visionProvider.model})`)
+
+  // Same reply shape as a full extraction, with exactly one item
+  const { text: analysisText } = await visionProvider.complete({
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a professional wardrobe cataloging AI. Describe a single clothing item the user marked on a photo for digital closet management. Describe only what is inside the marked region.'
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: `The user marked a ${item.item_category} inside the bounding box x1=${box.x1}, y1=${box.y1}, x2=${box.x2}, y2=${box.y2} (percentages of the image width and height). Catalog that item with detailed attributes for wardrobe management.
+
+Return JSON with this exact structure:
+{
+  "items": [
+    {
+      "item_id": "manual_item",
+      "category": "${item.item_category}",
+      "description": "detailed_item_description",
+      "attributes": {
+${ATTRIBUTES_PROMPT}
+      },
+      "confidence_scores": {
+        "detection": <0.0-1.0>,
+        "isolation": <0.0-1.0>,
+        "attributes": <0.0-1.0>
+      },
+      "closet_suitability": <0.0-1.0>
+    }
+  ]
+}`
+          },
+          {
+            type: 'image',
+            url: signedUrlData.signedUrl
+          }
+        ]
+      }
+    ],
+    maxTokens: 800,
+    temperature: 0.3
+  })
+
+  const jsonMatch = analysisText.match(/\{[\s\S]*\}/)
+  const described = jsonMatch ? JSON.parse(jsonMatch[0]).items?.[0] : null
+
+  if (!described) {
+    throw new Error('No item description in vision model response')
+  }
+
+  const { data: updated, error: updateError } = await supabaseClient
+    .from('extracted_clothing_items')
+    .update({
+      ai_description: described.description,
+      item_attributes: normalizeItemAttributes(described.attributes),
+      taxonomy_version: TAXONOMY_VERSION,
+      confidence_scores: described.confidence_scores,
+      extraction_confidence: described.closet_suitability ?? item.extraction_confidence
+    })
+    .eq('id', itemId)
+    .select('*')
+    .single()
+
+  if (updateError) {
+    throw new Error(`Failed to save item attributes: ${updateError.message}`)
+  }
+
+  return updated
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -65,36 +258,87 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-    const openAIKey = Deno.env.get('OPENAI_API_KEY')
 
     if (!supabaseUrl || !serviceRoleKey) {
       throw new Error('Missing Supabase environment variables')
     }
 
-    if (!openAIKey) {
-      throw new Error('OPENAI_API_KEY not configured')
-    }
-
+    const visionProvider = createVisionProvider('extract-closet-items')
     const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
     const startTime = Date.now()
 
-    const { imagePath, userId, extractionType } = await req.json() as ExtractionRequest
-    
-    console.log('Starting closet item extraction:', { imagePath, userId, extractionType })
+    // The function writes with the service role, so the caller must own the item
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Not authenticated' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      )
+    }
+
+    const body = await req.json()
+
+    if (body.itemId) {
+      const item = await describeItem(supabaseClient, visionProvider, body as ItemAttributesRequest, user.id)
+      console.log(`🎯 Described item ${item.id} (${visionProvider.name})`)
+
+      return new Response(
+        JSON.stringify({ success: true, source: visionProvider.name, item }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      )
+    }
 
-    // Get signed URL for the image
-    const { data: signedUrlData, error: signedUrlError } = await supabaseClient.storage
-      .from('private-uploads')
-      .createSignedUrl(imagePath, 300)
+    const { imagePath, extractionType } = body as ExtractionRequest
+    const userId = user.id
 
-    if (signedUrlError) {
-      throw new Error(`Failed to get signed URL: ${signedUrlError.message}`)
+    if (!imagePath?.startsWith(`${userId}/`)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'The photo does not belong to this user' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403
+        }
+      )
     }
 
-    console.log('🔍 Calling OpenAI Vision API for item extraction')
+    // Hashed from the stored photo, never taken from the request
+    const imageHash = await hashStoredObject(supabaseClient, 'private-uploads', imagePath)
+
+    console.log('Starting closet item extraction:', { imagePath, userId, extractionType, imageHash })
+
+    // Reuse an earlier extraction of the same photo instead of another vision call
+    const extractionCacheKey = `${EXTRACTION_PROMPT_VERSION}:${extractionType}`
+    const cached = await findCachedExtraction(supabaseClient, userId, imageHash, extractionCacheKey)
+
+    let extractionData: any
+    let parsedReply = false
+
+    if (cached) {
+      console.log('♻️ Reusing cached extraction:', cached.extractionId)
+      extractionData = cached.extractionData
+      parsedReply = true
+    } else {
+      // Get signed URL for the image
+      const { data: signedUrlData, error: signedUrlError } = await supabaseClient.storage
+        .from('private-uploads')
+        .createSignedUrl(imagePath, 300)
+
+      if (signedUrlError) {
+        throw new Error(`Failed to get signed URL: ${signedUrlError.message}`)
+      }
+
+      console.log(`🔍 Calling ${visionProvider.name} vision provider for item extraction (${visionProvider.model})`)
     
-    // Enhanced prompt for item extraction and isolation
-    const systemPrompt = `You are a professional wardrobe cataloging AI. Your task is to extract individual clothing items from photos for digital closet management.
+      // Enhanced prompt for item extraction and isolation
+      const systemPrompt = `You are a professional wardrobe cataloging AI. Your task is to extract individual clothing items from photos for digital closet management.
 
 EXTRACTION PROCESS:
 1. DETECT: Identify each distinct clothing item
@@ -121,18 +365,11 @@ LAYERING EXAMPLES:
 
 OUTPUT: Professional tone, precise measurements, comprehensive attributes.`
 
-    const userPrompt = extractionType === 'outfit' 
-      ? `Extract all individual clothing items from this outfit photo for closet cataloging. Focus on main garments that can be cleanly separated and cataloged.`
-      : `Catalog this individual clothing item with detailed attributes for wardrobe management.`
+      const userPrompt = extractionType === 'outfit' 
+        ? `Extract all individual clothing items from this outfit photo for closet cataloging. Focus on main garments that can be cleanly separated and cataloged.`
+        : `Catalog this individual clothing item with detailed attributes for wardrobe management.`
 
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
+      const { text: analysisText } = await visionProvider.complete({
         messages: [
           {
             role: 'system',
@@ -150,7 +387,7 @@ Return JSON with this exact structure:
   "items": [
     {
       "item_id": "unique_identifier",
-      "category": "shirt|pants|dress|shoes|jacket|bag|hat|belt|scarf|jewelry|watch|necklace|bracelet|earrings|ring|etc",
+      "category": "${GARMENT_TYPES.join('|')}",
       "description": "detailed_item_description",
       "bounding_box": {
         "x1": <0-100_percentage>,
@@ -159,14 +396,7 @@ Return JSON with this exact structure:
         "y2": <0-100_percentage>
       },
       "attributes": {
-        "color": "primary_color",
-        "pattern": "solid|striped|plaid|floral|etc",
-        "material": "cotton|wool|polyester|etc",
-        "brand": "brand_if_visible",
-        "size_estimate": "XS|S|M|L|XL|estimated_size",
-        "style_tags": ["casual", "formal", "vintage", "etc"],
-        "formality_level": <1-100_number>,
-        "season_tags": ["spring", "summer", "fall", "winter", "all-season"]
+${ATTRIBUTES_PROMPT}
       },
       "confidence_scores": {
         "detection": <0.0-1.0>,
@@ -184,54 +414,46 @@ Return JSON with this exact structure:
 }`
               },
               {
-                type: 'image_url',
-                image_url: {
-                  url: signedUrlData.signedUrl
-                }
+                type: 'image',
+                url: signedUrlData.signedUrl
               }
             ]
           }
         ],
-        max_tokens: 3000,
+        maxTokens: 3000,
         temperature: 0.3 // Lower temperature for more consistent extraction
       })
-    })
-
-    if (!openAIResponse.ok) {
-      const errorText = await openAIResponse.text()
-      console.error(`OpenAI API Error: ${openAIResponse.status} - ${errorText}`)
-      throw new Error(`OpenAI API error: ${openAIResponse.status}`)
-    }
-
-    const openAIResult = await openAIResponse.json()
-    const analysisText = openAIResult.choices[0].message.content
     
-    console.log('✅ OpenAI extraction completed')
-    console.log('Raw response length:', analysisText.length)
-
-    // Parse the extraction results
-    let extractionData: any
-    try {
-      const jsonMatch = analysisText.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        extractionData = JSON.parse(jsonMatch[0])
-        console.log('✅ Successfully parsed extraction JSON')
-      } else {
-        throw new Error('No JSON found in OpenAI response')
-      }
-    } catch (parseError) {
-      console.error('❌ Failed to parse extraction response:', parseError)
-      // Return empty extraction result
-      extractionData = {
-        items: [],
-        image_analysis: {
-          estimated_dimensions: { width: 1000, height: 1000 },
-          lighting_quality: 'unknown',
-          background_complexity: 'unknown'
+      console.log(`✅ ${visionProvider.name} extraction completed`)
+      console.log('Raw response length:', analysisText.length)
+
+      // Parse the extraction results
+      try {
+        const jsonMatch = analysisText.match(/\{[\s\S]*\}/)
+        if (jsonMatch) {
+          extractionData = JSON.parse(jsonMatch[0])
+          parsedReply = true
+          console.log('✅ Successfully parsed extraction JSON')
+        } else {
+          throw new Error('No JSON found in vision model response')
+        }
+      } catch (parseError) {
+        console.error('❌ Failed to parse extraction response:', parseError)
+        // Return empty extraction result
+        extractionData = {
+          items: [],
+          image_analysis: {
+            estimated_dimensions: { width: 1000, height: 1000 },
+            lighting_quality: 'unknown',
+            background_complexity: 'unknown'
+          }
         }
       }
     }
 
+    const source = cached ? 'cache' : parsedReply ? visionProvider.name : 'fallback'
+    const extractedItems = (extractionData.items || []).map(normalizeExtractedItem)
+
     // Create extraction record in database
     const extractionId = crypto.randomUUID()
     const processingTime = Date.now() - startTime
@@ -242,12 +464,20 @@ Return JSON with this exact structure:
         id: extractionId,
         user_id: userId,
         original_image_path: imagePath,
+        extraction_type: extractionType,
         processing_status: 'completed',
+        image_hash: imageHash,
+        extraction_result: parsedReply ? extractionData : null,
+        // Unparseable replies are never reused
+        extraction_cache_key: parsedReply ? extractionCacheKey : null,
+        extraction_cached_from: cached?.extractionId ?? null,
         extracted_items_count: extractionData.items?.length || 0,
         processing_metadata: {
           image_dimensions: extractionData.image_analysis?.estimated_dimensions || { width: 0, height: 0 },
           processing_time_ms: processingTime,
-          ai_model_used: 'gpt-4o-mini',
+          ai_model_used: visionProvider.model,
+          vision_provider: visionProvider.name,
+          source,
           total_items_detected: extractionData.items?.length || 0,
           high_confidence_items: extractionData.items?.filter((item: any) => item.closet_suitability > 0.7).length || 0,
           lighting_quality: extractionData.image_analysis?.lighting_quality,
@@ -260,8 +490,8 @@ Return JSON with this exact structure:
     }
 
     // Store individual extracted items
-    if (extractionData.items && extractionData.items.length > 0) {
-      const itemInserts = extractionData.items.map((item: any) => ({
+    if (extractedItems.length > 0) {
+      const itemInserts = extractedItems.map((item: any) => ({
         id: crypto.randomUUID(),
         photo_extraction_id: extractionId,
         bounding_box: item.bounding_box,
@@ -269,7 +499,8 @@ Return JSON with this exact structure:
         extraction_confidence: item.closet_suitability,
         item_category: item.category,
         item_attributes: item.attributes,
-        confidence_scores: item.confidence_scores
+        confidence_scores: item.confidence_scores,
+        taxonomy_version: TAXONOMY_VERSION
       }))
 
       const { error: itemsInsertError } = await supabaseClient
@@ -284,17 +515,18 @@ Return JSON with this exact structure:
     const result: ExtractionResult = {
       success: true,
       extraction_id: extractionId,
-      items: extractionData.items || [],
+      source,
+      items: extractedItems,
       processing_metadata: {
         image_dimensions: extractionData.image_analysis?.estimated_dimensions || { width: 0, height: 0 },
         processing_time_ms: processingTime,
-        ai_model_used: 'gpt-4o-mini',
+        ai_model_used: visionProvider.model,
         total_items_detected: extractionData.items?.length || 0,
         high_confidence_items: extractionData.items?.filter((item: any) => item.closet_suitability > 0.7).length || 0
       }
     }
 
-    console.log(`🎯 Extraction completed: ${result.items.length} items detected`)
+    console.log(`🎯 Extraction completed (${source}): ${result.items.length} items detected`)
 
     return new Response(
       JSON.stringify(result),
@@ -0,0 +1,285 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { differenceHash, downloadImage, Image, uploadJpeg } from '../_shared/images.ts'
+import { createSegmenter, Segmenter } from '../_shared/segmentation/index.ts'
+import { composeProductShot } from './productShot.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const ORIGINALS_BUCKET = 'private-uploads'
+// Extra margin around each box, as a fraction of the box size, so hems and
+// sleeves clipped by a tight box are kept
+const CROP_PADDING = 0.08
+const CROP_MAX_DIMENSION = 800
+const CROP_JPEG_QUALITY = 80
+const PRODUCT_SHOT_JPEG_QUALITY = 85
+
+interface ProcessRequest {
+  extractionId: string;
+  itemIds?: string[]; // defaults to every item without a crop
+}
+
+interface BoundingBox {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface CropOutcome {
+  itemId: string;
+  status: 'completed' | 'failed';
+  croppedImagePath?: string;
+  productImagePath?: string;
+  backgroundRemoval?: 'completed' | 'failed';
+  error?: string;
+}
+
+/**
+ * Cut a percent bounding box (plus padding) out of the original and scale
+ * it down to at most CROP_MAX_DIMENSION on its longer side
+ */
+const cropItem = (original: Image, box: BoundingBox): Image => {
+  const x1 = Math.min(box.x1, box.x2)
+  const x2 = Math.max(box.x1, box.x2)
+  const y1 = Math.min(box.y1, box.y2)
+  const y2 = Math.max(box.y1, box.y2)
+
+  const padX = (x2 - x1) * CROP_PADDING
+  const padY = (y2 - y1) * CROP_PADDING
+  const left = Math.max(0, Math.floor(((x1 - padX) / 100) * original.width))
+  const top = Math.max(0, Math.floor(((y1 - padY) / 100) * original.height))
+  const right = Math.min(original.width, Math.ceil(((x2 + padX) / 100) * original.width))
+  const bottom = Math.min(original.height, Math.ceil(((y2 + padY) / 100) * original.height))
+
+  if (right - left < 2 || bottom - top < 2) {
+    throw new Error(`Bounding box is empty after clamping: ${JSON.stringify(box)}`)
+  }
+
+  const crop = original.clone().crop(left, top, right - left, bottom - top)
+
+  if (Math.max(crop.width, crop.height) > CROP_MAX_DIMENSION) {
+    return crop.width >= crop.height
+      ? crop.resize(CROP_MAX_DIMENSION, Image.RESIZE_AUTO)
+      : crop.resize(Image.RESIZE_AUTO, CROP_MAX_DIMENSION)
+  }
+
+  return crop
+}
+
+/**
+ * Remove the background from a crop and store the white-background product
+ * shot next to it. Failures are reported, not thrown: the raw crop is still
+ * a usable closet image.
+ */
+const createProductShot = async (
+  supabaseClient: SupabaseClient,
+  segmenter: Segmenter,
+  crop: Image,
+  croppedImagePath: string
+): Promise<{ productImagePath?: string; error?: string }> => {
+  try {
+    const mask = await segmenter.segment(crop)
+    const productImagePath = croppedImagePath.replace(/\.jpg$/, '_product.jpg')
+    await uploadJpeg(
+      supabaseClient,
+      ORIGINALS_BUCKET,
+      productImagePath,
+      composeProductShot(crop, mask),
+      PRODUCT_SHOT_JPEG_QUALITY
+    )
+    return { productImagePath }
+  } catch (segmentError: any) {
+    console.error(`❌ Background removal failed for ${croppedImagePath}:`, segmentError)
+    return { error: segmentError.message }
+  }
+}
+
+const setProcessingStatus = async (
+  supabaseClient: SupabaseClient,
+  itemIds: string[],
+  status: 'processing' | 'failed'
+) => {
+  const { error } = await supabaseClient
+    .from('extracted_clothing_items')
+    .update({ image_processing_status: status })
+    .in('id', itemIds)
+
+  if (error) {
+    console.error(`Failed to mark items ${status}:`, error)
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+
+    // The function writes with the service role, so the caller must own the extraction
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Not authenticated' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      )
+    }
+
+    const segmenter = createSegmenter()
+    const { extractionId, itemIds } = await req.json() as ProcessRequest
+
+    console.log('Processing item images:', { extractionId, itemIds })
+
+    const { data: extraction, error: extractionError } = await supabaseClient
+      .from('photo_extractions')
+      .select('user_id, original_image_path')
+      .eq('id', extractionId)
+      .single()
+
+    if (extractionError || !extraction) {
+      throw new Error(`Failed to load extraction: ${extractionError?.message}`)
+    }
+
+    if (extraction.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Extraction does not belong to this user' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403
+        }
+      )
+    }
+
+    if (!extraction.original_image_path) {
+      throw new Error('The original photo has already been deleted')
+    }
+
+    let itemsQuery = supabaseClient
+      .from('extracted_clothing_items')
+      .select('id, bounding_box')
+      .eq('photo_extraction_id', extractionId)
+
+    itemsQuery = itemIds && itemIds.length > 0
+      ? itemsQuery.in('id', itemIds)
+      : itemsQuery.is('cropped_image_path', null)
+
+    const { data: items, error: itemsError } = await itemsQuery
+    if (itemsError) {
+      throw new Error(`Failed to load extracted items: ${itemsError.message}`)
+    }
+
+    const outcomes: CropOutcome[] = []
+
+    if (items && items.length > 0) {
+      await setProcessingStatus(supabaseClient, items.map((item: any) => item.id), 'processing')
+
+      let original: Image
+      try {
+        original = await downloadImage(supabaseClient, ORIGINALS_BUCKET, extraction.original_image_path)
+      } catch (downloadError) {
+        await setProcessingStatus(supabaseClient, items.map((item: any) => item.id), 'failed')
+        throw downloadError
+      }
+
+      console.log(`✂️ Cropping ${items.length} items from ${original.width}x${original.height} original`, {
+        segmenter: segmenter?.name || 'none'
+      })
+
+      for (const item of items) {
+        try {
+          const crop = cropItem(original, item.bounding_box)
+          const croppedImagePath = `${extraction.user_id}/items/${extractionId}/${item.id}.jpg`
+          await uploadJpeg(supabaseClient, ORIGINALS_BUCKET, croppedImagePath, crop, CROP_JPEG_QUALITY)
+
+          const productShot = segmenter
+            ? await createProductShot(supabaseClient, segmenter, crop, croppedImagePath)
+            : null
+          const backgroundRemoval = productShot
+            ? (productShot.productImagePath ? 'completed' : 'failed')
+            : undefined
+
+          const { error: updateError } = await supabaseClient
+            .from('extracted_clothing_items')
+            .update({
+              cropped_image_path: croppedImagePath,
+              image_processing_status: 'completed',
+              image_dhash: differenceHash(crop), // compared against the closet for duplicates
+              ...(segmenter && productShot && {
+                product_image_path: productShot.productImagePath || null,
+                background_removal_status: backgroundRemoval,
+                background_removal_metadata: {
+                  segmenter: segmenter.name,
+                  error: productShot.error,
+                  processed_at: new Date().toISOString()
+                }
+              })
+            })
+            .eq('id', item.id)
+
+          if (updateError) {
+            throw new Error(`Failed to record crop: ${updateError.message}`)
+          }
+
+          outcomes.push({
+            itemId: item.id,
+            status: 'completed',
+            croppedImagePath,
+            productImagePath: productShot?.productImagePath,
+            backgroundRemoval
+          })
+        } catch (cropError: any) {
+          console.error(`❌ Failed to crop item ${item.id}:`, cropError)
+          await setProcessingStatus(supabaseClient, [item.id], 'failed')
+          outcomes.push({ itemId: item.id, status: 'failed', error: cropError.message })
+        }
+      }
+    }
+
+    const cropped = outcomes.filter(outcome => outcome.status === 'completed').length
+    const productShots = outcomes.filter(outcome => outcome.productImagePath).length
+    console.log(`🎯 Cropped ${cropped}/${outcomes.length} items, ${productShots} product shots`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        extractionId,
+        processed: outcomes
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error: any) {
+    console.error('Error in process-item-images function:', error)
+
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to process item images',
+        success: false
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
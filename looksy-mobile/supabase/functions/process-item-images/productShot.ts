@@ -0,0 +1,64 @@
+import { Image } from '../_shared/images.ts'
+
+// Square canvas every product shot is centred on, so closet cards line up
+const PRODUCT_SHOT_SIZE = 600
+// Share of the canvas the garment may fill on its longer side
+const PRODUCT_SHOT_FILL = 0.88
+// Mask coverage counted as garment when trimming to the foreground
+const FOREGROUND_THRESHOLD = 128
+const WHITE = 0xffffffff
+
+/**
+ * Cut the garment out of a crop with its foreground mask and centre it on a
+ * white square, scaled to the same fill ratio as every other product shot
+ */
+export const composeProductShot = (crop: Image, mask: Uint8Array): Image => {
+  const { width, height } = crop
+
+  if (mask.length !== width * height) {
+    throw new Error(`Mask has ${mask.length} pixels, expected ${width * height}`)
+  }
+
+  let left = width
+  let top = height
+  let right = -1
+  let bottom = -1
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] >= FOREGROUND_THRESHOLD) {
+        left = Math.min(left, x)
+        right = Math.max(right, x)
+        top = Math.min(top, y)
+        bottom = Math.max(bottom, y)
+      }
+    }
+  }
+
+  if (right < 0) {
+    throw new Error('Segmenter found no foreground in the crop')
+  }
+
+  // Mask coverage becomes the alpha channel so edges blend into the white
+  const foreground = crop.clone()
+  for (let index = 0; index < mask.length; index++) {
+    foreground.bitmap[index * 4 + 3] = mask[index]
+  }
+  foreground.crop(left, top, right - left + 1, bottom - top + 1)
+
+  const maxSide = PRODUCT_SHOT_SIZE * PRODUCT_SHOT_FILL
+  const scale = maxSide / Math.max(foreground.width, foreground.height)
+  foreground.resize(
+    Math.max(1, Math.round(foreground.width * scale)),
+    Math.max(1, Math.round(foreground.height * scale))
+  )
+
+  const canvas = new Image(PRODUCT_SHOT_SIZE, PRODUCT_SHOT_SIZE).fill(WHITE)
+  canvas.composite(
+    foreground,
+    Math.round((PRODUCT_SHOT_SIZE - foreground.width) / 2),
+    Math.round((PRODUCT_SHOT_SIZE - foreground.height) / 2)
+  )
+
+  return canvas
+}
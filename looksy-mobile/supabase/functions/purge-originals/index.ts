@@ -0,0 +1,147 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const ORIGINALS_BUCKET = 'private-uploads'
+
+interface DueOriginal {
+  source_table: 'outfits' | 'photo_extractions';
+  record_id: string;
+  user_id: string;
+  image_path: string;
+  retention: string;
+}
+
+interface PurgeOutcome {
+  table: string;
+  recordId: string;
+  path: string;
+  status: 'purged' | 'failed';
+  error?: string;
+}
+
+/**
+ * Null the original's path on its record and log the deletion
+ */
+const recordPurge = async (supabaseClient: SupabaseClient, original: DueOriginal): Promise<string | null> => {
+  const { error: updateError } = await supabaseClient
+    .from(original.source_table)
+    .update({ original_image_path: null, original_purged_at: new Date().toISOString() })
+    .eq('id', original.record_id)
+
+  if (updateError) {
+    return `Failed to clear original path: ${updateError.message}`
+  }
+
+  const { error: auditError } = await supabaseClient
+    .from('audit_logs')
+    .insert({
+      outfit_id: original.source_table === 'outfits' ? original.record_id : null,
+      user_id: original.user_id,
+      event_type: 'original_purged',
+      details: {
+        table: original.source_table,
+        record_id: original.record_id,
+        bucket: ORIGINALS_BUCKET,
+        path: original.image_path,
+        retention: original.retention
+      }
+    })
+
+  if (auditError) {
+    console.error('Failed to log original purge:', auditError)
+    // Continue - the object is already gone and the record updated
+  }
+
+  return null
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+    const batchSize = parseInt(Deno.env.get('PURGE_ORIGINALS_BATCH_SIZE') || '100', 10)
+
+    const { data: due, error: dueError } = await supabaseClient
+      .rpc('originals_due_for_purge', { p_limit: batchSize })
+
+    if (dueError) {
+      throw new Error(`Failed to find originals to purge: ${dueError.message}`)
+    }
+
+    const originals = (due || []) as DueOriginal[]
+    console.log(`🗑️ ${originals.length} originals due for purge`)
+
+    const outcomes: PurgeOutcome[] = []
+
+    if (originals.length > 0) {
+      // Removing an object that is already gone is not an error, so a
+      // previous run that died before updating the record is retried cleanly
+      const { error: removeError } = await supabaseClient.storage
+        .from(ORIGINALS_BUCKET)
+        .remove(originals.map(original => original.image_path))
+
+      if (removeError) {
+        throw new Error(`Failed to remove originals: ${removeError.message}`)
+      }
+
+      for (const original of originals) {
+        const failure = await recordPurge(supabaseClient, original)
+        if (failure) {
+          console.error(`❌ Purge of ${original.image_path} not recorded:`, failure)
+        }
+
+        outcomes.push({
+          table: original.source_table,
+          recordId: original.record_id,
+          path: original.image_path,
+          status: failure ? 'failed' : 'purged',
+          ...(failure ? { error: failure } : {})
+        })
+      }
+    }
+
+    const purged = outcomes.filter(outcome => outcome.status === 'purged').length
+    console.log(`✅ Purged ${purged} originals`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        purged,
+        processed: outcomes
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error: any) {
+    console.error('Error in purge-originals function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Failed to purge originals'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})